@@ -11,6 +11,11 @@ export const CACHE_CONFIG = {
   SEARCH_RESULTS_TTL: 300000, // 5 minutes
   MIN_SIZE: 1024 * 1024, // 1MB minimum
   MIN_TTL: 60000, // 1 minute minimum
+  DEFAULT_DISK_MAX_SIZE: 500 * 1024 * 1024, // 500MB
+  DISK_DIRECTORY_NAME: 'cache', // Below CACHE_DIR
+  DEFAULT_STALE_GRACE: 24 * 3600000, // 24 hours past expiry, PyPI documents only
+  REVALIDATION_RETENTION: 7 * 24 * 3600000, // Expired entries with an ETag or Last-Modified are kept a week for conditional requests
+  UNAVAILABLE_WHEEL_TTL: 600000, // 10 minutes, releases whose wheel could not be read
 } as const;
 
 export const VALIDATION_LIMITS = {
@@ -22,6 +27,8 @@ export const VALIDATION_LIMITS = {
 } as const;
 
 export const README_CONFIG = {
+  MIN_README_LENGTH: 300, // Shorter PyPI descriptions trigger the repository fallback
+  MAX_REDIRECT_README_LENGTH: 1000,
   MIN_CODE_BLOCK_LENGTH: 10,
   MAX_CODE_BLOCK_LENGTH: 5000,
   IDEAL_EXAMPLE_LENGTH: 200,
@@ -31,12 +38,136 @@ export const README_CONFIG = {
 
 export const PYPI_CONFIG = {
   BASE_URL: 'https://pypi.org/pypi',
+  SIMPLE_URL: 'https://pypi.org/simple',
   JSON_ENDPOINT_SUFFIX: '/json',
   DEFAULT_VERSION: 'latest',
+  DEFAULT_INDEX_NAME: 'pypi',
+  MAX_WHEEL_DOWNLOAD: 20 * 1024 * 1024, // Whole wheels read from indexes without range requests
 } as const;
 
-export const LIBRARIES_IO_CONFIG = {
-  BASE_URL: 'https://libraries.io/api',
-  SEARCH_ENDPOINT: '/search',
-  PLATFORM: 'Pypi',
-} as const;
\ No newline at end of file
+export const SEARCH_INDEX_CONFIG = {
+  INDEX_TTL: 24 * 3600000, // 24 hours
+  DOWNLOAD_TIMEOUT: 120000, // 2 minutes, the project list is tens of megabytes
+  SNAPSHOT_FILE: 'simple-index.json',
+  DIRECTORY_NAME: 'pip-package-readme-mcp',
+  MIN_FUZZY_QUERY_LENGTH: 4,
+  MAX_FUZZY_DISTANCE: 3,
+  ENRICH_CONCURRENCY: 8,
+  MAX_ENRICHED_RESULTS: 20, // Matches past these are returned by name only
+} as const;
+
+export const DEPENDENCY_TREE_CONFIG = {
+  DEFAULT_MAX_DEPTH: 3,
+  MAX_DEPTH: 10,
+  DEFAULT_PYTHON_VERSION: '3.12',
+  DEFAULT_PLATFORM: 'linux',
+  FETCH_CONCURRENCY: 8,
+} as const;
+
+export const MANIFEST_CONFIG = {
+  MAX_PACKAGES: 100,
+  FETCH_CONCURRENCY: 8,
+  MAX_INCLUDE_DEPTH: 10,
+} as const;
+
+export const OUTDATED_CONFIG = {
+  MAX_PACKAGES: 500,
+  FETCH_CONCURRENCY: 8,
+} as const;
+
+export const PROMPT_CONFIG = {
+  MAX_README_LENGTH: 20000,   // Characters of README embedded per prompt, shared by the compared packages
+  RECENT_RELEASES: 10,
+  MAX_COMPARED_PACKAGES: 5,
+} as const;
+
+export const RELEASE_HISTORY_CONFIG = {
+  MAX_LIMIT: 1000,
+} as const;
+
+export const WHEEL_COMPATIBILITY_CONFIG = {
+  DEFAULT_PYTHON_VERSIONS: ['3.9', '3.10', '3.11', '3.12', '3.13'],
+  DEFAULT_ARCHITECTURE: 'x86_64',
+  DEFAULT_LIBC: 'glibc',
+  // Columns of the matrix; other targets are added when a wheel ships for them
+  TARGETS: [
+    { platform: 'linux', architecture: 'x86_64', libc: 'glibc' },
+    { platform: 'linux', architecture: 'aarch64', libc: 'glibc' },
+    { platform: 'linux', architecture: 'x86_64', libc: 'musl' },
+    { platform: 'linux', architecture: 'aarch64', libc: 'musl' },
+    { platform: 'darwin', architecture: 'x86_64' },
+    { platform: 'darwin', architecture: 'aarch64' },
+    { platform: 'win32', architecture: 'x86_64' },
+    { platform: 'win32', architecture: 'i686' },
+    { platform: 'win32', architecture: 'aarch64' },
+  ],
+} as const;
+
+export const API_SURFACE_CONFIG = {
+  MAX_MODULES: 200,
+  // Directories and files of test suites, which are not part of the API
+  TEST_PATH: /(?:^|\/)(?:tests?\/|test_[^/]*\.pyi?$|[^/]*_test\.pyi?$|conftest\.py$)/,
+} as const;
+
+export const IMPORT_NAME_CONFIG = {
+  FETCH_CONCURRENCY: 4,
+  // Import names whose distributions cannot be guessed from the name
+  KNOWN_PROVIDERS: {
+    'attr': ['attrs'],
+    'Bio': ['biopython'],
+    'bs4': ['beautifulsoup4'],
+    'Crypto': ['pycryptodome'],
+    'cv2': ['opencv-python', 'opencv-python-headless'],
+    'dateutil': ['python-dateutil'],
+    'discord': ['discord.py'],
+    'docx': ['python-docx'],
+    'dotenv': ['python-dotenv'],
+    'fitz': ['PyMuPDF'],
+    'gi': ['PyGObject'],
+    'git': ['GitPython'],
+    'google.protobuf': ['protobuf'],
+    'grpc': ['grpcio'],
+    'jose': ['python-jose'],
+    'jwt': ['PyJWT'],
+    'kafka': ['kafka-python'],
+    'ldap': ['python-ldap'],
+    'magic': ['python-magic'],
+    'multipart': ['python-multipart'],
+    'MySQLdb': ['mysqlclient'],
+    'nacl': ['PyNaCl'],
+    'OpenGL': ['PyOpenGL'],
+    'OpenSSL': ['pyOpenSSL'],
+    'PIL': ['Pillow'],
+    'pkg_resources': ['setuptools'],
+    'pptx': ['python-pptx'],
+    'psycopg2': ['psycopg2-binary', 'psycopg2'],
+    'serial': ['pyserial'],
+    'skimage': ['scikit-image'],
+    'sklearn': ['scikit-learn'],
+    'slugify': ['python-slugify'],
+    'socketio': ['python-socketio'],
+    'telegram': ['python-telegram-bot'],
+    'usb': ['pyusb'],
+    'win32api': ['pywin32'],
+    'wx': ['wxPython'],
+    'yaml': ['PyYAML'],
+    'zmq': ['pyzmq'],
+  } as Record<string, readonly string[]>,
+} as const;
+
+export const VULNERABILITY_CONFIG = {
+  MAX_VERSIONS: 50,
+  FETCH_CONCURRENCY: 8,
+} as const;
+
+export const TRANSPORT_CONFIG = {
+  DEFAULT_HOST: '127.0.0.1',
+  DEFAULT_PORT: 3000,
+  MCP_PATH: '/mcp',               // Streamable HTTP
+  SSE_PATH: '/sse',               // Deprecated HTTP+SSE transport, for older clients
+  SSE_MESSAGES_PATH: '/messages',
+  HEALTH_PATH: '/health',
+  MAX_SESSIONS: 1000,
+  DEFAULT_SESSION_TIMEOUT: 30 * 60000, // 30 minutes without requests
+  SESSION_SWEEP_INTERVAL: 60000, // 1 minute, or the session timeout when that is shorter
+} as const;
@@ -0,0 +1,121 @@
+import { TRANSPORT_CONFIG } from './constants.js';
+import { PackageReadmeMcpError, TransportConfig } from '../types/index.js';
+
+const FLAGS: Record<string, keyof TransportOptions> = {
+  '--transport': 'transport',
+  '--host': 'host',
+  '--port': 'port',
+  '--cors-origin': 'corsOrigins',
+  '--auth-token': 'authToken',
+  '--session-timeout': 'sessionTimeout',
+};
+
+interface TransportOptions {
+  transport?: string;
+  host?: string;
+  port?: string;
+  corsOrigins?: string;
+  authToken?: string;
+  sessionTimeout?: string;
+}
+
+/**
+ * Reads how clients reach the server from the command line, falling back to the environment.
+ *
+ * - `--transport` / `MCP_TRANSPORT`: `stdio` (default) or `http`
+ * - `--host` / `MCP_HOST`, `--port` / `MCP_PORT`: address the HTTP transport listens on
+ * - `--cors-origin` / `MCP_CORS_ORIGINS`: comma-separated browser origins allowed to connect, `*` for any
+ * - `--auth-token` / `MCP_AUTH_TOKEN`: bearer token HTTP clients must present
+ * - `--session-timeout` / `MCP_SESSION_TIMEOUT`: seconds without requests before an HTTP session is closed, 0 for never
+ *
+ * Flags take `--flag value` or `--flag=value`; `--cors-origin` may be repeated.
+ */
+export function loadTransportConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportConfig {
+  const flags = parseFlags(argv);
+  const transport = flags.transport ?? env.MCP_TRANSPORT ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new PackageReadmeMcpError(`Unknown transport "${transport}". Use stdio or http`, 'INVALID_CONFIGURATION');
+  }
+
+  const host = flags.host ?? env.MCP_HOST ?? TRANSPORT_CONFIG.DEFAULT_HOST;
+  if (!host.trim()) {
+    throw new PackageReadmeMcpError('The HTTP host must not be empty', 'INVALID_CONFIGURATION');
+  }
+
+  return {
+    mode: transport,
+    host: host.trim(),
+    port: parsePort(flags.port ?? env.MCP_PORT),
+    corsOrigins: parseOrigins(flags.corsOrigins ?? env.MCP_CORS_ORIGINS),
+    authToken: (flags.authToken ?? env.MCP_AUTH_TOKEN) || undefined,
+    sessionTimeout: parseSessionTimeout(flags.sessionTimeout ?? env.MCP_SESSION_TIMEOUT),
+  };
+}
+
+function parseFlags(argv: string[]): TransportOptions {
+  const options: TransportOptions = {};
+  for (let position = 0; position < argv.length; position++) {
+    const [flag, inline] = splitFlag(argv[position]);
+    const option = FLAGS[flag];
+    if (!option) {
+      throw new PackageReadmeMcpError(
+        `Unknown option "${argv[position]}". Supported options: ${Object.keys(FLAGS).join(', ')}`,
+        'INVALID_CONFIGURATION'
+      );
+    }
+
+    const value = inline ?? argv[++position];
+    if (value === undefined || (inline === undefined && value.startsWith('--'))) {
+      throw new PackageReadmeMcpError(`${flag} needs a value`, 'INVALID_CONFIGURATION');
+    }
+    options[option] = option === 'corsOrigins' && options.corsOrigins !== undefined
+      ? `${options.corsOrigins},${value}`
+      : value;
+  }
+  return options;
+}
+
+function splitFlag(arg: string): [string, string | undefined] {
+  const separator = arg.indexOf('=');
+  return separator === -1 ? [arg, undefined] : [arg.slice(0, separator), arg.slice(separator + 1)];
+}
+
+function parsePort(value: string | undefined): number {
+  if (value === undefined || value === '') {
+    return TRANSPORT_CONFIG.DEFAULT_PORT;
+  }
+  const port = Number(value);
+  if (!/^\d+$/.test(value.trim()) || port < 0 || port > 65535) {
+    throw new PackageReadmeMcpError(`Invalid port "${value}". Use a number from 0 to 65535`, 'INVALID_CONFIGURATION');
+  }
+  return port;
+}
+
+function parseSessionTimeout(value: string | undefined): number {
+  if (value === undefined || value === '') {
+    return TRANSPORT_CONFIG.DEFAULT_SESSION_TIMEOUT;
+  }
+  if (!/^\d+$/.test(value.trim())) {
+    throw new PackageReadmeMcpError(`Invalid session timeout "${value}". Use a number of seconds, or 0 to never close idle sessions`, 'INVALID_CONFIGURATION');
+  }
+  return Number(value) * 1000;
+}
+
+function parseOrigins(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  const origins = value.split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+  for (const origin of origins) {
+    if (origin !== '*' && !/^https?:\/\/[^/\s]+$/.test(origin)) {
+      throw new PackageReadmeMcpError(
+        `Invalid CORS origin "${origin}". Use an origin such as https://app.example.com, or * for any`,
+        'INVALID_CONFIGURATION'
+      );
+    }
+  }
+  return origins;
+}
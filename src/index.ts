@@ -1,19 +1,34 @@
 #!/usr/bin/env node
 
 import { logger } from './utils/logger.js';
+import { cache } from './services/cache.js';
+import { pypiClient } from './services/pypi-api.js';
+import { loadPackageIndexes } from './config/indexes.js';
+import { loadTransportConfig } from './config/transport.js';
+import { HttpServerHandle, startHttpServer } from './transport/http-server.js';
 import PackageReadmeMcpServer from './server.js';
 
 async function main() {
   try {
     logger.info('Starting pip-package-readme-mcp server...');
-    
-    const server = new PackageReadmeMcpServer();
-    
+
+    const config = loadTransportConfig();
+    pypiClient.configureIndexes(loadPackageIndexes());
+    // Over HTTP every session gets its own server instance
+    const server = config.mode === 'stdio' ? new PackageReadmeMcpServer() : null;
+    let httpServer: HttpServerHandle | null = null;
+
     // Handle graceful shutdown
     const shutdown = async (signal: string) => {
       logger.info(`Received ${signal}, shutting down gracefully...`);
       try {
-        await server.stop();
+        if (httpServer) {
+          await httpServer.close();
+        } else if (server) {
+          await server.close();
+        }
+        // Disk cache writes run in the background
+        await cache.flush();
         logger.info('Server stopped successfully');
         process.exit(0);
       } catch (error) {
@@ -24,7 +39,7 @@ async function main() {
 
     process.on('SIGINT', () => shutdown('SIGINT'));
     process.on('SIGTERM', () => shutdown('SIGTERM'));
-    
+
     // Handle uncaught exceptions
     process.on('uncaughtException', (error) => {
       logger.error('Uncaught exception', { error });
@@ -37,9 +52,13 @@ async function main() {
     });
 
     // Start the server
-    await server.run();
-    logger.info('pip-package-readme-mcp server started successfully');
-    
+    if (server) {
+      await server.run();
+    } else {
+      httpServer = await startHttpServer(config, () => new PackageReadmeMcpServer());
+    }
+    logger.info(`pip-package-readme-mcp server started successfully (${config.mode})`);
+
   } catch (error) {
     logger.error('Failed to start server', { error });
     process.exit(1);
@@ -50,4 +69,4 @@ async function main() {
 main().catch((error) => {
   logger.error('Fatal error', { error });
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,313 @@
+import type { GetPromptResult, Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+import { validatePackageName, validateVersion } from '../utils/validators-simple.js';
+import { compareVersions } from '../utils/pep440.js';
+import { parseRequirement } from '../utils/pep508.js';
+import { pypiClient } from '../services/pypi-api.js';
+import { DependencyInfoBuilder, RepositoryInfoBuilder, requireExistingReadme } from '../services/package-readme/index.js';
+import { getPackageReadme } from '../tools/get-package-readme.js';
+import { getPackageInfo } from '../tools/get-package-info.js';
+import { getReleaseHistory } from '../tools/get-release-history.js';
+import { getVulnerabilities } from '../tools/get-vulnerabilities.js';
+import { PROMPT_CONFIG } from '../config/constants.js';
+import {
+  PackageDependency,
+  PackageReadmeMcpError,
+  PackageReadmeResponse,
+  PyPIPackageInfo,
+  ReleaseHistoryResponse,
+} from '../types/index.js';
+
+const dependencyInfoBuilder = new DependencyInfoBuilder();
+const repositoryInfoBuilder = new RepositoryInfoBuilder();
+
+type PromptArguments = Record<string, string | undefined>;
+
+interface DependencyChanges {
+  added: string[];
+  removed: string[];
+  changed: Array<{ name: string; from: string; to: string }>;
+}
+
+export const PROMPT_DEFINITIONS: Prompt[] = [
+  {
+    name: 'evaluate-package',
+    description: 'Evaluate whether a PyPI package is fit to adopt, from its README, metadata, release health and known vulnerabilities',
+    arguments: [
+      { name: 'package', description: 'The name of the Python package', required: true },
+      { name: 'version', description: 'The version or PEP 440 specifier to evaluate (default: latest)', required: false },
+      { name: 'use_case', description: 'What the package would be used for', required: false },
+    ],
+  },
+  {
+    name: 'migrate-between-versions',
+    description: 'Plan an upgrade of a PyPI package, from the READMEs of both versions, their dependency changes and the releases in between',
+    arguments: [
+      { name: 'package', description: 'The name of the Python package', required: true },
+      { name: 'from_version', description: 'The version currently in use', required: true },
+      { name: 'to_version', description: 'The version to migrate to (default: latest)', required: false },
+    ],
+  },
+  {
+    name: 'choose-between-packages',
+    description: 'Compare candidate PyPI packages side by side and recommend one',
+    arguments: [
+      { name: 'packages', description: `Comma-separated names of 2 to ${PROMPT_CONFIG.MAX_COMPARED_PACKAGES} packages, e.g. "httpx, requests, aiohttp"`, required: true },
+      { name: 'use_case', description: 'What the package would be used for', required: false },
+    ],
+  },
+];
+
+/**
+ * Builds the messages of a prompt. The tool results the prompt is about are fetched
+ * now and embedded, READMEs as pip:// resources, so the client can send the messages
+ * as they are.
+ */
+export async function getPackagePrompt(name: string, args: PromptArguments = {}): Promise<GetPromptResult> {
+  logger.info(`Building prompt: ${name}`);
+
+  switch (name) {
+    case 'evaluate-package':
+      return await buildEvaluatePackage(args);
+    case 'migrate-between-versions':
+      return await buildMigrateBetweenVersions(args);
+    case 'choose-between-packages':
+      return await buildChooseBetweenPackages(args);
+    default:
+      throw new PackageReadmeMcpError(`Unknown prompt: ${name}`, 'VALIDATION_ERROR');
+  }
+}
+
+async function buildEvaluatePackage(args: PromptArguments): Promise<GetPromptResult> {
+  const packageName = requirePackage(args.package, 'package');
+  const version = optionalVersion(args.version);
+
+  const readme = await fetchReadme(packageName, version);
+  const [release, history, vulnerabilities] = await Promise.all([
+    optional(pypiClient.getVersionInfo(packageName, readme.version), `metadata of ${packageName}@${readme.version}`),
+    optional(getReleaseHistory({ package_name: packageName, include_files: false }), `release history of ${packageName}`),
+    optional(getVulnerabilities({ package_name: packageName, version: readme.version }), `vulnerabilities of ${packageName}`),
+  ]);
+
+  const useCase = args.use_case ? ` for this use case: ${args.use_case}` : '';
+  return {
+    description: `Evaluate ${readme.package_name} ${readme.version}`,
+    messages: [
+      text([
+        `Evaluate the Python package ${readme.package_name} ${readme.version}${useCase}.`,
+        'Using the README, metadata, release history and known vulnerabilities below, assess:',
+        '- what the package does and how well its API is documented',
+        '- maintenance health: release cadence, time since the latest release and yanked releases',
+        '- license, supported Python versions and the weight of its dependencies',
+        '- known vulnerabilities of this version and whether fixes are released',
+        'Finish with a recommendation (adopt, adopt with caution or avoid) and the main risks.',
+      ].join('\n')),
+      readmeResource(readme, PROMPT_CONFIG.MAX_README_LENGTH),
+      json(`Package metadata of ${readme.version}`, release && releaseMetadata(release)),
+      json('Recent releases and release cadence (get_release_history_from_pip)', history && recentHistory(history)),
+      json(`Known vulnerabilities of ${readme.version} (get_vulnerabilities_from_pip)`, vulnerabilities),
+    ],
+  };
+}
+
+async function buildMigrateBetweenVersions(args: PromptArguments): Promise<GetPromptResult> {
+  const packageName = requirePackage(args.package, 'package');
+  if (!args.from_version) {
+    throw new PackageReadmeMcpError('from_version is required', 'VALIDATION_ERROR');
+  }
+  validateVersion(args.from_version);
+  const toVersion = optionalVersion(args.to_version);
+
+  const from = await fetchReadme(packageName, args.from_version);
+  const to = await fetchReadme(packageName, toVersion);
+  if (compareVersions(from.version, to.version) >= 0) {
+    throw new PackageReadmeMcpError(`${from.version} is not older than ${to.version}`, 'VALIDATION_ERROR');
+  }
+
+  const [fromInfo, toInfo, history] = await Promise.all([
+    pypiClient.getVersionInfo(packageName, from.version),
+    pypiClient.getVersionInfo(packageName, to.version),
+    optional(getReleaseHistory({ package_name: packageName, include_files: false }), `release history of ${packageName}`),
+  ]);
+  const between = history?.releases
+    .filter(release => compareVersions(release.version, from.version) > 0 && compareVersions(release.version, to.version) <= 0)
+    .map(({ version, upload_time, yanked, yanked_reason, prerelease }) => ({ version, upload_time, yanked, yanked_reason, prerelease }));
+
+  // Each README gets half of the budget
+  const readmeLength = Math.floor(PROMPT_CONFIG.MAX_README_LENGTH / 2);
+  return {
+    description: `Migrate ${to.package_name} from ${from.version} to ${to.version}`,
+    messages: [
+      text([
+        `Plan the migration of a project from ${to.package_name} ${from.version} to ${to.version}.`,
+        'Compare the two READMEs below and use the dependency changes and the releases in between to list:',
+        '- breaking changes and removed or renamed APIs, with the code changes they need',
+        '- new features worth adopting',
+        '- dependency and Python version changes that affect the environment',
+        '- yanked releases and pre-releases to avoid',
+        'Finish with an ordered checklist of migration steps.',
+      ].join('\n')),
+      readmeResource(from, readmeLength),
+      readmeResource(to, readmeLength),
+      json(`Dependency changes from ${from.version} to ${to.version}`, {
+        requires_python: { from: fromInfo.info.requires_python || null, to: toInfo.info.requires_python || null },
+        ...diffDependencies(fromInfo.info.requires_dist ?? [], toInfo.info.requires_dist ?? []),
+      }),
+      json(`Releases after ${from.version} up to ${to.version} (get_release_history_from_pip)`, between),
+    ],
+  };
+}
+
+async function buildChooseBetweenPackages(args: PromptArguments): Promise<GetPromptResult> {
+  const packages = Array.from(new Set((args.packages ?? '').split(/[,\s]+/).map(name => name.trim()).filter(Boolean)));
+  if (packages.length < 2 || packages.length > PROMPT_CONFIG.MAX_COMPARED_PACKAGES) {
+    throw new PackageReadmeMcpError(`packages must name 2 to ${PROMPT_CONFIG.MAX_COMPARED_PACKAGES} packages, separated by commas`, 'VALIDATION_ERROR');
+  }
+  packages.forEach(packageName => validatePackageName(packageName));
+
+  const candidates = await Promise.all(packages.map(async packageName => {
+    const readme = await fetchReadme(packageName);
+    const [info, history, vulnerabilities] = await Promise.all([
+      optional(getPackageInfo({ package_name: packageName }), `package info of ${packageName}`),
+      optional(getReleaseHistory({ package_name: packageName, include_files: false }), `release history of ${packageName}`),
+      optional(getVulnerabilities({ package_name: packageName }), `vulnerabilities of ${packageName}`),
+    ]);
+    return { readme, info, history, vulnerabilities };
+  }));
+
+  const useCase = args.use_case ? ` for this use case: ${args.use_case}` : '';
+  const readmeLength = Math.floor(PROMPT_CONFIG.MAX_README_LENGTH / packages.length);
+  return {
+    description: `Choose between ${candidates.map(candidate => candidate.readme.package_name).join(', ')}`,
+    messages: [
+      text([
+        `Choose between the Python packages ${candidates.map(candidate => candidate.readme.package_name).join(', ')}${useCase}.`,
+        'Compare them on features, API ergonomics, documentation, maintenance activity, popularity, license, dependencies and known vulnerabilities, using the READMEs and summaries below.',
+        'Present the comparison as a table, then recommend one package and explain when another would be the better choice.',
+      ].join('\n')),
+      ...candidates.flatMap(({ readme, info, history, vulnerabilities }) => [
+        readmeResource(readme, readmeLength),
+        json(`Summary of ${readme.package_name}`, {
+          latest_version: readme.version,
+          description: readme.description,
+          license: info?.license,
+          requires_python: info?.requires_python,
+          dependencies: info?.dependencies?.map(dependency => dependency.requirement),
+          download_stats: info?.download_stats,
+          repository: info?.repository,
+          release_history: history ? recentHistory(history) : undefined,
+          vulnerabilities: vulnerabilities?.vulnerabilities.map(vulnerability => vulnerability.id),
+        }),
+      ]),
+    ],
+  };
+}
+
+async function fetchReadme(packageName: string, version?: string): Promise<PackageReadmeResponse> {
+  return requireExistingReadme(await getPackageReadme({ package_name: packageName, version }));
+}
+
+function requirePackage(value: string | undefined, argument: string): string {
+  if (!value) {
+    throw new PackageReadmeMcpError(`${argument} is required`, 'VALIDATION_ERROR');
+  }
+  validatePackageName(value);
+  return value.trim();
+}
+
+function optionalVersion(value: string | undefined): string {
+  if (!value || value === 'latest') {
+    return 'latest';
+  }
+  validateVersion(value);
+  return value;
+}
+
+// Supporting data is left out of the prompt, rather than failing it, when it cannot be fetched
+async function optional<T>(promise: Promise<T>, description: string): Promise<T | null> {
+  try {
+    return await promise;
+  } catch (error) {
+    logger.warn(`Leaving ${description} out of the prompt`, { error });
+    return null;
+  }
+}
+
+// get_package_info_from_pip describes the latest release, which need not be the one evaluated
+function releaseMetadata(release: PyPIPackageInfo) {
+  const { dependencies, optional_dependencies } = dependencyInfoBuilder.build(release);
+  return {
+    version: release.info.version,
+    license: release.info.license || null,
+    requires_python: release.info.requires_python || null,
+    dependencies: dependencies.map(dependency => dependency.requirement),
+    extras: Object.keys(optional_dependencies),
+    classifiers: release.info.classifiers ?? [],
+    repository: repositoryInfoBuilder.build(release) ?? null,
+  };
+}
+
+function recentHistory(history: ReleaseHistoryResponse) {
+  return {
+    latest_version: history.latest_version,
+    total_releases: history.total_releases,
+    statistics: history.statistics,
+    yanked_releases: history.releases.filter(release => release.yanked).map(release => release.version),
+    recent_releases: history.releases.slice(0, PROMPT_CONFIG.RECENT_RELEASES)
+      .map(({ version, upload_time, yanked, prerelease }) => ({ version, upload_time, yanked, prerelease })),
+  };
+}
+
+/**
+ * Compares requirements by project name and marker, so that the requirements of
+ * each extra (`extra == "socks"`) are compared with each other.
+ */
+function diffDependencies(from: string[], to: string[]): DependencyChanges {
+  const index = (requirements: string[]) => new Map(requirements
+    .map(requirement => parseRequirement(requirement))
+    .filter((dependency): dependency is PackageDependency => dependency !== null)
+    .map(dependency => [dependencyKey(dependency), dependency]));
+  const before = index(from);
+  const after = index(to);
+
+  return {
+    added: Array.from(after.entries()).filter(([key]) => !before.has(key)).map(([, dependency]) => dependency.requirement),
+    removed: Array.from(before.entries()).filter(([key]) => !after.has(key)).map(([, dependency]) => dependency.requirement),
+    changed: Array.from(after.entries())
+      .filter(([key, dependency]) => before.has(key) && before.get(key)!.requirement !== dependency.requirement)
+      .map(([key, dependency]) => ({ name: dependency.name, from: before.get(key)!.requirement, to: dependency.requirement })),
+  };
+}
+
+function dependencyKey(dependency: PackageDependency): string {
+  const name = dependency.name.toLowerCase().replace(/[-_.]+/g, '-');
+  const markerAt = dependency.requirement.indexOf(';');
+  const marker = markerAt === -1 ? '' : dependency.requirement.slice(markerAt + 1).replace(/\s+/g, ' ').trim();
+  return marker ? `${name}; ${marker}` : name;
+}
+
+function text(content: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text: content } };
+}
+
+function json(title: string, data: unknown): PromptMessage {
+  return data === null || data === undefined
+    ? text(`${title}: not available.`)
+    : text(`${title}:\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``);
+}
+
+// The README as the pip:// resource that serves it
+function readmeResource(readme: PackageReadmeResponse, maxLength: number): PromptMessage {
+  const content = readme.readme_content || readme.description;
+  return {
+    role: 'user',
+    content: {
+      type: 'resource',
+      resource: {
+        uri: `pip://${readme.package_name}@${encodeURIComponent(readme.version)}/readme`,
+        mimeType: 'text/markdown',
+        text: content.length > maxLength ? `${content.slice(0, maxLength)}\n\n[README truncated]` : content,
+      },
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import type { ReadResourceResult, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+import { validatePackageName, validateVersion } from '../utils/validators-simple.js';
+import { PackageReadmeService, requireExistingReadme } from '../services/package-readme/index.js';
+import { getPackageInfo } from '../tools/get-package-info.js';
+import { PackageReadmeMcpError, PackageReadmeResponse } from '../types/index.js';
+
+type PackageResourceKind = 'readme' | 'info' | 'examples';
+
+interface PackageResourceUri {
+  packageName: string;
+  version: string;
+  kind: PackageResourceKind;
+}
+
+// pip://{package}/{kind} or pip://{package}@{version}/{kind}
+const RESOURCE_URI = /^pip:\/\/([^/@]+)(?:@([^/]+))?\/(readme|info|examples)$/;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'pip://{package}/readme',
+    name: 'package-readme',
+    description: 'README of the latest release of a PyPI package, as Markdown',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'pip://{package}@{version}/readme',
+    name: 'package-readme-version',
+    description: 'README of a release of a PyPI package, as Markdown; the version may be a PEP 440 specifier such as "~=2.28"',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'pip://{package}/info',
+    name: 'package-info',
+    description: 'Metadata of a PyPI package: latest version, license, dependencies, repository and download statistics',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'pip://{package}/examples',
+    name: 'package-examples',
+    description: 'Usage examples from the README of the latest release of a PyPI package, as Markdown',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'pip://{package}@{version}/examples',
+    name: 'package-examples-version',
+    description: 'Usage examples from the README of a release of a PyPI package, as Markdown',
+    mimeType: 'text/markdown',
+  },
+];
+
+const packageReadmeService = new PackageReadmeService();
+
+export function parseResourceUri(uri: string): PackageResourceUri {
+  const match = typeof uri === 'string' ? uri.match(RESOURCE_URI) : null;
+  if (!match) {
+    throw new PackageReadmeMcpError(
+      `Unknown resource URI "${uri}". Use pip://{package}/readme, pip://{package}@{version}/readme, pip://{package}/info or pip://{package}/examples`,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  const packageName = decodeURIComponent(match[1]);
+  const version = match[2] === undefined ? 'latest' : decodeURIComponent(match[2]);
+  const kind = match[3] as PackageResourceKind;
+  if (kind === 'info' && version !== 'latest') {
+    throw new PackageReadmeMcpError(`Package info is only available for the latest release: pip://${packageName}/info`, 'VALIDATION_ERROR');
+  }
+
+  validatePackageName(packageName);
+  if (version !== 'latest') {
+    validateVersion(version);
+  }
+  return { packageName, version, kind };
+}
+
+export async function readPackageResource(uri: string): Promise<ReadResourceResult> {
+  const { packageName, version, kind } = parseResourceUri(uri);
+  logger.info(`Reading resource: ${uri}`);
+
+  switch (kind) {
+    case 'readme': {
+      // Same parameters as the examples, as the service caches one response per version
+      const readme = requireExistingReadme(await packageReadmeService.getPackageReadme({ package_name: packageName, version }));
+      return { contents: [{ uri, mimeType: 'text/markdown', text: readme.readme_content || readme.description }] };
+    }
+    case 'examples': {
+      const readme = requireExistingReadme(await packageReadmeService.getPackageReadme({ package_name: packageName, version }));
+      return { contents: [{ uri, mimeType: 'text/markdown', text: formatExamples(readme) }] };
+    }
+    case 'info': {
+      const info = await getPackageInfo({ package_name: packageName });
+      return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(info, null, 2) }] };
+    }
+  }
+}
+
+function formatExamples(readme: PackageReadmeResponse): string {
+  const heading = `# Usage examples for ${readme.package_name} ${readme.version}`;
+  if (readme.usage_examples.length === 0) {
+    return `${heading}\n\nThe README has no usage examples.\n`;
+  }
+
+  const sections = readme.usage_examples.map(example => {
+    const parts = [`## ${example.title}`];
+    if (example.description) {
+      parts.push(example.description);
+    }
+    parts.push(`\`\`\`${example.language}\n${example.code}\n\`\`\``);
+    if (example.expected_output) {
+      parts.push(`Output:\n\n\`\`\`text\n${example.expected_output}\n\`\`\``);
+    }
+    return parts.join('\n\n');
+  });
+  return `${heading}\n\n${sections.join('\n\n')}\n`;
+}
@@ -1,5 +1,4 @@
 import { 
-  BasePackageServer, 
   ToolDefinition, 
   PackageReadmeMcpError, 
   PackageValidator,
@@ -7,9 +6,61 @@ import {
   GetPackageInfoParams,
   SearchPackagesParams,
 } from '@elchika-inc/package-readme-shared';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { getPackageReadme } from './tools/get-package-readme.js';
 import { getPackageInfo } from './tools/get-package-info.js';
 import { searchPackages } from './tools/search-packages.js';
+import { getDependencyTree } from './tools/get-dependency-tree.js';
+import { getManifestReadmes } from './tools/get-manifest-readmes.js';
+import { getOutdatedPackages } from './tools/get-outdated-packages.js';
+import { getVulnerabilities } from './tools/get-vulnerabilities.js';
+import { getReleaseHistory } from './tools/get-release-history.js';
+import { getWheelCompatibility } from './tools/get-wheel-compatibility.js';
+import { getImportNames } from './tools/get-import-names.js';
+import { getApiSurface } from './tools/get-api-surface.js';
+import {
+  API_SURFACE_OUTPUT_SCHEMA,
+  DEPENDENCY_TREE_OUTPUT_SCHEMA,
+  IMPORT_NAMES_OUTPUT_SCHEMA,
+  MANIFEST_READMES_OUTPUT_SCHEMA,
+  OUTDATED_PACKAGES_OUTPUT_SCHEMA,
+  PACKAGE_INFO_OUTPUT_SCHEMA,
+  PACKAGE_README_OUTPUT_SCHEMA,
+  RELEASE_HISTORY_OUTPUT_SCHEMA,
+  SEARCH_PACKAGES_OUTPUT_SCHEMA,
+  VULNERABILITIES_OUTPUT_SCHEMA,
+  WHEEL_COMPATIBILITY_OUTPUT_SCHEMA,
+} from './tools/output-schemas.js';
+import { toToolError, toToolResult } from './tools/tool-results.js';
+import { readPackageResource, RESOURCE_TEMPLATES } from './resources/package-resources.js';
+import { getPackagePrompt, PROMPT_DEFINITIONS } from './prompts/package-prompts.js';
+import {
+  GetApiSurfaceParams,
+  GetDependencyTreeParams,
+  GetImportNamesParams,
+  GetManifestReadmesParams,
+  GetOutdatedPackagesParams,
+  GetReleaseHistoryParams,
+  GetVulnerabilitiesParams,
+  GetWheelCompatibilityParams,
+} from './types/index.js';
+
+// Every tool only reads from package indexes, advisory databases and repositories
+const TOOL_ANNOTATIONS = {
+  readOnlyHint: true,
+  openWorldHint: true,
+} as const;
 
 const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
   get_readme_from_pip: {
@@ -24,7 +75,7 @@ const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
         },
         version: {
           type: 'string',
-          description: 'The version of the package (default: "latest")',
+          description: 'The version of the package, or a PEP 440 specifier such as "~=2.28" or ">=1.2,<2" that resolves to the newest matching release (default: "latest")',
           default: 'latest',
         },
         include_examples: {
@@ -35,6 +86,8 @@ const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
       },
       required: ['package_name'],
     },
+    outputSchema: PACKAGE_README_OUTPUT_SCHEMA,
+    annotations: TOOL_ANNOTATIONS,
   },
   get_package_info_from_pip: {
     name: 'get_package_info_from_pip',
@@ -51,14 +104,285 @@ const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
           description: 'Whether to include dependencies (default: true)',
           default: true,
         },
+        include_optional_dependencies: {
+          type: 'boolean',
+          description: 'Whether to include optional dependencies, grouped by extra name (default: false)',
+          default: false,
+        },
         include_dev_dependencies: {
           type: 'boolean',
-          description: 'Whether to include development dependencies (default: false)',
+          description: 'Deprecated alias of include_optional_dependencies',
+          default: false,
+        }
+      },
+      required: ['package_name'],
+    },
+    outputSchema: PACKAGE_INFO_OUTPUT_SCHEMA,
+    annotations: TOOL_ANNOTATIONS,
+  },
+  get_dependency_tree_from_pip: {
+    name: 'get_dependency_tree_from_pip',
+    description: 'Get the transitive dependency tree of a package from PyPI, with environment markers evaluated for a target Python version and platform',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        package_name: {
+          type: 'string',
+          description: 'The name of the Python package',
+        },
+        version: {
+          type: 'string',
+          description: 'The version of the package or a PEP 440 specifier (default: "latest")',
+          default: 'latest',
+        },
+        max_depth: {
+          type: 'number',
+          description: 'Levels of dependencies to resolve below the package (default: 3)',
+          default: 3,
+          minimum: 0,
+          maximum: 10,
+        },
+        python_version: {
+          type: 'string',
+          description: 'Target Python version for environment markers, e.g. "3.11" (default: "3.12")',
+          default: '3.12',
+        },
+        platform: {
+          type: 'string',
+          description: 'Target platform for environment markers (default: "linux")',
+          enum: ['linux', 'darwin', 'win32'],
+          default: 'linux',
+        },
+        extras: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Extras of the package to include, e.g. ["socks"]',
+        }
+      },
+      required: ['package_name'],
+    },
+    outputSchema: DEPENDENCY_TREE_OUTPUT_SCHEMA,
+    annotations: TOOL_ANNOTATIONS,
+  },
+  get_manifest_readmes_from_pip: {
+    name: 'get_manifest_readmes_from_pip',
+    description: 'Get README summaries and installation info for every dependency in a requirements.txt, pyproject.toml, setup.cfg or Pipfile',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        content: {
+          type: 'string',
+          description: 'The text of the manifest file',
+        },
+        filename: {
+          type: 'string',
+          description: 'Name of the manifest file, used to detect its format (e.g. "pyproject.toml")',
+        },
+        format: {
+          type: 'string',
+          description: 'Format of the manifest; detected from the filename or content when omitted',
+          enum: ['requirements', 'pyproject', 'setup.cfg', 'pipfile'],
+        },
+        included_files: {
+          type: 'object',
+          description: 'Contents of files the manifest references with "-r" or "file:", keyed by path',
+          additionalProperties: { type: 'string' },
+        },
+        include_optional_dependencies: {
+          type: 'boolean',
+          description: 'Whether to include extras and dev dependency groups (default: false)',
           default: false,
         }
       },
+      required: ['content'],
+    },
+    outputSchema: MANIFEST_READMES_OUTPUT_SCHEMA,
+    annotations: TOOL_ANNOTATIONS,
+  },
+  get_outdated_packages_from_pip: {
+    name: 'get_outdated_packages_from_pip',
+    description: 'Compare every pin in a poetry.lock, uv.lock, Pipfile.lock or pip freeze output against the latest PyPI release, flagging yanked pins',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        content: {
+          type: 'string',
+          description: 'The text of the lockfile or pip freeze output',
+        },
+        filename: {
+          type: 'string',
+          description: 'Name of the lockfile, used to detect its format (e.g. "poetry.lock")',
+        },
+        format: {
+          type: 'string',
+          description: 'Format of the lockfile; detected from the filename or content when omitted',
+          enum: ['poetry.lock', 'uv.lock', 'pipfile.lock', 'pip-freeze'],
+        },
+        only_outdated: {
+          type: 'boolean',
+          description: 'Only report pins that are outdated, yanked or could not be checked (default: false)',
+          default: false,
+        }
+      },
+      required: ['content'],
+    },
+    outputSchema: OUTDATED_PACKAGES_OUTPUT_SCHEMA,
+    annotations: TOOL_ANNOTATIONS,
+  },
+  get_vulnerabilities_from_pip: {
+    name: 'get_vulnerabilities_from_pip',
+    description: 'Get known vulnerabilities (OSV advisories) affecting a package version or version range, with the nearest fixed version',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        package_name: {
+          type: 'string',
+          description: 'The name of the Python package',
+        },
+        version: {
+          type: 'string',
+          description: 'The version to check, or a PEP 440 specifier such as ">=2.0,<2.32" to check every matching release (default: "latest")',
+          default: 'latest',
+        }
+      },
+      required: ['package_name'],
+    },
+    outputSchema: VULNERABILITIES_OUTPUT_SCHEMA,
+    annotations: TOOL_ANNOTATIONS,
+  },
+  get_release_history_from_pip: {
+    name: 'get_release_history_from_pip',
+    description: 'Get the release history of a package from PyPI: every version with its upload date, yanked status, pre-release flag, requires_python and files, plus release cadence statistics',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        package_name: {
+          type: 'string',
+          description: 'The name of the Python package',
+        },
+        since: {
+          type: 'string',
+          description: 'Only list releases first uploaded on or after this ISO 8601 date, e.g. "2024-01-01"',
+        },
+        stable_only: {
+          type: 'boolean',
+          description: 'Leave out pre-releases and development releases (default: false)',
+          default: false,
+        },
+        include_yanked: {
+          type: 'boolean',
+          description: 'Whether to list yanked releases (default: true)',
+          default: true,
+        },
+        limit: {
+          type: 'number',
+          description: 'Only list the newest N releases that match the other filters',
+          minimum: 1,
+          maximum: 1000,
+        },
+        include_files: {
+          type: 'boolean',
+          description: 'Whether to list the wheel and sdist files of each release (default: true)',
+          default: true,
+        }
+      },
+      required: ['package_name'],
+    },
+    outputSchema: RELEASE_HISTORY_OUTPUT_SCHEMA,
+    annotations: TOOL_ANNOTATIONS,
+  },
+  get_wheel_compatibility_from_pip: {
+    name: 'get_wheel_compatibility_from_pip',
+    description: 'Check which Python versions, platforms and architectures a release ships wheels for, which must build from the sdist, and whether a wheel exists for one target such as cp312 on linux aarch64',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        package_name: {
+          type: 'string',
+          description: 'The name of the Python package',
+        },
+        version: {
+          type: 'string',
+          description: 'The version of the package or a PEP 440 specifier (default: "latest")',
+          default: 'latest',
+        },
+        python_versions: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Python versions for the rows of the matrix (default: ["3.9", "3.10", "3.11", "3.12", "3.13"])',
+        },
+        python_version: {
+          type: 'string',
+          description: 'Python version of a single target to check, e.g. "3.12" or "cp312"',
+        },
+        platform: {
+          type: 'string',
+          description: 'Platform of the single target to check',
+          enum: ['linux', 'darwin', 'win32'],
+        },
+        architecture: {
+          type: 'string',
+          description: 'Architecture of the single target to check, e.g. "x86_64" or "aarch64" (default: "x86_64")',
+        },
+        libc: {
+          type: 'string',
+          description: 'C library of a Linux target (default: "glibc")',
+          enum: ['glibc', 'musl'],
+        }
+      },
       required: ['package_name'],
     },
+    outputSchema: WHEEL_COMPATIBILITY_OUTPUT_SCHEMA,
+    annotations: TOOL_ANNOTATIONS,
+  },
+  get_import_names_from_pip: {
+    name: 'get_import_names_from_pip',
+    description: 'List the modules a Python package installs (beautifulsoup4 installs bs4), or find which distribution provides a module (yaml is provided by PyYAML)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        package_name: {
+          type: 'string',
+          description: 'The name of the Python package whose import names to list',
+        },
+        version: {
+          type: 'string',
+          description: 'The version of package_name or a PEP 440 specifier (default: "latest")',
+          default: 'latest',
+        },
+        import_name: {
+          type: 'string',
+          description: 'A module to find the providing distribution of, e.g. "yaml" or "cv2"',
+        }
+      },
+    },
+    outputSchema: IMPORT_NAMES_OUTPUT_SCHEMA,
+    annotations: TOOL_ANNOTATIONS,
+  },
+  get_api_surface_from_pip: {
+    name: 'get_api_surface_from_pip',
+    description: 'List the public modules, classes, functions and their signatures and docstrings of a Python package, read from the .py and .pyi files of its wheel, to check that an API exists before using it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        package_name: {
+          type: 'string',
+          description: 'The name of the Python package',
+        },
+        version: {
+          type: 'string',
+          description: 'The version of the package or a PEP 440 specifier (default: "latest")',
+          default: 'latest',
+        },
+        module: {
+          type: 'string',
+          description: 'Only list this module and its submodules, e.g. "requests.adapters"',
+        }
+      },
+      required: ['package_name'],
+    },
+    outputSchema: API_SURFACE_OUTPUT_SCHEMA,
+    annotations: TOOL_ANNOTATIONS,
   },
   search_packages_from_pip: {
     name: 'search_packages_from_pip',
@@ -77,37 +401,72 @@ const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
           minimum: 1,
           maximum: 250,
         },
-        quality: {
-          type: 'number',
-          description: 'Minimum quality score (0-1)',
-          minimum: 0,
-          maximum: 1,
-        },
-        popularity: {
-          type: 'number',
-          description: 'Minimum popularity score (0-1)',
-          minimum: 0,
-          maximum: 1,
-        }
       },
       required: ['query'],
     },
+    outputSchema: SEARCH_PACKAGES_OUTPUT_SCHEMA,
+    annotations: TOOL_ANNOTATIONS,
   },
 } as const;
 
-export class PackageReadmeMcpServer extends BasePackageServer {
+export class PackageReadmeMcpServer {
+  private readonly server: Server;
+
   constructor() {
-    super({
-      name: 'pip-package-readme-mcp',
-      version: '1.0.0',
+    this.server = new Server(
+      {
+        name: 'pip-package-readme-mcp',
+        version: '1.0.0',
+      },
+      {
+        capabilities: { tools: {}, resources: {}, prompts: {} },
+      }
+    );
+    this.registerTools();
+    this.registerResources();
+    this.registerPrompts();
+  }
+
+  // Serves a single client over stdio
+  async run(): Promise<void> {
+    await this.connect(new StdioServerTransport());
+  }
+
+  // Serves a single client over a transport other than stdio, such as one HTTP session
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
+  }
+
+  async close(): Promise<void> {
+    await this.server.close();
+  }
+
+  // Lists the tools with their output schemas and annotations, and answers calls with
+  // structured content where a tool declares an output schema
+  private registerTools(): void {
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: Object.values(TOOL_DEFINITIONS) }));
+    this.server.setRequestHandler(CallToolRequestSchema, async request => {
+      try {
+        return toToolResult(request.params.name, await this.handleToolCall(request.params.name, request.params.arguments));
+      } catch (error) {
+        return toToolError(error);
+      }
     });
   }
 
-  protected getToolDefinitions(): Record<string, ToolDefinition> {
-    return TOOL_DEFINITIONS;
+  // Packages are addressed by URI templates such as pip://{package}/readme, so no resource is listed
+  private registerResources(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: [] }));
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates: RESOURCE_TEMPLATES }));
+    this.server.setRequestHandler(ReadResourceRequestSchema, async request => readPackageResource(request.params.uri));
+  }
+
+  private registerPrompts(): void {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: PROMPT_DEFINITIONS }));
+    this.server.setRequestHandler(GetPromptRequestSchema, async request => getPackagePrompt(request.params.name, request.params.arguments));
   }
 
-  protected async handleToolCall(name: string, args: unknown): Promise<unknown> {
+  private async handleToolCall(name: string, args: unknown): Promise<unknown> {
     // Validate that args is an object
     if (!args || typeof args !== 'object') {
       throw new PackageReadmeMcpError(
@@ -123,6 +482,30 @@ export class PackageReadmeMcpServer extends BasePackageServer {
       case 'get_package_info_from_pip':
         return await this.handleGetPackageInfo(PackageValidator.validateGetPackageInfoParams(args, 'pip'));
       
+      case 'get_dependency_tree_from_pip':
+        return await this.handleGetDependencyTree(args as GetDependencyTreeParams);
+      
+      case 'get_manifest_readmes_from_pip':
+        return await this.handleGetManifestReadmes(args as GetManifestReadmesParams);
+      
+      case 'get_outdated_packages_from_pip':
+        return await this.handleGetOutdatedPackages(args as GetOutdatedPackagesParams);
+      
+      case 'get_vulnerabilities_from_pip':
+        return await this.handleGetVulnerabilities(args as GetVulnerabilitiesParams);
+      
+      case 'get_release_history_from_pip':
+        return await this.handleGetReleaseHistory(args as GetReleaseHistoryParams);
+      
+      case 'get_wheel_compatibility_from_pip':
+        return await this.handleGetWheelCompatibility(args as GetWheelCompatibilityParams);
+      
+      case 'get_import_names_from_pip':
+        return await this.handleGetImportNames(args as GetImportNamesParams);
+      
+      case 'get_api_surface_from_pip':
+        return await this.handleGetApiSurface(args as GetApiSurfaceParams);
+      
       case 'search_packages_from_pip':
         return await this.handleSearchPackages(PackageValidator.validateSearchPackagesParams(args, 'pip'));
       
@@ -146,6 +529,38 @@ export class PackageReadmeMcpServer extends BasePackageServer {
     return await searchPackages(params);
   }
 
+  private async handleGetDependencyTree(params: GetDependencyTreeParams) {
+    return await getDependencyTree(params);
+  }
+
+  private async handleGetManifestReadmes(params: GetManifestReadmesParams) {
+    return await getManifestReadmes(params);
+  }
+
+  private async handleGetOutdatedPackages(params: GetOutdatedPackagesParams) {
+    return await getOutdatedPackages(params);
+  }
+
+  private async handleGetVulnerabilities(params: GetVulnerabilitiesParams) {
+    return await getVulnerabilities(params);
+  }
+
+  private async handleGetReleaseHistory(params: GetReleaseHistoryParams) {
+    return await getReleaseHistory(params);
+  }
+
+  private async handleGetWheelCompatibility(params: GetWheelCompatibilityParams) {
+    return await getWheelCompatibility(params);
+  }
+
+  private async handleGetImportNames(params: GetImportNamesParams) {
+    return await getImportNames(params);
+  }
+
+  private async handleGetApiSurface(params: GetApiSurfaceParams) {
+    return await getApiSurface(params);
+  }
+
 }
 
 export default PackageReadmeMcpServer;
\ No newline at end of file
@@ -1,49 +1,59 @@
+import { join } from 'path';
 import { logger } from '../utils/logger.js';
+import { getCacheDirectory } from '../utils/cache-directory.js';
 import { CacheEntry, CacheOptions } from '../types/index.js';
 import { CACHE_CONFIG } from '../config/constants.js';
+import { DiskCache } from './disk-cache.js';
 
+interface StoredEntry<T> extends CacheEntry<T> {
+  size: number;  // Estimated bytes, computed once when the entry is stored
+}
+
+/**
+ * In-memory LRU cache with per-entry TTLs and an optional on-disk tier.
+ * The Map's insertion order is the recency order: reads move an entry to the end
+ * and eviction starts from the front.
+ *
+ * get() and set() only use memory. save() also writes the entry to disk in the
+ * background, and load() looks there on a memory miss, for documents worth keeping
+ * across restarts.
+ */
 export class MemoryCache {
-  private cache = new Map<string, CacheEntry<any>>();
+  private cache = new Map<string, StoredEntry<any>>();
   private maxSize: number;
   private defaultTtl: number;
+  private disk: DiskCache | null;
+  private currentSize = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
 
   constructor(options: CacheOptions = {}) {
     this.maxSize = Math.max(CACHE_CONFIG.MIN_SIZE, options.maxSize || CACHE_CONFIG.DEFAULT_MAX_SIZE);
     this.defaultTtl = Math.max(CACHE_CONFIG.MIN_TTL, options.ttl || CACHE_CONFIG.DEFAULT_TTL);
+    this.disk = options.directory
+      ? new DiskCache({
+          directory: options.directory,
+          maxSize: Math.max(CACHE_CONFIG.MIN_SIZE, options.diskMaxSize || CACHE_CONFIG.DEFAULT_DISK_MAX_SIZE),
+        })
+      : null;
   }
 
   set<T>(key: string, value: T, ttl?: number): void {
-    const actualTtl = ttl || this.defaultTtl;
-    const entry: CacheEntry<T> = {
-      data: value,
-      timestamp: Date.now(),
-      ttl: actualTtl,
-    };
-
-    // Remove expired entries and check size
-    this.cleanup();
-    
-    // Estimate size (rough approximation)
-    const estimatedSize = this.estimateSize(value);
-    const currentSize = this.getCurrentSize();
-    
-    if (currentSize + estimatedSize > this.maxSize) {
-      logger.warn(`Cache size limit exceeded, clearing cache`, {
-        currentSize,
-        estimatedSize,
-        maxSize: this.maxSize,
-      });
-      this.clear();
-    }
+    this.setEntry(key, value, ttl);
+  }
 
-    this.cache.set(key, entry);
-    logger.debug(`Cache set: ${key} (TTL: ${actualTtl}ms)`);
+  // Sets an entry and queues it for the disk tier
+  save<T>(key: string, value: T, ttl?: number): void {
+    const entry = this.setEntry(key, value, ttl);
+    this.disk?.set(key, entry);
   }
 
   get<T>(key: string): T | null {
     const entry = this.cache.get(key);
     
     if (!entry) {
+      this.misses++;
       logger.debug(`Cache miss: ${key}`);
       return null;
     }
@@ -51,14 +61,45 @@ export class MemoryCache {
     // Check if expired
     if (Date.now() - entry.timestamp > entry.ttl) {
       logger.debug(`Cache expired: ${key}`);
-      this.cache.delete(key);
+      this.remove(key);
+      this.misses++;
       return null;
     }
 
+    // Mark as most recently used
+    const stored = this.cache.get(key);
+    if (stored) {
+      this.cache.delete(key);
+      this.cache.set(key, stored);
+    }
+
+    this.hits++;
     logger.debug(`Cache hit: ${key}`);
     return entry.data;
   }
 
+  /**
+   * Gets an entry, looking in the disk tier when it is not in memory. Disk entries
+   * are promoted into memory and keep their original timestamp, so they expire
+   * when they would have in memory.
+   */
+  async load<T>(key: string): Promise<T | null> {
+    if (!this.disk || this.cache.has(key)) {
+      return this.get<T>(key);
+    }
+
+    const entry = await this.disk.get<T>(key);
+    // Another caller may have stored the key while the file was read
+    if (!entry || this.cache.has(key)) {
+      return this.get<T>(key);
+    }
+
+    this.store(key, entry);
+    this.hits++;
+    logger.debug(`Cache hit from disk: ${key}`);
+    return entry.data;
+  }
+
   has(key: string): boolean {
     const entry = this.cache.get(key);
     
@@ -68,7 +109,7 @@ export class MemoryCache {
 
     // Check if expired
     if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
+      this.remove(key);
       return false;
     }
 
@@ -76,7 +117,8 @@ export class MemoryCache {
   }
 
   delete(key: string): boolean {
-    const result = this.cache.delete(key);
+    this.disk?.delete(key).catch(error => logger.warn(`Disk cache delete failed: ${key}`, { error }));
+    const result = this.remove(key);
     if (result) {
       logger.debug(`Cache deleted: ${key}`);
     }
@@ -86,6 +128,8 @@ export class MemoryCache {
   clear(): void {
     const size = this.cache.size;
     this.cache.clear();
+    this.currentSize = 0;
+    this.disk?.clear().catch(error => logger.warn('Disk cache clear failed', { error }));
     logger.debug(`Cache cleared: ${size} entries removed`);
   }
 
@@ -93,13 +137,76 @@ export class MemoryCache {
     return this.cache.size;
   }
 
+  // Resolves once queued disk writes have finished
+  async flush(): Promise<void> {
+    await this.disk?.flush();
+  }
+
+  private setEntry<T>(key: string, value: T, ttl?: number): CacheEntry<T> {
+    const actualTtl = ttl || this.defaultTtl;
+    const entry: CacheEntry<T> = {
+      data: value,
+      timestamp: Date.now(),
+      ttl: actualTtl,
+    };
+
+    // Remove expired entries before making room
+    this.cleanup();
+
+    this.store(key, entry);
+    logger.debug(`Cache set: ${key} (TTL: ${actualTtl}ms)`);
+    return entry;
+  }
+
+  /**
+   * Adds an entry to memory, evicting least recently used entries until it fits.
+   * Entries larger than the whole budget are not kept in memory.
+   */
+  private store<T>(key: string, entry: CacheEntry<T>): StoredEntry<T> | undefined {
+    const size = this.estimateSize(entry.data);
+    this.remove(key);
+
+    if (size > this.maxSize) {
+      logger.warn(`Cache entry too large to keep in memory: ${key}`, {
+        estimatedSize: size,
+        maxSize: this.maxSize,
+      });
+      return undefined;
+    }
+
+    let evicted = 0;
+    while (this.currentSize + size > this.maxSize && this.cache.size > 0) {
+      this.remove(this.cache.keys().next().value as string);
+      evicted++;
+    }
+    if (evicted > 0) {
+      this.evictions += evicted;
+      logger.debug(`Cache evicted ${evicted} least recently used entries for ${key}`);
+    }
+
+    const stored: StoredEntry<T> = { ...entry, size };
+    this.cache.set(key, stored);
+    this.currentSize += size;
+    return stored;
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return false;
+    }
+    this.cache.delete(key);
+    this.currentSize -= entry.size;
+    return true;
+  }
+
   private cleanup(): void {
     const now = Date.now();
     let removedCount = 0;
 
     for (const [key, entry] of this.cache.entries()) {
       if (now - entry.timestamp > entry.ttl) {
-        this.cache.delete(key);
+        this.remove(key);
         removedCount++;
       }
     }
@@ -109,18 +216,10 @@ export class MemoryCache {
     }
   }
 
-  private getCurrentSize(): number {
-    let totalSize = 0;
-    for (const entry of this.cache.values()) {
-      totalSize += this.estimateSize(entry.data);
-    }
-    return totalSize;
-  }
-
   private estimateSize(value: any): number {
     // Rough estimation of object size in bytes
     const json = JSON.stringify(value);
-    return json.length * 2; // Approximate for UTF-16 encoding
+    return (json?.length ?? 0) * 2; // Approximate for UTF-16 encoding
   }
 
   // Get cache statistics
@@ -129,20 +228,34 @@ export class MemoryCache {
     estimatedMemoryUsage: number;
     maxSize: number;
     defaultTtl: number;
+    hits: number;
+    misses: number;
+    evictions: number;
+    disk: { directory: string; usage: number; maxSize: number } | null;
   } {
     return {
       size: this.cache.size,
-      estimatedMemoryUsage: this.getCurrentSize(),
+      estimatedMemoryUsage: this.currentSize,
       maxSize: this.maxSize,
       defaultTtl: this.defaultTtl,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      disk: this.disk
+        ? { directory: this.disk.directory, usage: this.disk.usage, maxSize: this.disk.maxSize }
+        : null,
     };
   }
 }
 
-// Singleton cache instance
+// Singleton cache instance; CACHE_DISK_ENABLED=false keeps it in memory only
 export const cache = new MemoryCache({
   maxSize: parseInt(process.env.CACHE_MAX_SIZE || CACHE_CONFIG.DEFAULT_MAX_SIZE.toString()),
   ttl: parseInt(process.env.CACHE_TTL || CACHE_CONFIG.DEFAULT_TTL.toString()),
+  directory: process.env.CACHE_DISK_ENABLED === 'false'
+    ? undefined
+    : join(getCacheDirectory(), CACHE_CONFIG.DISK_DIRECTORY_NAME),
+  diskMaxSize: parseInt(process.env.CACHE_DISK_MAX_SIZE || CACHE_CONFIG.DEFAULT_DISK_MAX_SIZE.toString()),
 });
 
 // Cache key utilities
@@ -153,6 +266,36 @@ export const createCacheKey = {
   packageReadme: (packageName: string, version: string): string => 
     `pkg_readme:${packageName}:${version}`,
   
+  pypiDocument: (indexScope: string, packageName: string, version: string): string =>
+    `pypi_json:${indexScope}:${packageName}:${version}`,
+
+  simpleProject: (indexScope: string, packageName: string): string =>
+    `pypi_simple:${indexScope}:${packageName}`,
+
+  coreMetadata: (indexScope: string, packageName: string, version: string): string =>
+    `pypi_metadata:${indexScope}:${packageName}:${version}`,
+
+  wheelMetadata: (indexScope: string, packageName: string, version: string): string =>
+    `pypi_wheel_metadata:${indexScope}:${packageName}:${version}`,
+
+  unavailableWheel: (indexScope: string, packageName: string, version: string): string =>
+    `pypi_wheel_unavailable:${indexScope}:${packageName}:${version}`,
+
+  packageReleases: (packageName: string): string =>
+    `pkg_releases:${packageName}`,
+
+  packageDependencies: (packageName: string, version: string): string =>
+    `pkg_deps:${packageName}:${version}`,
+
+  releaseStatus: (packageName: string): string =>
+    `pkg_release_status:${packageName}`,
+
+  vulnerabilities: (packageName: string, version: string): string =>
+    `pkg_vulns:${packageName}:${version}`,
+
+  apiSurface: (packageName: string, version: string): string =>
+    `pkg_api:${packageName}:${version}`,
+
   searchResults: (query: string, limit: number, quality?: number, popularity?: number): string => {
     const params = [query, limit.toString()];
     if (quality !== undefined) params.push(`q:${quality}`);
@@ -165,4 +308,7 @@ export const createCacheKey = {
   
   githubReadme: (owner: string, repo: string, branch?: string): string => 
     `gh_readme:${owner}:${repo}:${branch || 'main'}`,
+
+  githubDocument: (url: string): string =>
+    `gh_doc:${url}`,
 };
\ No newline at end of file
@@ -0,0 +1,300 @@
+import { logger } from '../../utils/logger.js';
+import { cache, createCacheKey } from '../cache.js';
+import { pypiClient, PyPIClient } from '../pypi-api.js';
+import { mapWithConcurrency } from '../../utils/concurrency.js';
+import { findBestMatch, isVersionSpecifier, parseSpecifierSet, satisfiesSpecifiers, VersionSpecifier } from '../../utils/pep440.js';
+import { createMarkerEnvironment, evaluateMarker, MarkerEnvironment, parseRequirement } from '../../utils/pep508.js';
+import { normalizePackageName } from '../../utils/validators.js';
+import { DEPENDENCY_TREE_CONFIG } from '../../config/constants.js';
+import {
+  DependencyTreeNode,
+  DependencyTreeResponse,
+  PackageDependency,
+  TargetPlatform,
+  VersionNotFoundError,
+} from '../../types/index.js';
+
+export interface DependencyTreeOptions {
+  version?: string | undefined;     // Exact version or specifier set of the root; default: newest compatible
+  maxDepth?: number | undefined;
+  pythonVersion?: string | undefined;
+  platform?: TargetPlatform | undefined;
+  extras?: string[] | undefined;
+}
+
+interface PackageReleases {
+  name: string;
+  latest_version: string;
+  index: string;               // Package index that served the project
+  releases: {
+    version: string;
+    yanked: boolean;           // Every file of the release is yanked
+    requires_python?: string | undefined;
+  }[];
+}
+
+interface ResolvedPackage {
+  name: string;
+  version: string;
+  index: string;
+  dependencies: PackageDependency[];
+}
+
+interface ResolutionContext {
+  environment: MarkerEnvironment;
+  maxDepth: number;
+  expanded: Set<string>;
+  packages: Set<string>;
+  // Lookups in flight during this resolution, so concurrent siblings share a fetch
+  pending: Map<string, Promise<unknown>>;
+}
+
+/**
+ * Resolves the transitive dependencies of a package for a target Python and platform.
+ * Each requirement resolves to the newest release that matches its specifier and
+ * supports the target Python; this is a view of what gets pulled in, not a full
+ * resolver, so conflicting specifiers on the same package may resolve differently.
+ */
+export class DependencyTreeResolver {
+  constructor(private readonly client: PyPIClient = pypiClient) {}
+
+  async resolve(packageName: string, options: DependencyTreeOptions = {}): Promise<DependencyTreeResponse> {
+    const pythonVersion = options.pythonVersion || DEPENDENCY_TREE_CONFIG.DEFAULT_PYTHON_VERSION;
+    const platform = options.platform || DEPENDENCY_TREE_CONFIG.DEFAULT_PLATFORM;
+    const maxDepth = options.maxDepth ?? DEPENDENCY_TREE_CONFIG.DEFAULT_MAX_DEPTH;
+    const extras = (options.extras || []).map(normalizePackageName);
+
+    const context: ResolutionContext = {
+      environment: createMarkerEnvironment(pythonVersion, platform),
+      maxDepth,
+      expanded: new Set(),
+      packages: new Set(),
+      pending: new Map(),
+    };
+
+    const version = options.version && options.version !== 'latest' ? options.version : '';
+    const specifier = version && !isVersionSpecifier(version) ? `==${version}` : version;
+    const root = await this.resolvePackage(packageName, specifier, context);
+
+    const tree: DependencyTreeNode = {
+      name: root.name,
+      version: root.version,
+      specifier: '',
+      extras,
+      dependencies: [],
+      index: root.index,
+    };
+    const rootName = normalizePackageName(root.name);
+    context.expanded.add(this.nodeKey(rootName, root.version, extras));
+    context.packages.add(`${rootName}@${root.version}`);
+
+    await this.expand(tree, root, extras, 0, new Set([rootName]), context);
+
+    return {
+      package_name: packageName,
+      version: root.version,
+      environment: {
+        python_version: pythonVersion,
+        platform,
+      },
+      max_depth: maxDepth,
+      total_packages: context.packages.size,
+      tree,
+    };
+  }
+
+  private async expand(
+    node: DependencyTreeNode,
+    pkg: ResolvedPackage,
+    extras: string[],
+    depth: number,
+    ancestors: Set<string>,
+    context: ResolutionContext
+  ): Promise<void> {
+    const requirements = pkg.dependencies.filter(dependency =>
+      !dependency.marker || ['', ...extras].some(extra =>
+        evaluateMarker(dependency.marker!, { ...context.environment, extra })));
+
+    if (requirements.length === 0) {
+      return;
+    }
+    if (depth >= context.maxDepth) {
+      node.truncated = true;
+      return;
+    }
+
+    // Fetch siblings concurrently, then expand them in order so the tree is deterministic
+    const resolutions = await mapWithConcurrency(
+      requirements,
+      DEPENDENCY_TREE_CONFIG.FETCH_CONCURRENCY,
+      async dependency => {
+        if (dependency.url) {
+          return { error: `Direct reference ${dependency.url} is not resolved from PyPI` };
+        }
+        try {
+          return { resolved: await this.resolvePackage(dependency.name, dependency.specifier, context) };
+        } catch (error) {
+          return { error: (error as Error).message };
+        }
+      }
+    );
+
+    for (const [index, dependency] of requirements.entries()) {
+      const { resolved, error } = resolutions[index];
+      const childExtras = dependency.extras.map(normalizePackageName);
+      const child: DependencyTreeNode = {
+        name: resolved?.name ?? dependency.name,
+        version: resolved?.version ?? null,
+        specifier: dependency.specifier,
+        extras: childExtras,
+        requirement: dependency.requirement,
+        dependencies: [],
+        index: resolved?.index,
+      };
+      node.dependencies.push(child);
+
+      if (!resolved) {
+        child.error = error;
+        continue;
+      }
+
+      const name = normalizePackageName(resolved.name);
+      if (ancestors.has(name)) {
+        child.cycle = true;
+        continue;
+      }
+
+      const key = this.nodeKey(name, resolved.version, childExtras);
+      if (context.expanded.has(key)) {
+        child.duplicate = true;
+        continue;
+      }
+      context.expanded.add(key);
+      context.packages.add(`${name}@${resolved.version}`);
+
+      await this.expand(child, resolved, childExtras, depth + 1, new Set([...ancestors, name]), context);
+      if (child.truncated) {
+        // Let a shallower occurrence of the package show its dependencies
+        context.expanded.delete(key);
+      }
+    }
+  }
+
+  private async resolvePackage(packageName: string, specifier: string, context: ResolutionContext): Promise<ResolvedPackage> {
+    const releases = await this.getReleases(packageName, context);
+    const version = this.selectVersion(releases, specifier, context.environment);
+    const dependencies = await this.getDependencies(releases.name, version, context);
+    return { name: releases.name, version, index: releases.index, dependencies };
+  }
+
+  private selectVersion(releases: PackageReleases, specifier: string, environment: MarkerEnvironment): string {
+    let specifiers: VersionSpecifier[] = [];
+    if (specifier) {
+      const parsed = parseSpecifierSet(specifier);
+      if (parsed) {
+        specifiers = parsed;
+      } else {
+        // Legacy metadata may carry specifiers PEP 440 cannot parse; treat them as unconstrained
+        logger.debug(`Ignoring invalid specifier for ${releases.name}: ${specifier}`);
+      }
+    }
+
+    const pythonVersion = environment.python_full_version || '';
+    const compatible = releases.releases.filter(release => {
+      if (release.yanked) {
+        return false;
+      }
+      const requiresPython = release.requires_python ? parseSpecifierSet(release.requires_python) : null;
+      return !requiresPython || satisfiesSpecifiers(pythonVersion, requiresPython);
+    });
+
+    // PEP 592: a yanked release is only selected when pinned exactly
+    const pinned = specifiers.some(({ operator, version }) =>
+      operator === '===' || (operator === '==' && !version.endsWith('.*')));
+    const resolved = findBestMatch(compatible.map(release => release.version), specifiers)
+      ?? (pinned ? findBestMatch(releases.releases.map(release => release.version), specifiers) : null);
+
+    if (!resolved) {
+      throw new VersionNotFoundError(releases.name, `${specifier || '*'} for Python ${pythonVersion}`);
+    }
+    return resolved;
+  }
+
+  private async getReleases(packageName: string, context: ResolutionContext): Promise<PackageReleases> {
+    const cacheKey = createCacheKey.packageReleases(normalizePackageName(packageName));
+    return this.lookup(cacheKey, context, async () => {
+      const packageInfo = await this.client.getPackageInfo(packageName);
+      const releases: PackageReleases = {
+        name: packageInfo.info.name,
+        latest_version: packageInfo.info.version,
+        index: this.client.getIndexName(packageInfo),
+        releases: Object.entries(packageInfo.releases || {})
+          .filter(([, files]) => files.length > 0)
+          .map(([version, files]) => ({
+            version,
+            yanked: files.every(file => file.yanked),
+            requires_python: files.find(file => file.requires_python)?.requires_python,
+          })),
+      };
+
+      // The project document already describes the latest release
+      const latestKey = createCacheKey.packageDependencies(normalizePackageName(releases.name), releases.latest_version);
+      if (!cache.has(latestKey)) {
+        cache.set(latestKey, this.parseDependencies(packageInfo.info.requires_dist, packageInfo.info.name));
+      }
+      return releases;
+    });
+  }
+
+  private async getDependencies(packageName: string, version: string, context: ResolutionContext): Promise<PackageDependency[]> {
+    const cacheKey = createCacheKey.packageDependencies(normalizePackageName(packageName), version);
+    return this.lookup(cacheKey, context, async () => {
+      // The PEP 658 metadata file is far smaller than the JSON API document
+      try {
+        const metadata = await this.client.getCoreMetadata(packageName, version);
+        if (!metadata.dynamic.some(field => field.toLowerCase() === 'requires-dist')) {
+          return this.parseDependencies(metadata.requires_dist, metadata.name || packageName);
+        }
+      } catch (error) {
+        logger.debug(`No core metadata for ${packageName}@${version}, using the JSON API`, { error });
+      }
+
+      const packageInfo = await this.client.getVersionInfo(packageName, version);
+      return this.parseDependencies(packageInfo.info.requires_dist, packageInfo.info.name);
+    });
+  }
+
+  private async lookup<T>(cacheKey: string, context: ResolutionContext, fetch: () => Promise<T>): Promise<T> {
+    const cached = cache.get<T>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let pending = context.pending.get(cacheKey) as Promise<T> | undefined;
+    if (!pending) {
+      pending = fetch().then(value => {
+        cache.set(cacheKey, value);
+        return value;
+      });
+      context.pending.set(cacheKey, pending);
+    }
+    return pending;
+  }
+
+  private parseDependencies(requiresDist: string[] | null | undefined, packageName: string): PackageDependency[] {
+    const dependencies: PackageDependency[] = [];
+    for (const requirement of requiresDist || []) {
+      const dependency = parseRequirement(requirement);
+      if (dependency) {
+        dependencies.push(dependency);
+      } else {
+        logger.warn(`Skipping unparseable requirement of ${packageName}: ${requirement}`);
+      }
+    }
+    return dependencies;
+  }
+
+  private nodeKey(name: string, version: string, extras: string[]): string {
+    return `${name}@${version}[${[...extras].sort().join(',')}]`;
+  }
+}
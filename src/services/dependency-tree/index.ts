@@ -0,0 +1,2 @@
+export { DependencyTreeResolver } from './dependency-tree-resolver.js';
+export type { DependencyTreeOptions } from './dependency-tree-resolver.js';
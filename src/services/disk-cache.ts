@@ -0,0 +1,239 @@
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { logger } from '../utils/logger.js';
+import { ensurePrivateDirectory } from '../utils/cache-directory.js';
+import { CacheEntry } from '../types/index.js';
+
+export interface DiskCacheOptions {
+  directory: string;
+  maxSize: number;   // Bytes of entry files kept on disk
+}
+
+interface DiskCacheFile<T> extends CacheEntry<T> {
+  key: string;
+}
+
+const ENTRY_EXTENSION = '.json';
+
+/**
+ * Second cache tier that keeps entries as one JSON file each, so they survive restarts.
+ * Files are written to a temporary name and renamed into place, so readers never see
+ * a partial entry. When the directory grows past maxSize, the least recently used
+ * files are removed. Disk errors are logged and otherwise treated as cache misses.
+ *
+ * Writes happen in the background, one at a time and in order, so callers never wait
+ * for a multi-megabyte document to be serialized and written; flush() waits for them.
+ * Entries can hold documents from private indexes, so the directory and its files are
+ * only accessible to the current user, and a directory owned by anyone else is not used.
+ */
+export class DiskCache {
+  readonly directory: string;
+  readonly maxSize: number;
+  private totalSize: number | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private ready: Promise<boolean> | null = null;
+
+  constructor(options: DiskCacheOptions) {
+    this.directory = options.directory;
+    this.maxSize = options.maxSize;
+  }
+
+  // Bytes on disk as of the last write, or 0 before the first one
+  get usage(): number {
+    return this.totalSize ?? 0;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    if (!(await this.prepare())) {
+      return null;
+    }
+    const path = this.pathFor(key);
+    let file: DiskCacheFile<T>;
+    try {
+      file = JSON.parse(await fs.readFile(path, 'utf8')) as DiskCacheFile<T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.debug(`Disk cache read failed: ${key}`, { error });
+      }
+      return null;
+    }
+
+    // Guard against hash collisions and files from another format
+    if (file.key !== key) {
+      return null;
+    }
+    if (Date.now() - file.timestamp > file.ttl) {
+      logger.debug(`Disk cache expired: ${key}`);
+      this.delete(key);
+      return null;
+    }
+
+    // The modification time doubles as the last access time for eviction
+    const now = new Date();
+    fs.utimes(path, now, now).catch(() => {
+      // Not fatal; the entry is just evicted earlier
+    });
+
+    logger.debug(`Disk cache hit: ${key}`);
+    return { data: file.data, timestamp: file.timestamp, ttl: file.ttl };
+  }
+
+  set<T>(key: string, entry: CacheEntry<T>): void {
+    this.enqueue(() => this.write(key, entry));
+  }
+
+  delete(key: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      const path = this.pathFor(key);
+      const size = await this.fileSize(path);
+      try {
+        await fs.unlink(path);
+        if (this.totalSize !== null) {
+          this.totalSize -= size;
+        }
+        return true;
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.enqueue(async () => {
+      if (!(await this.prepare())) {
+        return;
+      }
+      for (const { path } of await this.listFiles()) {
+        await fs.rm(path, { force: true });
+      }
+      this.totalSize = 0;
+    });
+  }
+
+  // Resolves once every write queued so far is on disk
+  flush(): Promise<void> {
+    return this.queue;
+  }
+
+  async getTotalSize(): Promise<number> {
+    await this.flush();
+    return this.computeTotalSize();
+  }
+
+  // Checks the directory once; one that is not safe to use disables the disk tier
+  private prepare(): Promise<boolean> {
+    if (!this.ready) {
+      this.ready = ensurePrivateDirectory(this.directory).then(() => true, error => {
+        logger.warn(`Disk cache disabled: ${(error as Error).message}`, { error });
+        return false;
+      });
+    }
+    return this.ready;
+  }
+
+  private enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const result = this.queue.then(task);
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private async write<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    if (!(await this.prepare())) {
+      return;
+    }
+    const file: DiskCacheFile<T> = { key, ...entry };
+    let content: string;
+    try {
+      content = JSON.stringify(file);
+    } catch (error) {
+      logger.debug(`Disk cache skipped unserializable entry: ${key}`, { error });
+      return;
+    }
+
+    const size = Buffer.byteLength(content);
+    if (size > this.maxSize) {
+      logger.debug(`Disk cache skipped entry larger than the cache: ${key} (${size} bytes)`);
+      return;
+    }
+
+    const path = this.pathFor(key);
+    const temporaryPath = `${path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    try {
+      const previousSize = await this.fileSize(path);
+      await this.makeRoom(size - previousSize, path);
+      await fs.writeFile(temporaryPath, content, { mode: 0o600 });
+      await fs.rename(temporaryPath, path);
+      this.totalSize = (await this.computeTotalSize()) - previousSize + size;
+      logger.debug(`Disk cache set: ${key}`);
+    } catch (error) {
+      logger.warn(`Disk cache write failed: ${key}`, { error });
+      await fs.rm(temporaryPath, { force: true }).catch(() => undefined);
+    }
+  }
+
+  private async computeTotalSize(): Promise<number> {
+    if (this.totalSize === null) {
+      this.totalSize = (await this.listFiles()).reduce((total, file) => total + file.size, 0);
+    }
+    return this.totalSize;
+  }
+
+  // The entry being rewritten is kept, as its size is already accounted for by the caller
+  private async makeRoom(bytes: number, keep: string): Promise<void> {
+    if ((await this.computeTotalSize()) + bytes <= this.maxSize) {
+      return;
+    }
+
+    const files = (await this.listFiles()).sort((a, b) => a.modified - b.modified);
+    let removed = 0;
+    for (const file of files) {
+      if (this.totalSize! + bytes <= this.maxSize) {
+        break;
+      }
+      if (file.path === keep) {
+        continue;
+      }
+      await fs.rm(file.path, { force: true });
+      this.totalSize! -= file.size;
+      removed++;
+    }
+    logger.debug(`Disk cache evicted ${removed} least recently used entries`);
+  }
+
+  private async listFiles(): Promise<{ path: string; size: number; modified: number }[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const files = [];
+    for (const name of names) {
+      if (!name.endsWith(ENTRY_EXTENSION)) {
+        continue;
+      }
+      const path = join(this.directory, name);
+      try {
+        const stats = await fs.stat(path);
+        files.push({ path, size: stats.size, modified: stats.mtimeMs });
+      } catch {
+        // Removed by another process in the meantime
+      }
+    }
+    return files;
+  }
+
+  private async fileSize(path: string): Promise<number> {
+    try {
+      return (await fs.stat(path)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}${ENTRY_EXTENSION}`);
+  }
+}
@@ -1,15 +1,20 @@
 import { logger } from '../utils/logger.js';
 import { handleApiError, handleHttpError, withRetry } from '../utils/error-handler.js';
+import { conditionalHeaders, getValidators, hasValidators, HttpValidators, isNotModified, RevalidatableEntry } from '../utils/http.js';
+import { CACHE_CONFIG } from '../config/constants.js';
+import { cache as defaultCache, createCacheKey, MemoryCache } from './cache.js';
 import { GitHubReadmeResponse, PackageReadmeMcpError } from '../types/index.js';
 
 export class GitHubApiClient {
   private readonly baseUrl = 'https://api.github.com';
   private readonly timeout: number;
   private readonly token?: string;
+  private readonly cache: MemoryCache;
 
-  constructor(timeout?: number) {
+  constructor(timeout?: number, cache: MemoryCache = defaultCache) {
     this.timeout = timeout || 30000;
     this.token = process.env.GITHUB_TOKEN;
+    this.cache = cache;
   }
 
   /**
@@ -62,10 +67,15 @@ export class GitHubApiClient {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.timeout);
       
+      // Revalidate the last copy; a 304 does not count against the rate limit
+      const cacheKey = createCacheKey.githubDocument(`${url}@${branch}`);
+      const previous = await this.cache.load<RevalidatableEntry<string>>(cacheKey);
+
       try {
         const headers: Record<string, string> = {
           'Accept': 'application/vnd.github.v3.raw',
           'User-Agent': 'pip-package-readme-mcp/1.0.0',
+          ...conditionalHeaders(previous?.validators),
         };
 
         if (this.token) {
@@ -77,6 +87,12 @@ export class GitHubApiClient {
           headers,
         });
 
+        if (previous && isNotModified(response, previous)) {
+          logger.debug(`README not modified on GitHub: ${owner}/${repo}`);
+          this.storeRevalidatable(cacheKey, previous.data, previous.validators);
+          return previous.data;
+        }
+
         if (!response.ok) {
           if (response.status === 404) {
             // Try alternative branch names
@@ -94,6 +110,7 @@ export class GitHubApiClient {
         }
 
         const content = await response.text();
+        this.storeRevalidatable(cacheKey, content, getValidators(response));
         logger.debug(`Successfully fetched README from GitHub: ${owner}/${repo}`);
         return content;
       } catch (error) {
@@ -110,6 +127,14 @@ export class GitHubApiClient {
     }, 3, 1000, `GitHub getReadme(${owner}/${repo})`);
   }
 
+  // Responses are kept only for their validators; freshness is up to the callers' caches
+  private storeRevalidatable(cacheKey: string, data: string, validators: HttpValidators): void {
+    if (hasValidators(validators)) {
+      const entry: RevalidatableEntry<string> = { data, fetchedAt: Date.now(), validators };
+      this.cache.save(cacheKey, entry, CACHE_CONFIG.REVALIDATION_RETENTION);
+    }
+  }
+
   /**
    * Get README with metadata (including encoding information)
    */
@@ -189,6 +214,11 @@ export class GitHubApiClient {
     }
   }
 
+  // Unauthenticated clients share GitHub's limit of 60 requests an hour per IP address
+  hasToken(): boolean {
+    return Boolean(this.token);
+  }
+
   /**
    * Check if GitHub token is configured and valid
    */
@@ -0,0 +1,4 @@
+export { ManifestParser, MAIN_GROUP, poetryConstraintToSpecifier } from './manifest-parser.js';
+export { LockfileParser } from './lockfile-parser.js';
+export type { ManifestParseOptions, ParsedManifest } from './manifest-parser.js';
+export type { LockfileParseOptions, ParsedLockfile } from './lockfile-parser.js';
@@ -0,0 +1,172 @@
+import { logger } from '../../utils/logger.js';
+import { isTomlTable, parseToml, TomlTable, TomlValue } from '../../utils/toml.js';
+import { LockedPackage, LockfileFormat, PackageReadmeMcpError } from '../../types/index.js';
+import { MAIN_GROUP } from './manifest-parser.js';
+
+export interface LockfileParseOptions {
+  filename?: string | undefined;
+  format?: LockfileFormat | undefined;
+}
+
+export interface ParsedLockfile {
+  format: LockfileFormat;
+  packages: LockedPackage[];
+  warnings: string[];
+}
+
+// Poetry sources that do not come from a package index
+const POETRY_NON_INDEX_SOURCES = new Set(['git', 'directory', 'file', 'url']);
+
+/**
+ * Reads the exact pins of a poetry.lock, uv.lock, Pipfile.lock or `pip freeze` output.
+ * Packages installed from git, local paths or URLs have no PyPI release to compare
+ * against; they are skipped and reported as warnings.
+ */
+export class LockfileParser {
+  parse(content: string, options: LockfileParseOptions = {}): ParsedLockfile {
+    const format = options.format || this.detectFormat(content, options.filename);
+    const warnings: string[] = [];
+
+    logger.debug(`Parsing lockfile as ${format}`);
+
+    let packages: LockedPackage[];
+    switch (format) {
+      case 'poetry.lock':
+        packages = this.parsePoetryLock(this.readToml(content, format), warnings);
+        break;
+      case 'uv.lock':
+        packages = this.parseUvLock(this.readToml(content, format), warnings);
+        break;
+      case 'pipfile.lock':
+        packages = this.parsePipfileLock(content, warnings);
+        break;
+      case 'pip-freeze':
+        packages = this.parsePipFreeze(content, warnings);
+        break;
+      default:
+        throw new PackageReadmeMcpError(`Unsupported lockfile format: ${format}`, 'VALIDATION_ERROR');
+    }
+
+    return { format, packages, warnings };
+  }
+
+  detectFormat(content: string, filename?: string): LockfileFormat {
+    const basename = (filename || '').split(/[\\/]/).pop()!.toLowerCase();
+    if (basename === 'poetry.lock' || basename === 'uv.lock' || basename === 'pipfile.lock') {
+      return basename;
+    }
+
+    if (content.trimStart().startsWith('{')) {
+      return 'pipfile.lock';
+    }
+    if (/^\[\[package\]\]/m.test(content)) {
+      // uv.lock starts with its own schema version, poetry.lock ends with [metadata]
+      return /^version\s*=\s*\d+\s*$/m.test(content) && !/^\[metadata\]/m.test(content) ? 'uv.lock' : 'poetry.lock';
+    }
+    return 'pip-freeze';
+  }
+
+  private parsePoetryLock(document: TomlTable, warnings: string[]): LockedPackage[] {
+    const packages: LockedPackage[] = [];
+    for (const entry of asTables(document.package)) {
+      const { name, version } = entry;
+      if (typeof name !== 'string' || typeof version !== 'string') {
+        continue;
+      }
+
+      const sourceType = asTable(entry.source)?.type;
+      if (typeof sourceType === 'string' && POETRY_NON_INDEX_SOURCES.has(sourceType)) {
+        warnings.push(`Skipped ${name}: installed from a ${sourceType} source`);
+        continue;
+      }
+
+      // Poetry before 1.5 records the category; later versions lock every group together
+      const group = entry.category === 'dev' ? 'dev' : MAIN_GROUP;
+      packages.push({ name, version, group });
+    }
+    return packages;
+  }
+
+  private parseUvLock(document: TomlTable, warnings: string[]): LockedPackage[] {
+    const packages: LockedPackage[] = [];
+    for (const entry of asTables(document.package)) {
+      const { name, version } = entry;
+      if (typeof name !== 'string') {
+        continue;
+      }
+
+      // The project itself and workspace members are editable or virtual sources
+      const source = asTable(entry.source) || {};
+      if (source.registry === undefined) {
+        const kind = Object.keys(source)[0];
+        if (kind !== 'editable' && kind !== 'virtual') {
+          warnings.push(`Skipped ${name}: installed from a ${kind || 'non-index'} source`);
+        }
+        continue;
+      }
+      if (typeof version !== 'string') {
+        continue;
+      }
+      packages.push({ name, version, group: MAIN_GROUP });
+    }
+    return packages;
+  }
+
+  private parsePipfileLock(content: string, warnings: string[]): LockedPackage[] {
+    let document: unknown;
+    try {
+      document = JSON.parse(content);
+    } catch (error) {
+      throw new PackageReadmeMcpError(`Could not parse Pipfile.lock: ${(error as Error).message}`, 'VALIDATION_ERROR');
+    }
+
+    const packages: LockedPackage[] = [];
+    const sections: [string, string][] = [['default', MAIN_GROUP], ['develop', 'dev']];
+    for (const [section, group] of sections) {
+      const entries = (document as Record<string, unknown>)?.[section];
+      for (const [name, entry] of Object.entries(entries && typeof entries === 'object' ? entries : {})) {
+        const version = (entry as { version?: unknown })?.version;
+        if (typeof version !== 'string') {
+          warnings.push(`Skipped ${name}: not pinned to a version`);
+          continue;
+        }
+        packages.push({ name, version: version.replace(/^===?/, ''), group });
+      }
+    }
+    return packages;
+  }
+
+  private parsePipFreeze(content: string, warnings: string[]): LockedPackage[] {
+    const packages: LockedPackage[] = [];
+    for (const rawLine of content.replace(/\r\n/g, '\n').split('\n')) {
+      const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+      if (!line) {
+        continue;
+      }
+
+      const pin = line.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*===?\s*([^\s;]+)/);
+      if (pin) {
+        packages.push({ name: pin[1], version: pin[2], group: MAIN_GROUP });
+      } else if (!line.startsWith('-') || /^(-e|--editable)\b/.test(line)) {
+        warnings.push(`Skipped "${line}": not pinned to a version`);
+      }
+    }
+    return packages;
+  }
+
+  private readToml(content: string, format: LockfileFormat): TomlTable {
+    try {
+      return parseToml(content);
+    } catch (error) {
+      throw new PackageReadmeMcpError(`Could not parse ${format}: ${(error as Error).message}`, 'VALIDATION_ERROR');
+    }
+  }
+}
+
+function asTable(value: TomlValue | undefined): TomlTable | undefined {
+  return isTomlTable(value) ? value : undefined;
+}
+
+function asTables(value: TomlValue | undefined): TomlTable[] {
+  return Array.isArray(value) ? value.filter(isTomlTable) : [];
+}
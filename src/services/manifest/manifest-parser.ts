@@ -0,0 +1,419 @@
+import { logger } from '../../utils/logger.js';
+import { parseRequirement } from '../../utils/pep508.js';
+import { isTomlTable, parseToml, TomlTable, TomlValue } from '../../utils/toml.js';
+import { MANIFEST_CONFIG } from '../../config/constants.js';
+import {
+  ManifestFormat,
+  ManifestRequirement,
+  PackageReadmeMcpError,
+} from '../../types/index.js';
+
+export interface ManifestParseOptions {
+  filename?: string | undefined;
+  format?: ManifestFormat | undefined;
+  includedFiles?: Record<string, string> | undefined;
+}
+
+export interface ParsedManifest {
+  format: ManifestFormat;
+  requirements: ManifestRequirement[];
+  warnings: string[];
+}
+
+export const MAIN_GROUP = 'main';
+
+// Per-requirement options in a requirements file, e.g. "--hash=sha256:..." or "--config-settings key=value"
+const REQUIREMENT_OPTION_PATTERN = /\s+--?[A-Za-z][\w-]*(?:[=\s]\S+)?/g;
+
+/**
+ * Reads the requirements declared by a project manifest: requirements.txt,
+ * pyproject.toml (PEP 621, PEP 735 dependency groups and Poetry), setup.cfg or Pipfile.
+ * Entries that cannot be looked up on PyPI, such as local paths and editable
+ * installs, are skipped and reported as warnings.
+ */
+export class ManifestParser {
+  parse(content: string, options: ManifestParseOptions = {}): ParsedManifest {
+    const format = options.format || this.detectFormat(content, options.filename);
+    const context = new ParseContext(options.includedFiles || {});
+
+    logger.debug(`Parsing manifest as ${format}`);
+
+    switch (format) {
+      case 'requirements':
+        this.parseRequirementsFile(content, options.filename || 'requirements.txt', context, 0);
+        break;
+      case 'pyproject':
+        this.parsePyproject(this.readToml(content, format), context);
+        break;
+      case 'setup.cfg':
+        this.parseSetupCfg(content, context);
+        break;
+      case 'pipfile':
+        this.parsePipfile(this.readToml(content, format), context);
+        break;
+      default:
+        throw new PackageReadmeMcpError(`Unsupported manifest format: ${format}`, 'VALIDATION_ERROR');
+    }
+
+    return { format, requirements: context.requirements, warnings: context.warnings };
+  }
+
+  detectFormat(content: string, filename?: string): ManifestFormat {
+    const basename = (filename || '').split(/[\\/]/).pop()!.toLowerCase();
+    if (basename === 'pyproject.toml') {
+      return 'pyproject';
+    }
+    if (basename === 'setup.cfg') {
+      return 'setup.cfg';
+    }
+    if (basename === 'pipfile') {
+      return 'pipfile';
+    }
+    if (basename.endsWith('.txt') || basename.endsWith('.in')) {
+      return 'requirements';
+    }
+
+    if (/^\[(project|tool\.poetry|build-system|dependency-groups)[\].]/m.test(content)) {
+      return 'pyproject';
+    }
+    if (/^\[(dev-)?packages\]/m.test(content)) {
+      return 'pipfile';
+    }
+    if (/^\[(metadata|options)[\].]/m.test(content)) {
+      return 'setup.cfg';
+    }
+    return 'requirements';
+  }
+
+  private parseRequirementsFile(content: string, source: string, context: ParseContext, depth: number): void {
+    // Backslash-continued lines form a single logical line
+    const lines = content.replace(/\r\n/g, '\n').replace(/\\\n/g, ' ').split('\n');
+
+    for (const rawLine of lines) {
+      const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+      if (!line) {
+        continue;
+      }
+
+      const include = line.match(/^(?:-r|--requirement)(?:\s+|=)?(\S+)$/);
+      if (include) {
+        if (depth >= MANIFEST_CONFIG.MAX_INCLUDE_DEPTH) {
+          context.warn(`${source}: skipped "${include[1]}", includes are nested more than ${MANIFEST_CONFIG.MAX_INCLUDE_DEPTH} levels deep`);
+          continue;
+        }
+        const included = context.readIncludedFile(include[1], source);
+        if (included !== null) {
+          this.parseRequirementsFile(included, include[1], context, depth + 1);
+        }
+        continue;
+      }
+
+      if (/^(-e|--editable)\b/.test(line)) {
+        context.warn(`${source}: skipped editable requirement "${line}"`);
+        continue;
+      }
+
+      // Constraints files and global options (-c, -i, --index-url, --pre, ...) declare no requirements
+      if (line.startsWith('-')) {
+        continue;
+      }
+
+      // Per-requirement options such as --hash follow the requirement itself
+      const requirement = (` ${line}`.split(REQUIREMENT_OPTION_PATTERN)[0]).trim();
+      context.add(requirement, MAIN_GROUP, source);
+    }
+  }
+
+  private parsePyproject(document: TomlTable, context: ParseContext): void {
+    const project = asTable(document.project);
+    if (project) {
+      for (const requirement of asStrings(project.dependencies)) {
+        context.add(requirement, MAIN_GROUP, 'project.dependencies');
+      }
+      for (const [extra, requirements] of Object.entries(asTable(project['optional-dependencies']) || {})) {
+        for (const requirement of asStrings(requirements)) {
+          context.add(requirement, extra, `project.optional-dependencies.${extra}`);
+        }
+      }
+    }
+
+    // PEP 735; {include-group = "..."} entries refer to groups that are listed anyway
+    for (const [group, requirements] of Object.entries(asTable(document['dependency-groups']) || {})) {
+      for (const requirement of asStrings(requirements)) {
+        context.add(requirement, group, `dependency-groups.${group}`);
+      }
+    }
+
+    const poetry = asTable(asTable(document.tool)?.poetry);
+    if (poetry) {
+      this.parsePoetry(poetry, context);
+    }
+  }
+
+  private parsePoetry(poetry: TomlTable, context: ParseContext): void {
+    // Optional dependencies are installed through the extras that list them
+    const extrasByPackage = new Map<string, string[]>();
+    for (const [extra, packages] of Object.entries(asTable(poetry.extras) || {})) {
+      for (const name of asStrings(packages)) {
+        extrasByPackage.set(name.toLowerCase(), [...(extrasByPackage.get(name.toLowerCase()) || []), extra]);
+      }
+    }
+
+    for (const [name, value] of Object.entries(asTable(poetry.dependencies) || {})) {
+      if (name.toLowerCase() === 'python') {
+        continue;
+      }
+      const optional = isTomlTable(value) && value.optional === true;
+      const groups = optional ? extrasByPackage.get(name.toLowerCase()) || ['optional'] : [MAIN_GROUP];
+      for (const group of groups) {
+        this.addTableDependency(name, value, group, 'tool.poetry.dependencies', context, poetryConstraintToSpecifier);
+      }
+    }
+
+    for (const [name, value] of Object.entries(asTable(poetry['dev-dependencies']) || {})) {
+      this.addTableDependency(name, value, 'dev', 'tool.poetry.dev-dependencies', context, poetryConstraintToSpecifier);
+    }
+
+    for (const [group, table] of Object.entries(asTable(poetry.group) || {})) {
+      for (const [name, value] of Object.entries(asTable(asTable(table)?.dependencies) || {})) {
+        this.addTableDependency(name, value, group, `tool.poetry.group.${group}.dependencies`, context, poetryConstraintToSpecifier);
+      }
+    }
+  }
+
+  private parsePipfile(document: TomlTable, context: ParseContext): void {
+    const sections: [string, string][] = [['packages', MAIN_GROUP], ['dev-packages', 'dev']];
+    for (const [section, group] of sections) {
+      for (const [name, value] of Object.entries(asTable(document[section]) || {})) {
+        this.addTableDependency(name, value, group, section, context, constraint => constraint === '*' ? '' : constraint);
+      }
+    }
+  }
+
+  private parseSetupCfg(content: string, context: ParseContext): void {
+    const sections = parseIni(content);
+
+    const readValue = (value: string, source: string): string[] => {
+      // "file: requirements.txt" reads the requirements from another file
+      const file = value.match(/^file:\s*(.+)$/);
+      if (file) {
+        return file[1].split(',').flatMap(path => {
+          const included = context.readIncludedFile(path.trim(), source);
+          return included === null ? [] : included.split('\n');
+        });
+      }
+      return value.split('\n');
+    };
+
+    const options = sections['options'] || {};
+    if (options.install_requires) {
+      for (const line of readValue(options.install_requires, 'options.install_requires')) {
+        context.addLine(line, MAIN_GROUP, 'options.install_requires');
+      }
+    }
+
+    for (const [extra, value] of Object.entries(sections['options.extras_require'] || {})) {
+      for (const line of readValue(value, `options.extras_require.${extra}`)) {
+        context.addLine(line, extra, `options.extras_require.${extra}`);
+      }
+    }
+  }
+
+  /**
+   * Adds a Poetry or Pipfile entry, which is either a constraint string or a
+   * table with version, extras and markers
+   */
+  private addTableDependency(
+    name: string,
+    value: TomlValue,
+    group: string,
+    source: string,
+    context: ParseContext,
+    toSpecifier: (constraint: string) => string
+  ): void {
+    // Poetry allows a list of constraints for different environments; the first one stands for all
+    const entry = Array.isArray(value) ? value[0] : value;
+
+    if (typeof entry === 'string') {
+      context.add(`${name}${toSpecifier(entry.trim())}`, group, source);
+      return;
+    }
+    if (!isTomlTable(entry)) {
+      context.warn(`${source}: skipped "${name}" with an unsupported value`);
+      return;
+    }
+
+    if (entry.path !== undefined || entry.file !== undefined) {
+      context.warn(`${source}: skipped local dependency "${name}"`);
+      return;
+    }
+
+    const extras = asStrings(entry.extras);
+    const url = typeof entry.url === 'string' ? entry.url
+      : typeof entry.git === 'string' ? `git+${entry.git}` : undefined;
+    const specifier = typeof entry.version === 'string' ? toSpecifier(entry.version.trim()) : '';
+    const marker = typeof entry.markers === 'string' ? entry.markers : '';
+
+    let requirement = extras.length > 0 ? `${name}[${extras.join(',')}]` : name;
+    requirement += url ? ` @ ${url}` : specifier;
+    if (marker) {
+      requirement += `${url ? ' ' : ''}; ${marker}`;
+    }
+    context.add(requirement, group, source);
+  }
+
+  private readToml(content: string, format: ManifestFormat): TomlTable {
+    try {
+      return parseToml(content);
+    } catch (error) {
+      throw new PackageReadmeMcpError(
+        `Could not parse ${format === 'pipfile' ? 'Pipfile' : 'pyproject.toml'}: ${(error as Error).message}`,
+        'VALIDATION_ERROR'
+      );
+    }
+  }
+}
+
+class ParseContext {
+  readonly requirements: ManifestRequirement[] = [];
+  readonly warnings: string[] = [];
+  private readonly visited = new Set<string>();
+
+  constructor(private readonly includedFiles: Record<string, string>) {}
+
+  add(requirement: string, group: string, source: string): void {
+    if (/^(\.{0,2}\/|[a-z][a-z0-9+.-]*:\/\/)/i.test(requirement)) {
+      this.warn(`${source}: skipped requirement without a package name "${requirement}"`);
+      return;
+    }
+
+    const dependency = parseRequirement(requirement);
+    if (!dependency) {
+      this.warn(`${source}: skipped unparseable requirement "${requirement}"`);
+      return;
+    }
+    this.requirements.push({ ...dependency, group });
+  }
+
+  addLine(line: string, group: string, source: string): void {
+    const requirement = line.replace(/(^|\s)#.*$/, '').trim();
+    if (requirement) {
+      this.add(requirement, group, source);
+    }
+  }
+
+  /**
+   * Looks up a referenced file by its path, falling back to its base name.
+   * Returns null (with a warning) when it was not provided or was already read.
+   */
+  readIncludedFile(path: string, source: string): string | null {
+    const normalized = path.replace(/^\.\//, '');
+    const basename = normalized.split(/[\\/]/).pop()!;
+    const key = [path, normalized, basename].find(candidate => candidate in this.includedFiles);
+
+    if (key === undefined) {
+      this.warn(`${source}: included file "${path}" was not provided`);
+      return null;
+    }
+    if (this.visited.has(key)) {
+      return null;
+    }
+    this.visited.add(key);
+    return this.includedFiles[key];
+  }
+
+  warn(message: string): void {
+    logger.debug(`Manifest: ${message}`);
+    this.warnings.push(message);
+  }
+}
+
+/**
+ * Converts a Poetry version constraint to a PEP 440 specifier set, e.g.
+ * "^1.2" to ">=1.2,<2" and "~1.2.3" to ">=1.2.3,<1.3". Only the last of
+ * several "||" alternatives is kept, as PEP 440 has no union.
+ */
+export function poetryConstraintToSpecifier(constraint: string): string {
+  const alternatives = constraint.split('||');
+  const clauses = alternatives[alternatives.length - 1]
+    .trim()
+    // Clauses may be separated by commas or by whitespace
+    .replace(/([<>=!~^]=?)\s+/g, '$1')
+    .split(/\s*,\s*|\s+/)
+    .filter(Boolean);
+
+  return clauses.flatMap(convertPoetryClause).join(',');
+}
+
+function convertPoetryClause(clause: string): string[] {
+  if (clause === '*') {
+    return [];
+  }
+
+  const caret = clause.match(/^\^(\S+)$/);
+  const tilde = clause.match(/^~(?!=)(\S+)$/);
+  if (caret || tilde) {
+    const version = (caret || tilde)![1];
+    const release = (version.match(/^\d+(\.\d+)*/)?.[0] || '0').split('.').map(Number);
+
+    let index: number;
+    if (caret) {
+      // Bump the first non-zero component; "^0.0" still allows patch releases only
+      index = release.findIndex(part => part !== 0);
+      if (index === -1) {
+        index = release.length - 1;
+      }
+    } else {
+      index = release.length === 1 ? 0 : 1;
+    }
+
+    const upper = [...release.slice(0, index), release[index] + 1].join('.');
+    return [`>=${version}`, `<${upper}`];
+  }
+
+  if (/^[<>=!~]/.test(clause)) {
+    return [clause];
+  }
+  return [`==${clause}`];
+}
+
+function parseIni(content: string): Record<string, Record<string, string>> {
+  const sections: Record<string, Record<string, string>> = {};
+  let section: Record<string, string> | null = null;
+  let key: string | null = null;
+
+  for (const line of content.replace(/\r\n/g, '\n').split('\n')) {
+    if (/^\s*[#;]/.test(line) || !line.trim()) {
+      continue;
+    }
+
+    const header = line.match(/^\[([^\]]+)\]\s*$/);
+    if (header) {
+      section = sections[header[1].trim()] ??= {};
+      key = null;
+      continue;
+    }
+
+    // Indented lines continue the previous value
+    if (/^\s/.test(line) && section && key) {
+      section[key] = section[key] ? `${section[key]}\n${line.trim()}` : line.trim();
+      continue;
+    }
+
+    const pair = line.match(/^([^=:]+?)\s*[=:]\s*(.*)$/);
+    if (pair && section) {
+      key = pair[1].trim();
+      section[key] = pair[2].trim();
+    }
+  }
+
+  return sections;
+}
+
+function asTable(value: TomlValue | undefined): TomlTable | undefined {
+  return isTomlTable(value) ? value : undefined;
+}
+
+function asStrings(value: TomlValue | undefined): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
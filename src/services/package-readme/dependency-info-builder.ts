@@ -0,0 +1,40 @@
+import { logger } from '../../utils/logger.js';
+import { getMarkerExtras, parseRequirement } from '../../utils/pep508.js';
+import { PackageDependency, PyPIPackageInfo } from '../../types/index.js';
+
+export interface DependencyInfo {
+  dependencies: PackageDependency[];
+  optional_dependencies: Record<string, PackageDependency[]>;
+}
+
+export class DependencyInfoBuilder {
+  /**
+   * Parses Requires-Dist into runtime dependencies and dependencies grouped by
+   * the extra that pulls them in. A requirement listed under several extras
+   * (e.g. `extra == "test" or extra == "dev"`) appears in each group.
+   */
+  build(packageInfo: PyPIPackageInfo): DependencyInfo {
+    const dependencies: PackageDependency[] = [];
+    const optionalDependencies: Record<string, PackageDependency[]> = {};
+
+    for (const requirement of packageInfo.info.requires_dist || []) {
+      const dependency = parseRequirement(requirement);
+      if (!dependency) {
+        logger.warn(`Skipping unparseable requirement of ${packageInfo.info.name}: ${requirement}`);
+        continue;
+      }
+
+      const extras = getMarkerExtras(dependency.marker);
+      if (extras.length === 0) {
+        dependencies.push(dependency);
+        continue;
+      }
+
+      for (const extra of extras) {
+        (optionalDependencies[extra] ??= []).push(dependency);
+      }
+    }
+
+    return { dependencies, optional_dependencies: optionalDependencies };
+  }
+}
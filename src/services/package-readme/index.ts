@@ -1,3 +1,6 @@
-export { PackageReadmeService } from './package-readme-service.js';
+export { PackageReadmeService, requireExistingReadme } from './package-readme-service.js';
 export { PackageInfoBuilder } from './package-info-builder.js';
-export { InstallationInfoBuilder } from './installation-info-builder.js';
\ No newline at end of file
+export { InstallationInfoBuilder } from './installation-info-builder.js';
+export { RepositoryInfoBuilder } from './repository-info-builder.js';
+export { DependencyInfoBuilder } from './dependency-info-builder.js';
+export { VulnerabilityInfoBuilder } from './vulnerability-info-builder.js';
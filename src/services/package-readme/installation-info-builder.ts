@@ -1,13 +1,20 @@
-import { InstallationInfo, PyPIPackageInfo } from '../../types/index.js';
+import { EntryPoints, InstallationInfo, PyPIPackageInfo } from '../../types/index.js';
 
 export class InstallationInfoBuilder {
-  build(packageInfo: PyPIPackageInfo): InstallationInfo {
+  /**
+   * Builds install commands. `entryPoints` comes from the package's wheel; pipx is
+   * only suggested when the wheel declares commands, and is left out when it could
+   * not be read.
+   */
+  build(packageInfo: PyPIPackageInfo, entryPoints?: EntryPoints | undefined): InstallationInfo {
     const packageName = packageInfo.info.name;
     
     return {
       pip: `pip install ${packageName}`,
       conda: this.buildCondaCommand(packageName),
-      pipx: this.buildPipxCommand(packageName, packageInfo),
+      pipx: entryPoints ? this.buildPipxCommand(packageName, entryPoints) : undefined,
+      console_scripts: entryPoints?.console_scripts.map(entryPoint => entryPoint.name),
+      gui_scripts: entryPoints?.gui_scripts.map(entryPoint => entryPoint.name),
     };
   }
 
@@ -16,33 +23,11 @@ export class InstallationInfoBuilder {
     return `conda install -c conda-forge ${packageName}`;
   }
 
-  private buildPipxCommand(packageName: string, packageInfo: PyPIPackageInfo): string {
-    // Check if this package provides console scripts (CLI tools)
-    const hasConsoleScripts = this.hasConsoleScripts(packageInfo);
-    
-    if (hasConsoleScripts) {
+  private buildPipxCommand(packageName: string, entryPoints: EntryPoints): string {
+    if (entryPoints.console_scripts.length > 0 || entryPoints.gui_scripts.length > 0) {
       return `pipx install ${packageName}`;
     } else {
       return `# pipx is for CLI applications only - use pip instead`;
     }
   }
-
-  private hasConsoleScripts(packageInfo: PyPIPackageInfo): boolean {
-    // Check classifiers for application indicators
-    const classifiers = packageInfo.info.classifiers || [];
-    
-    const isApplication = classifiers.some(classifier => 
-      classifier.includes('Environment :: Console') ||
-      classifier.includes('Intended Audience :: End Users') ||
-      classifier.includes('Topic :: System :: Systems Administration') ||
-      classifier.includes('Topic :: Utilities')
-    );
-    
-    // Check if package name suggests it's a CLI tool
-    const cliKeywords = ['cli', 'command', 'tool', 'utility', 'script'];
-    const packageName = packageInfo.info.name.toLowerCase();
-    const hasCliKeyword = cliKeywords.some(keyword => packageName.includes(keyword));
-    
-    return isApplication || hasCliKeyword;
-  }
-}
\ No newline at end of file
+}
@@ -1,7 +1,8 @@
 import { PackageBasicInfo, PyPIPackageInfo } from '../../types/index.js';
 
 export class PackageInfoBuilder {
-  build(packageInfo: PyPIPackageInfo): PackageBasicInfo {
+  // `importNames` comes from the package's wheel, when it could be read
+  build(packageInfo: PyPIPackageInfo, importNames?: string[] | undefined): PackageBasicInfo {
     const info = packageInfo.info;
     
     return {
@@ -13,6 +14,7 @@ export class PackageInfoBuilder {
       keywords: this.extractKeywords(info),
       classifiers: info.classifiers || [],
       requires_python: info.requires_python || undefined,
+      import_names: importNames,
     };
   }
 
@@ -1,19 +1,38 @@
 import { logger } from '../../utils/logger.js';
 import { cache, createCacheKey } from '../cache.js';
 import { pypiClient } from '../pypi-api.js';
+import { githubApi } from '../github-api.js';
 import { ReadmeService } from '../readme/index.js';
 import { PackageInfoBuilder } from './package-info-builder.js';
 import { InstallationInfoBuilder } from './installation-info-builder.js';
+import { RepositoryInfoBuilder } from './repository-info-builder.js';
+import { README_CONFIG } from '../../config/constants.js';
+import { isVersionSpecifier } from '../../utils/pep440.js';
 import {
   GetPackageReadmeParams,
+  PackageNotFoundError,
   PackageReadmeResponse,
   PyPIPackageInfo,
+  ReadmeSource,
+  WheelMetadata,
 } from '../../types/index.js';
 
+/**
+ * getPackageReadme reports a missing package or version in the response rather than
+ * throwing. Callers with nothing to serve without a README fail through this instead.
+ */
+export function requireExistingReadme(readme: PackageReadmeResponse): PackageReadmeResponse {
+  if (!readme.exists) {
+    throw new PackageNotFoundError(readme.version === 'latest' ? readme.package_name : `${readme.package_name}@${readme.version}`);
+  }
+  return readme;
+}
+
 export class PackageReadmeService {
   private readmeService = new ReadmeService();
   private packageInfoBuilder = new PackageInfoBuilder();
   private installationInfoBuilder = new InstallationInfoBuilder();
+  private repositoryInfoBuilder = new RepositoryInfoBuilder();
 
   async getPackageReadme(params: GetPackageReadmeParams): Promise<PackageReadmeResponse> {
     const { 
@@ -40,13 +59,15 @@ export class PackageReadmeService {
         return this.createNotFoundResponse(package_name, version);
       }
 
-      // Get README content
-      const readmeContent = this.extractReadmeContent(packageInfo);
-      const cleanedContent = this.readmeService.cleanReadmeContent(readmeContent);
+      // Get README content, falling back to the repository when PyPI's is missing or thin
+      const repository = this.repositoryInfoBuilder.build(packageInfo);
+      const readme = await this.resolveReadme(packageInfo);
+      const cleanedContent = this.readmeService.cleanReadmeContent(readme.content);
+      const wheelMetadata = await this.getWheelMetadata(packageInfo);
       
-      // Extract usage examples if requested
+      // Extract usage examples if requested, preferring those that import the package's modules
       const usageExamples = include_examples && cleanedContent 
-        ? this.readmeService.extractUsageExamples(cleanedContent)
+        ? this.readmeService.extractUsageExamples(cleanedContent, wheelMetadata?.import_names)
         : [];
 
       // Build response
@@ -54,15 +75,23 @@ export class PackageReadmeService {
         package_name,
         version: packageInfo.info.version,
         description: packageInfo.info.summary || '',
+        requested_version: isVersionSpecifier(version) ? version : undefined,
         readme_content: cleanedContent,
+        readme_source: readme.source,
         usage_examples: usageExamples,
-        installation: this.installationInfoBuilder.build(packageInfo),
-        basic_info: this.packageInfoBuilder.build(packageInfo),
+        installation: this.installationInfoBuilder.build(packageInfo, wheelMetadata?.entry_points),
+        basic_info: this.packageInfoBuilder.build(packageInfo, wheelMetadata?.import_names),
+        repository,
         exists: true,
+        index: pypiClient.getIndexName(packageInfo),
       };
 
-      // Cache the response
-      cache.set(cacheKey, response);
+      // Cache the response; stale ones are rebuilt once the refresh lands
+      if (pypiClient.isStale(packageInfo)) {
+        response.stale = true;
+      } else {
+        cache.set(cacheKey, response);
+      }
       logger.info(`Successfully fetched README for ${package_name}@${packageInfo.info.version}`);
 
       return response;
@@ -76,29 +105,122 @@ export class PackageReadmeService {
   private async getPackageInfo(packageName: string, version: string): Promise<PyPIPackageInfo | null> {
     try {
       logger.debug(`Getting package info for: ${packageName}@${version}`);
-      return version === 'latest' 
-        ? await pypiClient.getPackageInfo(packageName)
-        : await pypiClient.getVersionInfo(packageName, version);
+      const latest = await pypiClient.getPackageInfo(packageName);
+      if (version === 'latest') {
+        return latest;
+      }
+
+      const resolvedVersion = await pypiClient.resolveVersion(latest, packageName, version);
+      return await pypiClient.getVersionInfo(packageName, resolvedVersion);
     } catch (error) {
       logger.debug(`Package not found: ${packageName}`, { error });
       return null;
     }
   }
 
-  private extractReadmeContent(packageInfo: PyPIPackageInfo): string {
+  // Commands and modules the package installs, or null when its wheel cannot be read
+  private async getWheelMetadata(packageInfo: PyPIPackageInfo): Promise<WheelMetadata | null> {
+    try {
+      return await pypiClient.getWheelMetadata(packageInfo.info.name, packageInfo.info.version);
+    } catch (error) {
+      logger.debug(`No wheel metadata for ${packageInfo.info.name}@${packageInfo.info.version}`, { error });
+      return null;
+    }
+  }
+
+  private async resolveReadme(packageInfo: PyPIPackageInfo): Promise<{ content: string; source: ReadmeSource }> {
+    const pypiReadme = this.extractReadmeContent(packageInfo);
+    if (pypiReadme && !this.isThinReadme(pypiReadme, packageInfo)) {
+      return { content: pypiReadme, source: 'pypi' };
+    }
+
+    const githubUrl = this.repositoryInfoBuilder.findGitHubUrl(packageInfo);
+    if (githubUrl) {
+      const githubReadme = await this.fetchGitHubReadme(githubUrl);
+      if (githubReadme && githubReadme.trim().length > (pypiReadme?.trim().length || 0)) {
+        logger.debug(`Using README from GitHub: ${githubUrl}`);
+        return { content: githubReadme, source: 'github' };
+      }
+    }
+
+    if (pypiReadme) {
+      return { content: pypiReadme, source: 'pypi' };
+    }
+
+    if (packageInfo.info.summary) {
+      return { content: packageInfo.info.summary, source: 'summary' };
+    }
+
+    return { content: 'No README available for this package.', source: 'none' };
+  }
+
+  private extractReadmeContent(packageInfo: PyPIPackageInfo): string | null {
+    const { description, description_content_type } = packageInfo.info;
+
     // Try to get README from PyPI description
-    if (packageInfo.info.description && packageInfo.info.description_content_type) {
-      const contentType = packageInfo.info.description_content_type.toLowerCase();
+    if (description && description.trim()) {
+      // Core metadata treats a missing content type as reStructuredText
+      const contentType = (description_content_type || 'text/x-rst').toLowerCase();
       if (contentType.includes('markdown') || contentType.includes('md')) {
         logger.debug(`Using README from PyPI description`);
-        return packageInfo.info.description;
+        return description;
+      }
+      if (contentType.includes('rst')) {
+        logger.debug(`Converting reStructuredText README from PyPI description`);
+        return this.readmeService.convertRstToMarkdown(description);
       }
     }
 
-    // Fallback to summary or description
-    return packageInfo.info.summary || 
-           packageInfo.info.description || 
-           'No README available for this package.';
+    return null;
+  }
+
+  /**
+   * Detects descriptions that only repeat the summary. Short descriptions and ones that
+   * point to documentation elsewhere only count with a GitHub token, as many packages
+   * have a short README and would use up the unauthenticated rate limit.
+   */
+  private isThinReadme(content: string, packageInfo: PyPIPackageInfo): boolean {
+    const text = content.trim();
+    const summary = (packageInfo.info.summary || '').trim();
+
+    if (text === summary || text.toUpperCase() === 'UNKNOWN') {
+      return true;
+    }
+    if (!githubApi.hasToken()) {
+      return false;
+    }
+    if (text.length < README_CONFIG.MIN_README_LENGTH) {
+      return true;
+    }
+
+    const pointsElsewhere = /\b(?:see|visit|moved to|refer to|available (?:at|on)|can be found (?:at|on)|documentation (?:is )?(?:at|on))\b[\s\S]*https?:\/\//i;
+    return text.length < README_CONFIG.MAX_REDIRECT_README_LENGTH && pointsElsewhere.test(text);
+  }
+
+  private async fetchGitHubReadme(repositoryUrl: string): Promise<string | null> {
+    const repoInfo = githubApi.extractRepoInfo(repositoryUrl);
+    if (!repoInfo) {
+      return null;
+    }
+
+    const cacheKey = createCacheKey.githubReadme(repoInfo.owner, repoInfo.repo);
+    const cached = cache.get<string>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const content = await githubApi.getReadmeFromUrl(repositoryUrl);
+    if (!content) {
+      return null;
+    }
+
+    // GitHub serves the README in whatever format the repository uses
+    const markdown = this.readmeService.isRstContent(content)
+      ? this.readmeService.convertRstToMarkdown(content)
+      : content;
+
+    cache.set(cacheKey, markdown);
+    return markdown;
   }
 
   private createNotFoundResponse(packageName: string, version: string): PackageReadmeResponse {
@@ -107,6 +229,7 @@ export class PackageReadmeService {
       version: version || 'latest',
       description: 'Package not found',
       readme_content: '',
+      readme_source: 'none',
       usage_examples: [],
       installation: {
         pip: `pip install ${packageName}`,
@@ -0,0 +1,43 @@
+import { PyPIPackageInfo, RepositoryInfo } from '../../types/index.js';
+
+const REPOSITORY_URL_KEYS = ['repository', 'source', 'source code', 'code', 'github', 'gitlab', 'bitbucket'];
+const REPOSITORY_HOSTS = ['github.com', 'gitlab.com', 'bitbucket.org'];
+
+export class RepositoryInfoBuilder {
+  build(packageInfo: PyPIPackageInfo): RepositoryInfo | undefined {
+    const projectUrls = packageInfo.info.project_urls || {};
+
+    // Look for repository-related URLs, matching labels case-insensitively
+    for (const key of REPOSITORY_URL_KEYS) {
+      const label = Object.keys(projectUrls).find(name => name.trim().toLowerCase() === key);
+      if (label && projectUrls[label]) {
+        return { type: 'git', url: projectUrls[label] };
+      }
+    }
+
+    // Then for any project URL or home page on a known code host
+    const candidates = [...Object.values(projectUrls), packageInfo.info.home_page];
+    const hostedUrl = candidates.find(url => url && this.isRepositoryHost(url));
+    if (hostedUrl) {
+      return { type: 'git', url: hostedUrl };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Finds a GitHub URL for the package, preferring the declared repository
+   */
+  findGitHubUrl(packageInfo: PyPIPackageInfo): string | undefined {
+    const candidates = [
+      this.build(packageInfo)?.url,
+      ...Object.values(packageInfo.info.project_urls || {}),
+      packageInfo.info.home_page,
+    ];
+    return candidates.find((url): url is string => Boolean(url && /github\.com[/:]/i.test(url)));
+  }
+
+  private isRepositoryHost(url: string): boolean {
+    return REPOSITORY_HOSTS.some(host => url.toLowerCase().includes(host));
+  }
+}
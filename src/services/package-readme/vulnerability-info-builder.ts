@@ -0,0 +1,25 @@
+import { PyPIPackageInfo, Vulnerability } from '../../types/index.js';
+
+export class VulnerabilityInfoBuilder {
+  /**
+   * Lists the advisories PyPI reports for the release described by packageInfo.
+   * Withdrawn advisories are left out.
+   */
+  build(packageInfo: PyPIPackageInfo): Vulnerability[] {
+    return (packageInfo.vulnerabilities || [])
+      .filter(vulnerability => !vulnerability.withdrawn)
+      .map(vulnerability => ({
+        id: vulnerability.id,
+        aliases: vulnerability.aliases || [],
+        summary: vulnerability.summary?.trim() || this.summarizeDetails(vulnerability.details) || vulnerability.id,
+        fixed_in: vulnerability.fixed_in || [],
+        link: vulnerability.link || `https://osv.dev/vulnerability/${vulnerability.id}`,
+      }));
+  }
+
+  // Most PyPA advisories have no summary; their details start with a one-line description
+  private summarizeDetails(details: string | undefined): string {
+    const firstLine = (details || '').trim().split('\n')[0].trim();
+    return firstLine.length > 200 ? `${firstLine.slice(0, 197)}...` : firstLine;
+  }
+}
@@ -1,28 +1,235 @@
+import { createHash } from 'crypto';
 import { logger } from '../utils/logger.js';
 import { handleApiError, handleHttpError, withRetry } from '../utils/error-handler.js';
-import { API_CONFIG, PYPI_CONFIG } from '../config/constants.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { conditionalHeaders, getValidators, hasValidators, HTTP_PARTIAL_CONTENT, isNotModified, RevalidatableEntry } from '../utils/http.js';
+import { compareVersions, findBestMatch, isVersionSpecifier, normalizeVersion, parseSpecifierSet, sortVersions } from '../utils/pep440.js';
+import { parseDistributionFilename } from '../utils/distribution-filename.js';
+import { parseCoreMetadata } from '../utils/core-metadata.js';
+import { parseEntryPoints } from '../utils/entry-points.js';
+import { parseImportNames } from '../utils/import-names.js';
+import { extractEntry, findCentralDirectory, LOCAL_HEADER_SIZE, localDataOffset, parseCentralDirectory, ZIP_TAIL_SIZE, ZipEntry } from '../utils/zip.js';
+import { API_CONFIG, CACHE_CONFIG, PYPI_CONFIG, SEARCH_INDEX_CONFIG } from '../config/constants.js';
+import { getIndexScope, loadPackageIndexes } from '../config/indexes.js';
+import { cache as defaultCache, createCacheKey, MemoryCache } from './cache.js';
+import { PackageIndexStore } from './search/index.js';
 import { 
+  CoreMetadata,
+  EntryPoints,
+  PackageIndexConfig,
+  PackageNameMatch,
   PyPIPackageInfo, 
   PyPISearchResponse,
+  PyPISimpleIndexResponse,
+  PyPISimpleFile,
   PyPISimpleResponse,
+  WheelContents,
+  WheelMetadata,
+  PackageReadmeMcpError,
   VersionNotFoundError,
   PackageNotFoundError,
 } from '../types/index.js';
 
+type PyPISearchResult = PyPISearchResponse['results'][number];
+
+export interface PyPIClientOptions {
+  indexes?: PackageIndexConfig[];  // Queried in turn; the first one that has the package serves it
+  cache?: MemoryCache;
+  ttl?: number;         // Milliseconds a JSON API document is served as fresh
+  staleGrace?: number;  // Milliseconds past ttl it is still served while a refresh runs; 0 disables
+}
+
+// A wheel read through byte ranges
+interface WheelArchive {
+  entries: ZipEntry[];
+  readEntry(entry: ZipEntry): Promise<Buffer>;
+  prefetch(entries: ZipEntry[]): Promise<void>;
+}
+
+interface CachedDocument<T> extends RevalidatableEntry<T> {
+  index: string;                // Name of the index that served the document
+  serial?: number | undefined;  // PyPI's last_serial of the project when the document was served
+}
+
+// How to fetch one kind of index document
+interface DocumentRequest<T> {
+  accept: string;
+  context: string;  // e.g. "package requests", for logs and errors
+  urlFor: (index: PackageIndexConfig) => string;
+  notFoundError: () => Error;
+  serialOf: (data: T, response: Response) => number | undefined;
+  prepare?: ((data: T, url: string) => T) | undefined;
+}
+
+const SIMPLE_API_CONTENT_TYPE = 'application/vnd.pypi.simple.v1+json';
+
+// Wheel failures that a retry would run into again
+const UNAVAILABLE_WHEEL_CODES = new Set(['WHEEL_NOT_AVAILABLE', 'WHEEL_TOO_LARGE', 'INVALID_WHEEL', 'VERSION_NOT_FOUND']);
+
 export class PyPIClient {
-  private readonly jsonApiUrl = PYPI_CONFIG.BASE_URL;
-  private readonly simpleApiUrl = 'https://pypi.org/simple';
+  private indexes!: PackageIndexConfig[];
+  // Scopes cache keys to the configured indexes
+  private indexScope!: string;
   private readonly timeout: number;
+  private searchIndex!: PackageIndexStore;
+  private readonly cache: MemoryCache;
+  private readonly ttl: number;
+  private readonly staleGrace: number;
+  // Lookups that are currently being fetched, keyed by cache key
+  private readonly inFlight = new Map<string, Promise<object>>();
+  private readonly staleDocuments = new WeakSet<object>();
+  private readonly documentIndexes = new WeakMap<object, string>();
 
-  constructor(timeout?: number) {
+  constructor(timeout?: number, options: PyPIClientOptions = {}) {
     this.timeout = timeout || API_CONFIG.DEFAULT_TIMEOUT;
+    this.configureIndexes(options.indexes?.length ? options.indexes : loadPackageIndexes({}));
+    this.cache = options.cache || defaultCache;
+    this.ttl = options.ttl || CACHE_CONFIG.DEFAULT_TTL;
+    this.staleGrace = Math.max(0, options.staleGrace ?? CACHE_CONFIG.DEFAULT_STALE_GRACE);
+  }
+
+  /**
+   * Switches to other package indexes, primary index first. The shared client starts
+   * out with PyPI and is pointed at the configured indexes once the server starts, so
+   * that a malformed configuration fails startup rather than importing this module.
+   */
+  configureIndexes(indexes: PackageIndexConfig[]): void {
+    this.indexes = indexes;
+    this.indexScope = getIndexScope(indexes);
+    // Search only covers the primary index
+    this.searchIndex = new PackageIndexStore(() => this.getSimpleProjectList(), {
+      scope: getIndexScope(indexes.slice(0, 1)),
+    });
   }
 
   async getPackageInfo(packageName: string): Promise<PyPIPackageInfo> {
-    const url = `${this.jsonApiUrl}/${encodeURIComponent(packageName)}/json`;
-    
+    return this.lookup(createCacheKey.pypiDocument(this.indexScope, packageName, 'latest'), previous =>
+      this.fetchFromIndexes(previous, {
+        accept: 'application/json',
+        context: `package ${packageName}`,
+        urlFor: index => `${index.jsonUrl}/${encodeURIComponent(packageName)}/json`,
+        notFoundError: () => new PackageNotFoundError(packageName),
+        serialOf: jsonApiSerial,
+      }));
+  }
+
+  async getVersionInfo(packageName: string, version: string): Promise<PyPIPackageInfo> {
+    // For specific version, we can use the version-specific endpoint
+    if (version === 'latest') {
+      return this.getPackageInfo(packageName);
+    }
+
+    return this.lookup(createCacheKey.pypiDocument(this.indexScope, packageName, version), previous =>
+      this.fetchFromIndexes(previous, {
+        accept: 'application/json',
+        context: `package ${packageName}@${version}`,
+        urlFor: index => `${index.jsonUrl}/${encodeURIComponent(packageName)}/${encodeURIComponent(version)}/json`,
+        notFoundError: () => new VersionNotFoundError(packageName, version),
+        serialOf: jsonApiSerial,
+      }));
+  }
+
+  /**
+   * Whether a document returned by getPackageInfo, getVersionInfo or getSimpleApiInfo
+   * was served from an expired cache entry while a refresh runs in the background.
+   */
+  isStale(document: object): boolean {
+    return this.staleDocuments.has(document);
+  }
+
+  // Name of the index that served a document returned by getPackageInfo, getVersionInfo or getSimpleApiInfo
+  getIndexName(document: object): string {
+    return this.documentIndexes.get(document) || this.indexes[0].name;
+  }
+
+  /**
+   * Serves JSON API documents from the cache. Concurrent lookups of the same key share
+   * one request, and an entry that expired less than staleGrace ago is returned at once
+   * while it is refreshed in the background. Expired entries are refreshed with a
+   * conditional request, so an unchanged document is not downloaded again.
+   */
+  private async lookup<T extends object>(
+    cacheKey: string,
+    fetchDocument: (previous: CachedDocument<T> | null) => Promise<CachedDocument<T>>
+  ): Promise<T> {
+    const cached = await this.cache.load<CachedDocument<T>>(cacheKey);
+    if (cached) {
+      this.documentIndexes.set(cached.data, cached.index);
+      const age = Date.now() - cached.fetchedAt;
+      if (age <= this.ttl) {
+        return cached.data;
+      }
+
+      if (age <= this.ttl + this.staleGrace) {
+        logger.debug(`Serving stale PyPI document while refreshing: ${cacheKey}`);
+        this.staleDocuments.add(cached.data);
+        this.fetchShared(cacheKey, () => fetchDocument(cached)).catch(error => {
+          logger.warn(`Background refresh failed: ${cacheKey}`, { error });
+        });
+        return cached.data;
+      }
+    }
+
+    return this.fetchShared(cacheKey, () => fetchDocument(cached));
+  }
+
+  private fetchShared<T extends object>(cacheKey: string, fetchDocument: () => Promise<CachedDocument<T>>): Promise<T> {
+    const pending = this.inFlight.get(cacheKey) as Promise<T> | undefined;
+    if (pending) {
+      logger.debug(`Joining in-flight request: ${cacheKey}`);
+      return pending;
+    }
+
+    const request = fetchDocument()
+      .then(entry => {
+        // Entries with validators outlive the grace period so they can be revalidated
+        const retention = hasValidators(entry.validators)
+          ? Math.max(this.staleGrace, CACHE_CONFIG.REVALIDATION_RETENTION)
+          : this.staleGrace;
+        this.cache.save(cacheKey, entry, this.ttl + retention);
+        this.staleDocuments.delete(entry.data);
+        this.documentIndexes.set(entry.data, entry.index);
+        return entry.data;
+      })
+      .finally(() => {
+        this.inFlight.delete(cacheKey);
+      });
+    this.inFlight.set(cacheKey, request);
+    return request;
+  }
+
+  /**
+   * Asks each index in turn and returns the document of the first one that has it.
+   * Only a 404 moves on to the next index; other failures are reported as they are.
+   */
+  private async fetchFromIndexes<T extends object>(
+    previous: CachedDocument<T> | null,
+    request: DocumentRequest<T>
+  ): Promise<CachedDocument<T>> {
+    for (const index of this.indexes) {
+      try {
+        // Validators are only meaningful to the index that issued them
+        return await this.fetchDocument(index, previous?.index === index.name ? previous : null, request);
+      } catch (error) {
+        if (!(error instanceof PackageNotFoundError || error instanceof VersionNotFoundError)) {
+          throw error;
+        }
+        logger.debug(`${request.context} not found on index ${index.name}`);
+      }
+    }
+    throw request.notFoundError();
+  }
+
+  private async fetchDocument<T extends object>(
+    index: PackageIndexConfig,
+    previous: CachedDocument<T> | null,
+    request: DocumentRequest<T>
+  ): Promise<CachedDocument<T>> {
+    const { context, notFoundError } = request;
+    const url = request.urlFor(index);
+
     return withRetry(async () => {
-      logger.debug(`Fetching package info: ${packageName}`);
+      logger.debug(`Fetching PyPI document from ${index.name}: ${context}`);
       
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.timeout);
@@ -31,164 +238,496 @@ export class PyPIClient {
         const response = await fetch(url, {
           signal: controller.signal,
           headers: {
-            'Accept': 'application/json',
+            'Accept': request.accept,
             'User-Agent': API_CONFIG.USER_AGENT,
+            ...this.authorizationHeaders(index),
+            ...conditionalHeaders(previous?.validators),
           },
         });
 
+        if (previous && isNotModified(response, previous)) {
+          logger.debug(`PyPI document not modified: ${context}`);
+          return { ...previous, fetchedAt: Date.now() };
+        }
+
         if (!response.ok) {
           if (response.status === 404) {
-            throw new PackageNotFoundError(packageName);
+            throw notFoundError();
           }
-          handleHttpError(response.status, response, `PyPI for package ${packageName}`);
+          handleHttpError(response.status, response, `${index.name} for ${context}`);
         }
 
-        const data = await response.json() as PyPIPackageInfo;
-        logger.debug(`Successfully fetched package info: ${packageName}`);
-        return data;
+        const body = await response.json() as T;
+        const data = request.prepare ? request.prepare(body, url) : body;
+        const serial = request.serialOf(data, response);
+
+        // A CDN node that has not caught up can serve an older document than the cached one
+        if (previous?.serial !== undefined && serial !== undefined && serial < previous.serial) {
+          logger.debug(`Ignoring PyPI document older than the cached one: ${context} (serial ${serial} < ${previous.serial})`);
+          return { ...previous, fetchedAt: Date.now() };
+        }
+
+        logger.debug(`Successfully fetched PyPI document: ${context}`);
+        return { data, fetchedAt: Date.now(), validators: getValidators(response), index: index.name, serial };
       } catch (error) {
         if ((error as Error).name === 'AbortError') {
-          handleApiError(new Error('Request timeout'), `PyPI for package ${packageName}`);
+          handleApiError(new Error('Request timeout'), `${index.name} for ${context}`);
         }
-        if (error instanceof PackageNotFoundError) {
+        if (error instanceof PackageNotFoundError || error instanceof VersionNotFoundError) {
           throw error;
         }
-        handleApiError(error, `PyPI for package ${packageName}`);
+        handleApiError(error, `${index.name} for ${context}`);
       } finally {
         clearTimeout(timeoutId);
       }
-    }, API_CONFIG.MAX_RETRIES, API_CONFIG.BASE_RETRY_DELAY, `PyPI getPackageInfo(${packageName})`);
+    }, API_CONFIG.MAX_RETRIES, API_CONFIG.BASE_RETRY_DELAY, `PyPI fetch(${index.name}: ${context})`);
   }
 
-  async getVersionInfo(packageName: string, version: string): Promise<PyPIPackageInfo> {
-    // For specific version, we can use the version-specific endpoint
-    if (version === 'latest') {
-      return this.getPackageInfo(packageName);
+  private authorizationHeaders(index: PackageIndexConfig): Record<string, string> {
+    if (index.token) {
+      return { 'Authorization': `Bearer ${index.token}` };
+    }
+    if (index.username || index.password) {
+      const credentials = Buffer.from(`${index.username || ''}:${index.password || ''}`).toString('base64');
+      return { 'Authorization': `Basic ${credentials}` };
+    }
+    return {};
+  }
+
+  async searchPackages(
+    query: string,
+    limit: number = 20
+  ): Promise<PyPISearchResponse> {
+    // PyPI removed its search API, so matches come from a local index of the
+    // Simple API project list and are then filled in from the JSON API
+    logger.debug(`Searching package index for: ${query}`);
+
+    // Only the best matches are filled in, as each one costs a JSON API document
+    const index = await this.searchIndex.getIndex();
+    const matches = index.search(query, limit);
+    const enriched = await mapWithConcurrency(
+      matches.slice(0, SEARCH_INDEX_CONFIG.MAX_ENRICHED_RESULTS),
+      SEARCH_INDEX_CONFIG.ENRICH_CONCURRENCY,
+      match => this.buildSearchResult(match)
+    );
+    const results = [
+      ...enriched,
+      ...matches.slice(SEARCH_INDEX_CONFIG.MAX_ENRICHED_RESULTS).map(match => this.nameOnlySearchResult(match)),
+    ];
+
+    return {
+      info: {
+        page: 1,
+        pages: 1,
+        per_page: limit,
+        total: results.length,
+      },
+      results,
+    };
+  }
+
+  private async buildSearchResult(match: PackageNameMatch): Promise<PyPISearchResult> {
+    try {
+      const { info, urls } = await this.getPackageInfo(match.name);
+      return {
+        name: info.name,
+        version: info.version,
+        description: info.description || '',
+        summary: info.summary || '',
+        keywords: info.keywords || '',
+        author: info.author || '',
+        author_email: info.author_email,
+        maintainer: info.maintainer,
+        maintainer_email: info.maintainer_email,
+        home_page: info.home_page,
+        package_url: info.package_url,
+        project_url: info.project_url,
+        project_urls: info.project_urls,
+        release_url: info.release_url,
+        requires_python: info.requires_python,
+        yanked: info.yanked,
+        yanked_reason: info.yanked_reason,
+        classifiers: info.classifiers || [],
+        upload_time: urls?.[0]?.upload_time_iso_8601,
+        match,
+      };
+    } catch (error) {
+      // Projects without any release have no JSON API document; keep the name match
+      logger.debug(`Could not fetch details for search result: ${match.name}`, { error });
+      return this.nameOnlySearchResult(match);
     }
+  }
+
+  private nameOnlySearchResult(match: PackageNameMatch): PyPISearchResult {
+    const projectUrl = projectPageUrl(this.indexes[0], match.normalized_name);
+    return {
+      name: match.name,
+      version: '',
+      description: '',
+      summary: '',
+      keywords: '',
+      author: '',
+      package_url: projectUrl,
+      project_url: projectUrl,
+      release_url: projectUrl,
+      yanked: false,
+      match,
+    };
+  }
+
+  // Project list of the primary index, which backs search
+  async getSimpleProjectList(): Promise<PyPISimpleIndexResponse> {
+    const index = this.indexes[0];
+    const url = `${index.simpleUrl}/`;
 
-    const url = `${this.jsonApiUrl}/${encodeURIComponent(packageName)}/${encodeURIComponent(version)}/json`;
-    
     return withRetry(async () => {
-      logger.debug(`Fetching version info: ${packageName}@${version}`);
-      
+      logger.debug('Fetching simple API project list');
+
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-      
+      const timeoutId = setTimeout(() => controller.abort(), Math.max(this.timeout, SEARCH_INDEX_CONFIG.DOWNLOAD_TIMEOUT));
+
       try {
         const response = await fetch(url, {
           signal: controller.signal,
           headers: {
-            'Accept': 'application/json',
+            'Accept': SIMPLE_API_CONTENT_TYPE,
             'User-Agent': API_CONFIG.USER_AGENT,
+            ...this.authorizationHeaders(index),
           },
         });
 
         if (!response.ok) {
-          if (response.status === 404) {
-            throw new VersionNotFoundError(packageName, version);
-          }
-          handleHttpError(response.status, response, `PyPI for package ${packageName}@${version}`);
+          handleHttpError(response.status, response, 'PyPI Simple API project list');
         }
 
-        const data = await response.json() as PyPIPackageInfo;
-        logger.debug(`Successfully fetched version info: ${packageName}@${version}`);
+        const data = await response.json() as PyPISimpleIndexResponse;
+        logger.debug(`Successfully fetched simple API project list: ${data.projects.length} projects`);
         return data;
       } catch (error) {
         if ((error as Error).name === 'AbortError') {
-          handleApiError(new Error('Request timeout'), `PyPI for package ${packageName}@${version}`);
+          handleApiError(new Error('Request timeout'), 'PyPI Simple API project list');
         }
-        if (error instanceof VersionNotFoundError) {
-          throw error;
+        handleApiError(error, 'PyPI Simple API project list');
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }, API_CONFIG.MAX_RETRIES, API_CONFIG.BASE_RETRY_DELAY, 'PyPI getSimpleProjectList()');
+  }
+
+  /**
+   * Fetches the PEP 691 JSON project page listing every file of a package, with the
+   * PEP 700 versions, sizes and upload times. File URLs are made absolute.
+   */
+  async getSimpleApiInfo(packageName: string): Promise<PyPISimpleResponse> {
+    return this.lookup(createCacheKey.simpleProject(this.indexScope, packageName), previous =>
+      this.fetchFromIndexes(previous, {
+        accept: SIMPLE_API_CONTENT_TYPE,
+        context: `Simple API page of ${packageName}`,
+        urlFor: index => `${index.simpleUrl}/${encodeURIComponent(packageName)}/`,
+        notFoundError: () => new PackageNotFoundError(packageName),
+        serialOf: (data, response) => data.meta?.['_last-serial'] ?? headerSerial(response),
+        prepare: (data, url) => ({
+          ...data,
+          files: (data.files || []).map(file => ({ ...file, url: new URL(file.url, url).toString() })),
+        }),
+      }));
+  }
+
+  /**
+   * Reads the core metadata of a release from the PEP 658 `.metadata` file of one of
+   * its distributions, which is a few kilobytes instead of a JSON API document.
+   * Throws when the index serves no metadata file for the release.
+   */
+  async getCoreMetadata(packageName: string, version: string): Promise<CoreMetadata> {
+    return this.lookup(createCacheKey.coreMetadata(this.indexScope, packageName, version), async () => {
+      const project = await this.getSimpleApiInfo(packageName);
+      const file = this.selectMetadataFile(project, version);
+      const index = this.projectIndex(project);
+      const data = await this.fetchCoreMetadata(index, file, `${packageName}@${version}`);
+      return { data, fetchedAt: Date.now(), validators: {}, index: index.name };
+    });
+  }
+
+  // Console scripts, GUI scripts and plugin groups a release declares
+  async getEntryPoints(packageName: string, version: string): Promise<EntryPoints> {
+    return (await this.getWheelMetadata(packageName, version)).entry_points;
+  }
+
+  // Top-level modules and packages a release installs, e.g. ["bs4"] for beautifulsoup4
+  async getImportNames(packageName: string, version: string): Promise<string[]> {
+    return (await this.getWheelMetadata(packageName, version)).import_names;
+  }
+
+  /**
+   * Reads entry_points.txt, top_level.txt and RECORD from a wheel of a release with
+   * HTTP range requests, so only the end of the archive and those files are downloaded.
+   * Throws when the release has no wheel. That failure is remembered for
+   * CACHE_CONFIG.UNAVAILABLE_WHEEL_TTL, so callers that treat it as "no metadata" do not
+   * look for the wheel again on every request.
+   */
+  async getWheelMetadata(packageName: string, version: string): Promise<WheelMetadata> {
+    const unavailableKey = createCacheKey.unavailableWheel(this.indexScope, packageName, version);
+    const unavailable = this.cache.get<{ message: string; code: string }>(unavailableKey);
+    if (unavailable) {
+      throw new PackageReadmeMcpError(unavailable.message, unavailable.code);
+    }
+
+    try {
+      return await this.lookup(createCacheKey.wheelMetadata(this.indexScope, packageName, version), async () => {
+        const project = await this.getSimpleApiInfo(packageName);
+        const wheel = this.selectWheel(project, version);
+        const index = this.projectIndex(project);
+        const data = await this.readWheelMetadata(index, wheel.url.split('#')[0], `${packageName}@${version}`);
+        return { data, fetchedAt: Date.now(), validators: {}, index: index.name };
+      });
+    } catch (error) {
+      // Network errors are not remembered, as the next attempt may succeed
+      if (error instanceof PackageReadmeMcpError && UNAVAILABLE_WHEEL_CODES.has(error.code)) {
+        this.cache.set(unavailableKey, { message: error.message, code: error.code }, CACHE_CONFIG.UNAVAILABLE_WHEEL_TTL);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the files of a release's wheel that `select` accepts, preferring a pure
+   * Python wheel. Neighbouring files are fetched together, and the download is
+   * limited to PYPI_CONFIG.MAX_WHEEL_DOWNLOAD bytes. The result is not cached.
+   */
+  async readWheelFiles(packageName: string, version: string, select: (path: string) => boolean): Promise<WheelContents> {
+    const project = await this.getSimpleApiInfo(packageName);
+    const wheel = this.selectWheel(project, version);
+    const index = this.projectIndex(project);
+    const context = `${packageName}@${version}`;
+
+    const archive = await this.openWheel(index, wheel.url.split('#')[0], context);
+    const selected = archive.entries.filter(entry => !entry.name.endsWith('/') && select(entry.name));
+    await archive.prefetch(selected);
+
+    const files = [];
+    for (const entry of selected) {
+      files.push({ path: entry.name, content: (await archive.readEntry(entry)).toString('utf8') });
+    }
+    logger.debug(`Read ${files.length} files from the wheel of ${context}`);
+
+    return { filename: wheel.filename, paths: archive.entries.map(entry => entry.name), files };
+  }
+
+  // Prefers installable wheels, and of those a pure Python one
+  private selectWheel(project: PyPISimpleResponse, version: string): PyPISimpleFile {
+    const wheels = this.selectReleaseFiles(project, version).filter(file => file.filename.endsWith('.whl'));
+    const installable = wheels.filter(file => !file.yanked);
+    const candidates = installable.length > 0 ? installable : wheels;
+    const wheel = candidates.find(file => file.filename.endsWith('-none-any.whl')) || candidates[0];
+    if (!wheel) {
+      throw new PackageReadmeMcpError(`No wheel is available for ${project.name}@${version}`, 'WHEEL_NOT_AVAILABLE');
+    }
+    return wheel;
+  }
+
+  private projectIndex(project: PyPISimpleResponse): PackageIndexConfig {
+    return this.indexes.find(candidate => candidate.name === this.getIndexName(project)) || this.indexes[0];
+  }
+
+  private selectReleaseFiles(project: PyPISimpleResponse, version: string): PyPISimpleFile[] {
+    const wanted = normalizeVersion(version) ?? version;
+    const releaseFiles = project.files.filter(file => {
+      const parsed = parseDistributionFilename(file.filename, project.name);
+      return parsed && (normalizeVersion(parsed.version) ?? parsed.version) === wanted;
+    });
+    if (releaseFiles.length === 0) {
+      throw new VersionNotFoundError(project.name, version);
+    }
+    return releaseFiles;
+  }
+
+  // Prefers wheels, whose metadata is always static, over sdists
+  private selectMetadataFile(project: PyPISimpleResponse, version: string): PyPISimpleFile {
+    const releaseFiles = this.selectReleaseFiles(project, version);
+    const withMetadata = releaseFiles.filter(file => file['core-metadata'] || file['dist-info-metadata']);
+    const file = withMetadata.find(candidate => candidate.filename.endsWith('.whl')) || withMetadata[0];
+    if (!file) {
+      throw new PackageReadmeMcpError(`No core metadata file is available for ${project.name}@${version}`, 'METADATA_NOT_AVAILABLE');
+    }
+    return file;
+  }
+
+  private async fetchCoreMetadata(index: PackageIndexConfig, file: PyPISimpleFile, context: string): Promise<CoreMetadata> {
+    const url = `${file.url.split('#')[0]}.metadata`;
+    const expectedHashes = file['core-metadata'] ?? file['dist-info-metadata'];
+
+    return withRetry(async () => {
+      logger.debug(`Fetching core metadata: ${context}`);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+      try {
+        const response = await fetch(url, {
+          signal: controller.signal,
+          headers: this.fileRequestHeaders(index, url),
+        });
+
+        if (!response.ok) {
+          handleHttpError(response.status, response, `core metadata of ${context}`);
+        }
+
+        const content = await response.text();
+        const expectedSha256 = typeof expectedHashes === 'object' ? expectedHashes.sha256 : undefined;
+        if (expectedSha256 && createHash('sha256').update(content).digest('hex') !== expectedSha256.toLowerCase()) {
+          throw new PackageReadmeMcpError(`Core metadata of ${context} does not match its sha256 hash`, 'METADATA_HASH_MISMATCH');
+        }
+
+        logger.debug(`Successfully fetched core metadata: ${context}`);
+        return parseCoreMetadata(content);
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') {
+          handleApiError(new Error('Request timeout'), `core metadata of ${context}`);
         }
-        handleApiError(error, `PyPI for package ${packageName}@${version}`);
+        handleApiError(error, `core metadata of ${context}`);
       } finally {
         clearTimeout(timeoutId);
       }
-    }, API_CONFIG.MAX_RETRIES, API_CONFIG.BASE_RETRY_DELAY, `PyPI getVersionInfo(${packageName}@${version})`);
+    }, API_CONFIG.MAX_RETRIES, API_CONFIG.BASE_RETRY_DELAY, `PyPI getCoreMetadata(${context})`);
   }
 
-  async searchPackages(
-    query: string,
-    limit: number = 20
-  ): Promise<PyPISearchResponse> {
-    // Note: PyPI deprecated the search endpoint in 2018, but we'll implement a fallback
-    // using the XML-RPC API or alternative methods
-    // For now, we'll use a simple approach with the available data
-    
-    logger.warn('PyPI search API is deprecated. Using alternative search method.');
-    
-    // Try to search using a workaround approach
-    // This is a simplified implementation - in reality, you might want to use
-    // external services like libraries.io or implement a custom search
-    return this.searchPackagesWorkaround(query, limit);
-  }
-
-  private async searchPackagesWorkaround(
-    query: string,
-    limit: number
-  ): Promise<PyPISearchResponse> {
-    // This is a placeholder implementation
-    // In a real implementation, you might:
-    // 1. Use libraries.io API
-    // 2. Use GitHub search for Python packages
-    // 3. Maintain your own search index
-    // 4. Use third-party PyPI search services
-    
-    logger.debug(`Attempting package search workaround for: ${query}`);
-    
-    // For demonstration, we'll return an empty result
-    // This would need to be replaced with a real search implementation
+  // Files are often served from another host, which must not see the index credentials
+  private fileRequestHeaders(index: PackageIndexConfig, url: string): Record<string, string> {
+    const sameOrigin = new URL(url).origin === new URL(index.simpleUrl).origin;
     return {
-      info: {
-        page: 1,
-        pages: 1,
-        per_page: limit,
-        total: 0,
+      'User-Agent': API_CONFIG.USER_AGENT,
+      ...(sameOrigin ? this.authorizationHeaders(index) : {}),
+    };
+  }
+
+  private async readWheelMetadata(index: PackageIndexConfig, url: string, context: string): Promise<WheelMetadata> {
+    const archive = await this.openWheel(index, url, context);
+    const readDistInfo = async (filename: string): Promise<string | null> => {
+      const entry = archive.entries.find(candidate => /^[^/]+\.dist-info\/[^/]+$/.test(candidate.name) && candidate.name.endsWith(`/${filename}`));
+      return entry ? (await archive.readEntry(entry)).toString('utf8') : null;
+    };
+
+    const entryPoints = await readDistInfo('entry_points.txt');
+    const record = await readDistInfo('RECORD');
+    const topLevel = await readDistInfo('top_level.txt');
+    logger.debug(`Read wheel metadata of ${context}`);
+
+    return {
+      entry_points: parseEntryPoints(entryPoints ?? ''),
+      import_names: parseImportNames(record, topLevel),
+    };
+  }
+
+  // Reads the central directory of a wheel; entries are then fetched on demand
+  private async openWheel(index: PackageIndexConfig, url: string, context: string): Promise<WheelArchive> {
+    // Wheels write their .dist-info last, so its files are usually in the first chunk
+    const chunks = [await this.fetchRange(index, url, `bytes=-${ZIP_TAIL_SIZE}`, context)];
+    const read = async (offset: number, length: number): Promise<Buffer> => {
+      const chunk = chunks.find(candidate =>
+        offset >= candidate.start && offset + length <= candidate.start + candidate.data.length);
+      if (chunk) {
+        return chunk.data.subarray(offset - chunk.start, offset - chunk.start + length);
+      }
+      const fetched = await this.fetchRange(index, url, `bytes=${offset}-${offset + length - 1}`, context);
+      chunks.push(fetched);
+      return fetched.data.subarray(offset - fetched.start, offset - fetched.start + length);
+    };
+    const isFetched = (offset: number, length: number) => chunks.some(candidate =>
+      offset >= candidate.start && offset + length <= candidate.start + candidate.data.length);
+
+    const directory = findCentralDirectory(chunks[0].data);
+    if (!directory) {
+      throw new PackageReadmeMcpError(`The wheel of ${context} is not a readable ZIP archive`, 'INVALID_WHEEL');
+    }
+    const entries = parseCentralDirectory(await read(directory.offset, directory.size));
+
+    return {
+      entries,
+      readEntry: async entry => {
+        const dataOffset = entry.localHeaderOffset + localDataOffset(await read(entry.localHeaderOffset, LOCAL_HEADER_SIZE));
+        return extractEntry(entry, await read(dataOffset, entry.compressedSize));
+      },
+      prefetch: async selected => {
+        // Entries closer than a chunk apart are fetched in one range; the local header's
+        // extra field is not known yet, so some slack is added to each entry
+        const spans: Array<{ start: number; end: number }> = [];
+        const sorted = selected
+          .map(entry => ({ start: entry.localHeaderOffset, end: Math.min(directory.offset, entry.localHeaderOffset + LOCAL_HEADER_SIZE + Buffer.byteLength(entry.name) + entry.compressedSize + 1024) }))
+          .filter(span => !isFetched(span.start, span.end - span.start))
+          .sort((a, b) => a.start - b.start);
+        for (const span of sorted) {
+          const last = spans[spans.length - 1];
+          if (last && span.start - last.end < ZIP_TAIL_SIZE) {
+            last.end = Math.max(last.end, span.end);
+          } else {
+            spans.push({ ...span });
+          }
+        }
+
+        const total = spans.reduce((sum, span) => sum + span.end - span.start, 0);
+        if (total > PYPI_CONFIG.MAX_WHEEL_DOWNLOAD) {
+          throw new PackageReadmeMcpError(`The files to read from the wheel of ${context} are too large to download`, 'WHEEL_TOO_LARGE');
+        }
+        for (const span of spans) {
+          chunks.push(await this.fetchRange(index, url, `bytes=${span.start}-${span.end - 1}`, context));
+        }
       },
-      results: [],
     };
   }
 
-  async getSimpleApiInfo(packageName: string): Promise<PyPISimpleResponse> {
-    const url = `${this.simpleApiUrl}/${encodeURIComponent(packageName)}/`;
-    
+  /**
+   * Fetches a byte range of a file. Servers that ignore Range answer with the whole
+   * file, which is accepted up to PYPI_CONFIG.MAX_WHEEL_DOWNLOAD bytes; without a valid
+   * Content-Length the download is cut off once it passes that size.
+   */
+  private async fetchRange(index: PackageIndexConfig, url: string, range: string, context: string): Promise<{ start: number; data: Buffer }> {
     return withRetry(async () => {
-      logger.debug(`Fetching simple API info: ${packageName}`);
-      
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-      
+
       try {
         const response = await fetch(url, {
           signal: controller.signal,
-          headers: {
-            'Accept': 'application/vnd.pypi.simple.v1+json',
-            'User-Agent': API_CONFIG.USER_AGENT,
-          },
+          headers: { ...this.fileRequestHeaders(index, url), 'Range': range },
         });
 
         if (!response.ok) {
-          if (response.status === 404) {
-            throw new PackageNotFoundError(packageName);
+          handleHttpError(response.status, response, `wheel of ${context}`);
+        }
+
+        if (response.status === HTTP_PARTIAL_CONTENT) {
+          const contentRange = response.headers?.get('content-range')?.match(/^bytes (\d+)-\d+\/(?:\d+|\*)$/);
+          if (!contentRange) {
+            throw new PackageReadmeMcpError(`Missing Content-Range in the response for the wheel of ${context}`, 'INVALID_WHEEL');
           }
-          handleHttpError(response.status, response, `PyPI Simple API for package ${packageName}`);
+          return { start: Number(contentRange[1]), data: Buffer.from(await response.arrayBuffer()) };
         }
 
-        const data = await response.json() as PyPISimpleResponse;
-        logger.debug(`Successfully fetched simple API info: ${packageName}`);
-        return data;
+        const tooLarge = () => {
+          controller.abort();
+          return new PackageReadmeMcpError(`The index does not support range requests and the wheel of ${context} is too large to download`, 'WHEEL_TOO_LARGE');
+        };
+        const length = response.headers?.get('content-length');
+        if (!length || !/^\d+$/.test(length.trim())) {
+          const data = await readBodyUpTo(response, PYPI_CONFIG.MAX_WHEEL_DOWNLOAD);
+          if (!data) {
+            throw tooLarge();
+          }
+          return { start: 0, data };
+        }
+        if (Number(length) > PYPI_CONFIG.MAX_WHEEL_DOWNLOAD) {
+          throw tooLarge();
+        }
+        return { start: 0, data: Buffer.from(await response.arrayBuffer()) };
       } catch (error) {
         if ((error as Error).name === 'AbortError') {
-          handleApiError(new Error('Request timeout'), `PyPI Simple API for package ${packageName}`);
-        }
-        if (error instanceof PackageNotFoundError) {
-          throw error;
+          handleApiError(new Error('Request timeout'), `wheel of ${context}`);
         }
-        handleApiError(error, `PyPI Simple API for package ${packageName}`);
+        handleApiError(error, `wheel of ${context}`);
       } finally {
         clearTimeout(timeoutId);
       }
-    }, API_CONFIG.MAX_RETRIES, API_CONFIG.BASE_RETRY_DELAY, `PyPI getSimpleApiInfo(${packageName})`);
+    }, API_CONFIG.MAX_RETRIES, API_CONFIG.BASE_RETRY_DELAY, `PyPI fetchRange(${context}, ${range})`);
   }
 
   // Helper method to get available versions from simple API
@@ -200,23 +739,68 @@ export class PyPIClient {
         return simpleInfo.versions;
       }
 
-      // Extract versions from filenames if versions array is not available
+      // Indexes without PEP 700 support only list files
       const versions = new Set<string>();
       for (const file of simpleInfo.files) {
-        // Extract version from filename (simplified approach)
-        const match = file.filename.match(/-([0-9]+(?:\.[0-9]+)*(?:[a-zA-Z0-9\-\.]*)?)\./);
-        if (match) {
-          versions.add(match[1]);
+        const parsed = parseDistributionFilename(file.filename, simpleInfo.name);
+        if (parsed) {
+          versions.add(parsed.version);
         }
       }
 
-      return Array.from(versions).sort();
+      return sortVersions(Array.from(versions));
     } catch (error) {
       logger.warn(`Failed to get available versions for ${packageName}`, { error });
       return [];
     }
   }
 
+  /**
+   * Resolves the version argument of a tool against a package's JSON API document:
+   * "latest", a specifier set such as "~=2.28", or an exact version, which is matched
+   * by PEP 440 equality so "2.0" finds "2.0.0".
+   */
+  async resolveVersion(packageInfo: PyPIPackageInfo, packageName: string, version: string): Promise<string> {
+    if (version === 'latest') {
+      return packageInfo.info.version;
+    }
+    if (isVersionSpecifier(version)) {
+      return this.resolveVersionSpecifier(packageName, version);
+    }
+    const release = Object.keys(packageInfo.releases || {}).find(candidate => compareVersions(candidate, version) === 0);
+    if (!release) {
+      throw new VersionNotFoundError(packageName, version);
+    }
+    return release;
+  }
+
+  // Resolves a PEP 440 specifier set (e.g. "~=2.28") to the newest matching release
+  async resolveVersionSpecifier(packageName: string, specifier: string): Promise<string> {
+    const specifiers = parseSpecifierSet(specifier);
+    if (!specifiers) {
+      throw new PackageReadmeMcpError(`Invalid version specifier: ${specifier}`, 'INVALID_VERSION');
+    }
+
+    const { releases } = await this.getPackageInfo(packageName);
+    const available = Object.entries(releases || {}).filter(([, files]) => files.length > 0);
+    const installable = available
+      .filter(([, files]) => files.some(file => !file.yanked))
+      .map(([version]) => version);
+
+    // PEP 592: a yanked release is only selected when pinned exactly
+    const pinned = specifiers.some(({ operator, version }) =>
+      operator === '===' || (operator === '==' && !version.endsWith('.*')));
+    const resolved = findBestMatch(installable, specifiers)
+      ?? (pinned ? findBestMatch(available.map(([version]) => version), specifiers) : null);
+
+    if (!resolved) {
+      throw new VersionNotFoundError(packageName, specifier);
+    }
+
+    logger.debug(`Resolved ${packageName}${specifier} to ${resolved}`);
+    return resolved;
+  }
+
   // Get download statistics from PyPI JSON API
   async getDownloadStats(packageName: string): Promise<{
     last_day: number;
@@ -254,4 +838,41 @@ export class PyPIClient {
   }
 }
 
-export const pypiClient = new PyPIClient();
\ No newline at end of file
+// Reads a response body, or returns null as soon as it grows past limit bytes
+async function readBodyUpTo(response: Response, limit: number): Promise<Buffer | null> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    size += result.value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(Buffer.from(result.value));
+  }
+  return Buffer.concat(chunks);
+}
+
+// Warehouse indexes (PyPI, TestPyPI) have a project page; others only their Simple API page
+function projectPageUrl(index: PackageIndexConfig, normalizedName: string): string {
+  return /\/pypi$/.test(index.jsonUrl)
+    ? `${index.jsonUrl.replace(/\/pypi$/, '/project')}/${normalizedName}/`
+    : `${index.simpleUrl}/${normalizedName}/`;
+}
+
+function headerSerial(response: Response): number | undefined {
+  return parseInt(response.headers?.get('x-pypi-last-serial') || '') || undefined;
+}
+
+function jsonApiSerial(data: PyPIPackageInfo, response: Response): number | undefined {
+  return data.last_serial ?? headerSerial(response);
+}
+
+export const pypiClient = new PyPIClient(undefined, {
+  ttl: parseInt(process.env.CACHE_TTL || CACHE_CONFIG.DEFAULT_TTL.toString()),
+  staleGrace: parseInt(process.env.CACHE_STALE_GRACE || CACHE_CONFIG.DEFAULT_STALE_GRACE.toString()),
+});
@@ -0,0 +1,146 @@
+import { logger } from '../../utils/logger.js';
+import { UsageExample } from '../../types/index.js';
+import { README_CONFIG } from '../../config/constants.js';
+
+interface DoctestSession {
+  section: string;
+  input: string[];
+  output: string[];
+}
+
+const PROMPT_PATTERN = /^(\s*)>>>(?: |$)/;
+
+export class DoctestExtractor {
+  /**
+   * Extracts `>>>` doctest and REPL sessions from README content, wherever they
+   * appear: fenced blocks, indented literal blocks or plain paragraphs
+   */
+  extractDoctestExamples(readmeContent: string): UsageExample[] {
+    try {
+      const sessions = this.findSessions(readmeContent.split('\n'));
+
+      const examples = sessions
+        .map(session => this.toUsageExample(session))
+        .filter((example): example is UsageExample => example !== null);
+
+      logger.debug(`Extracted ${examples.length} doctest examples from README`);
+      return examples;
+
+    } catch (error) {
+      logger.error('Failed to extract doctest examples from README', { error });
+      return [];
+    }
+  }
+
+  /**
+   * Checks whether a code block is a doctest session rather than plain source
+   */
+  isDoctestBlock(code: string): boolean {
+    const firstLine = code.split('\n').find(line => line.trim());
+    return firstLine !== undefined && PROMPT_PATTERN.test(firstLine);
+  }
+
+  private findSessions(lines: string[]): DoctestSession[] {
+    const sessions: DoctestSession[] = [];
+    let currentSection = '';
+    let inCodeBlock = false;
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      const trimmedLine = line.trim();
+
+      if (trimmedLine.startsWith('```')) {
+        inCodeBlock = !inCodeBlock;
+      } else if (!inCodeBlock && trimmedLine.match(/^#+\s/)) {
+        currentSection = trimmedLine.replace(/^#+\s*/, '').toLowerCase();
+      }
+
+      const prompt = line.match(PROMPT_PATTERN);
+      if (!prompt) {
+        i++;
+        continue;
+      }
+
+      const session: DoctestSession = { section: currentSection, input: [], output: [] };
+      i = this.readSession(lines, i, prompt[1].length, session);
+      sessions.push(session);
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Reads one session starting at a `>>>` line and returns the index after it.
+   * A session continues across blank lines as long as the next prompt has the same indentation.
+   */
+  private readSession(lines: string[], start: number, indent: number, session: DoctestSession): number {
+    const prompt = new RegExp(`^\\s{${indent}}>>>(?: |$)`);
+    const continuation = new RegExp(`^\\s{${indent}}\\.\\.\\.(?: |$)`);
+    let inOutput = false;
+    let i = start;
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      // "..." after output is part of the output (doctest ellipsis), not a continuation
+      if (prompt.test(line) || (!inOutput && continuation.test(line))) {
+        session.input.push(this.stripPrompt(line.slice(indent)));
+        inOutput = false;
+        i++;
+        continue;
+      }
+
+      if (!line.trim()) {
+        let next = i + 1;
+        while (next < lines.length && !lines[next].trim()) {
+          next++;
+        }
+        if (next < lines.length && prompt.test(lines[next])) {
+          i = next;
+          continue;
+        }
+        break;
+      }
+
+      // Output lines sit at the prompt's indentation or deeper and end at fences
+      const lineIndent = line.match(/^\s*/)![0].length;
+      if (lineIndent < indent || line.trim().startsWith('```')) {
+        break;
+      }
+
+      session.output.push(line.slice(indent).trimEnd());
+      inOutput = true;
+      i++;
+    }
+
+    return i;
+  }
+
+  private stripPrompt(line: string): string {
+    return line.replace(/^(?:>>>|\.\.\.) ?/, '').trimEnd();
+  }
+
+  private toUsageExample(session: DoctestSession): UsageExample | null {
+    const code = session.input.join('\n').trim();
+    const expected = session.output.join('\n').trim();
+
+    if (!code || code.length > README_CONFIG.MAX_CODE_BLOCK_LENGTH) {
+      return null;
+    }
+
+    return {
+      title: this.formatTitle(session.section) || 'Interactive Example',
+      code,
+      language: 'python',
+      expected_output: expected || undefined,
+    };
+  }
+
+  private formatTitle(section: string): string {
+    return section
+      .split(' ')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+}
@@ -1,20 +1,28 @@
 import { logger } from '../../utils/logger.js';
+import { importsModule } from '../../utils/import-names.js';
 import { UsageExample } from '../../types/index.js';
 import { README_CONFIG } from '../../config/constants.js';
+import { DoctestExtractor } from './doctest-extractor.js';
 
 export class ExampleExtractor {
+  private doctestExtractor = new DoctestExtractor();
+
   /**
-   * Extracts usage examples from README content
+   * Extracts usage examples from README content. Examples importing one of
+   * `importNames` are kept ahead of the others when the list is cut.
    */
-  extractUsageExamples(readmeContent: string): UsageExample[] {
+  extractUsageExamples(readmeContent: string, importNames: string[] = []): UsageExample[] {
     try {
       const blockExamples = this.extractBlockExamples(readmeContent);
+      const doctestExamples = this.doctestExtractor.extractDoctestExamples(readmeContent);
       const inlineExamples = this.extractInlineExamples(readmeContent);
       
-      const allExamples = [...blockExamples, ...inlineExamples];
+      const allExamples = [...blockExamples, ...doctestExamples, ...inlineExamples];
       logger.debug(`Extracted ${allExamples.length} raw examples from README`);
       
-      return allExamples.slice(0, README_CONFIG.MAX_EXAMPLES);
+      const importing = allExamples.filter(example => importsModule(example.code, importNames));
+      const others = allExamples.filter(example => !importing.includes(example));
+      return [...importing, ...others].slice(0, README_CONFIG.MAX_EXAMPLES);
       
     } catch (error) {
       logger.error('Failed to extract usage examples from README', { error });
@@ -54,6 +62,12 @@ export class ExampleExtractor {
           // Ending a code block
           inCodeBlock = false;
           
+          // Doctest sessions are extracted separately with their output split off
+          if (this.doctestExtractor.isDoctestBlock(currentCodeBlock)) {
+            currentCodeBlock = '';
+            continue;
+          }
+          
           if (this.isLikelyUsageExample(currentCodeBlock, currentLanguage, currentSection)) {
             examples.push({
               title: this.formatTitle(currentSection) || 'Code Example',
@@ -77,11 +91,12 @@ export class ExampleExtractor {
   private extractInlineExamples(content: string): UsageExample[] {
     const examples: UsageExample[] = [];
     
-    // Find inline code that looks like imports or simple usage
+    // Find inline code that looks like imports or simple usage, outside fenced blocks
+    const proseContent = content.replace(/```[\s\S]*?```/g, '');
     const inlineCodeRegex = /`([^`]+)`/g;
     let match;
     
-    while ((match = inlineCodeRegex.exec(content)) !== null) {
+    while ((match = inlineCodeRegex.exec(proseContent)) !== null) {
       const code = match[1].trim();
       
       if (this.isSimpleUsageExample(code)) {
@@ -1,4 +1,5 @@
 import { logger } from '../../utils/logger.js';
+import { importsModule } from '../../utils/import-names.js';
 import { UsageExample } from '../../types/index.js';
 import { README_CONFIG } from '../../config/constants.js';
 
@@ -26,11 +27,11 @@ export class ExampleProcessor {
   /**
    * Sorts examples by relevance and quality
    */
-  sortExamplesByRelevance(examples: UsageExample[]): UsageExample[] {
+  sortExamplesByRelevance(examples: UsageExample[], importNames: string[] = []): UsageExample[] {
     return examples
       .map(example => ({
         ...example,
-        _score: this.calculateRelevanceScore(example)
+        _score: this.calculateRelevanceScore(example, importNames)
       }))
       .sort((a, b) => b._score - a._score)
       .map(({ _score, ...example }) => example);
@@ -44,13 +45,16 @@ export class ExampleProcessor {
       .toLowerCase();
   }
 
-  private calculateRelevanceScore(example: UsageExample): number {
+  private calculateRelevanceScore(example: UsageExample, importNames: string[]): number {
     let score = 0;
     
     // Prefer examples with imports
     if (example.code.includes('import ')) score += 50;
     if (example.code.includes('from ')) score += 45;
     
+    // Prefer examples that import the package's own modules
+    if (importsModule(example.code, importNames)) score += 60;
+    
     // Prefer examples with usage patterns
     if (example.code.includes('=') && !example.code.includes('==')) score += 30;
     if (example.code.match(/\w+\.\w+\(/)) score += 25;
@@ -61,6 +65,9 @@ export class ExampleProcessor {
     // Prefer examples with descriptions
     if (example.description) score += 15;
     
+    // Prefer examples that show what they print
+    if (example.expected_output) score += 10;
+    
     // Prefer moderate length examples
     const length = example.code.length;
     if (length >= 50 && length <= README_CONFIG.IDEAL_EXAMPLE_LENGTH) {
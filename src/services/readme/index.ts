@@ -1,17 +1,21 @@
 export { ReadmeContentCleaner } from './readme-content-cleaner.js';
 export { ExampleExtractor } from './example-extractor.js';
+export { DoctestExtractor } from './doctest-extractor.js';
 export { ExampleProcessor } from './example-processor.js';
+export { RstConverter } from './rst-converter.js';
 
 // Convenience class that combines all README processing functionality
 import { ReadmeContentCleaner } from './readme-content-cleaner.js';
 import { ExampleExtractor } from './example-extractor.js';
 import { ExampleProcessor } from './example-processor.js';
+import { RstConverter } from './rst-converter.js';
 import { UsageExample } from '../../types/index.js';
 
 export class ReadmeService {
   private contentCleaner = new ReadmeContentCleaner();
   private exampleExtractor = new ExampleExtractor();
   private exampleProcessor = new ExampleProcessor();
+  private rstConverter = new RstConverter();
 
   /**
    * Clean README content
@@ -21,11 +25,26 @@ export class ReadmeService {
   }
 
   /**
-   * Extract and process usage examples from README content
+   * Convert reStructuredText README content to Markdown
    */
-  extractUsageExamples(readmeContent: string): UsageExample[] {
-    const rawExamples = this.exampleExtractor.extractUsageExamples(readmeContent);
+  convertRstToMarkdown(content: string): string {
+    return this.rstConverter.convert(content);
+  }
+
+  /**
+   * Check whether README content of unknown format is reStructuredText
+   */
+  isRstContent(content: string): boolean {
+    return this.rstConverter.looksLikeRst(content);
+  }
+
+  /**
+   * Extract and process usage examples from README content, ranking those that
+   * import one of `importNames` (the package's top-level modules) first
+   */
+  extractUsageExamples(readmeContent: string, importNames: string[] = []): UsageExample[] {
+    const rawExamples = this.exampleExtractor.extractUsageExamples(readmeContent, importNames);
     const uniqueExamples = this.exampleProcessor.deduplicateExamples(rawExamples);
-    return this.exampleProcessor.sortExamplesByRelevance(uniqueExamples);
+    return this.exampleProcessor.sortExamplesByRelevance(uniqueExamples, importNames);
   }
 }
\ No newline at end of file
@@ -0,0 +1,717 @@
+import { logger } from '../../utils/logger.js';
+
+interface ConversionContext {
+  headingStyles: string[];
+  targets: Map<string, string>;
+  anonymousTargets: string[];
+  substitutions: Map<string, string>;
+}
+
+interface Directive {
+  name: string;
+  argument: string;
+  options: Record<string, string>;
+  body: string[];
+}
+
+const ADORNMENT_PATTERN = /^([!-\/:-@\[-`{-~])\1{2,}\s*$/;
+const DIRECTIVE_PATTERN = /^\.\.\s+([\w:-]+)::(?:\s+(.*))?$/;
+const SUBSTITUTION_DEFINITION_PATTERN = /^\.\.\s+\|([^|]+)\|\s+([\w:-]+)::\s*(.*)$/;
+const TARGET_PATTERN = /^\.\.\s+_([^:]+|`[^`]+`):\s*(.*)$/;
+const ANONYMOUS_TARGET_PATTERN = /^(?:\.\.\s+__:|__)\s+(\S.*)$/;
+const BULLET_PATTERN = /^([*+\-•])(\s+)(.*)$/;
+const ENUMERATED_PATTERN = /^(\(?(?:\d+|#|[a-zA-Z])[.)])(\s+)(.*)$/;
+const FIELD_PATTERN = /^:([^:\s][^:]*):(?:\s+(.*))?$/;
+const GRID_TABLE_BORDER_PATTERN = /^\+(?:[-=]+\+)+\s*$/;
+const SIMPLE_TABLE_BORDER_PATTERN = /^=+(?:\s+=+)+\s*$/;
+
+const ADMONITIONS: Record<string, string> = {
+  note: 'Note',
+  warning: 'Warning',
+  tip: 'Tip',
+  hint: 'Hint',
+  important: 'Important',
+  caution: 'Caution',
+  danger: 'Danger',
+  attention: 'Attention',
+  error: 'Error',
+  seealso: 'See also',
+};
+
+const CODE_DIRECTIVES = ['code-block', 'code', 'sourcecode', 'ipython', 'jupyter-execute', 'doctest', 'testcode'];
+const IGNORED_DIRECTIVES = ['contents', 'toctree', 'index', 'meta', 'highlight', 'sectnum', 'literalinclude', 'include', 'default-role', 'role', 'autosummary'];
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  python3: 'python',
+  py3: 'python',
+  ipython: 'python',
+  ipython3: 'python',
+  pycon: 'python',
+  doctest: 'python',
+  console: 'bash',
+  'shell-session': 'bash',
+  shell: 'bash',
+  sh: 'bash',
+  zsh: 'bash',
+};
+
+const CODE_ROLES = [
+  'code', 'func', 'meth', 'class', 'mod', 'attr', 'obj', 'data', 'exc', 'const',
+  'file', 'command', 'program', 'envvar', 'option', 'kbd', 'samp', 'literal',
+];
+
+export class RstConverter {
+  /**
+   * Converts reStructuredText to Markdown
+   */
+  convert(rst: string): string {
+    try {
+      if (!rst || typeof rst !== 'string') {
+        return '';
+      }
+
+      const lines = rst.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+      const context: ConversionContext = {
+        headingStyles: [],
+        targets: new Map(),
+        anonymousTargets: [],
+        substitutions: new Map(),
+      };
+      this.collectDefinitions(lines, context);
+
+      const markdown = this.convertLines(lines, context)
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+
+      logger.debug('Converted reStructuredText README to Markdown');
+      return markdown;
+
+    } catch (error) {
+      logger.error('Failed to convert reStructuredText to Markdown', { error });
+      return rst || '';
+    }
+  }
+
+  /**
+   * Guesses whether content of unknown format is reStructuredText rather than Markdown
+   */
+  looksLikeRst(content: string): boolean {
+    const lines = (content || '').split('\n');
+    let rstSignals = 0;
+    let markdownSignals = 0;
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+      if (/^#{1,6}\s/.test(trimmed) || trimmed.startsWith('```') || /\[[^\]]+\]\([^)]+\)/.test(trimmed)) {
+        markdownSignals++;
+      }
+      if (/^\.\.\s+\S/.test(trimmed) || /`[^`]+<[^>]+>`__?/.test(trimmed) || /::$/.test(trimmed) ||
+          (index > 0 && lines[index - 1].trim() && ADORNMENT_PATTERN.test(trimmed))) {
+        rstSignals++;
+      }
+    });
+
+    return rstSignals > markdownSignals;
+  }
+
+  /**
+   * Collects hyperlink targets and substitution definitions, which may appear
+   * anywhere in the document and be referenced before they are defined
+   */
+  private collectDefinitions(lines: string[], context: ConversionContext): void {
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+
+      const target = line.match(TARGET_PATTERN);
+      if (target) {
+        const url = [target[2], ...this.collectIndentedBlock(lines, i + 1).lines].join('').trim();
+        context.targets.set(this.normalizeReference(target[1].replace(/`/g, '')), url);
+        continue;
+      }
+
+      const anonymous = line.match(ANONYMOUS_TARGET_PATTERN);
+      if (anonymous) {
+        context.anonymousTargets.push(anonymous[1].trim());
+        continue;
+      }
+
+      const substitution = line.match(SUBSTITUTION_DEFINITION_PATTERN);
+      if (substitution) {
+        const [, name, directiveName, argument] = substitution;
+        const { options } = this.parseDirectiveBody(this.collectIndentedBlock(lines, i + 1).lines);
+        context.substitutions.set(name, this.renderSubstitution(name, directiveName, argument, options));
+      }
+    }
+  }
+
+  private renderSubstitution(name: string, directiveName: string, argument: string, options: Record<string, string>): string {
+    switch (directiveName) {
+      case 'image': {
+        const image = `![${options.alt || name}](${argument.trim()})`;
+        return options.target ? `[${image}](${options.target})` : image;
+      }
+      case 'replace':
+        return argument.trim();
+      case 'unicode':
+        return argument
+          .trim()
+          .split(/\s+/)
+          .map(code => /^(?:0x|U\+|\\x|\\u)?[0-9a-f]+$/i.test(code)
+            ? String.fromCodePoint(parseInt(code.replace(/^(?:0x|U\+|\\x|\\u)/i, ''), 16))
+            : code)
+          .join('');
+      default:
+        return name;
+    }
+  }
+
+  private convertLines(lines: string[], context: ConversionContext): string[] {
+    const output: string[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      const trimmed = line.trim();
+
+      if (!trimmed) {
+        output.push('');
+        i++;
+        continue;
+      }
+
+      // Indented text that no construct claimed is a block quote
+      if (/^\s/.test(line)) {
+        const block = this.collectIndentedBlock(lines, i);
+        output.push(...this.quote(this.convertLines(block.lines, context)), '');
+        i = block.end;
+        continue;
+      }
+
+      const heading = this.matchHeading(lines, i);
+      if (heading) {
+        output.push(`${'#'.repeat(this.getHeadingLevel(heading.style, context))} ${this.convertInline(heading.title, context)}`, '');
+        i = heading.end;
+        continue;
+      }
+
+      // Transition
+      if (ADORNMENT_PATTERN.test(trimmed) && trimmed.length >= 4) {
+        output.push('---', '');
+        i++;
+        continue;
+      }
+
+      if (/^\.\.(?:\s|$)/.test(trimmed)) {
+        i = this.convertExplicitMarkup(lines, i, output, context);
+        continue;
+      }
+
+      if (ANONYMOUS_TARGET_PATTERN.test(trimmed)) {
+        i++;
+        continue;
+      }
+
+      if (GRID_TABLE_BORDER_PATTERN.test(trimmed)) {
+        i = this.convertGridTable(lines, i, output, context);
+        continue;
+      }
+
+      if (SIMPLE_TABLE_BORDER_PATTERN.test(trimmed)) {
+        i = this.convertSimpleTable(lines, i, output, context);
+        continue;
+      }
+
+      if (trimmed.startsWith('>>>')) {
+        const end = this.findBlankLine(lines, i);
+        output.push(...this.fence(lines.slice(i, end), 'python'), '');
+        i = end;
+        continue;
+      }
+
+      const listItem = line.match(BULLET_PATTERN) || line.match(ENUMERATED_PATTERN);
+      if (listItem) {
+        i = this.convertListItem(lines, i, listItem, output, context);
+        continue;
+      }
+
+      const field = line.match(FIELD_PATTERN);
+      if (field) {
+        const body = this.collectIndentedBlock(lines, i + 1);
+        const value = [field[2] || '', ...body.lines].join(' ').replace(/\s+/g, ' ').trim();
+        output.push(`**${this.convertInline(field[1], context)}:** ${this.convertInline(value, context)}`.trimEnd(), '');
+        i = body.end;
+        continue;
+      }
+
+      i = this.convertParagraph(lines, i, output, context);
+    }
+
+    return output;
+  }
+
+  private matchHeading(lines: string[], index: number): { title: string; style: string; end: number } | null {
+    const line = lines[index];
+    const next = lines[index + 1];
+    const afterNext = lines[index + 2];
+
+    // Title with overline and underline
+    if (ADORNMENT_PATTERN.test(line) && next && next.trim() && afterNext && ADORNMENT_PATTERN.test(afterNext) &&
+        line.trim()[0] === afterNext.trim()[0]) {
+      return { title: next.trim(), style: `over:${line.trim()[0]}`, end: index + 3 };
+    }
+
+    // Title with underline only
+    if (next && ADORNMENT_PATTERN.test(next) && !ADORNMENT_PATTERN.test(line) &&
+        next.trim().length >= Math.min(line.trim().length, 4)) {
+      return { title: line.trim(), style: `under:${next.trim()[0]}`, end: index + 2 };
+    }
+
+    return null;
+  }
+
+  private getHeadingLevel(style: string, context: ConversionContext): number {
+    // Section levels follow the order in which adornment styles first appear
+    if (!context.headingStyles.includes(style)) {
+      context.headingStyles.push(style);
+    }
+    return Math.min(context.headingStyles.indexOf(style) + 1, 6);
+  }
+
+  private convertExplicitMarkup(lines: string[], index: number, output: string[], context: ConversionContext): number {
+    const trimmed = lines[index].trim();
+    const block = this.collectIndentedBlock(lines, index + 1);
+
+    // Targets and substitution definitions were collected up front
+    if (TARGET_PATTERN.test(trimmed) || SUBSTITUTION_DEFINITION_PATTERN.test(trimmed) || ANONYMOUS_TARGET_PATTERN.test(trimmed)) {
+      return block.end;
+    }
+
+    const match = trimmed.match(DIRECTIVE_PATTERN);
+    if (!match) {
+      // Comment
+      return block.end;
+    }
+
+    const { options, body } = this.parseDirectiveBody(block.lines);
+    const directive: Directive = {
+      name: match[1].toLowerCase().replace(/^(?:rst|py|sphinx):/, ''),
+      argument: (match[2] || '').trim(),
+      options,
+      body,
+    };
+
+    output.push(...this.convertDirective(directive, context), '');
+    return block.end;
+  }
+
+  private convertDirective(directive: Directive, context: ConversionContext): string[] {
+    const { name, argument, options, body } = directive;
+
+    if (CODE_DIRECTIVES.includes(name)) {
+      return this.fence(body, this.normalizeLanguage(argument || (name.startsWith('ipython') || name.startsWith('doctest') ? 'python' : '')));
+    }
+
+    if (ADMONITIONS[name] || name === 'admonition') {
+      const title = name === 'admonition' ? this.convertInline(argument, context) : ADMONITIONS[name];
+      const content = name === 'admonition' ? body : [argument, ...body];
+      const converted = this.convertLines(this.trimBlankLines(content), context);
+      return this.quote([`**${title}**`, '', ...converted]);
+    }
+
+    switch (name) {
+      case 'image':
+      case 'figure': {
+        const image = `![${options.alt || ''}](${argument})`;
+        const lines = [options.target ? `[${image}](${options.target})` : image];
+        if (name === 'figure' && body.some(line => line.trim())) {
+          lines.push('', ...this.convertLines(this.trimBlankLines(body), context));
+        }
+        return lines;
+      }
+      case 'raw':
+        return argument.toLowerCase() === 'html' ? this.trimBlankLines(body) : [];
+      case 'rubric':
+        return [`**${this.convertInline(argument, context)}**`];
+      case 'topic':
+      case 'sidebar':
+        return [`**${this.convertInline(argument, context)}**`, '', ...this.convertLines(this.trimBlankLines(body), context)];
+      case 'versionadded':
+      case 'versionchanged':
+      case 'deprecated': {
+        const labels: Record<string, string> = {
+          versionadded: 'New in version',
+          versionchanged: 'Changed in version',
+          deprecated: 'Deprecated since version',
+        };
+        const [version, ...rest] = argument.split(/\s+/);
+        const text = [rest.join(' '), ...body].join(' ').replace(/\s+/g, ' ').trim();
+        return [`*${labels[name]} ${version}:* ${this.convertInline(text, context)}`.trimEnd()];
+      }
+      default:
+        if (IGNORED_DIRECTIVES.includes(name)) {
+          return [];
+        }
+        // Unknown directives (often Sphinx extensions) keep their content
+        return this.convertLines(this.trimBlankLines(body), context);
+    }
+  }
+
+  private parseDirectiveBody(lines: string[]): { options: Record<string, string>; body: string[] } {
+    const options: Record<string, string> = {};
+    let index = 0;
+
+    while (index < lines.length) {
+      const option = lines[index].match(/^:([\w-]+):\s*(.*)$/);
+      if (!option) {
+        break;
+      }
+      options[option[1].toLowerCase()] = option[2].trim();
+      index++;
+    }
+
+    // Without options, a body that starts right below the directive continues its argument
+    const body = index > 0 ? this.trimBlankLines(lines.slice(index)) : lines.slice(index);
+    return { options, body };
+  }
+
+  private convertListItem(
+    lines: string[],
+    index: number,
+    match: RegExpMatchArray,
+    output: string[],
+    context: ConversionContext
+  ): number {
+    const isBullet = BULLET_PATTERN.test(lines[index]);
+    const marker = isBullet ? '-' : this.formatEnumerator(match[1]);
+    const block = this.collectIndentedBlock(lines, index + 1);
+    const content = this.trimBlankLines(this.convertLines([match[3], ...block.lines], context));
+    const indent = ' '.repeat(marker.length + 1);
+
+    content.forEach((line, position) => {
+      if (position === 0) {
+        output.push(`${marker} ${line}`);
+      } else {
+        output.push(line ? `${indent}${line}` : '');
+      }
+    });
+
+    // Keep consecutive items together while ending the list before other content
+    const next = lines[block.end];
+    if (next !== undefined && !BULLET_PATTERN.test(next) && !ENUMERATED_PATTERN.test(next)) {
+      output.push('');
+    }
+
+    return block.end;
+  }
+
+  private formatEnumerator(enumerator: string): string {
+    const value = enumerator.replace(/[().]/g, '');
+    return /^\d+$/.test(value) ? `${value}.` : '1.';
+  }
+
+  private convertParagraph(lines: string[], index: number, output: string[], context: ConversionContext): number {
+    const paragraph: string[] = [];
+    let i = index;
+
+    while (i < lines.length && lines[i].trim() && (i === index || !/^\s/.test(lines[i]))) {
+      if (i > index && this.matchHeading(lines, i)) {
+        break;
+      }
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+
+    // A single line followed directly by indented text is a definition list item
+    if (paragraph.length === 1 && i < lines.length && /^\s+\S/.test(lines[i])) {
+      const definition = this.collectIndentedBlock(lines, i);
+      const [term, ...classifiers] = paragraph[0].split(/\s+:\s+/);
+      const suffix = classifiers.length > 0 ? ` *(${classifiers.join(', ')})*` : '';
+      output.push(`**${this.convertInline(term, context)}**${suffix}`, '');
+      output.push(...this.convertLines(definition.lines, context), '');
+      return definition.end;
+    }
+
+    let text = paragraph.join('\n');
+    const hasLiteralBlock = text.endsWith('::');
+
+    if (hasLiteralBlock) {
+      // "Paragraph::" keeps one colon, " ::" and a lone "::" disappear
+      text = /(^|\s)::$/.test(text) ? text.replace(/\s*::$/, '') : text.slice(0, -1);
+    }
+
+    if (text) {
+      output.push(...this.convertInline(text, context).split('\n'), '');
+    }
+
+    if (!hasLiteralBlock) {
+      return i;
+    }
+
+    let next = i;
+    while (next < lines.length && !lines[next].trim()) {
+      next++;
+    }
+
+    if (next < lines.length && /^\s/.test(lines[next])) {
+      const literal = this.collectIndentedBlock(lines, next);
+      output.push(...this.fence(literal.lines, this.guessLiteralLanguage(literal.lines)), '');
+      return literal.end;
+    }
+
+    return i;
+  }
+
+  private convertGridTable(lines: string[], index: number, output: string[], context: ConversionContext): number {
+    const border = lines[index].trimEnd();
+    const columnEdges: number[] = [];
+    for (let position = 0; position < border.length; position++) {
+      if (border[position] === '+') {
+        columnEdges.push(position);
+      }
+    }
+
+    const rows: string[][] = [];
+    let headerRowCount = 0;
+    let current: string[][] = [];
+    let i = index + 1;
+
+    while (i < lines.length && /^[+|]/.test(lines[i].trim())) {
+      const line = lines[i].trimEnd();
+
+      if (GRID_TABLE_BORDER_PATTERN.test(line.trim())) {
+        if (current.length > 0) {
+          rows.push(this.mergeCellLines(current));
+          current = [];
+        }
+        if (line.includes('=')) {
+          headerRowCount = rows.length;
+        }
+      } else {
+        const cells: string[] = [];
+        for (let column = 0; column < columnEdges.length - 1; column++) {
+          cells.push(line.slice(columnEdges[column] + 1, columnEdges[column + 1]).replace(/^\|/, '').replace(/\|$/, ''));
+        }
+        current.push(cells);
+      }
+      i++;
+    }
+
+    if (current.length > 0) {
+      rows.push(this.mergeCellLines(current));
+    }
+
+    output.push(...this.renderTable(rows, Math.max(headerRowCount, 1), context), '');
+    return i;
+  }
+
+  private convertSimpleTable(lines: string[], index: number, output: string[], context: ConversionContext): number {
+    const border = lines[index].trimEnd();
+    const columnStarts: number[] = [];
+    border.replace(/=+/g, (run, offset: number) => {
+      columnStarts.push(offset);
+      return run;
+    });
+
+    const rows: string[][] = [];
+    let headerRowCount = 0;
+    let i = index + 1;
+
+    while (i < lines.length) {
+      const line = lines[i].trimEnd();
+
+      if (SIMPLE_TABLE_BORDER_PATTERN.test(line.trim())) {
+        i++;
+        // A border followed by more rows separates the header from the body
+        if (i < lines.length && lines[i].trim() && headerRowCount === 0) {
+          headerRowCount = rows.length;
+          continue;
+        }
+        break;
+      }
+
+      if (!line.trim() || /^-+(?:\s+-+)*$/.test(line.trim())) {
+        i++;
+        continue;
+      }
+
+      const cells = columnStarts.map((start, column) =>
+        line.slice(start, column + 1 < columnStarts.length ? columnStarts[column + 1] : undefined).trim()
+      );
+
+      // Rows whose first column is empty continue the previous row
+      if (!cells[0] && rows.length > 0) {
+        const previous = rows[rows.length - 1];
+        cells.forEach((cell, column) => {
+          if (cell) {
+            previous[column] = `${previous[column]} ${cell}`.trim();
+          }
+        });
+      } else {
+        rows.push(cells);
+      }
+      i++;
+    }
+
+    output.push(...this.renderTable(rows, Math.max(headerRowCount, 1), context), '');
+    return i;
+  }
+
+  private mergeCellLines(rowLines: string[][]): string[] {
+    return rowLines[0].map((_, column) =>
+      rowLines
+        .map(cells => (cells[column] || '').trim())
+        .filter(text => text.length > 0)
+        .join(' ')
+    );
+  }
+
+  private renderTable(rows: string[][], headerRowCount: number, context: ConversionContext): string[] {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const columnCount = Math.max(...rows.map(row => row.length));
+    const renderRow = (row: string[]) =>
+      `| ${Array.from({ length: columnCount }, (_, column) =>
+        this.convertInline(row[column] || '', context).replace(/\|/g, '\\|')
+      ).join(' | ')} |`;
+
+    // Markdown tables have a single header row
+    const header = rows.slice(0, headerRowCount).reduce((merged, row) =>
+      merged.map((cell, column) => `${cell} ${row[column] || ''}`.trim())
+    , Array.from({ length: columnCount }, () => ''));
+
+    return [
+      renderRow(header),
+      `|${' --- |'.repeat(columnCount)}`,
+      ...rows.slice(headerRowCount).map(renderRow),
+    ];
+  }
+
+  /**
+   * Converts inline markup: literals, links, roles and substitutions
+   */
+  private convertInline(text: string, context: ConversionContext): string {
+    const placeholders: string[] = [];
+    const protect = (value: string) => `\u0000${placeholders.push(value) - 1}\u0000`;
+
+    let converted = text.replace(/``(.+?)``/gs, (_, code: string) => protect(`\`${code}\``));
+
+    // Substitution references, optionally linked
+    converted = converted.replace(/\|([^|\s][^|]*?)\|(__?)?(?=\W|$)/g, (match, name: string, link?: string) => {
+      const value = context.substitutions.get(name);
+      if (value === undefined) {
+        return match;
+      }
+      const target = link ? context.targets.get(this.normalizeReference(name)) : undefined;
+      return protect(target ? `[${value}](${target})` : value);
+    });
+
+    // Roles such as :func:`name` or :pep:`8`
+    converted = converted.replace(/:(?:[\w-]+:)?([\w-]+):`([^`]+)`/g, (_, role: string, content: string) => {
+      const explicit = content.match(/^(.*?)\s*<([^>]+)>$/);
+      const label = (explicit ? explicit[1] : content).replace(/^[~!]/, '');
+
+      if (role === 'pep') return protect(`[PEP ${label}](https://peps.python.org/pep-${label.padStart(4, '0')}/)`);
+      if (role === 'rfc') return protect(`[RFC ${label}](https://datatracker.ietf.org/doc/html/rfc${label})`);
+      if (role === 'doc' || role === 'ref' || role === 'term') return label;
+      if (role === 'strong') return `**${label}**`;
+      if (role === 'emphasis') return `*${label}*`;
+      if (CODE_ROLES.includes(role)) return protect(`\`${label}\``);
+      return label;
+    });
+
+    // Hyperlink references with embedded URIs or named targets
+    converted = converted.replace(/`([^`<]*?)\s*<([^>`]+)>`(__?)/g, (_, label: string, uri: string) => {
+      const url = uri.endsWith('_') ? context.targets.get(this.normalizeReference(uri.slice(0, -1))) || '' : uri;
+      const display = label.trim() || uri;
+      return protect(url ? `[${display}](${url})` : display);
+    });
+
+    converted = converted.replace(/`([^`]+)`(__?)/g, (_, label: string, underscores: string) => {
+      const url = underscores === '__'
+        ? context.anonymousTargets.shift()
+        : context.targets.get(this.normalizeReference(label));
+      return protect(url ? `[${label}](${url})` : label);
+    });
+
+    converted = converted.replace(/(^|[\s(])([A-Za-z0-9][\w.+-]*?)_(?=[\s).,;:!?]|$)/g, (match, before: string, name: string) => {
+      const url = context.targets.get(this.normalizeReference(name));
+      return url ? `${before}${protect(`[${name}](${url})`)}` : match;
+    });
+
+    // Interpreted text without a role
+    converted = converted.replace(/`([^`]+)`/g, (_, content: string) => protect(`\`${content}\``));
+
+    return converted.replace(/\u0000(\d+)\u0000/g, (_, position: string) => placeholders[Number(position)]);
+  }
+
+  private collectIndentedBlock(lines: string[], start: number): { lines: string[]; end: number } {
+    let end = start;
+    let lastContent = start;
+
+    while (end < lines.length && (!lines[end].trim() || /^\s/.test(lines[end]))) {
+      if (lines[end].trim()) {
+        lastContent = end + 1;
+      }
+      end++;
+    }
+
+    const block = lines.slice(start, lastContent);
+    return { lines: this.dedent(block), end: lastContent };
+  }
+
+  private dedent(lines: string[]): string[] {
+    const indents = lines
+      .filter(line => line.trim())
+      .map(line => line.match(/^\s*/)![0].length);
+    const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+    return lines.map(line => line.slice(minIndent).trimEnd());
+  }
+
+  private trimBlankLines(lines: string[]): string[] {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && !lines[start].trim()) start++;
+    while (end > start && !lines[end - 1].trim()) end--;
+    return lines.slice(start, end);
+  }
+
+  private findBlankLine(lines: string[], start: number): number {
+    let end = start;
+    while (end < lines.length && lines[end].trim()) {
+      end++;
+    }
+    return end;
+  }
+
+  private fence(lines: string[], language: string): string[] {
+    const code = this.trimBlankLines(this.dedent(lines));
+    return ['```' + language, ...code, '```'];
+  }
+
+  private quote(lines: string[]): string[] {
+    return this.trimBlankLines(lines)
+      .filter((line, index, all) => line || all[index - 1])
+      .map(line => (line ? `> ${line}` : '>'));
+  }
+
+  private normalizeLanguage(language: string): string {
+    const normalized = language.trim().toLowerCase();
+    return LANGUAGE_ALIASES[normalized] || normalized;
+  }
+
+  private guessLiteralLanguage(lines: string[]): string {
+    const firstLine = lines.find(line => line.trim())?.trim() || '';
+    if (/^\$\s/.test(firstLine) || /^(?:pip|pipx|conda|python -m pip) install\b/.test(firstLine)) {
+      return 'bash';
+    }
+    // Literal blocks in Python documentation are highlighted as Python by default
+    return 'python';
+  }
+
+  private normalizeReference(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+}
@@ -0,0 +1,3 @@
+export { PackageNameIndex } from './package-name-index.js';
+export { PackageIndexStore } from './package-index-store.js';
+export type { ProjectListFetcher, PackageIndexStoreOptions } from './package-index-store.js';
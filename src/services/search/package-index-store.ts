@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { logger } from '../../utils/logger.js';
+import { ensurePrivateDirectory, getCacheDirectory } from '../../utils/cache-directory.js';
+import { SEARCH_INDEX_CONFIG } from '../../config/constants.js';
+import { PyPISimpleIndexResponse } from '../../types/index.js';
+import { PackageNameIndex } from './package-name-index.js';
+
+export type ProjectListFetcher = () => Promise<PyPISimpleIndexResponse>;
+
+export interface PackageIndexStoreOptions {
+  directory?: string | undefined;
+  ttl?: number | undefined;
+  scope?: string | undefined;  // Prefixes the snapshot file, so each index keeps its own
+}
+
+interface IndexSnapshot {
+  fetched_at: number;
+  last_serial?: number | undefined;
+  projects: string[];
+}
+
+/**
+ * Keeps a local copy of the Simple API project list and the name index built from it.
+ * The list is persisted as a snapshot file so restarts do not re-download it.
+ */
+export class PackageIndexStore {
+  private readonly directory: string;
+  private readonly ttl: number;
+  private readonly scope: string | undefined;
+  private index: PackageNameIndex | null = null;
+  private loadedAt = 0;
+  private loading: Promise<PackageNameIndex> | null = null;
+
+  constructor(private readonly fetchProjectList: ProjectListFetcher, options: PackageIndexStoreOptions = {}) {
+    this.directory = options.directory || getCacheDirectory();
+    this.ttl = options.ttl || SEARCH_INDEX_CONFIG.INDEX_TTL;
+    this.scope = options.scope;
+  }
+
+  get snapshotPath(): string {
+    const file = this.scope ? `${this.scope}-${SEARCH_INDEX_CONFIG.SNAPSHOT_FILE}` : SEARCH_INDEX_CONFIG.SNAPSHOT_FILE;
+    return join(this.directory, file);
+  }
+
+  async getIndex(): Promise<PackageNameIndex> {
+    if (this.index && !this.isExpired(this.loadedAt)) {
+      return this.index;
+    }
+
+    // Concurrent searches share a single download
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+
+    return this.loading;
+  }
+
+  private async load(): Promise<PackageNameIndex> {
+    const snapshot = await this.readSnapshot();
+    if (snapshot && !this.isExpired(snapshot.fetched_at)) {
+      logger.debug(`Using package index snapshot: ${this.snapshotPath}`);
+      return this.useSnapshot(snapshot, snapshot.fetched_at);
+    }
+
+    try {
+      logger.info('Downloading PyPI project list for the package index');
+      const response = await this.fetchProjectList();
+      const fresh: IndexSnapshot = {
+        fetched_at: Date.now(),
+        last_serial: response.meta?.['_last-serial'],
+        projects: response.projects.map(project => project.name),
+      };
+
+      await this.writeSnapshot(fresh);
+      return this.useSnapshot(fresh, fresh.fetched_at);
+    } catch (error) {
+      // An outdated index is more useful than none
+      if (snapshot) {
+        logger.warn('Failed to refresh package index, using outdated snapshot', { error });
+        return this.useSnapshot(snapshot, Date.now());
+      }
+      if (this.index) {
+        logger.warn('Failed to refresh package index, keeping current index', { error });
+        this.loadedAt = Date.now();
+        return this.index;
+      }
+      throw error;
+    }
+  }
+
+  private useSnapshot(snapshot: IndexSnapshot, loadedAt: number): PackageNameIndex {
+    this.index = new PackageNameIndex(snapshot.projects);
+    this.loadedAt = loadedAt;
+    logger.debug(`Package index ready: ${this.index.size} projects`);
+    return this.index;
+  }
+
+  private isExpired(timestamp: number): boolean {
+    return Date.now() - timestamp > this.ttl;
+  }
+
+  private async readSnapshot(): Promise<IndexSnapshot | null> {
+    try {
+      const content = await fs.readFile(this.snapshotPath, 'utf-8');
+      // A snapshot in a directory another user controls could list planted names
+      await ensurePrivateDirectory(this.directory);
+      const snapshot = JSON.parse(content) as IndexSnapshot;
+
+      if (typeof snapshot.fetched_at !== 'number' || !Array.isArray(snapshot.projects)) {
+        logger.warn(`Ignoring malformed package index snapshot: ${this.snapshotPath}`);
+        return null;
+      }
+
+      return snapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to read package index snapshot: ${this.snapshotPath}`, { error });
+      }
+      return null;
+    }
+  }
+
+  private async writeSnapshot(snapshot: IndexSnapshot): Promise<void> {
+    const temporaryPath = `${this.snapshotPath}.${process.pid}.tmp`;
+
+    try {
+      await ensurePrivateDirectory(this.directory);
+      await fs.writeFile(temporaryPath, JSON.stringify(snapshot), { encoding: 'utf-8', mode: 0o600 });
+      // Rename is atomic, so readers never see a partially written snapshot
+      await fs.rename(temporaryPath, this.snapshotPath);
+    } catch (error) {
+      logger.warn(`Failed to write package index snapshot: ${this.snapshotPath}`, { error });
+      await fs.rm(temporaryPath, { force: true }).catch(() => undefined);
+    }
+  }
+}
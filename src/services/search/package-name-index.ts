@@ -0,0 +1,156 @@
+import { normalizePackageName } from '../../utils/validators.js';
+import { levenshteinDistance } from '../../utils/edit-distance.js';
+import { SEARCH_INDEX_CONFIG } from '../../config/constants.js';
+import { PackageNameMatch, PackageNameMatchType } from '../../types/index.js';
+
+interface IndexEntry {
+  name: string;
+  normalized: string;
+}
+
+// Match types in ranking order, each with the score band it maps into
+const MATCH_TIERS: Record<PackageNameMatchType, { rank: number; floor: number }> = {
+  exact: { rank: 0, floor: 1 },
+  prefix: { rank: 1, floor: 0.75 },
+  substring: { rank: 2, floor: 0.5 },
+  fuzzy: { rank: 3, floor: 0.25 },
+};
+
+const TIER_SCORE_RANGE = 0.2;
+
+export class PackageNameIndex {
+  private readonly entries: IndexEntry[];
+
+  constructor(names: string[]) {
+    const seen = new Set<string>();
+    this.entries = [];
+
+    for (const name of names) {
+      const normalized = normalizePackageName(name);
+      if (!normalized || seen.has(normalized)) {
+        continue;
+      }
+      seen.add(normalized);
+      this.entries.push({ name, normalized });
+    }
+
+    this.entries.sort((a, b) => compareStrings(a.normalized, b.normalized));
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Returns the display name of a project whose normalized name equals the given name
+   */
+  lookup(name: string): string | undefined {
+    const normalized = normalizePackageName(name);
+    const position = this.lowerBound(normalized);
+    const entry = this.entries[position];
+    return entry && entry.normalized === normalized ? entry.name : undefined;
+  }
+
+  /**
+   * Finds exact, prefix, substring and fuzzy matches for a query.
+   * Results are ordered by match type, then edit distance, then name,
+   * so the same index always returns the same results.
+   */
+  search(query: string, limit: number): PackageNameMatch[] {
+    const normalizedQuery = normalizePackageName(query.trim());
+    if (!normalizedQuery) {
+      return [];
+    }
+
+    const maxFuzzyDistance = this.getMaxFuzzyDistance(normalizedQuery);
+    const matches: PackageNameMatch[] = [];
+
+    for (const entry of this.entries) {
+      const match = this.matchEntry(entry, normalizedQuery, maxFuzzyDistance);
+      if (match) {
+        matches.push(match);
+      }
+    }
+
+    return matches
+      .sort((a, b) =>
+        MATCH_TIERS[a.match_type].rank - MATCH_TIERS[b.match_type].rank ||
+        a.distance - b.distance ||
+        compareStrings(a.normalized_name, b.normalized_name)
+      )
+      .slice(0, limit);
+  }
+
+  private matchEntry(entry: IndexEntry, query: string, maxFuzzyDistance: number): PackageNameMatch | null {
+    const candidate = entry.normalized;
+    let matchType: PackageNameMatchType;
+    let distance: number;
+
+    if (candidate === query) {
+      matchType = 'exact';
+      distance = 0;
+    } else if (candidate.startsWith(query)) {
+      // Deleting the trailing characters is the cheapest edit
+      matchType = 'prefix';
+      distance = candidate.length - query.length;
+    } else if (candidate.includes(query)) {
+      matchType = 'substring';
+      distance = candidate.length - query.length;
+    } else if (maxFuzzyDistance > 0) {
+      distance = levenshteinDistance(query, candidate, maxFuzzyDistance);
+      if (distance > maxFuzzyDistance) {
+        return null;
+      }
+      matchType = 'fuzzy';
+    } else {
+      return null;
+    }
+
+    return {
+      name: entry.name,
+      normalized_name: candidate,
+      match_type: matchType,
+      distance,
+      score: this.calculateScore(matchType, distance, query, candidate),
+    };
+  }
+
+  private calculateScore(matchType: PackageNameMatchType, distance: number, query: string, candidate: string): number {
+    if (matchType === 'exact') {
+      return 1;
+    }
+
+    const similarity = 1 - distance / Math.max(query.length, candidate.length);
+    const score = MATCH_TIERS[matchType].floor + TIER_SCORE_RANGE * Math.max(0, similarity);
+    return Math.round(score * 10000) / 10000;
+  }
+
+  private getMaxFuzzyDistance(query: string): number {
+    if (query.length < SEARCH_INDEX_CONFIG.MIN_FUZZY_QUERY_LENGTH) {
+      return 0;
+    }
+    // Allow roughly one edit per four characters
+    return Math.min(SEARCH_INDEX_CONFIG.MAX_FUZZY_DISTANCE, Math.floor(query.length / 4));
+  }
+
+  private lowerBound(normalized: string): number {
+    let low = 0;
+    let high = this.entries.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareStrings(this.entries[mid].normalized, normalized) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+}
+
+// Locale-independent ordering keeps results identical across machines
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
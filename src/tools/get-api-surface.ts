@@ -0,0 +1,253 @@
+import { logger } from '../utils/logger.js';
+import { validatePackageName, validateVersion } from '../utils/validators-simple.js';
+import { parsePythonModule, ParsedPythonModule, PythonImport } from '../utils/python-parser.js';
+import { cache, createCacheKey } from '../services/cache.js';
+import { pypiClient } from '../services/pypi-api.js';
+import { API_SURFACE_CONFIG } from '../config/constants.js';
+import {
+  ApiClass,
+  ApiModule,
+  ApiReexport,
+  ApiSurfaceResponse,
+  GetApiSurfaceParams,
+  PackageReadmeMcpError,
+  PyPIPackageInfo,
+} from '../types/index.js';
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_REEXPORT_DEPTH = 10;
+
+interface SourceModule {
+  name: string;
+  path: string;
+  stub: boolean;
+  isPackage: boolean;   // An __init__ file
+  parsed: ParsedPythonModule;
+}
+
+export async function getApiSurface(params: GetApiSurfaceParams): Promise<ApiSurfaceResponse> {
+  const {
+    package_name,
+    version = 'latest',
+    module,
+  } = params;
+
+  // Validate inputs
+  validatePackageName(package_name);
+  if (version !== 'latest') {
+    validateVersion(version);
+  }
+  if (module !== undefined && (typeof module !== 'string' || !module.split('.').every(part => IDENTIFIER.test(part)))) {
+    throw new PackageReadmeMcpError(`Invalid module "${module}". Use a dotted module name such as "requests.adapters"`, 'VALIDATION_ERROR');
+  }
+
+  logger.info(`Fetching API surface: ${package_name}@${version}`);
+
+  try {
+    const packageInfo = await pypiClient.getPackageInfo(package_name);
+    const resolved = await pypiClient.resolveVersion(packageInfo, package_name, version);
+
+    // Check cache first
+    const cacheKey = createCacheKey.apiSurface(package_name, resolved);
+    let surface = cache.get<ApiSurfaceResponse>(cacheKey);
+    if (surface) {
+      logger.debug(`Cache hit for API surface: ${package_name}@${resolved}`);
+    } else {
+      surface = await readApiSurface(packageInfo, package_name, resolved);
+      cache.set(cacheKey, surface);
+    }
+
+    const modules = module === undefined
+      ? surface.modules
+      : surface.modules.filter(candidate => candidate.name === module || candidate.name.startsWith(`${module}.`));
+    if (module !== undefined && modules.length === 0) {
+      throw new PackageReadmeMcpError(`Module "${module}" is not a public module of ${package_name}@${resolved}`, 'MODULE_NOT_FOUND');
+    }
+
+    const response: ApiSurfaceResponse = {
+      ...surface,
+      requested_version: version !== resolved && version !== 'latest' ? version : undefined,
+      modules: modules.slice(0, API_SURFACE_CONFIG.MAX_MODULES),
+      total_modules: modules.length,
+      truncated: modules.length > API_SURFACE_CONFIG.MAX_MODULES,
+    };
+
+    logger.info(`Listed ${response.modules.length} of ${modules.length} public modules of ${package_name}@${resolved}`);
+    return response;
+
+  } catch (error) {
+    logger.error(`Failed to fetch API surface: ${package_name}@${version}`, { error });
+    throw error;
+  }
+}
+
+async function readApiSurface(packageInfo: PyPIPackageInfo, packageName: string, version: string): Promise<ApiSurfaceResponse> {
+  const contents = await pypiClient.readWheelFiles(packageName, version, path =>
+    toModulePath(path) !== null && !API_SURFACE_CONFIG.TEST_PATH.test(path));
+
+  // Stubs describe the same module as its source, and take precedence
+  const sources = new Map<string, SourceModule>();
+  for (const file of contents.files) {
+    const modulePath = toModulePath(file.path)!;
+    const existing = sources.get(modulePath.name);
+    if (!existing || (modulePath.stub && !existing.stub)) {
+      sources.set(modulePath.name, { ...modulePath, path: file.path, parsed: parsePythonModule(file.content) });
+    }
+  }
+
+  const modules = Array.from(sources.values())
+    .filter(source => !source.name.split('.').some(part => part.startsWith('_')))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(source => buildModule(sources, source));
+
+  return {
+    package_name: packageInfo.info.name,
+    version,
+    wheel: contents.filename,
+    typed: contents.paths.some(path => /(?:^|\/)py\.typed$/.test(path) || /^[^/]+-stubs\//.test(path)),
+    has_stubs: contents.files.some(file => file.path.endsWith('.pyi')),
+    modules,
+    total_modules: modules.length,
+    truncated: false,
+    index: pypiClient.getIndexName(packageInfo),
+  };
+}
+
+// Module name of a source file in a wheel; stub-only packages ("foo-stubs") describe "foo"
+function toModulePath(path: string): { name: string; stub: boolean; isPackage: boolean } | null {
+  const installed = path.replace(/^[^/]+\.data\/(?:purelib|platlib)\//, '');
+  const match = installed.match(/^(.+)\.(pyi?)$/);
+  if (!match || /^[^/]+\.(?:dist-info|data)\//.test(installed)) {
+    return null;
+  }
+
+  const parts = match[1].split('/');
+  parts[0] = parts[0].replace(/-stubs$/, '');
+  if (!parts.every(part => IDENTIFIER.test(part))) {
+    return null;
+  }
+  const isPackage = parts[parts.length - 1] === '__init__';
+  const name = (isPackage ? parts.slice(0, -1) : parts).join('.');
+  return name ? { name, stub: match[2] === 'pyi', isPackage } : null;
+}
+
+/**
+ * The public API of a module. `__all__` decides what is public when the module
+ * defines it; otherwise names without a leading underscore are, and only the
+ * `__init__` of a package re-exports what it imports from the package itself.
+ */
+function buildModule(sources: Map<string, SourceModule>, source: SourceModule): ApiModule {
+  const { parsed } = source;
+  const isPublic = (name: string) => parsed.all ? parsed.all.includes(name) : !name.startsWith('_');
+  const defined = new Set([
+    ...parsed.classes.map(cls => cls.name),
+    ...parsed.functions.map(fn => fn.name),
+    ...parsed.variables,
+  ]);
+
+  let reexported: string[];
+  if (parsed.all) {
+    reexported = parsed.all.filter(name => !defined.has(name));
+  } else if (source.isPackage) {
+    reexported = parsed.imports
+      .filter(imported => isInternal(source, imported))
+      .flatMap(imported => imported.name === '*'
+        ? starExports(sources, absoluteModule(source, imported.module))
+        : [imported.alias])
+      .filter(name => isPublic(name) && !defined.has(name));
+  } else {
+    reexported = [];
+  }
+
+  return {
+    name: source.name,
+    path: source.path,
+    stub: source.stub,
+    docstring: parsed.docstring,
+    all: parsed.all ?? undefined,
+    classes: parsed.classes.filter(cls => isPublic(cls.name)).map(publicMethods),
+    functions: parsed.functions.filter(fn => isPublic(fn.name)),
+    variables: parsed.variables.filter(isPublic),
+    reexports: Array.from(new Set(reexported)).map(name => ({
+      name,
+      ...(resolveName(sources, source.name, name, 0) ?? unresolved(sources, source.name, name)),
+    })),
+  };
+}
+
+// Names in __all__ that are neither defined nor imported, such as submodules
+function unresolved(sources: Map<string, SourceModule>, moduleName: string, name: string): Omit<ApiReexport, 'name'> {
+  const submodule = sources.get(`${moduleName}.${name}`);
+  return submodule
+    ? { from: submodule.name, kind: 'module', docstring: submodule.parsed.docstring }
+    : { from: moduleName, kind: 'unknown' };
+}
+
+function publicMethods(cls: ApiClass): ApiClass {
+  return { ...cls, methods: cls.methods.filter(method => !method.name.startsWith('_') || /^__\w+__$/.test(method.name)) };
+}
+
+// Follows imports to the module that defines a name
+function resolveName(sources: Map<string, SourceModule>, moduleName: string, name: string, depth: number): Omit<ApiReexport, 'name'> | null {
+  const source = sources.get(moduleName);
+  if (!source || depth > MAX_REEXPORT_DEPTH) {
+    return null;
+  }
+
+  const cls = source.parsed.classes.find(candidate => candidate.name === name);
+  if (cls) {
+    return { from: moduleName, kind: 'class', docstring: cls.docstring };
+  }
+  const fn = source.parsed.functions.find(candidate => candidate.name === name);
+  if (fn) {
+    return { from: moduleName, kind: 'function', signature: fn.signature, docstring: fn.docstring };
+  }
+
+  const imported = source.parsed.imports.find(candidate => candidate.alias === name);
+  if (imported) {
+    const from = absoluteModule(source, imported.module);
+    // `from . import models` imports a submodule
+    const submodule = sources.get(`${from}.${imported.name}`);
+    if (submodule) {
+      return { from: submodule.name, kind: 'module', docstring: submodule.parsed.docstring };
+    }
+    return resolveName(sources, from, imported.name, depth + 1) ?? { from, kind: 'unknown' };
+  }
+
+  for (const star of source.parsed.imports.filter(candidate => candidate.name === '*')) {
+    const resolved = resolveName(sources, absoluteModule(source, star.module), name, depth + 1);
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return null;
+}
+
+// Names `from module import *` binds
+function starExports(sources: Map<string, SourceModule>, moduleName: string): string[] {
+  const parsed = sources.get(moduleName)?.parsed;
+  if (!parsed) {
+    return [];
+  }
+  return parsed.all ?? [
+    ...parsed.classes.map(cls => cls.name),
+    ...parsed.functions.map(fn => fn.name),
+    ...parsed.variables,
+  ].filter(name => !name.startsWith('_'));
+}
+
+function isInternal(source: SourceModule, imported: PythonImport): boolean {
+  return imported.module.startsWith('.') || imported.module.split('.')[0] === source.name.split('.')[0];
+}
+
+// Resolves a relative import such as "..models" against the importing module
+function absoluteModule(source: SourceModule, written: string): string {
+  const dots = written.match(/^\.*/)![0].length;
+  if (dots === 0) {
+    return written;
+  }
+  const packageParts = source.name.split('.').slice(0, source.isPackage ? undefined : -1);
+  const base = packageParts.slice(0, packageParts.length - (dots - 1));
+  const rest = written.slice(dots);
+  return [...base, ...(rest ? [rest] : [])].join('.');
+}
@@ -0,0 +1,59 @@
+import { logger } from '../utils/logger.js';
+import {
+  validateMaxDepth,
+  validatePackageName,
+  validatePlatform,
+  validatePythonVersion,
+  validateVersion,
+} from '../utils/validators-simple.js';
+import { DependencyTreeResolver } from '../services/dependency-tree/index.js';
+import { DEPENDENCY_TREE_CONFIG } from '../config/constants.js';
+import {
+  DependencyTreeResponse,
+  GetDependencyTreeParams,
+  PackageReadmeMcpError,
+} from '../types/index.js';
+
+const dependencyTreeResolver = new DependencyTreeResolver();
+
+export async function getDependencyTree(params: GetDependencyTreeParams): Promise<DependencyTreeResponse> {
+  const {
+    package_name,
+    version = 'latest',
+    max_depth = DEPENDENCY_TREE_CONFIG.DEFAULT_MAX_DEPTH,
+    python_version = DEPENDENCY_TREE_CONFIG.DEFAULT_PYTHON_VERSION,
+    platform = DEPENDENCY_TREE_CONFIG.DEFAULT_PLATFORM,
+    extras = [],
+  } = params;
+
+  // Validate inputs
+  validatePackageName(package_name);
+  if (version !== 'latest') {
+    validateVersion(version);
+  }
+  validateMaxDepth(max_depth);
+  validatePythonVersion(python_version);
+  validatePlatform(platform);
+  if (!Array.isArray(extras) || !extras.every(extra => typeof extra === 'string')) {
+    throw new PackageReadmeMcpError('extras must be an array of strings', 'VALIDATION_ERROR');
+  }
+
+  logger.info(`Resolving dependency tree: ${package_name}@${version} (depth: ${max_depth}, Python ${python_version} on ${platform})`);
+
+  try {
+    const response = await dependencyTreeResolver.resolve(package_name, {
+      version,
+      maxDepth: max_depth,
+      pythonVersion: python_version.trim(),
+      platform,
+      extras,
+    });
+
+    logger.info(`Resolved dependency tree: ${package_name}@${response.version} (${response.total_packages} packages)`);
+    return response;
+
+  } catch (error) {
+    logger.error(`Failed to resolve dependency tree: ${package_name}@${version}`, { error });
+    throw error;
+  }
+}
@@ -0,0 +1,129 @@
+import { logger } from '../utils/logger.js';
+import { validatePackageName, validateVersion } from '../utils/validators-simple.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { pypiClient } from '../services/pypi-api.js';
+import { IMPORT_NAME_CONFIG } from '../config/constants.js';
+import {
+  GetImportNamesParams,
+  ImportNameProvider,
+  ImportNamesResponse,
+  PackageNotFoundError,
+  PackageReadmeMcpError,
+} from '../types/index.js';
+
+const IMPORT_NAME = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+export async function getImportNames(params: GetImportNamesParams): Promise<ImportNamesResponse> {
+  const { package_name, version = 'latest', import_name } = params;
+
+  if ((package_name === undefined) === (import_name === undefined)) {
+    throw new PackageReadmeMcpError('Provide either package_name or import_name', 'VALIDATION_ERROR');
+  }
+  if (import_name !== undefined) {
+    return findProviders(import_name);
+  }
+
+  // Validate inputs
+  validatePackageName(package_name!);
+  if (version !== 'latest') {
+    validateVersion(version);
+  }
+
+  logger.info(`Fetching import names: ${package_name}@${version}`);
+
+  try {
+    const packageInfo = await pypiClient.getPackageInfo(package_name!);
+    const resolved = await pypiClient.resolveVersion(packageInfo, package_name!, version);
+    const importNames = await pypiClient.getImportNames(package_name!, resolved);
+
+    logger.info(`${package_name}@${resolved} installs ${importNames.join(', ') || 'no modules'}`);
+    return {
+      package_name: packageInfo.info.name,
+      version: resolved,
+      import_names: importNames,
+      index: pypiClient.getIndexName(packageInfo),
+    };
+
+  } catch (error) {
+    logger.error(`Failed to fetch import names: ${package_name}@${version}`, { error });
+    throw error;
+  }
+}
+
+/**
+ * Finds the distributions that install a module. Candidates are the known providers
+ * of names that differ from their distribution (yaml is PyYAML), then the spellings
+ * distributions commonly use; each one is checked against the RECORD of its wheel.
+ */
+async function findProviders(importName: string): Promise<ImportNamesResponse> {
+  if (typeof importName !== 'string' || !IMPORT_NAME.test(importName.trim())) {
+    throw new PackageReadmeMcpError(`Invalid import name "${importName}". Use a module name such as "yaml" or "google.protobuf"`, 'VALIDATION_ERROR');
+  }
+  const name = importName.trim();
+  const candidates = candidateDistributions(name);
+
+  logger.info(`Finding distributions providing ${name}: checking ${candidates.length} candidates`);
+
+  const checked = await mapWithConcurrency(candidates, IMPORT_NAME_CONFIG.FETCH_CONCURRENCY, async candidate => {
+    const known = knownProviders(name).includes(candidate);
+    try {
+      const packageInfo = await pypiClient.getPackageInfo(candidate);
+      const release = packageInfo.info.version;
+      const importNames = await pypiClient.getImportNames(candidate, release).catch(error => {
+        // Sdist-only releases cannot be inspected, which only matters for known providers
+        logger.debug(`Could not read the import names of ${candidate}@${release}`, { error });
+        return null;
+      });
+
+      if (importNames && importNames.some(provided => providesModule(provided, name))) {
+        return { package_name: packageInfo.info.name, version: release, import_names: importNames, verified: true };
+      }
+      if (!importNames && known) {
+        return { package_name: packageInfo.info.name, version: release, import_names: [], verified: false };
+      }
+      return null;
+    } catch (error) {
+      if (!(error instanceof PackageNotFoundError)) {
+        logger.warn(`Failed to check ${candidate} as a provider of ${name}`, { error });
+      }
+      return null;
+    }
+  });
+
+  const providers = checked
+    .filter((provider): provider is ImportNameProvider => provider !== null)
+    .sort((a, b) => Number(b.verified) - Number(a.verified));
+
+  logger.info(`Found ${providers.length} distributions providing ${name}`);
+  return { import_name: name, providers };
+}
+
+function knownProviders(importName: string): readonly string[] {
+  const topLevel = importName.split('.')[0];
+  return IMPORT_NAME_CONFIG.KNOWN_PROVIDERS[importName]
+    ?? IMPORT_NAME_CONFIG.KNOWN_PROVIDERS[topLevel]
+    ?? [];
+}
+
+function candidateDistributions(importName: string): string[] {
+  const topLevel = importName.split('.')[0];
+  const base = topLevel.toLowerCase().replace(/_/g, '-');
+  const guesses = [topLevel, base, `py${base}`, `python-${base}`, `${base}-python`, `py-${base}`];
+
+  const seen = new Set<string>();
+  return [...knownProviders(importName), ...guesses].filter(candidate => {
+    const normalized = candidate.toLowerCase().replace(/[-_.]+/g, '-');
+    if (seen.has(normalized)) {
+      return false;
+    }
+    seen.add(normalized);
+    return true;
+  });
+}
+
+// "google.protobuf" provides "google.protobuf.message", and "google" as a namespace
+function providesModule(provided: string, importName: string): boolean {
+  return provided === importName ||
+    importName.startsWith(`${provided}.`) ||
+    provided.startsWith(`${importName}.`);
+}
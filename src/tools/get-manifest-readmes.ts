@@ -0,0 +1,108 @@
+import { logger } from '../utils/logger.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { isValidSpecifierSet } from '../utils/pep440.js';
+import { normalizePackageName } from '../utils/validators.js';
+import { MAIN_GROUP, ManifestParser } from '../services/manifest/index.js';
+import { PackageReadmeService } from '../services/package-readme/index.js';
+import { MANIFEST_CONFIG } from '../config/constants.js';
+import {
+  GetManifestReadmesParams,
+  ManifestFormat,
+  ManifestPackageSummary,
+  ManifestReadmesResponse,
+  ManifestRequirement,
+  PackageReadmeMcpError,
+} from '../types/index.js';
+
+const MANIFEST_FORMATS: ManifestFormat[] = ['requirements', 'pyproject', 'setup.cfg', 'pipfile'];
+
+const manifestParser = new ManifestParser();
+const packageReadmeService = new PackageReadmeService();
+
+export async function getManifestReadmes(params: GetManifestReadmesParams): Promise<ManifestReadmesResponse> {
+  const {
+    content,
+    filename,
+    format,
+    included_files = {},
+    include_optional_dependencies = false,
+  } = params;
+
+  // Validate inputs
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new PackageReadmeMcpError('Manifest content is required', 'VALIDATION_ERROR');
+  }
+  if (format !== undefined && !MANIFEST_FORMATS.includes(format)) {
+    throw new PackageReadmeMcpError(
+      `Invalid manifest format "${format}". Use one of: ${MANIFEST_FORMATS.join(', ')}`,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  const manifest = manifestParser.parse(content, { filename, format, includedFiles: included_files });
+  const warnings = [...manifest.warnings];
+  logger.info(`Fetching READMEs for ${manifest.requirements.length} requirements from ${filename || manifest.format}`);
+
+  let requirements = manifest.requirements.filter(requirement =>
+    include_optional_dependencies || requirement.group === MAIN_GROUP);
+  requirements = uniqueRequirements(requirements);
+
+  if (requirements.length > MANIFEST_CONFIG.MAX_PACKAGES) {
+    warnings.push(`Only the first ${MANIFEST_CONFIG.MAX_PACKAGES} of ${requirements.length} requirements were fetched`);
+    requirements = requirements.slice(0, MANIFEST_CONFIG.MAX_PACKAGES);
+  }
+
+  const packages = await mapWithConcurrency(
+    requirements,
+    MANIFEST_CONFIG.FETCH_CONCURRENCY,
+    requirement => summarizeRequirement(requirement)
+  );
+
+  logger.info(`Fetched READMEs for ${packages.filter(pkg => pkg.exists).length} of ${packages.length} requirements`);
+
+  return {
+    format: manifest.format,
+    total: packages.length,
+    packages,
+    warnings,
+  };
+}
+
+async function summarizeRequirement(requirement: ManifestRequirement): Promise<ManifestPackageSummary> {
+  // Direct references and legacy specifiers are looked up at the latest release
+  const requestedVersion = requirement.specifier && isValidSpecifierSet(requirement.specifier)
+    ? requirement.specifier
+    : 'latest';
+
+  const readme = await packageReadmeService.getPackageReadme({
+    package_name: requirement.name,
+    version: requestedVersion,
+    include_examples: false,
+  });
+
+  return {
+    package_name: requirement.name,
+    requested_version: requestedVersion,
+    group: requirement.group,
+    requirement: requirement.requirement,
+    version: readme.version,
+    description: readme.description,
+    installation: readme.installation,
+    readme_source: readme.readme_source,
+    exists: readme.exists,
+    index: readme.index,
+  };
+}
+
+// The same requirement is often repeated across groups; the first group listing it wins
+function uniqueRequirements(requirements: ManifestRequirement[]): ManifestRequirement[] {
+  const seen = new Set<string>();
+  return requirements.filter(requirement => {
+    const key = `${normalizePackageName(requirement.name)}${requirement.specifier}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,132 @@
+import { logger } from '../utils/logger.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { classifyVersionChange, normalizeVersion } from '../utils/pep440.js';
+import { normalizePackageName } from '../utils/validators.js';
+import { cache, createCacheKey } from '../services/cache.js';
+import { pypiClient } from '../services/pypi-api.js';
+import { LockfileParser } from '../services/manifest/index.js';
+import { OUTDATED_CONFIG } from '../config/constants.js';
+import {
+  GetOutdatedPackagesParams,
+  LockedPackage,
+  LockfileFormat,
+  OutdatedPackage,
+  OutdatedPackagesResponse,
+  PackageReadmeMcpError,
+} from '../types/index.js';
+
+const LOCKFILE_FORMATS: LockfileFormat[] = ['poetry.lock', 'uv.lock', 'pipfile.lock', 'pip-freeze'];
+
+// Latest release of a package and the reasons its yanked releases were pulled
+interface ReleaseStatus {
+  latest_version: string;
+  index: string;
+  yanked: Record<string, string>;  // Normalized version -> yanked_reason
+}
+
+const lockfileParser = new LockfileParser();
+
+export async function getOutdatedPackages(params: GetOutdatedPackagesParams): Promise<OutdatedPackagesResponse> {
+  const {
+    content,
+    filename,
+    format,
+    only_outdated = false,
+  } = params;
+
+  // Validate inputs
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new PackageReadmeMcpError('Lockfile content is required', 'VALIDATION_ERROR');
+  }
+  if (format !== undefined && !LOCKFILE_FORMATS.includes(format)) {
+    throw new PackageReadmeMcpError(
+      `Invalid lockfile format "${format}". Use one of: ${LOCKFILE_FORMATS.join(', ')}`,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  const lockfile = lockfileParser.parse(content, { filename, format });
+  const warnings = [...lockfile.warnings];
+  let pins = lockfile.packages;
+
+  logger.info(`Checking ${pins.length} pinned packages from ${filename || lockfile.format}`);
+
+  if (pins.length > OUTDATED_CONFIG.MAX_PACKAGES) {
+    warnings.push(`Only the first ${OUTDATED_CONFIG.MAX_PACKAGES} of ${pins.length} pinned packages were checked`);
+    pins = pins.slice(0, OUTDATED_CONFIG.MAX_PACKAGES);
+  }
+
+  const checked = await mapWithConcurrency(pins, OUTDATED_CONFIG.FETCH_CONCURRENCY, checkPin);
+  const packages = only_outdated
+    ? checked.filter(pkg => pkg.outdated || pkg.yanked || pkg.error)
+    : checked;
+
+  const response: OutdatedPackagesResponse = {
+    format: lockfile.format,
+    total: checked.length,
+    outdated: checked.filter(pkg => pkg.outdated).length,
+    yanked: checked.filter(pkg => pkg.yanked).length,
+    packages,
+    warnings,
+  };
+
+  logger.info(`Outdated report: ${response.outdated} of ${response.total} pinned packages are outdated, ${response.yanked} yanked`);
+  return response;
+}
+
+async function checkPin(pin: LockedPackage): Promise<OutdatedPackage> {
+  try {
+    const status = await getReleaseStatus(pin.name);
+    const yankedReason = status.yanked[normalizeVersion(pin.version) ?? pin.version];
+    const updateType = classifyVersionChange(pin.version, status.latest_version);
+
+    return {
+      package_name: pin.name,
+      group: pin.group,
+      pinned_version: pin.version,
+      latest_version: status.latest_version,
+      outdated: updateType !== null,
+      update_type: updateType,
+      yanked: yankedReason !== undefined,
+      yanked_reason: yankedReason || undefined,
+      index: status.index,
+    };
+  } catch (error) {
+    logger.debug(`Failed to check pinned package: ${pin.name}==${pin.version}`, { error });
+    return {
+      package_name: pin.name,
+      group: pin.group,
+      pinned_version: pin.version,
+      latest_version: null,
+      outdated: false,
+      update_type: null,
+      yanked: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+async function getReleaseStatus(packageName: string): Promise<ReleaseStatus> {
+  const cacheKey = createCacheKey.releaseStatus(normalizePackageName(packageName));
+  const cached = cache.get<ReleaseStatus>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const packageInfo = await pypiClient.getPackageInfo(packageName);
+  const yanked: Record<string, string> = {};
+  for (const [version, files] of Object.entries(packageInfo.releases || {})) {
+    // A release is yanked when all of its files are
+    if (files.length > 0 && files.every(file => file.yanked)) {
+      yanked[normalizeVersion(version) ?? version] = files.find(file => file.yanked_reason)?.yanked_reason || '';
+    }
+  }
+
+  const status: ReleaseStatus = {
+    latest_version: packageInfo.info.version,
+    index: pypiClient.getIndexName(packageInfo),
+    yanked,
+  };
+  cache.set(cacheKey, status);
+  return status;
+}
@@ -2,18 +2,22 @@ import { logger } from '../utils/logger.js';
 import { validatePackageName } from '../utils/validators.js';
 import { cache, createCacheKey } from '../services/cache.js';
 import { pypiClient } from '../services/pypi-api.js';
+import { DependencyInfoBuilder, RepositoryInfoBuilder, VulnerabilityInfoBuilder } from '../services/package-readme/index.js';
 import {
   GetPackageInfoParams,
   PackageInfoResponse,
-  RepositoryInfo,
-  AuthorInfo,
 } from '../types/index.js';
 
+const repositoryInfoBuilder = new RepositoryInfoBuilder();
+const dependencyInfoBuilder = new DependencyInfoBuilder();
+const vulnerabilityInfoBuilder = new VulnerabilityInfoBuilder();
+
 export async function getPackageInfo(params: GetPackageInfoParams): Promise<PackageInfoResponse> {
   const { 
     package_name, 
     include_dependencies = true, 
-    include_dev_dependencies = false 
+    include_dev_dependencies = false,
+    include_optional_dependencies = include_dev_dependencies,
   } = params;
 
   logger.info(`Fetching package info: ${package_name}`);
@@ -59,56 +63,10 @@ export async function getPackageInfo(params: GetPackageInfoParams): Promise<Pack
     }
 
     // Extract repository information
-    let repository: RepositoryInfo | undefined;
-    if (packageInfo.info.project_urls) {
-      // Look for repository-related URLs
-      const repoKeys = ['Repository', 'Source', 'Source Code', 'Code', 'GitHub', 'GitLab', 'Bitbucket'];
-      for (const key of repoKeys) {
-        if (packageInfo.info.project_urls[key]) {
-          repository = {
-            type: 'git',
-            url: packageInfo.info.project_urls[key],
-          };
-          break;
-        }
-      }
-    }
-
-    // If no repository found in project_urls, try home_page
-    if (!repository && packageInfo.info.home_page) {
-      const homePageUrl = packageInfo.info.home_page;
-      if (homePageUrl.includes('github.com') || 
-          homePageUrl.includes('gitlab.com') || 
-          homePageUrl.includes('bitbucket.org')) {
-        repository = {
-          type: 'git',
-          url: homePageUrl,
-        };
-      }
-    }
+    const repository = repositoryInfoBuilder.build(packageInfo);
 
-    // Extract dependencies (PyPI doesn't provide direct dependency lists like npm)
-    let dependencies: string[] | undefined;
-    let devDependencies: string[] | undefined;
-
-    if (include_dependencies && packageInfo.info.requires_dist) {
-      // Parse requires_dist to extract dependencies
-      dependencies = packageInfo.info.requires_dist
-        .filter(req => typeof req === 'string' && !req.includes('extra =='))  // Filter out extra dependencies
-        .map(req => typeof req === 'string' ? req.split(';')[0].trim() : '')       // Remove condition markers
-        .filter(req => req.length > 0)
-        .slice(0, 20); // Limit to first 20 dependencies
-    }
-
-    // PyPI doesn't have a clear distinction between regular and dev dependencies
-    // Dev dependencies are typically specified as extras
-    if (include_dev_dependencies && packageInfo.info.requires_dist) {
-      devDependencies = packageInfo.info.requires_dist
-        .filter(req => typeof req === 'string' && req.includes('extra =='))
-        .map(req => typeof req === 'string' ? req.split(';')[0].trim() : '')
-        .filter(req => req.length > 0)
-        .slice(0, 10); // Limit to first 10 dev dependencies
-    }
+    // Extract dependencies from Requires-Dist; extras are optional dependency groups
+    const dependencyInfo = dependencyInfoBuilder.build(packageInfo);
 
     // Extract keywords from keywords string or classifiers
     let keywords: string[] = [];
@@ -130,14 +88,20 @@ export async function getPackageInfo(params: GetPackageInfoParams): Promise<Pack
       keywords: keywords,
       classifiers: packageInfo.info.classifiers || [],
       requires_python: packageInfo.info.requires_python || undefined,
-      dependencies: dependencies || undefined,
-      dev_dependencies: devDependencies || undefined,
+      dependencies: include_dependencies ? dependencyInfo.dependencies : undefined,
+      optional_dependencies: include_optional_dependencies ? dependencyInfo.optional_dependencies : undefined,
+      vulnerabilities: vulnerabilityInfoBuilder.build(packageInfo),
       download_stats: downloadStats,
       repository: repository || undefined,
+      index: pypiClient.getIndexName(packageInfo),
     };
 
-    // Cache the response
-    cache.set(cacheKey, response);
+    // Cache the response; stale ones are rebuilt once the refresh lands
+    if (pypiClient.isStale(packageInfo)) {
+      response.stale = true;
+    } else {
+      cache.set(cacheKey, response);
+    }
 
     logger.info(`Successfully fetched package info: ${package_name}@${packageInfo.info.version}`);
     return response;
@@ -0,0 +1,137 @@
+import { logger } from '../utils/logger.js';
+import { validatePackageName } from '../utils/validators-simple.js';
+import { compareVersions, isPrerelease, parseVersion } from '../utils/pep440.js';
+import { pypiClient } from '../services/pypi-api.js';
+import { RELEASE_HISTORY_CONFIG } from '../config/constants.js';
+import {
+  GetReleaseHistoryParams,
+  PackageReadmeMcpError,
+  PyPIReleaseInfo,
+  ReleaseCadence,
+  ReleaseFile,
+  ReleaseHistoryEntry,
+  ReleaseHistoryResponse,
+} from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function getReleaseHistory(params: GetReleaseHistoryParams): Promise<ReleaseHistoryResponse> {
+  const {
+    package_name,
+    since,
+    stable_only = false,
+    include_yanked = true,
+    limit,
+    include_files = true,
+  } = params;
+
+  // Validate inputs
+  validatePackageName(package_name);
+  const sinceTime = since === undefined ? undefined : Date.parse(since);
+  if (sinceTime !== undefined && Number.isNaN(sinceTime)) {
+    throw new PackageReadmeMcpError(`Invalid since date "${since}". Use an ISO 8601 date such as "2024-01-31"`, 'VALIDATION_ERROR');
+  }
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > RELEASE_HISTORY_CONFIG.MAX_LIMIT)) {
+    throw new PackageReadmeMcpError(`limit must be an integer between 1 and ${RELEASE_HISTORY_CONFIG.MAX_LIMIT}`, 'VALIDATION_ERROR');
+  }
+
+  logger.info(`Fetching release history: ${package_name}`);
+
+  try {
+    const packageInfo = await pypiClient.getPackageInfo(package_name);
+    const history = Object.entries(packageInfo.releases || {})
+      .map(([version, files]) => buildEntry(version, files))
+      .sort((a, b) => compareVersions(b.version, a.version));
+
+    const matching = history.filter(release =>
+      (include_yanked || !release.yanked) &&
+      (!stable_only || !release.prerelease) &&
+      (sinceTime === undefined || (release.upload_time !== null && Date.parse(release.upload_time) >= sinceTime)));
+    const releases = limit === undefined ? matching : matching.slice(0, limit);
+
+    const response: ReleaseHistoryResponse = {
+      package_name: packageInfo.info.name,
+      latest_version: packageInfo.info.version,
+      total_releases: history.length,
+      matching_releases: matching.length,
+      releases: include_files ? releases : releases.map(({ files: _files, ...release }) => release),
+      statistics: computeCadence(releases),
+      index: pypiClient.getIndexName(packageInfo),
+    };
+
+    logger.info(`Listed ${releases.length} of ${history.length} releases of ${package_name}`);
+    return response;
+
+  } catch (error) {
+    logger.error(`Failed to fetch release history: ${package_name}`, { error });
+    throw error;
+  }
+}
+
+function buildEntry(version: string, files: PyPIReleaseInfo[]): ReleaseHistoryEntry {
+  const parsed = parseVersion(version);
+  const releaseFiles = files.map(toReleaseFile).sort((a, b) => a.upload_time.localeCompare(b.upload_time));
+  // A release is yanked when all of its files are
+  const yanked = files.length > 0 && files.every(file => file.yanked);
+
+  return {
+    version,
+    upload_time: releaseFiles[0]?.upload_time ?? null,
+    yanked,
+    yanked_reason: yanked ? files.find(file => file.yanked_reason)?.yanked_reason : undefined,
+    prerelease: parsed ? isPrerelease(parsed) : false,
+    requires_python: files.find(file => file.requires_python)?.requires_python,
+    files: releaseFiles,
+  };
+}
+
+function toReleaseFile(file: PyPIReleaseInfo): ReleaseFile {
+  return {
+    filename: file.filename,
+    packagetype: file.packagetype,
+    python_version: file.python_version,
+    requires_python: file.requires_python || undefined,
+    size: file.size,
+    upload_time: toIsoTime(file),
+    sha256: file.digests?.sha256,
+    yanked: file.yanked,
+  };
+}
+
+// upload_time has no time zone, but is UTC like upload_time_iso_8601
+function toIsoTime(file: PyPIReleaseInfo): string {
+  const time = Date.parse(file.upload_time_iso_8601 || `${file.upload_time}Z`);
+  return Number.isNaN(time) ? file.upload_time : new Date(time).toISOString();
+}
+
+/**
+ * Summarizes how often the listed releases came out, in upload order. Releases
+ * without files have no upload time and are left out.
+ */
+function computeCadence(releases: ReleaseHistoryEntry[], now: number = Date.now()): ReleaseCadence {
+  const times = releases
+    .filter(release => release.upload_time !== null)
+    .map(release => Date.parse(release.upload_time!))
+    .sort((a, b) => a - b);
+
+  const gaps = times.slice(1).map((time, position) => (time - times[position]) / DAY_MS);
+  const sortedGaps = [...gaps].sort((a, b) => a - b);
+  const middle = Math.floor(sortedGaps.length / 2);
+  const median = sortedGaps.length === 0
+    ? null
+    : sortedGaps.length % 2 === 1 ? sortedGaps[middle] : (sortedGaps[middle - 1] + sortedGaps[middle]) / 2;
+  const latest = times[times.length - 1];
+
+  return {
+    first_release: times.length > 0 ? new Date(times[0]).toISOString() : null,
+    latest_release: latest !== undefined ? new Date(latest).toISOString() : null,
+    mean_days_between_releases: gaps.length > 0 ? round(gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length) : null,
+    median_days_between_releases: median !== null ? round(median) : null,
+    releases_last_365_days: times.filter(time => now - time <= 365 * DAY_MS).length,
+    days_since_latest_release: latest !== undefined ? Math.floor((now - latest) / DAY_MS) : null,
+  };
+}
+
+function round(days: number): number {
+  return Math.round(days * 10) / 10;
+}
@@ -0,0 +1,133 @@
+import { logger } from '../utils/logger.js';
+import { validatePackageName, validateVersion } from '../utils/validators-simple.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { compareVersions, filterVersions, isVersionSpecifier, parseSpecifierSet, sortVersions } from '../utils/pep440.js';
+import { cache, createCacheKey } from '../services/cache.js';
+import { pypiClient } from '../services/pypi-api.js';
+import { VulnerabilityInfoBuilder } from '../services/package-readme/index.js';
+import { VULNERABILITY_CONFIG } from '../config/constants.js';
+import {
+  AffectedVulnerability,
+  GetVulnerabilitiesParams,
+  PyPIPackageInfo,
+  VersionNotFoundError,
+  VulnerabilitiesResponse,
+} from '../types/index.js';
+
+const vulnerabilityInfoBuilder = new VulnerabilityInfoBuilder();
+
+export async function getVulnerabilities(params: GetVulnerabilitiesParams): Promise<VulnerabilitiesResponse> {
+  const {
+    package_name,
+    version = 'latest',
+  } = params;
+
+  logger.info(`Fetching vulnerabilities: ${package_name}@${version}`);
+
+  // Validate inputs
+  validatePackageName(package_name);
+  if (version !== 'latest') {
+    validateVersion(version);
+  }
+
+  // Check cache first
+  const cacheKey = createCacheKey.vulnerabilities(package_name, version);
+  const cached = cache.get<VulnerabilitiesResponse>(cacheKey);
+  if (cached) {
+    logger.debug(`Cache hit for vulnerabilities: ${package_name}@${version}`);
+    return cached;
+  }
+
+  try {
+    const packageInfo = await pypiClient.getPackageInfo(package_name);
+    const matching = sortVersions(await selectVersions(packageInfo, package_name, version)).reverse();
+    if (matching.length === 0) {
+      throw new VersionNotFoundError(package_name, version);
+    }
+
+    // The JSON API lists the advisories affecting a release on that release's document
+    const checked = matching.slice(0, VULNERABILITY_CONFIG.MAX_VERSIONS);
+    const reports = await mapWithConcurrency(checked, VULNERABILITY_CONFIG.FETCH_CONCURRENCY, async release => {
+      const releaseInfo = release === packageInfo.info.version
+        ? packageInfo
+        : await pypiClient.getVersionInfo(package_name, release);
+      return { release, vulnerabilities: vulnerabilityInfoBuilder.build(releaseInfo) };
+    });
+
+    const advisories = new Map<string, AffectedVulnerability>();
+    for (const { release, vulnerabilities } of reports) {
+      for (const vulnerability of vulnerabilities) {
+        const advisory = advisories.get(vulnerability.id)
+          ?? { ...vulnerability, affected_versions: [], nearest_fixed_version: null };
+        advisory.affected_versions.push(release);
+        advisories.set(vulnerability.id, advisory);
+      }
+    }
+
+    for (const advisory of advisories.values()) {
+      // affected_versions is newest first, like checked
+      const newestAffected = advisory.affected_versions[0];
+      const fixes = advisory.fixed_in.filter(fixed => compareVersions(fixed, newestAffected) > 0);
+      advisory.nearest_fixed_version = sortVersions(fixes)[0] ?? null;
+    }
+
+    const response: VulnerabilitiesResponse = {
+      package_name,
+      requested_version: version,
+      checked_versions: checked,
+      affected_versions: reports.filter(report => report.vulnerabilities.length > 0).map(report => report.release),
+      vulnerabilities: Array.from(advisories.values()),
+      nearest_fixed_version: findNearestFixedVersion(packageInfo, checked[0], advisories),
+      truncated: matching.length > checked.length,
+      index: pypiClient.getIndexName(packageInfo),
+    };
+
+    cache.set(cacheKey, response);
+
+    logger.info(`Found ${response.vulnerabilities.length} vulnerabilities in ${response.affected_versions.length} of ${checked.length} releases of ${package_name}`);
+    return response;
+
+  } catch (error) {
+    logger.error(`Failed to fetch vulnerabilities: ${package_name}@${version}`, { error });
+    throw error;
+  }
+}
+
+// Every release a specifier set matches is checked; other versions resolve to one release
+async function selectVersions(packageInfo: PyPIPackageInfo, packageName: string, version: string): Promise<string[]> {
+  if (!isVersionSpecifier(version)) {
+    return [await pypiClient.resolveVersion(packageInfo, packageName, version)];
+  }
+
+  const releases = Object.entries(packageInfo.releases || {})
+    .filter(([, files]) => files.length > 0)
+    .map(([release]) => release);
+  return filterVersions(releases, parseSpecifierSet(version)!);
+}
+
+/**
+ * Finds the lowest installable release at or above the fixes for every advisory
+ * affecting the newest checked release. That release itself is returned when it
+ * has no advisories, and null when an advisory has no known fix.
+ */
+function findNearestFixedVersion(
+  packageInfo: PyPIPackageInfo,
+  newest: string,
+  advisories: Map<string, AffectedVulnerability>
+): string | null {
+  const affecting = Array.from(advisories.values()).filter(advisory => advisory.affected_versions.includes(newest));
+  if (affecting.length === 0) {
+    return newest;
+  }
+  if (affecting.some(advisory => advisory.nearest_fixed_version === null)) {
+    return null;
+  }
+
+  const target = sortVersions(affecting.map(advisory => advisory.nearest_fixed_version!)).pop()!;
+  const installable = Object.entries(packageInfo.releases || {})
+    .filter(([, files]) => files.some(file => !file.yanked))
+    .map(([release]) => release);
+
+  // Fixes are sometimes recorded for releases that were never published
+  return sortVersions(filterVersions(installable, [{ operator: '>=', version: target }]))[0] ?? target;
+}
@@ -0,0 +1,194 @@
+import { logger } from '../utils/logger.js';
+import { validatePackageName, validatePlatform, validatePythonVersion, validateVersion } from '../utils/validators-simple.js';
+import { compareVersions } from '../utils/pep440.js';
+import { parseDistributionFilename, WheelTags } from '../utils/distribution-filename.js';
+import { isPureWheel, normalizeArchitecture, parsePlatformTag, supportsPython } from '../utils/wheel-tags.js';
+import { pypiClient } from '../services/pypi-api.js';
+import { WHEEL_COMPATIBILITY_CONFIG } from '../config/constants.js';
+import {
+  GetWheelCompatibilityParams,
+  Libc,
+  PackageReadmeMcpError,
+  PlatformTagInfo,
+  PyPIPackageInfo,
+  PyPIReleaseInfo,
+  TargetPlatform,
+  WheelCompatibilityCell,
+  WheelCompatibilityResponse,
+  WheelFileTags,
+} from '../types/index.js';
+
+const LIBCS: Libc[] = ['glibc', 'musl'];
+
+interface Target {
+  platform: TargetPlatform;
+  architecture: string;
+  libc?: Libc | undefined;
+}
+
+interface Wheel extends WheelFileTags {
+  tags: WheelTags;
+}
+
+export async function getWheelCompatibility(params: GetWheelCompatibilityParams): Promise<WheelCompatibilityResponse> {
+  const {
+    package_name,
+    version = 'latest',
+    python_versions = [...WHEEL_COMPATIBILITY_CONFIG.DEFAULT_PYTHON_VERSIONS],
+  } = params;
+
+  // Validate inputs
+  validatePackageName(package_name);
+  if (version !== 'latest') {
+    validateVersion(version);
+  }
+  if (!Array.isArray(python_versions) || python_versions.length === 0) {
+    throw new PackageReadmeMcpError('python_versions must be a non-empty array of Python versions', 'VALIDATION_ERROR');
+  }
+  const pythonVersions = python_versions.map(toPythonVersion);
+  const queryTarget = parseQuery(params);
+
+  logger.info(`Checking wheel compatibility: ${package_name}@${version}`);
+
+  try {
+    const packageInfo = await pypiClient.getPackageInfo(package_name);
+    const resolved = await pypiClient.resolveVersion(packageInfo, package_name, version);
+    const files = packageInfo.releases?.[resolved] ?? [];
+
+    // Yanked files only count when the whole release is yanked
+    const available = files.some(file => !file.yanked) ? files.filter(file => !file.yanked) : files;
+    const wheels = available.map(toWheel).filter((wheel): wheel is Wheel => wheel !== null);
+    const hasSdist = available.some(file => file.packagetype === 'sdist' || parseDistributionFilename(file.filename)?.type === 'sdist');
+
+    const targets = collectTargets(wheels);
+    const matrix = pythonVersions.flatMap(pythonVersion =>
+      targets.map(target => evaluateTarget(wheels, hasSdist, pythonVersion, target)));
+
+    const response: WheelCompatibilityResponse = {
+      package_name: packageInfo.info.name,
+      version: resolved,
+      requested_version: version !== resolved && version !== 'latest' ? version : undefined,
+      has_sdist: hasSdist,
+      pure_python: wheels.some(wheel => isPureWheel(wheel.tags)),
+      wheels: wheels.map(({ tags: _tags, ...wheel }) => wheel),
+      python_versions: pythonVersions,
+      matrix,
+      sdist_only: matrix.filter(cell => cell.status === 'sdist_only'),
+      query: queryTarget ? evaluateTarget(wheels, hasSdist, queryTarget.pythonVersion, queryTarget) : undefined,
+      index: pypiClient.getIndexName(packageInfo),
+    };
+
+    logger.info(`Checked ${wheels.length} wheels of ${package_name}@${resolved}: ${response.sdist_only.length} targets are sdist-only`);
+    return response;
+
+  } catch (error) {
+    logger.error(`Failed to check wheel compatibility: ${package_name}@${version}`, { error });
+    throw error;
+  }
+}
+
+// Accepts "3.12" as well as the "cp312" interpreter tag
+function toPythonVersion(value: string): string {
+  const tag = typeof value === 'string' ? value.trim().match(/^(?:cp|py)(\d)(\d+)$/) : null;
+  const pythonVersion = tag ? `${tag[1]}.${tag[2]}` : value;
+  validatePythonVersion(pythonVersion);
+  return pythonVersion.trim().split('.').slice(0, 2).join('.');
+}
+
+function parseQuery(params: GetWheelCompatibilityParams): (Target & { pythonVersion: string }) | null {
+  const { python_version, platform, architecture, libc } = params;
+  if (python_version === undefined && platform === undefined && architecture === undefined && libc === undefined) {
+    return null;
+  }
+  if (python_version === undefined || platform === undefined) {
+    throw new PackageReadmeMcpError('Checking one target needs both python_version and platform', 'VALIDATION_ERROR');
+  }
+  validatePlatform(platform);
+  if (architecture !== undefined && (typeof architecture !== 'string' || !architecture.trim())) {
+    throw new PackageReadmeMcpError('architecture must be a non-empty string such as "x86_64" or "aarch64"', 'VALIDATION_ERROR');
+  }
+  if (libc !== undefined && !LIBCS.includes(libc)) {
+    throw new PackageReadmeMcpError(`Invalid libc "${libc}". Use one of: ${LIBCS.join(', ')}`, 'VALIDATION_ERROR');
+  }
+
+  return {
+    pythonVersion: toPythonVersion(python_version),
+    platform,
+    architecture: normalizeArchitecture(architecture?.trim() || WHEEL_COMPATIBILITY_CONFIG.DEFAULT_ARCHITECTURE),
+    libc: platform === 'linux' ? libc ?? WHEEL_COMPATIBILITY_CONFIG.DEFAULT_LIBC : undefined,
+  };
+}
+
+function toWheel(file: PyPIReleaseInfo): Wheel | null {
+  const parsed = parseDistributionFilename(file.filename);
+  if (!parsed?.wheel) {
+    return null;
+  }
+  return {
+    filename: file.filename,
+    python_tags: parsed.wheel.python_tags,
+    abi_tags: parsed.wheel.abi_tags,
+    platform_tags: parsed.wheel.platform_tags,
+    platforms: parsed.wheel.platform_tags.map(parsePlatformTag),
+    requires_python: file.requires_python || undefined,
+    yanked: file.yanked,
+    tags: parsed.wheel,
+  };
+}
+
+// The default targets, plus any other platform a wheel ships for (e.g. linux ppc64le)
+function collectTargets(wheels: Wheel[]): Target[] {
+  const targets: Target[] = WHEEL_COMPATIBILITY_CONFIG.TARGETS.map(target => ({ ...target }));
+  const key = (target: Target) => `${target.platform}/${target.architecture}/${target.libc ?? ''}`;
+  const seen = new Set(targets.map(key));
+
+  for (const wheel of wheels) {
+    for (const info of wheel.platforms) {
+      if (info.platform === 'any' || info.platform === 'other') {
+        continue;
+      }
+      for (const architecture of info.architectures) {
+        const target: Target = { platform: info.platform, architecture, libc: info.libc };
+        if (!seen.has(key(target))) {
+          seen.add(key(target));
+          targets.push(target);
+        }
+      }
+    }
+  }
+  return targets;
+}
+
+function evaluateTarget(wheels: Wheel[], hasSdist: boolean, pythonVersion: string, target: Target): WheelCompatibilityCell {
+  const matching = wheels
+    .filter(wheel => supportsPython(wheel.tags, pythonVersion, wheel.requires_python))
+    .map(wheel => ({ wheel, platforms: wheel.platforms.filter(info => matchesTarget(info, target)) }))
+    .filter(({ platforms }) => platforms.length > 0);
+
+  const binary = matching.filter(({ wheel }) => !isPureWheel(wheel.tags));
+  const osVersions = binary
+    .flatMap(({ platforms }) => platforms.map(info => info.min_os_version))
+    .filter((osVersion): osVersion is string => osVersion !== undefined)
+    .sort(compareVersions);
+
+  return {
+    python_version: pythonVersion,
+    platform: target.platform,
+    architecture: target.architecture,
+    libc: target.libc,
+    status: binary.length > 0 ? 'binary_wheel'
+      : matching.length > 0 ? 'pure_wheel'
+        : hasSdist ? 'sdist_only' : 'unsupported',
+    wheels: matching.map(({ wheel }) => wheel.filename),
+    min_os_version: osVersions[0],
+  };
+}
+
+function matchesTarget(info: PlatformTagInfo, target: Target): boolean {
+  if (info.platform === 'any') {
+    return true;
+  }
+  return info.platform === target.platform &&
+    info.architectures.includes(target.architecture) &&
+    (target.platform !== 'linux' || info.libc === target.libc);
+}
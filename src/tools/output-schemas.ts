@@ -0,0 +1,509 @@
+import type {
+  AffectedVulnerability,
+  ApiClass,
+  ApiFunction,
+  ApiModule,
+  ApiReexport,
+  ApiSurfaceResponse,
+  AuthorInfo,
+  DependencyTreeNode,
+  DependencyTreeResponse,
+  DownloadStats,
+  ImportNameProvider,
+  ImportNamesResponse,
+  InstallationInfo,
+  ManifestPackageSummary,
+  ManifestReadmesResponse,
+  OutdatedPackage,
+  OutdatedPackagesResponse,
+  PackageBasicInfo,
+  PackageDependency,
+  PackageInfoResponse,
+  PackageReadmeResponse,
+  PackageSearchResult,
+  PlatformTagInfo,
+  ReleaseCadence,
+  ReleaseFile,
+  ReleaseHistoryEntry,
+  ReleaseHistoryResponse,
+  RepositoryInfo,
+  SearchPackagesResponse,
+  UsageExample,
+  VulnerabilitiesResponse,
+  Vulnerability,
+  WheelCompatibilityCell,
+  WheelCompatibilityResponse,
+  WheelFileTags,
+} from '../types/index.js';
+
+type JsonSchema = Record<string, unknown>;
+
+interface OptionalProperty {
+  optional: JsonSchema;
+}
+
+// One schema per property of T, with optional properties wrapped in optional(), so a
+// schema that drifts from its response type fails to compile
+type PropertySchemas<T> = {
+  [K in keyof T]-?: {} extends Pick<T, K> ? OptionalProperty : JsonSchema & { optional?: never };
+};
+
+function objectSchema<T>(properties: PropertySchemas<T>, description?: string): JsonSchema {
+  const entries = Object.entries(properties as Record<string, JsonSchema>);
+  return {
+    type: 'object',
+    ...(description ? { description } : {}),
+    properties: Object.fromEntries(entries.map(([key, schema]) => [key, isOptional(schema) ? schema.optional : schema])),
+    required: entries.filter(([, schema]) => !isOptional(schema)).map(([key]) => key),
+  };
+}
+
+function isOptional(schema: JsonSchema): schema is JsonSchema & OptionalProperty {
+  return 'optional' in schema;
+}
+
+function optional(schema: JsonSchema): OptionalProperty {
+  return { optional: schema };
+}
+
+function string(description?: string): JsonSchema {
+  return description ? { type: 'string', description } : { type: 'string' };
+}
+
+function number(description?: string): JsonSchema {
+  return description ? { type: 'number', description } : { type: 'number' };
+}
+
+function boolean(description?: string): JsonSchema {
+  return description ? { type: 'boolean', description } : { type: 'boolean' };
+}
+
+function arrayOf(items: JsonSchema, description?: string): JsonSchema {
+  return description ? { type: 'array', items, description } : { type: 'array', items };
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+function recordOf(values: JsonSchema, description?: string): JsonSchema {
+  return description
+    ? { type: 'object', additionalProperties: values, description }
+    : { type: 'object', additionalProperties: values };
+}
+
+const MARKER_REF = { $ref: '#/$defs/marker' };
+
+// PEP 508 environment marker tree, see MarkerNode
+const MARKER_SCHEMA: JsonSchema = {
+  oneOf: [
+    {
+      type: 'object',
+      properties: {
+        type: { const: 'comparison' },
+        variable: string('Marker variable, e.g. "python_version"'),
+        operator: { enum: ['==', '!=', '<', '<=', '>', '>=', '~=', '===', 'in', 'not in'] },
+        value: string(),
+        reversed: boolean('The literal is on the left, e.g. `"linux" in sys_platform`'),
+      },
+      required: ['type', 'variable', 'operator', 'value'],
+    },
+    {
+      type: 'object',
+      properties: {
+        type: { enum: ['and', 'or'] },
+        markers: arrayOf(MARKER_REF),
+      },
+      required: ['type', 'markers'],
+    },
+  ],
+};
+
+const README_SOURCE_SCHEMA = { enum: ['pypi', 'github', 'summary', 'none'], description: 'Where the README came from' };
+const PLATFORM_SCHEMA = { enum: ['linux', 'darwin', 'win32'] };
+const LIBC_SCHEMA = { enum: ['glibc', 'musl'] };
+
+const REPOSITORY_SCHEMA = objectSchema<RepositoryInfo>({
+  type: string('Hosting service, e.g. "git"'),
+  url: string(),
+  directory: optional(string('Subdirectory of a monorepo that holds the package')),
+}, 'Source repository of the package');
+
+const AUTHOR_SCHEMA = {
+  anyOf: [
+    string(),
+    objectSchema<AuthorInfo>({
+      name: string(),
+      email: optional(string()),
+      url: optional(string()),
+    }),
+  ],
+};
+
+const USAGE_EXAMPLE_SCHEMA = objectSchema<UsageExample>({
+  title: string(),
+  description: optional(string()),
+  code: string(),
+  language: string('e.g. "python", "bash" or "yaml"'),
+  expected_output: optional(string('Output printed by a doctest or REPL session')),
+});
+
+const INSTALLATION_SCHEMA = objectSchema<InstallationInfo>({
+  pip: string('e.g. "pip install requests"'),
+  conda: optional(string()),
+  pipx: optional(string('Only when the package installs commands')),
+  console_scripts: optional(arrayOf(string(), 'Commands the package installs; absent when its wheel could not be read')),
+  gui_scripts: optional(arrayOf(string())),
+});
+
+const BASIC_INFO_SCHEMA = objectSchema<PackageBasicInfo>({
+  name: string(),
+  version: string(),
+  description: string(),
+  summary: optional(string()),
+  homepage: optional(string()),
+  package_url: optional(string()),
+  project_urls: optional(recordOf(string())),
+  license: optional(string()),
+  author: AUTHOR_SCHEMA,
+  maintainer: optional(AUTHOR_SCHEMA),
+  keywords: arrayOf(string()),
+  classifiers: arrayOf(string()),
+  requires_python: optional(string()),
+  import_names: optional(arrayOf(string(), 'Top-level modules the wheel installs, e.g. ["bs4"]')),
+});
+
+const DEPENDENCY_SCHEMA = objectSchema<PackageDependency>({
+  name: string(),
+  extras: arrayOf(string()),
+  specifier: string('e.g. ">=2.0,<3"; empty when any version is accepted'),
+  url: optional(string('Direct reference, e.g. "pkg @ https://..."')),
+  marker: optional(MARKER_REF),
+  requirement: string('Requirement as written in the metadata'),
+});
+
+const VULNERABILITY_SCHEMA = objectSchema<Vulnerability>({
+  id: string('e.g. "PYSEC-2023-74" or "GHSA-j8r2-6x86-q33q"'),
+  aliases: arrayOf(string(), 'Other identifiers, e.g. CVE numbers'),
+  summary: string(),
+  fixed_in: arrayOf(string(), 'Releases that fix the advisory'),
+  link: string(),
+});
+
+const DOWNLOAD_STATS_SCHEMA = objectSchema<DownloadStats>({
+  last_day: number(),
+  last_week: number(),
+  last_month: number(),
+});
+
+const SEARCH_RESULT_SCHEMA = objectSchema<PackageSearchResult>({
+  name: string(),
+  version: string(),
+  description: string(),
+  summary: string(),
+  keywords: arrayOf(string()),
+  author: string(),
+  maintainer: string(),
+  classifiers: arrayOf(string()),
+  score: {
+    type: 'object',
+    properties: {
+      final: number('Overall score from 0 to 1'),
+      detail: {
+        type: 'object',
+        properties: { quality: number(), maintenance: number() },
+        required: ['quality', 'maintenance'],
+      },
+    },
+    required: ['final', 'detail'],
+  },
+  searchScore: number('How well the name matches the query, from 0 to 1'),
+});
+
+export const PACKAGE_README_OUTPUT_SCHEMA = objectSchema<PackageReadmeResponse>({
+  package_name: string(),
+  version: string('Resolved release'),
+  requested_version: optional(string('Specifier the version was resolved from, e.g. "~=2.28"')),
+  description: string(),
+  readme_content: string('README as Markdown'),
+  readme_source: README_SOURCE_SCHEMA,
+  usage_examples: arrayOf(USAGE_EXAMPLE_SCHEMA),
+  installation: INSTALLATION_SCHEMA,
+  basic_info: BASIC_INFO_SCHEMA,
+  repository: optional(REPOSITORY_SCHEMA),
+  exists: boolean(),
+  index: optional(string('Package index that served the metadata')),
+  stale: optional(boolean('Built from an expired PyPI document while it is refreshed')),
+});
+
+export const PACKAGE_INFO_OUTPUT_SCHEMA = {
+  ...objectSchema<PackageInfoResponse>({
+    package_name: string(),
+    latest_version: string(),
+    description: string(),
+    author: string(),
+    maintainer: optional(string()),
+    license: optional(string()),
+    keywords: arrayOf(string()),
+    classifiers: arrayOf(string()),
+    requires_python: optional(string()),
+    dependencies: optional(arrayOf(DEPENDENCY_SCHEMA)),
+    optional_dependencies: optional(recordOf(arrayOf(DEPENDENCY_SCHEMA), 'Keyed by extra name')),
+    vulnerabilities: arrayOf(VULNERABILITY_SCHEMA, 'Known advisories affecting latest_version'),
+    download_stats: DOWNLOAD_STATS_SCHEMA,
+    repository: optional(REPOSITORY_SCHEMA),
+    index: string('Package index that served the metadata'),
+    stale: optional(boolean('Built from an expired PyPI document while it is refreshed')),
+  }),
+  $defs: { marker: MARKER_SCHEMA },
+};
+
+export const SEARCH_PACKAGES_OUTPUT_SCHEMA = objectSchema<SearchPackagesResponse>({
+  query: string(),
+  total: number(),
+  packages: arrayOf(SEARCH_RESULT_SCHEMA),
+});
+
+const DEPENDENCY_NODE_REF = { $ref: '#/$defs/dependencyNode' };
+
+const DEPENDENCY_NODE_SCHEMA = objectSchema<DependencyTreeNode>({
+  name: string(),
+  version: nullable(string('Resolved version; null when resolution failed')),
+  specifier: string('Specifier the parent asked for; empty for the root'),
+  extras: arrayOf(string()),
+  requirement: optional(string('Requirement as written in the parent\'s metadata')),
+  dependencies: arrayOf(DEPENDENCY_NODE_REF),
+  duplicate: optional(boolean('Expanded elsewhere in the tree')),
+  cycle: optional(boolean('Already an ancestor of this node')),
+  truncated: optional(boolean('Has dependencies below max_depth')),
+  index: optional(string('Package index that served the metadata')),
+  error: optional(string()),
+});
+
+export const DEPENDENCY_TREE_OUTPUT_SCHEMA = {
+  ...objectSchema<DependencyTreeResponse>({
+    package_name: string(),
+    version: string(),
+    environment: {
+      type: 'object',
+      properties: { python_version: string(), platform: PLATFORM_SCHEMA },
+      required: ['python_version', 'platform'],
+    },
+    max_depth: number(),
+    total_packages: number('Distinct packages in the tree, including the root'),
+    tree: DEPENDENCY_NODE_REF,
+  }),
+  $defs: { dependencyNode: DEPENDENCY_NODE_SCHEMA },
+};
+
+const MANIFEST_PACKAGE_SCHEMA = objectSchema<ManifestPackageSummary>({
+  package_name: string(),
+  requested_version: string('Specifier from the manifest, or "latest"'),
+  group: string('"main", or the extra or dependency group that lists it'),
+  requirement: string('Requirement as written in the manifest'),
+  version: string('Resolved release'),
+  description: string(),
+  installation: INSTALLATION_SCHEMA,
+  readme_source: README_SOURCE_SCHEMA,
+  exists: boolean(),
+  index: optional(string('Package index that served the metadata')),
+});
+
+export const MANIFEST_READMES_OUTPUT_SCHEMA = objectSchema<ManifestReadmesResponse>({
+  format: { enum: ['requirements', 'pyproject', 'setup.cfg', 'pipfile'] },
+  total: number(),
+  packages: arrayOf(MANIFEST_PACKAGE_SCHEMA),
+  warnings: arrayOf(string(), 'Lines and entries that were skipped'),
+});
+
+const OUTDATED_PACKAGE_SCHEMA = objectSchema<OutdatedPackage>({
+  package_name: string(),
+  group: string(),
+  pinned_version: string(),
+  latest_version: nullable(string('null when the lookup failed')),
+  outdated: boolean(),
+  update_type: nullable({ enum: ['major', 'minor', 'patch'], description: 'Size of the gap to latest_version' }),
+  yanked: boolean('The pinned release is yanked'),
+  yanked_reason: optional(string()),
+  index: optional(string('Package index that served the metadata')),
+  error: optional(string()),
+});
+
+export const OUTDATED_PACKAGES_OUTPUT_SCHEMA = objectSchema<OutdatedPackagesResponse>({
+  format: { enum: ['poetry.lock', 'uv.lock', 'pipfile.lock', 'pip-freeze'] },
+  total: number('Pinned packages checked'),
+  outdated: number(),
+  yanked: number(),
+  packages: arrayOf(OUTDATED_PACKAGE_SCHEMA),
+  warnings: arrayOf(string(), 'Entries that were skipped'),
+});
+
+const AFFECTED_VULNERABILITY_SCHEMA = objectSchema<AffectedVulnerability>({
+  id: string('e.g. "PYSEC-2023-74" or "GHSA-j8r2-6x86-q33q"'),
+  aliases: arrayOf(string(), 'Other identifiers, e.g. CVE numbers'),
+  summary: string(),
+  fixed_in: arrayOf(string(), 'Releases that fix the advisory'),
+  link: string(),
+  affected_versions: arrayOf(string(), 'Checked releases the advisory applies to'),
+  nearest_fixed_version: nullable(string('Lowest fix newer than the newest affected release')),
+});
+
+export const VULNERABILITIES_OUTPUT_SCHEMA = objectSchema<VulnerabilitiesResponse>({
+  package_name: string(),
+  requested_version: string(),
+  checked_versions: arrayOf(string(), 'Newest first'),
+  affected_versions: arrayOf(string(), 'Checked releases with at least one advisory'),
+  vulnerabilities: arrayOf(AFFECTED_VULNERABILITY_SCHEMA),
+  nearest_fixed_version: nullable(string('Lowest release fixing every advisory of the newest checked release')),
+  truncated: boolean('More releases matched than were checked'),
+  index: string('Package index that served the metadata'),
+});
+
+const RELEASE_FILE_SCHEMA = objectSchema<ReleaseFile>({
+  filename: string(),
+  packagetype: string('e.g. "bdist_wheel" or "sdist"'),
+  python_version: string('Python tag of a wheel, "source" for sdists'),
+  requires_python: optional(string()),
+  size: number('Bytes'),
+  upload_time: string('ISO 8601'),
+  sha256: string(),
+  yanked: boolean(),
+});
+
+const RELEASE_SCHEMA = objectSchema<ReleaseHistoryEntry>({
+  version: string(),
+  upload_time: nullable(string('First upload of any of its files')),
+  yanked: boolean('Every file of the release is yanked'),
+  yanked_reason: optional(string()),
+  prerelease: boolean('Pre-release or development release'),
+  requires_python: optional(string()),
+  files: optional(arrayOf(RELEASE_FILE_SCHEMA)),
+});
+
+const RELEASE_CADENCE_SCHEMA = objectSchema<ReleaseCadence>({
+  first_release: nullable(string()),
+  latest_release: nullable(string()),
+  mean_days_between_releases: nullable(number()),
+  median_days_between_releases: nullable(number()),
+  releases_last_365_days: number(),
+  days_since_latest_release: nullable(number()),
+}, 'Computed over the listed releases');
+
+export const RELEASE_HISTORY_OUTPUT_SCHEMA = objectSchema<ReleaseHistoryResponse>({
+  package_name: string(),
+  latest_version: string(),
+  total_releases: number('Every release of the package'),
+  matching_releases: number('Releases matching the filters, before limit'),
+  releases: arrayOf(RELEASE_SCHEMA, 'Newest first'),
+  statistics: RELEASE_CADENCE_SCHEMA,
+  index: string('Package index that served the metadata'),
+});
+
+const PLATFORM_TAG_SCHEMA = objectSchema<PlatformTagInfo>({
+  tag: string('e.g. "manylinux_2_17_aarch64"'),
+  platform: { enum: ['linux', 'darwin', 'win32', 'any', 'other'] },
+  architectures: arrayOf(string(), 'Empty for "any"'),
+  libc: optional(LIBC_SCHEMA),
+  min_os_version: optional(string('glibc or musl version on Linux, macOS version on darwin')),
+});
+
+const WHEEL_FILE_SCHEMA = objectSchema<WheelFileTags>({
+  filename: string(),
+  python_tags: arrayOf(string()),
+  abi_tags: arrayOf(string()),
+  platform_tags: arrayOf(string()),
+  platforms: arrayOf(PLATFORM_TAG_SCHEMA),
+  requires_python: optional(string()),
+  yanked: boolean(),
+});
+
+const COMPATIBILITY_CELL_SCHEMA = objectSchema<WheelCompatibilityCell>({
+  python_version: string(),
+  platform: PLATFORM_SCHEMA,
+  architecture: string(),
+  libc: optional(LIBC_SCHEMA),
+  status: { enum: ['binary_wheel', 'pure_wheel', 'sdist_only', 'unsupported'] },
+  wheels: arrayOf(string(), 'Filenames of the wheels that install on the target'),
+  min_os_version: optional(string('Oldest glibc, musl or macOS version a matching binary wheel supports')),
+});
+
+export const WHEEL_COMPATIBILITY_OUTPUT_SCHEMA = objectSchema<WheelCompatibilityResponse>({
+  package_name: string(),
+  version: string('Resolved release'),
+  requested_version: optional(string('Specifier the version was resolved from')),
+  has_sdist: boolean(),
+  pure_python: boolean('Ships a wheel for every platform'),
+  wheels: arrayOf(WHEEL_FILE_SCHEMA),
+  python_versions: arrayOf(string()),
+  matrix: arrayOf(COMPATIBILITY_CELL_SCHEMA, 'Python version x platform x architecture'),
+  sdist_only: arrayOf(COMPATIBILITY_CELL_SCHEMA, 'Targets that must build from the sdist'),
+  query: optional(COMPATIBILITY_CELL_SCHEMA),
+  index: string('Package index that served the metadata'),
+});
+
+const IMPORT_NAME_PROVIDER_SCHEMA = objectSchema<ImportNameProvider>({
+  package_name: string(),
+  version: string(),
+  import_names: arrayOf(string()),
+  verified: boolean('The wheel was read and installs the module'),
+});
+
+// Either the modules package_name installs, or the distributions that provide import_name
+export const IMPORT_NAMES_OUTPUT_SCHEMA = objectSchema<ImportNamesResponse>({
+  package_name: optional(string()),
+  version: optional(string()),
+  import_names: optional(arrayOf(string())),
+  import_name: optional(string()),
+  providers: optional(arrayOf(IMPORT_NAME_PROVIDER_SCHEMA, 'Verified providers first')),
+  index: optional(string('Package index that served package_name')),
+});
+
+const API_FUNCTION_SCHEMA = objectSchema<ApiFunction>({
+  name: string(),
+  signature: string('e.g. "(url: str, **kwargs) -> Response"'),
+  async: optional(boolean()),
+  decorators: optional(arrayOf(string())),
+  docstring: optional(string('First line')),
+  overloads: optional(arrayOf(string(), 'Signatures of @overload variants')),
+});
+
+const API_CLASS_SCHEMA = objectSchema<ApiClass>({
+  name: string(),
+  bases: arrayOf(string()),
+  decorators: optional(arrayOf(string())),
+  docstring: optional(string()),
+  methods: arrayOf(API_FUNCTION_SCHEMA),
+});
+
+const API_REEXPORT_SCHEMA = objectSchema<ApiReexport>({
+  name: string(),
+  from: string('Module the name is defined in'),
+  kind: { enum: ['class', 'function', 'module', 'unknown'] },
+  signature: optional(string()),
+  docstring: optional(string()),
+});
+
+const API_MODULE_SCHEMA = objectSchema<ApiModule>({
+  name: string('Dotted module name'),
+  path: string('File in the wheel'),
+  stub: boolean('Read from a .pyi file'),
+  docstring: optional(string()),
+  all: optional(arrayOf(string(), '__all__, when the module defines it')),
+  classes: arrayOf(API_CLASS_SCHEMA),
+  functions: arrayOf(API_FUNCTION_SCHEMA),
+  variables: arrayOf(string()),
+  reexports: arrayOf(API_REEXPORT_SCHEMA),
+});
+
+export const API_SURFACE_OUTPUT_SCHEMA = objectSchema<ApiSurfaceResponse>({
+  package_name: string(),
+  version: string(),
+  requested_version: optional(string()),
+  wheel: string('Filename of the wheel that was read'),
+  typed: boolean('Ships py.typed, or is a stub-only package'),
+  has_stubs: boolean('Ships .pyi files'),
+  modules: arrayOf(API_MODULE_SCHEMA),
+  total_modules: number(),
+  truncated: boolean('More public modules than are listed'),
+  index: optional(string('Package index that served the metadata')),
+});
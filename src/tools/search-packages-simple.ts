@@ -1,11 +1,13 @@
 import { logger } from '../utils/logger.js';
 import { validateSearchQuery, validateSearchLimit } from '../utils/validators-simple.js';
 import { cache, createCacheKey } from '../services/cache.js';
+import { pypiClient } from '../services/pypi-api.js';
 import { CACHE_CONFIG, VALIDATION_LIMITS } from '../config/constants.js';
 import {
   SearchPackagesParams,
   SearchPackagesResponse,
   PackageSearchResult,
+  PyPISearchResponse,
 } from '../types/index.js';
 
 export async function searchPackages(params: SearchPackagesParams): Promise<SearchPackagesResponse> {
@@ -29,8 +31,8 @@ export async function searchPackages(params: SearchPackagesParams): Promise<Sear
   }
 
   try {
-    // Use libraries.io API as the primary search method
-    const results = await searchWithLibrariesIO(query, limit);
+    const searchResponse = await pypiClient.searchPackages(query, limit);
+    const results = searchResponse.results.map(toPackageSearchResult);
     
     const response: SearchPackagesResponse = {
       query,
@@ -56,81 +58,48 @@ export async function searchPackages(params: SearchPackagesParams): Promise<Sear
   }
 }
 
-async function searchWithLibrariesIO(query: string, limit: number): Promise<PackageSearchResult[]> {
-  const url = `https://libraries.io/api/search?q=${encodeURIComponent(query)}&platforms=Pypi&per_page=${limit}`;
-  
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'pip-package-readme-mcp-server/1.0.0',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Libraries.io API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    return data.map((pkg: any): PackageSearchResult => ({
-      name: pkg.name,
-      version: pkg.latest_stable_release?.number || pkg.latest_release_number || '0.0.0',
-      description: pkg.description || '',
-      summary: pkg.description || '',
-      keywords: pkg.keywords || [],
-      author: extractAuthor(pkg),
-      maintainer: extractMaintainer(pkg),
-      classifiers: [],
-      score: {
-        final: calculateSimpleScore(pkg),
-        detail: {
-          quality: 0.5,
-          popularity: normalizeStars(pkg.stars),
-          maintenance: normalizeActivity(pkg.latest_release_published_at),
-        },
+function toPackageSearchResult(result: PyPISearchResponse['results'][number]): PackageSearchResult {
+  const relevance = result.match?.score ?? 0;
+  const quality = calculateQuality(result);
+  const maintenance = result.upload_time ? normalizeActivity(result.upload_time) : 0;
+
+  return {
+    name: result.name,
+    version: result.version,
+    description: result.summary || '',
+    summary: result.summary || '',
+    keywords: splitKeywords(result.keywords),
+    author: result.author || result.author_email || 'Unknown',
+    maintainer: result.maintainer || result.maintainer_email || 'Unknown',
+    classifiers: result.classifiers || [],
+    score: {
+      final: Math.round((relevance * 0.7 + quality * 0.15 + maintenance * 0.15) * 10000) / 10000,
+      detail: {
+        quality,
+        maintenance,
       },
-      searchScore: calculateSimpleScore(pkg),
-    }));
-
-  } catch (error) {
-    logger.warn('Libraries.io search failed', { error });
-    throw error;
-  }
+    },
+    searchScore: relevance,
+  };
 }
 
-function extractAuthor(pkg: any): string {
-  return pkg.repository?.owner?.login || 'Unknown';
-}
-
-function extractMaintainer(pkg: any): string {
-  return pkg.repository?.owner?.login || 'Unknown';
-}
-
-function calculateSimpleScore(pkg: any): number {
-  let score = 0.5; // Base score
-  
-  // Add points for stars
-  if (pkg.stars > 0) {
-    score += Math.min(pkg.stars / 1000, 0.3); // Max 0.3 points for stars
-  }
-  
-  // Add points for recent activity
-  if (pkg.latest_release_published_at) {
-    const releaseDate = new Date(pkg.latest_release_published_at);
-    const daysSinceRelease = (Date.now() - releaseDate.getTime()) / (1000 * 60 * 60 * 24);
-    
-    if (daysSinceRelease < 365) {
-      score += 0.2; // Recently updated
-    }
-  }
-  
-  return Math.min(score, 1.0);
+function splitKeywords(keywords: string): string[] {
+  return (keywords || '')
+    .split(/[,\s]+/)
+    .map(keyword => keyword.trim())
+    .filter(keyword => keyword.length > 0);
 }
 
-function normalizeStars(stars: number): number {
-  if (!stars) return 0;
-  return Math.min(stars / 1000, 1.0);
+function calculateQuality(result: PyPISearchResponse['results'][number]): number {
+  // Share of the metadata a well-maintained project usually fills in
+  const signals = [
+    Boolean(result.summary),
+    Boolean(result.description),
+    Boolean(result.requires_python),
+    Boolean(result.project_urls && Object.keys(result.project_urls).length > 0),
+    Boolean(result.classifiers && result.classifiers.length > 0),
+  ];
+  return signals.filter(Boolean).length / signals.length;
 }
 
 function normalizeActivity(lastReleaseDate: string): number {
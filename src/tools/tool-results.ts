@@ -0,0 +1,279 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ApiSurfaceResponse,
+  DependencyTreeNode,
+  DependencyTreeResponse,
+  ImportNamesResponse,
+  ManifestReadmesResponse,
+  OutdatedPackagesResponse,
+  PackageInfoResponse,
+  PackageReadmeMcpError,
+  PackageReadmeResponse,
+  ReleaseHistoryResponse,
+  SearchPackagesResponse,
+  VulnerabilitiesResponse,
+  WheelCompatibilityCell,
+  WheelCompatibilityResponse,
+} from '../types/index.js';
+
+const MAX_LISTED_DEPENDENCIES = 20;
+// Summaries list at most this many lines of packages, releases or modules; the
+// structured content has all of them
+const MAX_LISTED_ITEMS = 30;
+
+/**
+ * Turns a tool response into a tool result: the response as structured content, next
+ * to a short summary. Tools without an output schema return it as JSON text.
+ */
+export function toToolResult(name: string, response: unknown): CallToolResult {
+  switch (name) {
+    case 'get_readme_from_pip': {
+      const readme = response as PackageReadmeResponse;
+      // The README itself goes along as a resource, for clients that only read the content
+      return {
+        content: [{ type: 'text', text: summarizeReadme(readme) }, readmeResource(readme)],
+        structuredContent: { ...readme },
+      };
+    }
+    case 'get_package_info_from_pip':
+      return structured(summarizePackageInfo(response as PackageInfoResponse), response);
+    case 'search_packages_from_pip':
+      return structured(summarizeSearch(response as SearchPackagesResponse), response);
+    case 'get_dependency_tree_from_pip':
+      return structured(summarizeDependencyTree(response as DependencyTreeResponse), response);
+    case 'get_manifest_readmes_from_pip':
+      return structured(summarizeManifestReadmes(response as ManifestReadmesResponse), response);
+    case 'get_outdated_packages_from_pip':
+      return structured(summarizeOutdatedPackages(response as OutdatedPackagesResponse), response);
+    case 'get_vulnerabilities_from_pip':
+      return structured(summarizeVulnerabilities(response as VulnerabilitiesResponse), response);
+    case 'get_release_history_from_pip':
+      return structured(summarizeReleaseHistory(response as ReleaseHistoryResponse), response);
+    case 'get_wheel_compatibility_from_pip':
+      return structured(summarizeWheelCompatibility(response as WheelCompatibilityResponse), response);
+    case 'get_import_names_from_pip':
+      return structured(summarizeImportNames(response as ImportNamesResponse), response);
+    case 'get_api_surface_from_pip':
+      return structured(summarizeApiSurface(response as ApiSurfaceResponse), response);
+    default:
+      return { content: [{ type: 'text', text: JSON.stringify(response, null, 2) }] };
+  }
+}
+
+// Failed calls are results too, so the model sees why and can correct its arguments
+export function toToolError(error: unknown): CallToolResult {
+  const message = error instanceof Error ? error.message : String(error);
+  const text = error instanceof PackageReadmeMcpError ? `${error.code}: ${message}` : message;
+  return { content: [{ type: 'text', text }], isError: true };
+}
+
+function structured(summary: string, response: unknown): CallToolResult {
+  return { content: [{ type: 'text', text: summary }], structuredContent: { ...(response as Record<string, unknown>) } };
+}
+
+function summarizeReadme(readme: PackageReadmeResponse): string {
+  const resolved = readme.requested_version ? ` (resolved from ${readme.requested_version})` : '';
+  const lines = [
+    `${readme.package_name} ${readme.version}${resolved}: ${readme.description || 'no description'}`,
+    `Install: ${readme.installation.pip}`,
+  ];
+  if (readme.installation.console_scripts?.length) {
+    lines.push(`Commands: ${readme.installation.console_scripts.join(', ')}`);
+  }
+  if (readme.repository) {
+    lines.push(`Repository: ${readme.repository.url}`);
+  }
+  lines.push(`README: ${readme.readme_content.length} characters from ${readme.readme_source}, ${plural(readme.usage_examples.length, 'usage example')}`);
+  if (readme.stale) {
+    lines.push('Built from cached metadata that is being refreshed.');
+  }
+  return lines.join('\n');
+}
+
+function summarizePackageInfo(info: PackageInfoResponse): string {
+  const lines = [
+    `${info.package_name} ${info.latest_version}: ${info.description}`,
+    `Author: ${info.author}${info.license ? ` | License: ${info.license}` : ''}${info.requires_python ? ` | Python: ${info.requires_python}` : ''}`,
+  ];
+  if (info.dependencies) {
+    const names = info.dependencies.map(dependency => `${dependency.name}${dependency.specifier}`);
+    const listed = names.slice(0, MAX_LISTED_DEPENDENCIES).join(', ');
+    const more = names.length > MAX_LISTED_DEPENDENCIES ? `, and ${names.length - MAX_LISTED_DEPENDENCIES} more` : '';
+    lines.push(`Dependencies (${names.length}): ${listed || 'none'}${more}`);
+  }
+  if (info.optional_dependencies && Object.keys(info.optional_dependencies).length > 0) {
+    lines.push(`Extras: ${Object.keys(info.optional_dependencies).join(', ')}`);
+  }
+  lines.push(info.vulnerabilities.length > 0
+    ? `Vulnerabilities: ${info.vulnerabilities.map(vulnerability => vulnerability.id).join(', ')}`
+    : 'Vulnerabilities: none known');
+  if (info.repository) {
+    lines.push(`Repository: ${info.repository.url}`);
+  }
+  if (info.stale) {
+    lines.push('Built from cached metadata that is being refreshed.');
+  }
+  return lines.join('\n');
+}
+
+function summarizeSearch(search: SearchPackagesResponse): string {
+  if (search.packages.length === 0) {
+    return `No packages found for "${search.query}"`;
+  }
+  const lines = search.packages.map(result =>
+    `- ${result.name} ${result.version}${result.summary ? `: ${result.summary}` : ''}`);
+  return [`${plural(search.total, 'package')} found for "${search.query}":`, ...lines].join('\n');
+}
+
+function summarizeDependencyTree(result: DependencyTreeResponse): string {
+  const lines: string[] = [];
+  const walk = (node: DependencyTreeNode, depth: number) => {
+    const note = node.error ? ` (${node.error})` : node.cycle ? ' (cycle)' : node.duplicate ? ' (see above)' : node.truncated ? ' (truncated)' : '';
+    lines.push(`${'  '.repeat(depth)}- ${node.name}${node.specifier} ${node.version ?? 'unresolved'}${note}`);
+    node.dependencies.forEach(child => walk(child, depth + 1));
+  };
+  result.tree.dependencies.forEach(child => walk(child, 0));
+
+  const { python_version, platform } = result.environment;
+  return [
+    `${result.package_name} ${result.version}: ${plural(result.total_packages, 'package')} for Python ${python_version} on ${platform}, up to depth ${result.max_depth}`,
+    ...limitLines(lines),
+  ].join('\n');
+}
+
+function summarizeManifestReadmes(result: ManifestReadmesResponse): string {
+  const lines = result.packages.map(pkg => pkg.exists
+    ? `- ${pkg.package_name} ${pkg.version}${pkg.group === 'main' ? '' : ` (${pkg.group})`}${pkg.description ? `: ${pkg.description}` : ''}`
+    : `- ${pkg.requirement}: not found`);
+  return [
+    `${plural(result.total, 'requirement')} read from ${result.format}`,
+    ...limitLines(lines),
+    ...warningLines(result.warnings),
+  ].join('\n');
+}
+
+function summarizeOutdatedPackages(result: OutdatedPackagesResponse): string {
+  const lines = result.packages
+    .filter(pkg => pkg.outdated || pkg.yanked || pkg.error)
+    .map(pkg => {
+      if (pkg.error) {
+        return `- ${pkg.package_name} ${pkg.pinned_version}: ${pkg.error}`;
+      }
+      const update = pkg.outdated ? ` -> ${pkg.latest_version}${pkg.update_type ? ` (${pkg.update_type})` : ''}` : '';
+      return `- ${pkg.package_name} ${pkg.pinned_version}${update}${pkg.yanked ? ' [yanked]' : ''}`;
+    });
+  return [
+    `${result.outdated} of ${plural(result.total, 'pinned package')} in ${result.format} outdated, ${result.yanked} yanked`,
+    ...limitLines(lines),
+    ...warningLines(result.warnings),
+  ].join('\n');
+}
+
+function summarizeVulnerabilities(result: VulnerabilitiesResponse): string {
+  const checked = result.checked_versions.length === 1
+    ? result.checked_versions[0]
+    : `${plural(result.checked_versions.length, 'release')} matching ${result.requested_version}${result.truncated ? ', newest only' : ''}`;
+  if (result.vulnerabilities.length === 0) {
+    return `${result.package_name} ${checked}: no known vulnerabilities`;
+  }
+  const lines = result.vulnerabilities.map(vulnerability =>
+    `- ${vulnerability.id}: ${vulnerability.summary || 'no summary'} (fixed in ${vulnerability.fixed_in.join(', ') || 'no release yet'})`);
+  return [
+    `${result.package_name} ${checked}: ${plural(result.vulnerabilities.length, 'known vulnerability', 'known vulnerabilities')}`,
+    ...limitLines(lines),
+    result.nearest_fixed_version ? `Nearest fixed version: ${result.nearest_fixed_version}` : 'No release fixes every advisory yet',
+  ].join('\n');
+}
+
+function summarizeReleaseHistory(result: ReleaseHistoryResponse): string {
+  const { statistics } = result;
+  const cadence = [
+    `${statistics.releases_last_365_days} in the last year`,
+    statistics.median_days_between_releases !== null ? `a median of ${statistics.median_days_between_releases} days apart` : null,
+    statistics.days_since_latest_release !== null ? `latest ${statistics.days_since_latest_release} days ago` : null,
+  ].filter(Boolean).join(', ');
+  const lines = result.releases.map(release =>
+    `- ${release.version}${release.upload_time ? ` (${release.upload_time.slice(0, 10)})` : ''}${release.prerelease ? ' [pre-release]' : ''}${release.yanked ? ' [yanked]' : ''}`);
+  return [
+    `${result.package_name}: ${plural(result.total_releases, 'release')}, latest ${result.latest_version}`,
+    `Releases: ${cadence}`,
+    `Listed ${result.releases.length} of ${result.matching_releases} matching:`,
+    ...limitLines(lines),
+  ].join('\n');
+}
+
+function summarizeWheelCompatibility(result: WheelCompatibilityResponse): string {
+  const kind = result.pure_python ? 'pure Python wheel' : plural(result.wheels.length, 'wheel');
+  const lines = [
+    `${result.package_name} ${result.version}: ${kind}${result.has_sdist ? ' and an sdist' : ', no sdist'}, checked for Python ${result.python_versions.join(', ')}`,
+  ];
+  if (result.query) {
+    lines.push(`Requested target ${describeTarget(result.query)}: ${result.query.status}${result.query.wheels.length > 0 ? ` (${result.query.wheels.join(', ')})` : ''}`);
+  }
+  const unsupported = result.matrix.filter(cell => cell.status === 'unsupported');
+  if (result.sdist_only.length > 0) {
+    lines.push(`Builds from the sdist on: ${result.sdist_only.map(describeTarget).join(', ')}`);
+  }
+  if (unsupported.length > 0) {
+    lines.push(`Not installable on: ${unsupported.map(describeTarget).join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+function summarizeImportNames(result: ImportNamesResponse): string {
+  if (result.providers) {
+    if (result.providers.length === 0) {
+      return `No distribution found that provides ${result.import_name}`;
+    }
+    return [
+      `${result.import_name} is provided by:`,
+      ...result.providers.map(provider => `- ${provider.package_name} ${provider.version}${provider.verified ? '' : ' (unverified)'}`),
+    ].join('\n');
+  }
+  const names = result.import_names ?? [];
+  return `${result.package_name} ${result.version} installs ${names.length > 0 ? names.join(', ') : 'no importable modules'}`;
+}
+
+function summarizeApiSurface(result: ApiSurfaceResponse): string {
+  const typing = result.typed ? 'typed' : result.has_stubs ? 'with stubs' : 'untyped';
+  const lines = result.modules.map(module => {
+    const counts = [plural(module.classes.length, 'class', 'classes'), plural(module.functions.length, 'function')];
+    if (module.reexports.length > 0) {
+      counts.push(plural(module.reexports.length, 're-export'));
+    }
+    return `- ${module.name}: ${counts.join(', ')}`;
+  });
+  return [
+    `${result.package_name} ${result.version} (${typing}, from ${result.wheel}): ${result.modules.length} of ${plural(result.total_modules, 'public module')}`,
+    ...limitLines(lines),
+  ].join('\n');
+}
+
+function describeTarget(cell: WheelCompatibilityCell): string {
+  return `Python ${cell.python_version} ${cell.platform}/${cell.architecture}${cell.libc ? `/${cell.libc}` : ''}`;
+}
+
+function limitLines(lines: string[]): string[] {
+  return lines.length > MAX_LISTED_ITEMS
+    ? [...lines.slice(0, MAX_LISTED_ITEMS), `... and ${lines.length - MAX_LISTED_ITEMS} more`]
+    : lines;
+}
+
+function warningLines(warnings: string[]): string[] {
+  return warnings.length > 0 ? [`Skipped ${plural(warnings.length, 'entry', 'entries')}: ${warnings.join('; ')}`] : [];
+}
+
+function readmeResource(readme: PackageReadmeResponse): CallToolResult['content'][number] {
+  return {
+    type: 'resource',
+    resource: {
+      uri: `pip://${readme.package_name}@${encodeURIComponent(readme.version)}/readme`,
+      mimeType: 'text/markdown',
+      text: readme.readme_content || readme.description,
+    },
+  };
+}
+
+function plural(count: number, noun: string, plural = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : plural}`;
+}
@@ -0,0 +1,275 @@
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { logger } from '../utils/logger.js';
+import { TRANSPORT_CONFIG } from '../config/constants.js';
+import { TransportConfig } from '../types/index.js';
+
+// What an HTTP session needs from the MCP server serving it
+export interface McpSessionServer {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface HttpServerHandle {
+  url: string;
+  port: number;
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpSessionServer;
+  lastActivity: number;
+}
+
+const ALLOWED_HEADERS = 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID';
+const EXPOSED_HEADERS = 'Mcp-Session-Id, Mcp-Protocol-Version, WWW-Authenticate';
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp, and over the deprecated HTTP+SSE transport
+ * at /sse and /messages for older clients. Every session gets its own MCP server from
+ * `createSessionServer`; the PyPI client and cache are shared, so sessions stay cheap.
+ * Sessions without requests for `config.sessionTimeout` are closed, so clients that
+ * disappear without ending their session do not use up MAX_SESSIONS.
+ */
+export async function startHttpServer(
+  config: TransportConfig,
+  createSessionServer: () => McpSessionServer
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  const sweeper = config.sessionTimeout > 0
+    ? setInterval(closeIdleSessions, Math.min(config.sessionTimeout, TRANSPORT_CONFIG.SESSION_SWEEP_INTERVAL)).unref()
+    : null;
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      logger.error(`Failed to handle ${req.method} ${req.url}`, { error });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    // Browsers send an Origin; requests from pages that are not allowed never reach a session
+    if (!applyCors(req, res, config.corsOrigins)) {
+      sendJsonRpcError(res, 403, -32000, 'Forbidden: origin not allowed');
+      return;
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    if (pathname === TRANSPORT_CONFIG.HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+      return;
+    }
+    if (!isAuthorized(req, config.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="pip-package-readme-mcp"');
+      sendJsonRpcError(res, 401, -32000, 'Unauthorized: a valid bearer token is required');
+      return;
+    }
+
+    switch (pathname) {
+      case TRANSPORT_CONFIG.MCP_PATH:
+        return handleStreamableHttp(req, res);
+      case TRANSPORT_CONFIG.SSE_PATH:
+        return req.method === 'GET' ? openSseSession(res) : sendMethodNotAllowed(res, 'GET');
+      case TRANSPORT_CONFIG.SSE_MESSAGES_PATH:
+        return req.method === 'POST' ? handleSseMessage(req, res) : sendMethodNotAllowed(res, 'POST');
+      default:
+        sendJsonRpcError(res, 404, -32000, `Not found: ${pathname}`);
+    }
+  }
+
+  async function handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      const { transport } = session;
+      await serveSession(session, () => transport.handleRequest(req, res));
+      return;
+    }
+
+    // Only an initialize request opens a session; the transport rejects anything else
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+      return;
+    }
+    if (sessions.size >= TRANSPORT_CONFIG.MAX_SESSIONS) {
+      sendJsonRpcError(res, 503, -32000, 'Too many open sessions');
+      return;
+    }
+
+    const server = createSessionServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { transport, server, lastActivity: Date.now() });
+        logger.info(`Opened Streamable HTTP session ${id}`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info(`Closed Streamable HTTP session ${transport.sessionId}`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+    if (!transport.sessionId) {
+      await server.close();
+    }
+  }
+
+  async function openSseSession(res: ServerResponse): Promise<void> {
+    if (sessions.size >= TRANSPORT_CONFIG.MAX_SESSIONS) {
+      sendJsonRpcError(res, 503, -32000, 'Too many open sessions');
+      return;
+    }
+
+    const transport = new SSEServerTransport(TRANSPORT_CONFIG.SSE_MESSAGES_PATH, res);
+    const server = createSessionServer();
+    sessions.set(transport.sessionId, { transport, server, lastActivity: Date.now() });
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+      logger.info(`Closed SSE session ${transport.sessionId}`);
+    };
+
+    logger.info(`Opened SSE session ${transport.sessionId}`);
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = new URL(req.url ?? '/', 'http://localhost').searchParams.get('sessionId');
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    const { transport } = session;
+    await serveSession(session, () => transport.handlePostMessage(req, res));
+  }
+
+  // A request counts as activity from its start until its response is sent
+  async function serveSession(session: Session, handle: () => Promise<void>): Promise<void> {
+    session.lastActivity = Date.now();
+    try {
+      await handle();
+    } finally {
+      session.lastActivity = Date.now();
+    }
+  }
+
+  function closeIdleSessions(): void {
+    const idleSince = Date.now() - config.sessionTimeout;
+    for (const [id, session] of sessions) {
+      if (session.lastActivity <= idleSince) {
+        sessions.delete(id);
+        logger.info(`Closing session ${id} after ${config.sessionTimeout / 1000}s without requests`);
+        session.server.close().catch(error => {
+          logger.warn(`Failed to close idle session ${id}`, { error });
+        });
+      }
+    }
+  }
+
+  await listen(httpServer, config);
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : config.port;
+  const url = `http://${config.host.includes(':') ? `[${config.host}]` : config.host}:${port}`;
+
+  if (!config.authToken && !LOOPBACK_HOSTS.has(config.host)) {
+    logger.warn(`Serving MCP on ${url} without authentication; set MCP_AUTH_TOKEN to require a bearer token`);
+  }
+  logger.info(`Serving MCP over Streamable HTTP at ${url}${TRANSPORT_CONFIG.MCP_PATH} and SSE at ${url}${TRANSPORT_CONFIG.SSE_PATH}`);
+
+  return {
+    url,
+    port,
+    close: async () => {
+      if (sweeper) {
+        clearInterval(sweeper);
+      }
+      const open = Array.from(sessions.values());
+      sessions.clear();
+      await Promise.all(open.map(session => session.server.close().catch(error => {
+        logger.warn('Failed to close an MCP session', { error });
+      })));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close(error => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+function listen(httpServer: NodeHttpServer, config: TransportConfig): Promise<void> {
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+}
+
+// Returns false for a browser origin that is not allowed
+function applyCors(req: IncomingMessage, res: ServerResponse, allowedOrigins: string[]): boolean {
+  const origin = req.headers.origin;
+  if (!origin) {
+    return true;
+  }
+  const allowAny = allowedOrigins.includes('*');
+  if (!allowAny && !allowedOrigins.includes(origin)) {
+    return false;
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', allowAny ? '*' : origin);
+  if (!allowAny) {
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS);
+  res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS);
+  return true;
+}
+
+// Compares digests, so neither the token nor its length leaks through timing
+function isAuthorized(req: IncomingMessage, token: string | undefined): boolean {
+  if (!token) {
+    return true;
+  }
+  const match = (req.headers.authorization ?? '').match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+function sendMethodNotAllowed(res: ServerResponse, allowed: string): void {
+  res.setHeader('Allow', allowed);
+  sendJsonRpcError(res, 405, -32000, 'Method not allowed');
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
@@ -3,12 +3,15 @@ export interface UsageExample {
   description?: string | undefined;
   code: string;
   language: string; // 'python', 'bash', 'yaml', etc.
+  expected_output?: string | undefined; // Output printed by a doctest/REPL session
 }
 
 export interface InstallationInfo {
   pip: string;      // "pip install package-name"
   conda?: string;   // "conda install package-name"
-  pipx?: string;    // "pipx install package-name"
+  pipx?: string;    // "pipx install package-name", only when the package ships commands
+  console_scripts?: string[] | undefined;  // Commands the package installs; absent when its wheel could not be read
+  gui_scripts?: string[] | undefined;
 }
 
 export interface AuthorInfo {
@@ -37,6 +40,38 @@ export interface PackageBasicInfo {
   keywords: string[];
   classifiers: string[];
   requires_python?: string | undefined;
+  import_names?: string[] | undefined;   // Top-level modules the wheel installs, e.g. ["bs4"]
+}
+
+// PEP 508 environment markers, e.g. `python_version < "3.8" and extra == "test"`
+export type MarkerOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | '~=' | '===' | 'in' | 'not in';
+
+export type MarkerNode =
+  | {
+      type: 'comparison';
+      variable: string;      // Marker variable, e.g. "python_version"
+      operator: MarkerOperator;
+      value: string;
+      reversed?: boolean;    // The literal is on the left, e.g. `"linux" in sys_platform`
+    }
+  | { type: 'and' | 'or'; markers: MarkerNode[] };
+
+// A parsed PEP 508 requirement from Requires-Dist
+export interface PackageDependency {
+  name: string;
+  extras: string[];
+  specifier: string;                // e.g. ">=2.0,<3"; empty when any version is accepted
+  url?: string | undefined;         // Direct reference, e.g. "pkg @ https://..."
+  marker?: MarkerNode | undefined;
+  requirement: string;              // Requirement as written in the metadata
+}
+
+export interface Vulnerability {
+  id: string;              // e.g. "PYSEC-2023-74" or "GHSA-j8r2-6x86-q33q"
+  aliases: string[];       // Other identifiers, e.g. CVE numbers
+  summary: string;
+  fixed_in: string[];      // Releases that fix the advisory
+  link: string;
 }
 
 export interface DownloadStats {
@@ -58,7 +93,6 @@ export interface PackageSearchResult {
     final: number;
     detail: {
       quality: number;
-      popularity: number;
       maintenance: number;
     };
   };
@@ -68,34 +102,108 @@ export interface PackageSearchResult {
 // Tool Parameters
 export interface GetPackageReadmeParams {
   package_name: string;    // Package name (required)
-  version?: string;        // Version specification (optional, default: "latest")
+  version?: string;        // Version or PEP 440 specifier set (optional, default: "latest")
   include_examples?: boolean; // Whether to include examples (optional, default: true)
 }
 
 export interface GetPackageInfoParams {
   package_name: string;
   include_dependencies?: boolean; // Whether to include dependencies (default: true)
-  include_dev_dependencies?: boolean; // Whether to include dev dependencies (default: false)
+  include_optional_dependencies?: boolean; // Whether to include dependencies of extras (default: false)
+  include_dev_dependencies?: boolean; // Deprecated alias of include_optional_dependencies
+}
+
+export type TargetPlatform = 'linux' | 'darwin' | 'win32';
+
+export interface GetDependencyTreeParams {
+  package_name: string;
+  version?: string;          // Version or PEP 440 specifier set of the root package (default: "latest")
+  max_depth?: number;        // Levels of dependencies to resolve below the root (default: 3)
+  python_version?: string;   // Target Python for environment markers (default: "3.12")
+  platform?: TargetPlatform; // Target platform for environment markers (default: "linux")
+  extras?: string[];         // Extras of the root package to include
+}
+
+export type ManifestFormat = 'requirements' | 'pyproject' | 'setup.cfg' | 'pipfile';
+
+export interface GetManifestReadmesParams {
+  content: string;                          // Text of the manifest
+  filename?: string;                        // Used to detect the format, e.g. "pyproject.toml"
+  format?: ManifestFormat;                  // Overrides detection
+  included_files?: Record<string, string>;  // Contents of files referenced with -r or "file:", keyed by path
+  include_optional_dependencies?: boolean;  // Whether to include extras and dev groups (default: false)
+}
+
+export type LockfileFormat = 'poetry.lock' | 'uv.lock' | 'pipfile.lock' | 'pip-freeze';
+
+export interface GetOutdatedPackagesParams {
+  content: string;            // Text of the lockfile or `pip freeze` output
+  filename?: string;          // Used to detect the format, e.g. "poetry.lock"
+  format?: LockfileFormat;    // Overrides detection
+  only_outdated?: boolean;    // Leave out pins that are current and not yanked (default: false)
+}
+
+export interface GetVulnerabilitiesParams {
+  package_name: string;
+  version?: string;  // Version or PEP 440 specifier set of the releases to check (default: "latest")
+}
+
+export interface GetReleaseHistoryParams {
+  package_name: string;
+  since?: string;              // ISO 8601 date; leave out releases first uploaded before it
+  stable_only?: boolean;       // Leave out pre-releases and development releases (default: false)
+  include_yanked?: boolean;    // Whether to list yanked releases (default: true)
+  limit?: number;              // Only the newest N releases that match the other filters
+  include_files?: boolean;     // Whether to list the files of each release (default: true)
+}
+
+export type Libc = 'glibc' | 'musl';
+
+export interface GetWheelCompatibilityParams {
+  package_name: string;
+  version?: string;             // Version or PEP 440 specifier set (default: "latest")
+  python_versions?: string[];   // Rows of the matrix, e.g. ["3.11", "3.12"]
+  // Optional question about one target, e.g. "cp312" on linux aarch64
+  python_version?: string;      // "3.12" or "cp312"
+  platform?: TargetPlatform;
+  architecture?: string;        // e.g. "x86_64", "aarch64" (default: "x86_64")
+  libc?: Libc;                  // Linux only (default: "glibc")
+}
+
+export interface GetImportNamesParams {
+  package_name?: string;   // Distribution whose modules to list
+  version?: string;        // Version or PEP 440 specifier set of package_name (default: "latest")
+  import_name?: string;    // Module to find the distribution of, e.g. "yaml"
+}
+
+export interface GetApiSurfaceParams {
+  package_name: string;
+  version?: string;        // Version or PEP 440 specifier set (default: "latest")
+  module?: string;         // Only list this module and its submodules, e.g. "requests.adapters"
 }
 
 export interface SearchPackagesParams {
   query: string;          // Search query
   limit?: number;         // Maximum number of results (default: 20)
-  quality?: number;       // Minimum quality score (0-1)
-  popularity?: number;    // Minimum popularity score (0-1)
 }
 
 // Tool Responses
+export type ReadmeSource = 'pypi' | 'github' | 'summary' | 'none';
+
 export interface PackageReadmeResponse {
   package_name: string;
   version: string;
+  requested_version?: string | undefined;  // Specifier that version was resolved from, e.g. "~=2.28"
   description: string;
   readme_content: string;
+  readme_source: ReadmeSource;  // Where readme_content came from
   usage_examples: UsageExample[];
   installation: InstallationInfo;
   basic_info: PackageBasicInfo;
   repository?: RepositoryInfo | undefined;
   exists: boolean;
+  index?: string | undefined;   // Package index that served the metadata
+  stale?: boolean | undefined;  // Built from an expired PyPI document while it is refreshed
 }
 
 export interface PackageInfoResponse {
@@ -108,10 +216,263 @@ export interface PackageInfoResponse {
   keywords: string[];
   classifiers: string[];
   requires_python?: string | undefined;
-  dependencies?: string[] | undefined;
-  dev_dependencies?: string[] | undefined;
+  dependencies?: PackageDependency[] | undefined;
+  optional_dependencies?: Record<string, PackageDependency[]> | undefined;  // Keyed by extra name
+  vulnerabilities: Vulnerability[];  // Known advisories affecting latest_version
   download_stats: DownloadStats;
   repository?: RepositoryInfo | undefined;
+  index: string;                // Package index that served the metadata
+  stale?: boolean | undefined;  // Built from an expired PyPI document while it is refreshed
+}
+
+export interface DependencyTreeNode {
+  name: string;
+  version: string | null;        // Resolved version; null when resolution failed
+  specifier: string;             // Specifier the parent asked for; empty for the root
+  extras: string[];
+  requirement?: string | undefined;  // Requirement as written in the parent's metadata
+  dependencies: DependencyTreeNode[];
+  duplicate?: boolean | undefined;   // Expanded elsewhere in the tree
+  cycle?: boolean | undefined;       // Already an ancestor of this node
+  truncated?: boolean | undefined;   // Has dependencies below max_depth
+  index?: string | undefined;        // Package index that served the metadata
+  error?: string | undefined;
+}
+
+export interface DependencyTreeResponse {
+  package_name: string;
+  version: string;
+  environment: {
+    python_version: string;
+    platform: TargetPlatform;
+  };
+  max_depth: number;
+  total_packages: number;  // Distinct packages in the tree, including the root
+  tree: DependencyTreeNode;
+}
+
+// A requirement read from a project manifest
+export interface ManifestRequirement extends PackageDependency {
+  group: string;   // "main", or the extra / dependency group that lists it
+}
+
+export interface ManifestPackageSummary {
+  package_name: string;
+  requested_version: string;   // Specifier from the manifest, or "latest"
+  group: string;
+  requirement: string;         // Requirement as written in the manifest
+  version: string;             // Resolved version
+  description: string;
+  installation: InstallationInfo;
+  readme_source: ReadmeSource;
+  exists: boolean;
+  index?: string | undefined;  // Package index that served the metadata
+}
+
+export interface ManifestReadmesResponse {
+  format: ManifestFormat;
+  total: number;
+  packages: ManifestPackageSummary[];
+  warnings: string[];          // Lines and entries that were skipped
+}
+
+// A package pinned to an exact version by a lockfile
+export interface LockedPackage {
+  name: string;
+  version: string;
+  group: string;   // "main", or the dev group / category that installs it
+}
+
+export type VersionUpdateType = 'major' | 'minor' | 'patch';
+
+export interface OutdatedPackage {
+  package_name: string;
+  group: string;
+  pinned_version: string;
+  latest_version: string | null;           // null when the lookup failed
+  outdated: boolean;
+  update_type: VersionUpdateType | null;   // Size of the gap to latest_version, by PEP 440 release components
+  yanked: boolean;                         // The pinned release is yanked
+  yanked_reason?: string | undefined;
+  index?: string | undefined;              // Package index that served the metadata
+  error?: string | undefined;
+}
+
+export interface OutdatedPackagesResponse {
+  format: LockfileFormat;
+  total: number;       // Pinned packages checked
+  outdated: number;
+  yanked: number;
+  packages: OutdatedPackage[];
+  warnings: string[];  // Entries that were skipped
+}
+
+export interface AffectedVulnerability extends Vulnerability {
+  affected_versions: string[];           // Checked releases the advisory applies to
+  nearest_fixed_version: string | null;  // Lowest fix newer than the newest affected release
+}
+
+export interface VulnerabilitiesResponse {
+  package_name: string;
+  requested_version: string;
+  checked_versions: string[];             // Releases checked, newest first
+  affected_versions: string[];            // Checked releases with at least one advisory
+  vulnerabilities: AffectedVulnerability[];
+  nearest_fixed_version: string | null;   // Lowest release fixing every advisory of the newest checked release
+  truncated: boolean;                     // More releases matched than were checked
+  index: string;                          // Package index that served the metadata
+}
+
+export interface ReleaseFile {
+  filename: string;
+  packagetype: string;                     // "bdist_wheel", "sdist", ...
+  python_version: string;                  // Python tag of a wheel, "source" for sdists
+  requires_python?: string | undefined;
+  size: number;                            // Bytes
+  upload_time: string;                     // ISO 8601
+  sha256: string;
+  yanked: boolean;
+}
+
+export interface ReleaseHistoryEntry {
+  version: string;
+  upload_time: string | null;              // First upload of any of its files; null when it has none
+  yanked: boolean;                         // Every file of the release is yanked
+  yanked_reason?: string | undefined;
+  prerelease: boolean;                     // Pre-release or development release
+  requires_python?: string | undefined;
+  files?: ReleaseFile[] | undefined;
+}
+
+export interface ReleaseCadence {
+  first_release: string | null;            // Upload time of the oldest listed release
+  latest_release: string | null;           // Upload time of the newest listed release
+  mean_days_between_releases: number | null;
+  median_days_between_releases: number | null;
+  releases_last_365_days: number;
+  days_since_latest_release: number | null;
+}
+
+export interface ReleaseHistoryResponse {
+  package_name: string;
+  latest_version: string;
+  total_releases: number;                  // Every release of the package
+  matching_releases: number;               // Releases matching the filters, before limit
+  releases: ReleaseHistoryEntry[];         // Newest first, in PEP 440 order
+  statistics: ReleaseCadence;              // Computed over the listed releases
+  index: string;                           // Package index that served the metadata
+}
+
+// Platform a wheel platform tag such as "manylinux_2_17_aarch64" targets
+export interface PlatformTagInfo {
+  tag: string;
+  platform: TargetPlatform | 'any' | 'other';
+  architectures: string[];               // Canonical names (x86_64, aarch64, i686, ...), empty for "any"
+  libc?: Libc | undefined;               // Linux only
+  min_os_version?: string | undefined;   // glibc or musl version on Linux, macOS version on darwin
+}
+
+export interface WheelFileTags {
+  filename: string;
+  python_tags: string[];
+  abi_tags: string[];
+  platform_tags: string[];
+  platforms: PlatformTagInfo[];
+  requires_python?: string | undefined;
+  yanked: boolean;
+}
+
+export type WheelSupportStatus = 'binary_wheel' | 'pure_wheel' | 'sdist_only' | 'unsupported';
+
+export interface WheelCompatibilityCell {
+  python_version: string;
+  platform: TargetPlatform;
+  architecture: string;
+  libc?: Libc | undefined;
+  status: WheelSupportStatus;
+  wheels: string[];                        // Filenames of the wheels that install on the target
+  min_os_version?: string | undefined;     // Oldest glibc, musl or macOS version a matching binary wheel supports
+}
+
+export interface WheelCompatibilityResponse {
+  package_name: string;
+  version: string;
+  requested_version?: string | undefined;  // Specifier that version was resolved from
+  has_sdist: boolean;
+  pure_python: boolean;                    // Ships a wheel for every platform
+  wheels: WheelFileTags[];
+  python_versions: string[];
+  matrix: WheelCompatibilityCell[];        // Python version x platform x architecture
+  sdist_only: WheelCompatibilityCell[];    // Targets that must build from the sdist
+  query?: WheelCompatibilityCell | undefined;
+  index: string;                           // Package index that served the metadata
+}
+
+export interface ImportNameProvider {
+  package_name: string;
+  version: string;
+  import_names: string[];
+  verified: boolean;   // The wheel was read and installs the module
+}
+
+export interface ImportNamesResponse {
+  package_name?: string | undefined;
+  version?: string | undefined;
+  import_names?: string[] | undefined;
+  import_name?: string | undefined;
+  providers?: ImportNameProvider[] | undefined;  // Distributions that provide import_name, verified ones first
+  index?: string | undefined;                    // Package index that served package_name
+}
+
+export interface ApiFunction {
+  name: string;
+  signature: string;                 // Parameters and return annotation, e.g. "(url: str, **kwargs) -> Response"
+  async?: boolean | undefined;
+  decorators?: string[] | undefined;
+  docstring?: string | undefined;    // First line
+  overloads?: string[] | undefined;  // Signatures of @overload variants
+}
+
+export interface ApiClass {
+  name: string;
+  bases: string[];
+  decorators?: string[] | undefined;
+  docstring?: string | undefined;
+  methods: ApiFunction[];            // Public and dunder methods
+}
+
+// A public name a module imports from elsewhere in the package, e.g. requests.get
+export interface ApiReexport {
+  name: string;
+  from: string;                      // Module the name is defined in
+  kind: 'class' | 'function' | 'module' | 'unknown';
+  signature?: string | undefined;
+  docstring?: string | undefined;
+}
+
+export interface ApiModule {
+  name: string;                      // Dotted module name
+  path: string;                      // File in the wheel
+  stub: boolean;                     // Read from a .pyi file
+  docstring?: string | undefined;
+  all?: string[] | undefined;        // __all__, when the module defines it
+  classes: ApiClass[];
+  functions: ApiFunction[];
+  variables: string[];
+  reexports: ApiReexport[];
+}
+
+export interface ApiSurfaceResponse {
+  package_name: string;
+  version: string;
+  requested_version?: string | undefined;
+  wheel: string;                     // Filename of the wheel that was read
+  typed: boolean;                    // Ships py.typed, or is a stub-only package
+  has_stubs: boolean;                // Ships .pyi files
+  modules: ApiModule[];
+  total_modules: number;
+  truncated: boolean;                // More than API_SURFACE_CONFIG.MAX_MODULES public modules
+  index?: string | undefined;
 }
 
 export interface SearchPackagesResponse {
@@ -127,9 +488,31 @@ export interface CacheEntry<T> {
   ttl: number;
 }
 
+// A package index serving the PyPI JSON and Simple APIs, e.g. a devpi or Artifactory mirror
+export interface PackageIndexConfig {
+  name: string;       // Reported as `index` in responses
+  jsonUrl: string;    // Base of the JSON API, e.g. https://pypi.org/pypi
+  simpleUrl: string;  // Base of the Simple API, e.g. https://pypi.org/simple
+  username?: string | undefined;  // Basic auth, together with password
+  password?: string | undefined;
+  token?: string | undefined;     // Bearer token, used instead of basic auth
+}
+
+// How clients reach the server: stdio for a local client, HTTP for a shared deployment
+export interface TransportConfig {
+  mode: 'stdio' | 'http';
+  host: string;
+  port: number;
+  corsOrigins: string[];            // Browser origins allowed to call the HTTP endpoints, '*' for any
+  authToken?: string | undefined;   // Required as `Authorization: Bearer <token>` when set
+  sessionTimeout: number;           // Milliseconds without requests before a session is closed, 0 to never close
+}
+
 export interface CacheOptions {
   ttl?: number;
   maxSize?: number;
+  directory?: string | undefined;  // Enables the on-disk tier in this directory
+  diskMaxSize?: number;
 }
 
 // PyPI API Types
@@ -169,7 +552,19 @@ export interface PyPIPackageInfo {
   last_serial: number;
   releases: Record<string, PyPIReleaseInfo[]>;
   urls: PyPIReleaseInfo[];
-  vulnerabilities: any[];
+  vulnerabilities?: PyPIVulnerability[];
+}
+
+// OSV advisory as listed in the JSON API's `vulnerabilities` field
+export interface PyPIVulnerability {
+  id: string;
+  aliases: string[];
+  details?: string | undefined;
+  summary?: string | null | undefined;
+  fixed_in: string[];
+  link: string;
+  source?: string | undefined;
+  withdrawn?: string | null | undefined;
 }
 
 export interface PyPIReleaseInfo {
@@ -219,24 +614,112 @@ export interface PyPISearchResponse {
     requires_python?: string;
     yanked: boolean;
     yanked_reason?: string;
+    classifiers?: string[];
+    upload_time?: string;
+    match?: PackageNameMatch;
   }[];
 }
 
-// Simple API for package search from PyPI simple API
-export interface PyPISimpleResponse {
-  files: {
-    filename: string;
-    url: string;
-    hashes?: Record<string, string>;
-    requires_python?: string;
-    yanked?: boolean;
-    yanked_reason?: string;
+// PEP 691 JSON listing of every project served at the Simple API root
+export interface PyPISimpleIndexResponse {
+  meta: {
+    'api-version': string;
+    '_last-serial'?: number;
+  };
+  projects: {
+    name: string;
+    '_last-serial'?: number;
   }[];
+}
+
+// Local package name index types
+export type PackageNameMatchType = 'exact' | 'prefix' | 'substring' | 'fuzzy';
+
+export interface PackageNameMatch {
+  name: string;
+  normalized_name: string;
+  match_type: PackageNameMatchType;
+  distance: number;
+  score: number;   // Relevance between 0 and 1
+}
+
+// PEP 691 JSON Simple API project page, with the PEP 700 additions
+export interface PyPISimpleFile {
+  filename: string;
+  url: string;                                    // Absolute; relative URLs are resolved against the page
+  hashes: Record<string, string>;                 // Algorithm -> hex digest
+  'requires-python'?: string | undefined;
+  yanked?: boolean | string | undefined;          // A string is the reason
+  'upload-time'?: string | undefined;             // ISO 8601
+  size?: number | undefined;                      // Bytes
+  'core-metadata'?: boolean | Record<string, string> | undefined;      // PEP 658 / PEP 714: hashes of the .metadata file
+  'dist-info-metadata'?: boolean | Record<string, string> | undefined; // Name of core-metadata before PEP 714
+}
+
+export interface PyPISimpleResponse {
   meta: {
-    api_version: string;
+    'api-version': string;
+    '_last-serial'?: number | undefined;
   };
   name: string;
-  versions?: string[];
+  versions?: string[] | undefined;  // PEP 700
+  files: PyPISimpleFile[];
+}
+
+// Fields of a core metadata file (METADATA / PKG-INFO)
+export interface CoreMetadata {
+  metadata_version: string;
+  name: string;
+  version: string;
+  summary?: string | undefined;
+  description?: string | undefined;
+  description_content_type?: string | undefined;
+  keywords?: string | undefined;
+  home_page?: string | undefined;
+  download_url?: string | undefined;
+  author?: string | undefined;
+  author_email?: string | undefined;
+  maintainer?: string | undefined;
+  maintainer_email?: string | undefined;
+  license?: string | undefined;
+  license_expression?: string | undefined;
+  requires_python?: string | undefined;
+  requires_dist: string[];
+  provides_extra: string[];
+  classifiers: string[];
+  platforms: string[];
+  dynamic: string[];
+  project_urls: Record<string, string>;  // Label -> URL
+}
+
+export interface EntryPoint {
+  name: string;
+  value: string;   // "module:attribute [extras]"
+}
+
+// Entry points declared in a wheel's entry_points.txt
+export interface EntryPoints {
+  console_scripts: EntryPoint[];
+  gui_scripts: EntryPoint[];
+  groups: Record<string, EntryPoint[]>;  // Every group, including the two above
+}
+
+// Files of a wheel's .dist-info directory
+export interface WheelMetadata {
+  entry_points: EntryPoints;
+  import_names: string[];   // Importable top-level modules and packages
+}
+
+export interface WheelFile {
+  path: string;
+  content: string;
+}
+
+// Files read from a wheel, with the list of every file it contains
+export interface WheelContents {
+  filename: string;
+  paths: string[];
+  files: WheelFile[];
 }
 
 // GitHub API Types (same as npm version for fallback README)
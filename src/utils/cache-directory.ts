@@ -0,0 +1,43 @@
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { SEARCH_INDEX_CONFIG } from '../config/constants.js';
+import { PackageReadmeMcpError } from '../types/index.js';
+
+/**
+ * Directory for the disk cache and search index: `CACHE_DIR` when set, otherwise a
+ * per-user directory below `XDG_CACHE_HOME`, `%LOCALAPPDATA%` on Windows, or `~/.cache`.
+ */
+export function getCacheDirectory(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.CACHE_DIR) {
+    return env.CACHE_DIR;
+  }
+  const base = env.XDG_CACHE_HOME
+    || (process.platform === 'win32' ? env.LOCALAPPDATA : undefined)
+    || join(homedir(), '.cache');
+  return join(base, SEARCH_INDEX_CONFIG.DIRECTORY_NAME);
+}
+
+/**
+ * Creates a directory only the current user can access. A directory another user owns
+ * is refused, as they could read private index documents from it or plant entries to
+ * be served; one that is open to others is closed.
+ */
+export async function ensurePrivateDirectory(path: string): Promise<void> {
+  await fs.mkdir(path, { recursive: true, mode: 0o700 });
+  const stats = await fs.lstat(path);
+  if (!stats.isDirectory()) {
+    throw new PackageReadmeMcpError(`Cache directory ${path} is not a directory`, 'INVALID_CONFIGURATION');
+  }
+
+  // Windows has no POSIX owners or modes
+  if (typeof process.getuid !== 'function') {
+    return;
+  }
+  if (stats.uid !== process.getuid()) {
+    throw new PackageReadmeMcpError(`Cache directory ${path} is owned by another user`, 'INVALID_CONFIGURATION');
+  }
+  if ((stats.mode & 0o077) !== 0) {
+    await fs.chmod(path, 0o700);
+  }
+}
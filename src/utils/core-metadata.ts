@@ -0,0 +1,114 @@
+/**
+ * Parsing of core metadata files (METADATA / PKG-INFO), as served by PEP 658
+ * https://packaging.python.org/en/latest/specifications/core-metadata/
+ */
+
+import { CoreMetadata } from '../types/index.js';
+
+// Fields that may appear more than once, keyed by lower-cased field name
+const MULTIPLE_USE_FIELDS: Record<string, keyof CoreMetadata> = {
+  'classifier': 'classifiers',
+  'requires-dist': 'requires_dist',
+  'provides-extra': 'provides_extra',
+  'platform': 'platforms',
+  'dynamic': 'dynamic',
+};
+
+const SINGLE_USE_FIELDS: Record<string, keyof CoreMetadata> = {
+  'metadata-version': 'metadata_version',
+  'name': 'name',
+  'version': 'version',
+  'summary': 'summary',
+  'description-content-type': 'description_content_type',
+  'keywords': 'keywords',
+  'home-page': 'home_page',
+  'download-url': 'download_url',
+  'author': 'author',
+  'author-email': 'author_email',
+  'maintainer': 'maintainer',
+  'maintainer-email': 'maintainer_email',
+  'license': 'license',
+  'license-expression': 'license_expression',
+  'requires-python': 'requires_python',
+};
+
+/**
+ * Reads the email-header format of core metadata. Folded header lines are joined,
+ * and the description is taken from the message body (metadata 2.1+) or from the
+ * legacy Description header, whose continuation lines carry an 8-space or "|" prefix.
+ */
+export function parseCoreMetadata(content: string): CoreMetadata {
+  const metadata: CoreMetadata = {
+    metadata_version: '',
+    name: '',
+    version: '',
+    requires_dist: [],
+    provides_extra: [],
+    classifiers: [],
+    platforms: [],
+    dynamic: [],
+    project_urls: {},
+  };
+
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  let bodyStart = lines.length;
+  const headers: [string, string][] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (line === '') {
+      bodyStart = index + 1;
+      break;
+    }
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1][1] += `\n${line}`;
+      continue;
+    }
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.push([line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim()]);
+    }
+  }
+
+  for (const [field, rawValue] of headers) {
+    if (field === 'description') {
+      metadata.description = unfoldDescription(rawValue);
+      continue;
+    }
+
+    const value = rawValue.replace(/\n[ \t]+/g, ' ').trim();
+    if (field === 'project-url') {
+      // "Label, https://..."
+      const comma = value.indexOf(',');
+      if (comma > 0) {
+        metadata.project_urls[value.slice(0, comma).trim()] = value.slice(comma + 1).trim();
+      }
+      continue;
+    }
+
+    const multiple = MULTIPLE_USE_FIELDS[field];
+    if (multiple) {
+      (metadata[multiple] as string[]).push(value);
+      continue;
+    }
+    const single = SINGLE_USE_FIELDS[field];
+    if (single) {
+      (metadata as unknown as Record<string, string>)[single] = value;
+    }
+  }
+
+  const body = lines.slice(bodyStart).join('\n').trim();
+  if (body) {
+    metadata.description = body;
+  }
+
+  return metadata;
+}
+
+function unfoldDescription(value: string): string {
+  return value
+    .split('\n')
+    .map((line, index) => index === 0 ? line : line.replace(/^(?: {8}|\t| {7}\|)/, ''))
+    .join('\n')
+    .trim();
+}
@@ -0,0 +1,89 @@
+/**
+ * Parsing of distribution filenames: wheels (PEP 427 / PEP 491) and sdists (PEP 625)
+ * https://packaging.python.org/en/latest/specifications/binary-distribution-format/
+ */
+
+import { normalizePackageName } from './validators.js';
+
+export type DistributionType = 'bdist_wheel' | 'sdist';
+
+export interface WheelTags {
+  build?: string | undefined;  // Optional build tag, starts with a digit
+  python_tags: string[];
+  abi_tags: string[];
+  platform_tags: string[];
+}
+
+export interface ParsedDistributionFilename {
+  name: string;      // As written in the filename
+  version: string;   // As written in the filename
+  type: DistributionType;
+  wheel?: WheelTags | undefined;
+}
+
+const SDIST_EXTENSIONS = ['.tar.gz', '.zip', '.tar.bz2', '.tar.xz', '.tgz', '.tar'];
+
+/**
+ * Splits a wheel or sdist filename into its name, version and, for wheels, its
+ * compatibility tags. Legacy sdists may have dashes in the project name, so the
+ * project name is used to find where the version starts when it is known.
+ * Returns null for other files such as eggs or Windows installers.
+ */
+export function parseDistributionFilename(filename: string, projectName?: string): ParsedDistributionFilename | null {
+  if (filename.endsWith('.whl')) {
+    return parseWheelFilename(filename);
+  }
+
+  const extension = SDIST_EXTENSIONS.find(ext => filename.toLowerCase().endsWith(ext));
+  if (!extension) {
+    return null;
+  }
+
+  const stem = filename.slice(0, -extension.length);
+  const split = findVersionSplit(stem, projectName);
+  if (split <= 0 || split >= stem.length - 1) {
+    return null;
+  }
+  return { name: stem.slice(0, split), version: stem.slice(split + 1), type: 'sdist' };
+}
+
+function parseWheelFilename(filename: string): ParsedDistributionFilename | null {
+  // {name}-{version}(-{build})?-{python}-{abi}-{platform}.whl
+  const parts = filename.slice(0, -'.whl'.length).split('-');
+  if (parts.length !== 5 && parts.length !== 6) {
+    return null;
+  }
+
+  const [name, version] = parts;
+  const build = parts.length === 6 ? parts[2] : undefined;
+  if (!name || !version || (build !== undefined && !/^\d/.test(build))) {
+    return null;
+  }
+
+  const [python, abi, platform] = parts.slice(-3);
+  return {
+    name,
+    version,
+    type: 'bdist_wheel',
+    wheel: {
+      build,
+      python_tags: python.split('.'),
+      abi_tags: abi.split('.'),
+      platform_tags: platform.split('.'),
+    },
+  };
+}
+
+function findVersionSplit(stem: string, projectName: string | undefined): number {
+  if (projectName) {
+    const normalized = normalizePackageName(projectName);
+    for (let index = stem.indexOf('-'); index !== -1; index = stem.indexOf('-', index + 1)) {
+      if (normalizePackageName(stem.slice(0, index)) === normalized) {
+        return index;
+      }
+    }
+  }
+
+  // Versions rarely contain dashes, names often do
+  return stem.lastIndexOf('-');
+}
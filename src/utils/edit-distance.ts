@@ -0,0 +1,45 @@
+/**
+ * Computes the Levenshtein distance between two strings.
+ * When maxDistance is given, the computation stops as soon as the distance
+ * is known to exceed it and maxDistance + 1 is returned.
+ */
+export function levenshteinDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (a === b) {
+    return 0;
+  }
+
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  if (a.length === 0 || b.length === 0) {
+    return Math.max(a.length, b.length);
+  }
+
+  let previous = new Array<number>(b.length + 1);
+  let current = new Array<number>(b.length + 1);
+
+  for (let j = 0; j <= b.length; j++) {
+    previous[j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    let rowMin = current[0];
+
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    // Every later row is at least as large as this row's minimum
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,39 @@
+/**
+ * Parsing of entry_points.txt from a wheel's .dist-info directory
+ * https://packaging.python.org/en/latest/specifications/entry-points/
+ */
+
+import { EntryPoint, EntryPoints } from '../types/index.js';
+
+/**
+ * Reads the INI-style groups of entry points, e.g. `[console_scripts]` with
+ * `black = black:patched_main`. Comments and malformed lines are skipped.
+ */
+export function parseEntryPoints(content: string): EntryPoints {
+  const groups: Record<string, EntryPoint[]> = {};
+  let group: EntryPoint[] | null = null;
+
+  for (const rawLine of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+
+    const section = line.match(/^\[([^\]]+)\]$/);
+    if (section) {
+      group = groups[section[1].trim()] ??= [];
+      continue;
+    }
+
+    const separator = line.indexOf('=');
+    if (group && separator > 0) {
+      group.push({ name: line.slice(0, separator).trim(), value: line.slice(separator + 1).trim() });
+    }
+  }
+
+  return {
+    console_scripts: groups['console_scripts'] ?? [],
+    gui_scripts: groups['gui_scripts'] ?? [],
+    groups,
+  };
+}
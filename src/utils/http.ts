@@ -0,0 +1,48 @@
+export const HTTP_PARTIAL_CONTENT = 206;
+export const HTTP_NOT_MODIFIED = 304;
+
+/**
+ * Cache validators of an HTTP response, sent back on the next request so the
+ * server can answer 304 Not Modified instead of the full body.
+ */
+export interface HttpValidators {
+  etag?: string | undefined;
+  lastModified?: string | undefined;
+}
+
+// A response body kept together with the validators it was served with
+export interface RevalidatableEntry<T> {
+  data: T;
+  fetchedAt: number;
+  validators: HttpValidators;
+}
+
+export function getValidators(response: Response): HttpValidators {
+  return {
+    etag: response.headers?.get('etag') || undefined,
+    lastModified: response.headers?.get('last-modified') || undefined,
+  };
+}
+
+export function hasValidators(validators: HttpValidators | undefined): boolean {
+  return Boolean(validators?.etag || validators?.lastModified);
+}
+
+export function conditionalHeaders(validators: HttpValidators | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (validators?.etag) {
+    headers['If-None-Match'] = validators.etag;
+  }
+  if (validators?.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified;
+  }
+  return headers;
+}
+
+/**
+ * Whether the server confirmed that the cached entry is still current. Only
+ * trusted when the request actually carried validators.
+ */
+export function isNotModified(response: Response, previous: RevalidatableEntry<unknown> | null | undefined): boolean {
+  return response.status === HTTP_NOT_MODIFIED && Boolean(previous) && hasValidators(previous?.validators);
+}
@@ -0,0 +1,89 @@
+/**
+ * Import names of a distribution, from the RECORD and top_level.txt files of its wheel
+ * https://packaging.python.org/en/latest/specifications/recording-installed-packages/
+ */
+
+const MODULE_SUFFIX = /^([A-Za-z_][A-Za-z0-9_]*)(?:\.[^.]+)*\.(?:py|so|pyd)$/;
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Lists the importable top-level modules and packages a wheel installs. Namespace
+ * packages (directories without `__init__.py`, such as `google`) are followed down
+ * to the regular packages inside them, giving e.g. `google.protobuf`. Private names
+ * starting with an underscore are only listed when nothing else is importable.
+ * `record` takes precedence over `topLevel`, which only some build backends write.
+ */
+export function parseImportNames(record: string | null, topLevel: string | null): string[] {
+  const names = record ? importNamesFromRecord(record) : [];
+  if (names.length === 0 && topLevel) {
+    names.push(...topLevel.split(/\r?\n/).map(line => line.trim().replace(/\//g, '.')).filter(Boolean));
+  }
+
+  const unique = Array.from(new Set(names)).sort();
+  const publicNames = unique.filter(name => !name.split('.').some(part => part.startsWith('_')));
+  return publicNames.length > 0 ? publicNames : unique;
+}
+
+function importNamesFromRecord(record: string): string[] {
+  const files = record
+    .split(/\r?\n/)
+    .map(line => recordPath(line))
+    .filter((path): path is string => path !== null)
+    .map(path => path.replace(/^[^/]+\.data\/(?:purelib|platlib)\//, ''))
+    .filter(path => !/^[^/]+\.(?:dist-info|data)\//.test(path) && !path.includes('__pycache__/'));
+
+  const packages = new Set(files
+    .filter(path => /\/__init__(?:\.[^/]+)?\.(?:py|so|pyd)$/.test(path))
+    .map(path => path.slice(0, path.lastIndexOf('/'))));
+
+  const names: string[] = [];
+  for (const path of files) {
+    const parts = path.split('/');
+    const module = parts[parts.length - 1].match(MODULE_SUFFIX);
+    if (!module || !parts.slice(0, -1).every(part => IDENTIFIER.test(part))) {
+      continue;
+    }
+
+    // The outermost regular package containing the file, or the file itself
+    let name = [...parts.slice(0, -1), module[1]].join('.');
+    for (let depth = 1; depth < parts.length; depth++) {
+      if (packages.has(parts.slice(0, depth).join('/'))) {
+        name = parts.slice(0, depth).join('.');
+        break;
+      }
+    }
+    names.push(name);
+  }
+  return names;
+}
+
+// First column of a RECORD line, which is CSV
+function recordPath(line: string): string | null {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (trimmed.startsWith('"')) {
+    const end = trimmed.indexOf('"', 1);
+    return end > 0 ? trimmed.slice(1, end) : null;
+  }
+  return trimmed.split(',')[0];
+}
+
+/**
+ * Whether Python code imports one of the given modules (or a submodule of one),
+ * e.g. `from bs4 import BeautifulSoup` imports "bs4".
+ */
+export function importsModule(code: string, importNames: string[]): boolean {
+  if (importNames.length === 0) {
+    return false;
+  }
+  const imported = new Set<string>();
+  for (const match of code.matchAll(/^\s*(?:>>>\s*)?(?:from\s+([\w.]+)\s+import\b|import\s+([\w.,\s]+?)(?:\s+as\s+\w+)?\s*$)/gm)) {
+    const modules = match[1] ? [match[1]] : match[2].split(',').map(part => part.trim().split(/\s+/)[0]);
+    modules.forEach(module => imported.add(module));
+  }
+
+  return Array.from(imported).some(module =>
+    importNames.some(name => module === name || module.startsWith(`${name}.`) || name.startsWith(`${module}.`)));
+}
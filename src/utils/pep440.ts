@@ -0,0 +1,463 @@
+/**
+ * PEP 440 version parsing, comparison and specifier matching
+ * https://peps.python.org/pep-0440/
+ */
+
+export type PreReleaseLabel = 'a' | 'b' | 'rc';
+
+export type SpecifierOperator = '~=' | '==' | '!=' | '<=' | '>=' | '<' | '>' | '===';
+
+export interface ParsedVersion {
+  epoch: number;
+  release: number[];
+  pre?: [PreReleaseLabel, number] | undefined;
+  post?: number | undefined;
+  dev?: number | undefined;
+  local?: (string | number)[] | undefined;
+}
+
+export type VersionChange = 'major' | 'minor' | 'patch';
+
+export interface VersionSpecifier {
+  operator: SpecifierOperator;
+  version: string;   // Version part as written, without the operator
+}
+
+export interface FilterVersionsOptions {
+  prereleases?: boolean | undefined;  // Default: only when the specifiers ask for them or nothing else matches
+}
+
+const VERSION_PATTERN = new RegExp(
+  '^\\s*v?' +
+  '(?:(?<epoch>[0-9]+)!)?' +
+  '(?<release>[0-9]+(?:\\.[0-9]+)*)' +
+  '(?<pre>[-_.]?(?<pre_l>alpha|a|beta|b|preview|pre|c|rc)[-_.]?(?<pre_n>[0-9]+)?)?' +
+  '(?<post>-(?<post_n1>[0-9]+)|[-_.]?(?<post_l>post|rev|r)[-_.]?(?<post_n2>[0-9]+)?)?' +
+  '(?<dev>[-_.]?dev[-_.]?(?<dev_n>[0-9]+)?)?' +
+  '(?:\\+(?<local>[a-z0-9]+(?:[-_.][a-z0-9]+)*))?' +
+  '\\s*$',
+  'i'
+);
+
+const SPECIFIER_PATTERN = /^\s*(~=|===|==|!=|<=|>=|<|>)\s*(\S+)\s*$/;
+
+const PRE_RELEASE_LABELS: Record<string, PreReleaseLabel> = {
+  a: 'a',
+  alpha: 'a',
+  b: 'b',
+  beta: 'b',
+  c: 'rc',
+  rc: 'rc',
+  pre: 'rc',
+  preview: 'rc',
+};
+
+const PRE_RELEASE_ORDER: Record<PreReleaseLabel, number> = { a: 0, b: 1, rc: 2 };
+
+/**
+ * Parses a version string, accepting every spelling PEP 440 normalizes
+ * (e.g. "1.0-Alpha.1", "v2.0.post", "1.0_dev3"). Returns null for invalid versions.
+ */
+export function parseVersion(version: string): ParsedVersion | null {
+  if (typeof version !== 'string') {
+    return null;
+  }
+
+  const match = version.match(VERSION_PATTERN);
+  if (!match?.groups) {
+    return null;
+  }
+
+  const groups = match.groups;
+  const parsed: ParsedVersion = {
+    epoch: groups.epoch ? Number(groups.epoch) : 0,
+    release: groups.release.split('.').map(Number),
+  };
+
+  if (groups.pre) {
+    parsed.pre = [PRE_RELEASE_LABELS[groups.pre_l.toLowerCase()], Number(groups.pre_n || 0)];
+  }
+  if (groups.post) {
+    parsed.post = Number(groups.post_n1 || groups.post_n2 || 0);
+  }
+  if (groups.dev) {
+    parsed.dev = Number(groups.dev_n || 0);
+  }
+  if (groups.local) {
+    parsed.local = groups.local
+      .toLowerCase()
+      .split(/[-_.]/)
+      .map(part => (/^[0-9]+$/.test(part) ? Number(part) : part));
+  }
+
+  return parsed;
+}
+
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Returns the normalized form of a version (e.g. "1.0-Alpha.1" -> "1.0a1"), or null if invalid
+ */
+export function normalizeVersion(version: string): string | null {
+  const parsed = parseVersion(version);
+  return parsed ? formatVersion(parsed) : null;
+}
+
+export function formatVersion(version: ParsedVersion): string {
+  let result = version.epoch ? `${version.epoch}!` : '';
+  result += version.release.join('.');
+  if (version.pre) {
+    result += `${version.pre[0]}${version.pre[1]}`;
+  }
+  if (version.post !== undefined) {
+    result += `.post${version.post}`;
+  }
+  if (version.dev !== undefined) {
+    result += `.dev${version.dev}`;
+  }
+  if (version.local) {
+    result += `+${version.local.join('.')}`;
+  }
+  return result;
+}
+
+export function isPrerelease(version: ParsedVersion): boolean {
+  return version.pre !== undefined || version.dev !== undefined;
+}
+
+/**
+ * Compares two parsed versions, returning a negative number, zero or a positive number
+ */
+export function compareParsedVersions(a: ParsedVersion, b: ParsedVersion): number {
+  if (a.epoch !== b.epoch) {
+    return a.epoch - b.epoch;
+  }
+
+  const releaseOrder = compareReleases(a.release, b.release);
+  if (releaseOrder !== 0) {
+    return releaseOrder;
+  }
+
+  const preOrder = compareKeys(preReleaseKey(a), preReleaseKey(b));
+  if (preOrder !== 0) {
+    return preOrder;
+  }
+
+  const postOrder = compareKeys([a.post ?? -Infinity], [b.post ?? -Infinity]);
+  if (postOrder !== 0) {
+    return postOrder;
+  }
+
+  const devOrder = compareKeys([a.dev ?? Infinity], [b.dev ?? Infinity]);
+  if (devOrder !== 0) {
+    return devOrder;
+  }
+
+  return compareLocal(a.local, b.local);
+}
+
+/**
+ * Compares two version strings. Versions that are not valid PEP 440 sort
+ * before every valid version and lexically among themselves.
+ */
+export function compareVersions(a: string, b: string): number {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+
+  if (parsedA && parsedB) {
+    return compareParsedVersions(parsedA, parsedB);
+  }
+  if (parsedA || parsedB) {
+    return parsedA ? 1 : -1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Classifies an upgrade by the first release component that changes, e.g.
+ * "1.4.2" -> "2.0" is major and "1.4.2" -> "1.4.2.post1" is patch. A change of
+ * epoch counts as major. Returns null when `to` is not newer or either version is invalid.
+ */
+export function classifyVersionChange(from: string, to: string): VersionChange | null {
+  const parsedFrom = parseVersion(from);
+  const parsedTo = parseVersion(to);
+  if (!parsedFrom || !parsedTo || compareParsedVersions(parsedFrom, parsedTo) >= 0) {
+    return null;
+  }
+
+  if (parsedFrom.epoch !== parsedTo.epoch) {
+    return 'major';
+  }
+  const component = (version: ParsedVersion, index: number) => version.release[index] ?? 0;
+  if (component(parsedFrom, 0) !== component(parsedTo, 0)) {
+    return 'major';
+  }
+  if (component(parsedFrom, 1) !== component(parsedTo, 1)) {
+    return 'minor';
+  }
+  return 'patch';
+}
+
+/**
+ * Sorts versions from oldest to newest without modifying the input
+ */
+export function sortVersions(versions: string[]): string[] {
+  return [...versions].sort(compareVersions);
+}
+
+/**
+ * Checks whether a string is a specifier set (e.g. ">=1.2,<2") rather than a bare version
+ */
+export function isVersionSpecifier(value: string): boolean {
+  return typeof value === 'string' && /^\s*[~=!<>]/.test(value);
+}
+
+/**
+ * Parses a comma-separated specifier set. Returns null if any clause is invalid.
+ */
+export function parseSpecifierSet(specifiers: string): VersionSpecifier[] | null {
+  if (typeof specifiers !== 'string' || !specifiers.trim()) {
+    return null;
+  }
+
+  const parsed: VersionSpecifier[] = [];
+  for (const clause of specifiers.split(',')) {
+    const specifier = parseSpecifier(clause);
+    if (!specifier) {
+      return null;
+    }
+    parsed.push(specifier);
+  }
+
+  return parsed;
+}
+
+export function isValidSpecifierSet(specifiers: string): boolean {
+  return parseSpecifierSet(specifiers) !== null;
+}
+
+/**
+ * Checks whether a version satisfies every specifier in the set.
+ * Pre-release handling is left to the caller; see filterVersions.
+ */
+export function satisfiesSpecifiers(version: string, specifiers: VersionSpecifier[]): boolean {
+  const parsed = parseVersion(version);
+
+  return specifiers.every(specifier => {
+    if (specifier.operator === '===') {
+      return version.trim().toLowerCase() === specifier.version.toLowerCase();
+    }
+    return parsed !== null && matchesSpecifier(parsed, specifier);
+  });
+}
+
+/**
+ * Returns the versions that satisfy a specifier set, in input order.
+ * Pre-releases are only included when requested, when a specifier names one
+ * (e.g. ">=2.0b1"), or when nothing but pre-releases match.
+ */
+export function filterVersions(
+  versions: string[],
+  specifiers: VersionSpecifier[],
+  options: FilterVersionsOptions = {}
+): string[] {
+  const matching = versions.filter(version => satisfiesSpecifiers(version, specifiers));
+  if (options.prereleases ?? specifiers.some(specifierAllowsPrereleases)) {
+    return matching;
+  }
+
+  const finals = matching.filter(version => !isPrereleaseString(version));
+  if (options.prereleases === false) {
+    return finals;
+  }
+  return finals.length > 0 ? finals : matching;
+}
+
+/**
+ * Returns the newest version that satisfies a specifier set, or null
+ */
+export function findBestMatch(
+  versions: string[],
+  specifiers: VersionSpecifier[],
+  options: FilterVersionsOptions = {}
+): string | null {
+  const matching = sortVersions(filterVersions(versions, specifiers, options));
+  return matching.length > 0 ? matching[matching.length - 1] : null;
+}
+
+function parseSpecifier(clause: string): VersionSpecifier | null {
+  const match = clause.match(SPECIFIER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const operator = match[1] as SpecifierOperator;
+  const version = match[2];
+
+  if (operator === '===') {
+    return { operator, version };
+  }
+
+  const wildcard = version.endsWith('.*');
+  if (wildcard && operator !== '==' && operator !== '!=') {
+    return null;
+  }
+
+  const parsed = parseVersion(wildcard ? version.slice(0, -2) : version);
+  if (!parsed) {
+    return null;
+  }
+
+  // Wildcards only follow a release segment, and local versions only make sense for (in)equality
+  if (wildcard && (parsed.pre || parsed.post !== undefined || parsed.dev !== undefined || parsed.local)) {
+    return null;
+  }
+  if (parsed.local && operator !== '==' && operator !== '!=') {
+    return null;
+  }
+  if (operator === '~=' && parsed.release.length < 2) {
+    return null;
+  }
+
+  return { operator, version };
+}
+
+function matchesSpecifier(version: ParsedVersion, specifier: VersionSpecifier): boolean {
+  const { operator } = specifier;
+
+  if (specifier.version.endsWith('.*')) {
+    const matches = matchesPrefix(version, parseVersion(specifier.version.slice(0, -2))!);
+    return operator === '==' ? matches : !matches;
+  }
+
+  const target = parseVersion(specifier.version)!;
+
+  switch (operator) {
+    case '==':
+    case '!=': {
+      // A local label is ignored unless the specifier names one
+      const candidate = target.local ? version : withoutLocal(version);
+      const equal = compareParsedVersions(candidate, target) === 0;
+      return operator === '==' ? equal : !equal;
+    }
+    case '~=': {
+      const prefix: ParsedVersion = { epoch: target.epoch, release: target.release.slice(0, -1) };
+      return compareParsedVersions(withoutLocal(version), target) >= 0 && matchesPrefix(version, prefix);
+    }
+    case '<=':
+      return compareParsedVersions(withoutLocal(version), target) <= 0;
+    case '>=':
+      return compareParsedVersions(withoutLocal(version), target) >= 0;
+    case '<': {
+      if (compareParsedVersions(version, target) >= 0) {
+        return false;
+      }
+      // "<2.0" must not admit 2.0 pre-releases unless the specifier is itself a pre-release
+      return isPrerelease(target) || !isPrerelease(version) || !sameBaseVersion(version, target);
+    }
+    case '>': {
+      if (compareParsedVersions(version, target) <= 0) {
+        return false;
+      }
+      // ">2.0" must not admit 2.0 post-releases or local variants of 2.0
+      if (target.post === undefined && version.post !== undefined && sameBaseVersion(version, target)) {
+        return false;
+      }
+      return !(version.local && sameBaseVersion(version, target));
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Prefix matching for "==1.2.*" and "~=": release segments are zero-padded,
+ * so 1.2 matches 1.2.*, and pre/post/dev releases of 1.2.x match too
+ */
+function matchesPrefix(version: ParsedVersion, prefix: ParsedVersion): boolean {
+  if (version.epoch !== prefix.epoch) {
+    return false;
+  }
+  return prefix.release.every((segment, index) => (version.release[index] ?? 0) === segment);
+}
+
+function specifierAllowsPrereleases(specifier: VersionSpecifier): boolean {
+  if (specifier.operator === '!=' || specifier.version.endsWith('.*')) {
+    return false;
+  }
+  const parsed = parseVersion(specifier.version);
+  return parsed !== null && isPrerelease(parsed);
+}
+
+function isPrereleaseString(version: string): boolean {
+  const parsed = parseVersion(version);
+  return parsed !== null && isPrerelease(parsed);
+}
+
+function withoutLocal(version: ParsedVersion): ParsedVersion {
+  return { ...version, local: undefined };
+}
+
+function sameBaseVersion(a: ParsedVersion, b: ParsedVersion): boolean {
+  return a.epoch === b.epoch && compareReleases(a.release, b.release) === 0;
+}
+
+function compareReleases(a: number[], b: number[]): number {
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Sort key for the pre-release segment: a dev release of a final version
+ * (1.0.dev1) sorts before its pre-releases, and a final version after them
+ */
+function preReleaseKey(version: ParsedVersion): number[] {
+  if (version.pre) {
+    return [PRE_RELEASE_ORDER[version.pre[0]], version.pre[1]];
+  }
+  if (version.post === undefined && version.dev !== undefined) {
+    return [-Infinity];
+  }
+  return [Infinity];
+}
+
+function compareKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const left = a[i] ?? 0;
+    const right = b[i] ?? 0;
+    if (left !== right) {
+      return left < right ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Local labels compare segment by segment; numeric segments sort after
+ * alphanumeric ones, and a longer label sorts after its prefix
+ */
+function compareLocal(a: (string | number)[] | undefined, b: (string | number)[] | undefined): number {
+  if (!a || !b) {
+    return a ? 1 : b ? -1 : 0;
+  }
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const left = a[i];
+    const right = b[i];
+    if (typeof left !== typeof right) {
+      return typeof left === 'number' ? 1 : -1;
+    }
+    if (left !== right) {
+      return left < right ? -1 : 1;
+    }
+  }
+  return a.length - b.length;
+}
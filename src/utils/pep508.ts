@@ -0,0 +1,368 @@
+/**
+ * PEP 508 dependency specifier and environment marker parsing
+ * https://peps.python.org/pep-0508/
+ */
+import { MarkerNode, MarkerOperator, PackageDependency, TargetPlatform } from '../types/index.js';
+import { normalizePackageName } from './validators.js';
+import { parseSpecifierSet, parseVersion, satisfiesSpecifiers } from './pep440.js';
+
+export type MarkerEnvironment = Partial<Record<string, string>>;
+
+const NAME_PATTERN = /^([A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?)/;
+const EXTRA_NAME_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?$/;
+
+const MARKER_VARIABLES = new Set([
+  'python_version',
+  'python_full_version',
+  'os_name',
+  'sys_platform',
+  'platform_release',
+  'platform_system',
+  'platform_version',
+  'platform_machine',
+  'platform_python_implementation',
+  'implementation_name',
+  'implementation_version',
+  'extra',
+]);
+
+// Spellings from PEP 345 that still appear in older metadata
+const LEGACY_MARKER_VARIABLES: Record<string, string> = {
+  'os.name': 'os_name',
+  'sys.platform': 'sys_platform',
+  'platform.version': 'platform_version',
+  'platform.machine': 'platform_machine',
+  'platform.python_implementation': 'platform_python_implementation',
+  'python_implementation': 'platform_python_implementation',
+};
+
+const PLATFORM_ENVIRONMENTS: Record<TargetPlatform, MarkerEnvironment> = {
+  linux: { os_name: 'posix', sys_platform: 'linux', platform_system: 'Linux', platform_machine: 'x86_64' },
+  darwin: { os_name: 'posix', sys_platform: 'darwin', platform_system: 'Darwin', platform_machine: 'arm64' },
+  win32: { os_name: 'nt', sys_platform: 'win32', platform_system: 'Windows', platform_machine: 'AMD64' },
+};
+
+const MARKER_TOKEN_PATTERN = /\s*(?:(?<string>'[^']*'|"[^"]*")|(?<paren>[()])|(?<op>===|==|!=|<=|>=|~=|<|>)|(?<word>[A-Za-z_][A-Za-z0-9_.]*))/y;
+
+type MarkerToken =
+  | { type: 'string'; value: string }
+  | { type: 'paren'; value: '(' | ')' }
+  | { type: 'op'; value: string }
+  | { type: 'word'; value: string };
+
+/**
+ * Parses a requirement such as `requests[socks]>=2.0,<3; python_version >= "3.8"`.
+ * Version specifiers that are not valid PEP 440 (legacy metadata) are kept as written.
+ * Returns null when the name, extras or marker cannot be parsed.
+ */
+export function parseRequirement(requirement: string): PackageDependency | null {
+  if (typeof requirement !== 'string') {
+    return null;
+  }
+
+  const original = requirement.trim();
+  const nameMatch = original.match(NAME_PATTERN);
+  if (!nameMatch) {
+    return null;
+  }
+
+  const name = nameMatch[1];
+  let rest = original.slice(name.length).trim();
+
+  let extras: string[] = [];
+  if (rest.startsWith('[')) {
+    const end = rest.indexOf(']');
+    if (end === -1) {
+      return null;
+    }
+    extras = rest.slice(1, end).split(',').map(extra => extra.trim()).filter(Boolean);
+    if (!extras.every(extra => EXTRA_NAME_PATTERN.test(extra))) {
+      return null;
+    }
+    rest = rest.slice(end + 1).trim();
+  }
+
+  let url: string | undefined;
+  let specifier = '';
+  let markerText = '';
+
+  if (rest.startsWith('@')) {
+    // A URL may itself contain ";", so the marker separator must follow whitespace
+    const [urlPart, ...markerParts] = rest.slice(1).trim().split(/\s+;/);
+    url = urlPart.trim();
+    markerText = markerParts.join(';').trim();
+    if (!url) {
+      return null;
+    }
+  } else {
+    const separator = rest.indexOf(';');
+    const versionPart = separator === -1 ? rest : rest.slice(0, separator);
+    markerText = separator === -1 ? '' : rest.slice(separator + 1).trim();
+    specifier = normalizeSpecifier(versionPart);
+  }
+
+  let marker: MarkerNode | undefined;
+  if (markerText) {
+    const parsed = parseMarker(markerText);
+    if (!parsed) {
+      return null;
+    }
+    marker = parsed;
+  }
+
+  return {
+    name,
+    extras,
+    specifier,
+    url,
+    marker,
+    requirement: original,
+  };
+}
+
+/**
+ * Parses an environment marker expression into a tree. Returns null for invalid markers.
+ */
+export function parseMarker(marker: string): MarkerNode | null {
+  const tokens = tokenizeMarker(marker);
+  if (!tokens || tokens.length === 0) {
+    return null;
+  }
+
+  const parser = new MarkerParser(tokens);
+  try {
+    const node = parser.parseOr();
+    return parser.done() ? node : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Evaluates a marker against an environment. Variables missing from the
+ * environment compare as empty strings, so `extra == "test"` is false unless
+ * the environment names that extra.
+ */
+export function evaluateMarker(marker: MarkerNode, environment: MarkerEnvironment): boolean {
+  switch (marker.type) {
+    case 'and':
+      return marker.markers.every(child => evaluateMarker(child, environment));
+    case 'or':
+      return marker.markers.some(child => evaluateMarker(child, environment));
+    case 'comparison': {
+      let actual = environment[marker.variable] ?? '';
+      let expected = marker.value;
+      if (marker.variable === 'extra') {
+        actual = normalizePackageName(actual);
+        expected = normalizePackageName(expected);
+      }
+      return marker.reversed
+        ? compareMarkerValues(expected, marker.operator, actual)
+        : compareMarkerValues(actual, marker.operator, expected);
+    }
+  }
+}
+
+/**
+ * Builds the marker environment of a CPython interpreter, e.g. "3.11" on "linux".
+ * A two-part version is taken to mean its first patch release.
+ */
+export function createMarkerEnvironment(pythonVersion: string, platform: TargetPlatform): MarkerEnvironment {
+  const parts = pythonVersion.trim().split('.');
+  const fullVersion = parts.length === 2 ? `${parts[0]}.${parts[1]}.0` : parts.join('.');
+
+  return {
+    ...PLATFORM_ENVIRONMENTS[platform],
+    python_version: parts.slice(0, 2).join('.'),
+    python_full_version: fullVersion,
+    implementation_name: 'cpython',
+    implementation_version: fullVersion,
+    platform_python_implementation: 'CPython',
+  };
+}
+
+/**
+ * Lists the extras a marker refers to through `extra == "..."` comparisons
+ */
+export function getMarkerExtras(marker: MarkerNode | undefined): string[] {
+  if (!marker) {
+    return [];
+  }
+  if (marker.type !== 'comparison') {
+    return Array.from(new Set(marker.markers.flatMap(getMarkerExtras)));
+  }
+  return marker.variable === 'extra' && marker.operator === '=='
+    ? [normalizePackageName(marker.value)]
+    : [];
+}
+
+function normalizeSpecifier(versionPart: string): string {
+  let specifier = versionPart.trim();
+  // Older metadata wraps specifiers in parentheses, e.g. "requests (>=2.0)"
+  if (specifier.startsWith('(') && specifier.endsWith(')')) {
+    specifier = specifier.slice(1, -1);
+  }
+  return specifier
+    .split(',')
+    .map(clause => clause.replace(/\s+/g, ''))
+    .filter(Boolean)
+    .join(',');
+}
+
+function compareMarkerValues(left: string, operator: MarkerOperator, right: string): boolean {
+  switch (operator) {
+    case 'in':
+      return right.includes(left);
+    case 'not in':
+      return !right.includes(left);
+    case '===':
+      return left === right;
+  }
+
+  // Version comparison when both sides are versions, string comparison otherwise
+  const specifiers = parseSpecifierSet(`${operator}${right}`);
+  if (specifiers && parseVersion(left)) {
+    return satisfiesSpecifiers(left, specifiers);
+  }
+
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    default:
+      return false;
+  }
+}
+
+function tokenizeMarker(marker: string): MarkerToken[] | null {
+  const tokens: MarkerToken[] = [];
+  MARKER_TOKEN_PATTERN.lastIndex = 0;
+
+  while (MARKER_TOKEN_PATTERN.lastIndex < marker.length) {
+    if (!marker.slice(MARKER_TOKEN_PATTERN.lastIndex).trim()) {
+      break;
+    }
+
+    const match = MARKER_TOKEN_PATTERN.exec(marker);
+    if (!match?.groups) {
+      return null;
+    }
+
+    const { string, paren, op, word } = match.groups;
+    if (string !== undefined) {
+      tokens.push({ type: 'string', value: string.slice(1, -1) });
+    } else if (paren !== undefined) {
+      tokens.push({ type: 'paren', value: paren as '(' | ')' });
+    } else if (op !== undefined) {
+      tokens.push({ type: 'op', value: op });
+    } else {
+      tokens.push({ type: 'word', value: word });
+    }
+  }
+
+  return tokens;
+}
+
+class MarkerParser {
+  private position = 0;
+
+  constructor(private readonly tokens: MarkerToken[]) {}
+
+  done(): boolean {
+    return this.position === this.tokens.length;
+  }
+
+  parseOr(): MarkerNode {
+    const markers = [this.parseAnd()];
+    while (this.acceptWord('or')) {
+      markers.push(this.parseAnd());
+    }
+    return markers.length === 1 ? markers[0] : { type: 'or', markers };
+  }
+
+  private parseAnd(): MarkerNode {
+    const markers = [this.parseExpression()];
+    while (this.acceptWord('and')) {
+      markers.push(this.parseExpression());
+    }
+    return markers.length === 1 ? markers[0] : { type: 'and', markers };
+  }
+
+  private parseExpression(): MarkerNode {
+    const token = this.next();
+    if (token.type === 'paren' && token.value === '(') {
+      const node = this.parseOr();
+      const closing = this.next();
+      if (closing.type !== 'paren' || closing.value !== ')') {
+        throw new Error('Expected ")" in marker');
+      }
+      return node;
+    }
+
+    const left = this.toValue(token);
+    const operator = this.parseOperator();
+    const right = this.toValue(this.next());
+
+    // Exactly one side must be an environment variable
+    if (left.variable && !right.variable) {
+      return { type: 'comparison', variable: left.variable, operator, value: right.value };
+    }
+    if (right.variable && !left.variable) {
+      return { type: 'comparison', variable: right.variable, operator, value: left.value, reversed: true };
+    }
+    throw new Error('Marker comparison must compare a variable with a string');
+  }
+
+  private parseOperator(): MarkerOperator {
+    const token = this.next();
+    if (token.type === 'op') {
+      return token.value as MarkerOperator;
+    }
+    if (token.type === 'word' && token.value === 'in') {
+      return 'in';
+    }
+    if (token.type === 'word' && token.value === 'not' && this.acceptWord('in')) {
+      return 'not in';
+    }
+    throw new Error('Expected marker operator');
+  }
+
+  private toValue(token: MarkerToken): { variable?: string; value: string } {
+    if (token.type === 'string') {
+      return { value: token.value };
+    }
+    if (token.type === 'word') {
+      const variable = LEGACY_MARKER_VARIABLES[token.value] ?? token.value;
+      if (MARKER_VARIABLES.has(variable)) {
+        return { variable, value: '' };
+      }
+    }
+    throw new Error(`Unexpected marker token: ${token.value}`);
+  }
+
+  private acceptWord(word: string): boolean {
+    const token = this.tokens[this.position];
+    if (token?.type === 'word' && token.value === word) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private next(): MarkerToken {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new Error('Unexpected end of marker');
+    }
+    return token;
+  }
+}
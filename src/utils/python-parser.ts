@@ -0,0 +1,526 @@
+/**
+ * A tokenizer and declaration parser for Python sources and .pyi stubs. Only the
+ * module level and class bodies are parsed: function bodies are skipped, and blocks
+ * such as `if TYPE_CHECKING:` or `try:` are read as if their contents were unindented.
+ * https://docs.python.org/3/reference/lexical_analysis.html
+ */
+
+import { ApiClass, ApiFunction } from '../types/index.js';
+
+export type PythonTokenType = 'name' | 'number' | 'string' | 'op' | 'newline' | 'indent' | 'dedent' | 'end';
+
+export interface PythonToken {
+  type: PythonTokenType;
+  value: string;
+  start: number;   // Offsets into the source
+  end: number;
+}
+
+export interface PythonImport {
+  module: string;         // As written, e.g. ".models" or "requests.api"
+  name: string;           // "*" for star imports
+  alias: string;          // Name bound in the importing module
+}
+
+export interface ParsedPythonModule {
+  docstring?: string | undefined;
+  all: string[] | null;   // Contents of __all__, when assigned from string literals
+  classes: ApiClass[];
+  functions: ApiFunction[];
+  variables: string[];    // Names assigned or annotated at the module level
+  imports: PythonImport[];
+}
+
+const STRING_START = /[rRbBuUfFtT]{0,2}("""|'''|"|')/y;
+const NAME = /[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*/y;
+const NUMBER = /(?:\d[\w]*(?:\.[\w]*)?|\.\d[\w]*)(?:[eE][+-]?\d[\w]*)?/y;
+const OPERATORS = [
+  '**=', '//=', '>>=', '<<=', '...',
+  '->', ':=', '==', '!=', '<=', '>=', '**', '//', '<<', '>>', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@=',
+];
+const OPENING = '([{';
+const CLOSING = ')]}';
+
+export function tokenizePython(source: string): PythonToken[] {
+  const tokens: PythonToken[] = [];
+  const indents = [0];
+  let depth = 0;
+  let position = 0;
+  let atLineStart = true;
+
+  const push = (type: PythonTokenType, value: string, start: number, end: number) => tokens.push({ type, value, start, end });
+
+  while (position < source.length) {
+    if (atLineStart) {
+      atLineStart = false;
+      let column = 0;
+      while (position < source.length && ' \t\f'.includes(source[position])) {
+        column = source[position] === '\t' ? (Math.floor(column / 8) + 1) * 8 : source[position] === ' ' ? column + 1 : 0;
+        position++;
+      }
+      // Blank and comment-only lines do not affect indentation
+      const lineEnd = source.indexOf('\n', position);
+      const rest = source.slice(position, lineEnd === -1 ? source.length : lineEnd).trim();
+      if (rest === '' || rest.startsWith('#')) {
+        position = lineEnd === -1 ? source.length : lineEnd + 1;
+        atLineStart = true;
+        continue;
+      }
+      if (column > indents[indents.length - 1]) {
+        indents.push(column);
+        push('indent', '', position, position);
+      }
+      while (column < indents[indents.length - 1]) {
+        indents.pop();
+        push('dedent', '', position, position);
+      }
+    }
+
+    const char = source[position];
+    if (char === '\n' || char === '\r') {
+      position += source.startsWith('\r\n', position) ? 2 : 1;
+      if (depth === 0) {
+        push('newline', '', position, position);
+        atLineStart = true;
+      }
+      continue;
+    }
+    if (char === ' ' || char === '\t' || char === '\f') {
+      position++;
+      continue;
+    }
+    if (char === '#') {
+      while (position < source.length && source[position] !== '\n' && source[position] !== '\r') {
+        position++;
+      }
+      continue;
+    }
+    if (char === '\\' && (source[position + 1] === '\n' || source[position + 1] === '\r')) {
+      position += source.startsWith('\r\n', position + 1) ? 3 : 2;
+      continue;
+    }
+
+    STRING_START.lastIndex = position;
+    const string = STRING_START.exec(source);
+    if (string) {
+      const end = stringEnd(source, STRING_START.lastIndex, string[1]);
+      push('string', source.slice(position, end), position, end);
+      position = end;
+      continue;
+    }
+
+    NAME.lastIndex = position;
+    const name = NAME.exec(source);
+    if (name) {
+      push('name', name[0], position, NAME.lastIndex);
+      position = NAME.lastIndex;
+      continue;
+    }
+
+    NUMBER.lastIndex = position;
+    const number = NUMBER.exec(source);
+    if (number) {
+      push('number', number[0], position, NUMBER.lastIndex);
+      position = NUMBER.lastIndex;
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => source.startsWith(candidate, position)) ?? char;
+    if (OPENING.includes(operator)) {
+      depth++;
+    } else if (CLOSING.includes(operator)) {
+      depth = Math.max(0, depth - 1);
+    }
+    push('op', operator, position, position + operator.length);
+    position += operator.length;
+  }
+
+  if (tokens.length > 0 && tokens[tokens.length - 1].type !== 'newline') {
+    push('newline', '', source.length, source.length);
+  }
+  for (let level = 1; level < indents.length; level++) {
+    push('dedent', '', source.length, source.length);
+  }
+  push('end', '', source.length, source.length);
+  return tokens;
+}
+
+// Position after the closing quote; unterminated strings run to the end of the line or file
+function stringEnd(source: string, position: number, quote: string): number {
+  while (position < source.length) {
+    const char = source[position];
+    if (char === '\\') {
+      position += 2;
+    } else if (source.startsWith(quote, position)) {
+      return position + quote.length;
+    } else if (quote.length === 1 && (char === '\n' || char === '\r')) {
+      return position;
+    } else {
+      position++;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Reads the declarations of a module: its docstring, `__all__`, top-level classes
+ * (with their methods), functions and variables, and `from ... import` statements. Repeated
+ * definitions keep the first one, except that `@overload` signatures are collected.
+ */
+export function parsePythonModule(source: string): ParsedPythonModule {
+  const parser = new PythonParser(source, tokenizePython(source));
+  return parser.parseModule();
+}
+
+class PythonParser {
+  private position = 0;
+  private implemented = new Set<ApiFunction>();
+  private dynamicAll = false;
+
+  constructor(private source: string, private tokens: PythonToken[]) {}
+
+  parseModule(): ParsedPythonModule {
+    const module: ParsedPythonModule = { all: null, classes: [], functions: [], variables: [], imports: [] };
+    module.docstring = this.readDocstring();
+    while (!this.is('end')) {
+      this.parseBlock(module);
+      // Skip stray dedents of inconsistently indented files
+      this.next();
+    }
+    if (this.dynamicAll) {
+      module.all = null;
+    }
+    return module;
+  }
+
+  private get current(): PythonToken {
+    return this.tokens[this.position];
+  }
+
+  private next(): PythonToken {
+    const token = this.tokens[this.position];
+    if (token.type !== 'end') {
+      this.position++;
+    }
+    return token;
+  }
+
+  private is(type: PythonTokenType, value?: string, offset: number = 0): boolean {
+    const token = this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+    return token.type === type && (value === undefined || token.value === value);
+  }
+
+  // Statements until the end of the current block
+  private parseBlock(module: ParsedPythonModule | null, cls?: ApiClass): void {
+    while (!this.is('end') && !this.is('dedent')) {
+      this.parseStatement(module, cls);
+    }
+  }
+
+  private parseStatement(module: ParsedPythonModule | null, cls?: ApiClass): void {
+    const decorators: string[] = [];
+    while (this.is('op', '@')) {
+      this.next();
+      decorators.push(this.text(this.lineTokens()));
+      this.next();
+    }
+
+    if (this.is('name', 'def') || (this.is('name', 'async') && this.is('name', 'def', 1))) {
+      const fn = this.parseFunction(decorators);
+      if (cls) {
+        this.addFunction(cls.methods, fn);
+      } else if (module) {
+        this.addFunction(module.functions, fn);
+      }
+      return;
+    }
+    if (this.is('name', 'class')) {
+      const parsed = this.parseClass(decorators);
+      if (module && !cls && !module.classes.some(existing => existing.name === parsed.name)) {
+        module.classes.push(parsed);
+      }
+      return;
+    }
+
+    const line = this.lineTokens();
+    this.next();
+    const last = line[line.length - 1];
+    if (last?.type === 'op' && last.value === ':' && this.is('indent')) {
+      // A compound statement such as if, try or with: its body belongs to the same scope
+      this.next();
+      this.parseBlock(module, cls);
+      this.next();
+      return;
+    }
+    if (module && !cls) {
+      this.readSimpleStatement(module, line);
+    }
+  }
+
+  private parseFunction(decorators: string[]): ApiFunction {
+    const isAsync = this.is('name', 'async');
+    if (isAsync) {
+      this.next();
+    }
+    this.next();
+    const name = this.next().value;
+
+    const params = this.bracketed();
+    let returns: PythonToken[] = [];
+    if (this.is('op', '->')) {
+      this.next();
+      returns = this.until(token => token.type === 'op' && token.value === ':');
+    }
+    const docstring = this.parseBody();
+
+    const returnText = returns.length > 0 ? ` -> ${this.text(returns)}` : '';
+    return {
+      name,
+      signature: `${this.text(params)}${returnText}`,
+      async: isAsync || undefined,
+      decorators: decorators.length > 0 ? decorators : undefined,
+      docstring,
+    };
+  }
+
+  private parseClass(decorators: string[]): ApiClass {
+    this.next();
+    const name = this.next().value;
+    const bases = this.is('op', '(') ? splitArguments(this.bracketed()) : [];
+
+    const cls: ApiClass = {
+      name,
+      bases: bases
+        .filter(base => !base.some(token => token.type === 'op' && token.value === '='))
+        .map(base => this.text(base)),
+      decorators: decorators.length > 0 ? decorators : undefined,
+      docstring: undefined,
+      methods: [],
+    };
+
+    this.expect(':');
+    if (!this.is('newline')) {
+      this.lineTokens();
+      this.next();
+      return cls;
+    }
+    this.next();
+    if (!this.is('indent')) {
+      return cls;
+    }
+    this.next();
+    cls.docstring = this.readDocstring();
+    this.parseBlock(null, cls);
+    this.next();
+    return cls;
+  }
+
+  // Skips a function body, returning its docstring
+  private parseBody(): string | undefined {
+    this.expect(':');
+    if (!this.is('newline')) {
+      const line = this.lineTokens();
+      this.next();
+      return line.length === 1 && line[0].type === 'string' ? docstringSummary(line[0].value) : undefined;
+    }
+    this.next();
+    if (!this.is('indent')) {
+      return undefined;
+    }
+    this.next();
+    const docstring = this.readDocstring();
+
+    let depth = 1;
+    while (depth > 0 && !this.is('end')) {
+      const token = this.next();
+      if (token.type === 'indent') {
+        depth++;
+      } else if (token.type === 'dedent') {
+        depth--;
+      }
+    }
+    return docstring;
+  }
+
+  // A string literal statement at the start of a block
+  private readDocstring(): string | undefined {
+    let offset = 0;
+    while (this.is('string', undefined, offset)) {
+      offset++;
+    }
+    if (offset === 0 || !this.is('newline', undefined, offset)) {
+      return undefined;
+    }
+    const literal = this.tokens[this.position].value;
+    this.position += offset + 1;
+    return docstringSummary(literal);
+  }
+
+  private readSimpleStatement(module: ParsedPythonModule, line: PythonToken[]): void {
+    const first = line[0];
+    if (first?.type === 'name' && first.value === 'from') {
+      module.imports.push(...parseFromImport(line));
+      return;
+    }
+    if (first?.type === 'name' && first.value !== '__all__' && (line[1]?.value === '=' || line[1]?.value === ':')) {
+      if (!module.variables.includes(first.value)) {
+        module.variables.push(first.value);
+      }
+      return;
+    }
+    if (first?.type === 'name' && first.value === '__all__' && line.length > 2) {
+      const operator = line[1].value;
+      const method = operator === '.' ? line[2].value : null;
+      const valueAt = method ? 3 : line.findIndex(token => token.type === 'op' && (token.value === '=' || token.value === '+='));
+      if (valueAt < 1 || (method !== null && method !== 'extend' && method !== 'append')) {
+        return;
+      }
+      const value = line.slice(valueAt + 1);
+      // __all__ built from other modules cannot be read without running the code
+      if (!value.every(token => token.type === 'string' || (token.type === 'op' && '[](),'.includes(token.value)))) {
+        this.dynamicAll = true;
+        return;
+      }
+      const names = value.filter(token => token.type === 'string').map(token => stringValue(token.value));
+      module.all = operator === '=' || operator === ':' ? names : [...(module.all ?? []), ...names];
+    }
+  }
+
+  private addFunction(functions: ApiFunction[], fn: ApiFunction): void {
+    const existing = functions.find(candidate => candidate.name === fn.name);
+    const isOverload = fn.decorators?.some(decorator => /^(?:typing\.)?overload$/.test(decorator)) ?? false;
+    if (!existing) {
+      functions.push(isOverload ? { ...fn, overloads: [fn.signature] } : fn);
+      return;
+    }
+    // Otherwise the first definition wins, e.g. a property over its setter
+    if (existing.overloads && isOverload) {
+      existing.overloads.push(fn.signature);
+    } else if (existing.overloads && !this.implemented.has(existing)) {
+      this.implemented.add(existing);
+      existing.signature = fn.signature;
+      existing.docstring = existing.docstring ?? fn.docstring;
+      existing.decorators = fn.decorators;
+    }
+  }
+
+  // Tokens up to the next newline, which is left as the current token
+  private lineTokens(): PythonToken[] {
+    return this.until(token => token.type === 'newline' || token.type === 'end', false);
+  }
+
+  private until(stop: (token: PythonToken) => boolean, consumeStop: boolean = false): PythonToken[] {
+    const collected: PythonToken[] = [];
+    let depth = 0;
+    while (!this.is('end') && !(depth === 0 && stop(this.current))) {
+      const token = this.next();
+      if (token.type === 'op' && OPENING.includes(token.value)) {
+        depth++;
+      } else if (token.type === 'op' && CLOSING.includes(token.value)) {
+        depth--;
+      }
+      collected.push(token);
+    }
+    if (consumeStop) {
+      this.next();
+    }
+    return collected;
+  }
+
+  // The tokens from an opening bracket to its closing bracket, both included
+  private bracketed(): PythonToken[] {
+    const collected = [this.next()];
+    let depth = 1;
+    while (depth > 0 && !this.is('end') && !this.is('newline')) {
+      const token = this.next();
+      if (token.type === 'op' && OPENING.includes(token.value)) {
+        depth++;
+      } else if (token.type === 'op' && CLOSING.includes(token.value)) {
+        depth--;
+      }
+      collected.push(token);
+    }
+    return collected;
+  }
+
+  private expect(value: string): void {
+    if (this.is('op', value)) {
+      this.next();
+    }
+  }
+
+  /**
+   * Source text of a run of tokens, with comments dropped and line breaks and
+   * indentation collapsed, e.g. "(\n    url,\n    timeout=None,\n)" becomes "(url, timeout=None)".
+   */
+  private text(tokens: PythonToken[]): string {
+    let text = '';
+    tokens.forEach((token, index) => {
+      const previous = tokens[index - 1];
+      if (previous && token.start > previous.end && !OPENING.includes(previous.value) && !CLOSING.includes(token.value)) {
+        text += ' ';
+      }
+      text += this.source.slice(token.start, token.end);
+    });
+    return text.replace(/,\s*([)\]}])/g, '$1');
+  }
+}
+
+function splitArguments(bracketed: PythonToken[]): PythonToken[][] {
+  const inner = bracketed.slice(1, -1);
+  const parts: PythonToken[][] = [[]];
+  let depth = 0;
+  for (const token of inner) {
+    if (token.type === 'op' && OPENING.includes(token.value)) {
+      depth++;
+    } else if (token.type === 'op' && CLOSING.includes(token.value)) {
+      depth--;
+    }
+    if (depth === 0 && token.type === 'op' && token.value === ',') {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1].push(token);
+    }
+  }
+  return parts.filter(part => part.length > 0);
+}
+
+function parseFromImport(line: PythonToken[]): PythonImport[] {
+  const importAt = line.findIndex(token => token.type === 'name' && token.value === 'import');
+  if (importAt < 2) {
+    return [];
+  }
+  const module = line.slice(1, importAt).map(token => token.value).join('');
+  const names = line.slice(importAt + 1).filter(token => token.value !== '(' && token.value !== ')');
+
+  const imports: PythonImport[] = [];
+  for (let index = 0; index < names.length; index++) {
+    const token = names[index];
+    if (token.value === '*') {
+      imports.push({ module, name: '*', alias: '*' });
+    } else if (token.type === 'name') {
+      const hasAlias = names[index + 1]?.value === 'as' && names[index + 2]?.type === 'name';
+      imports.push({ module, name: token.value, alias: hasAlias ? names[index + 2].value : token.value });
+      if (hasAlias) {
+        index += 2;
+      }
+    }
+  }
+  return imports;
+}
+
+// The contents of a string literal, without its prefix and quotes
+export function stringValue(literal: string): string {
+  const quoteAt = literal.search(/["']/);
+  const quote = literal.startsWith('"""', quoteAt) || literal.startsWith("'''", quoteAt)
+    ? literal.slice(quoteAt, quoteAt + 3)
+    : literal[quoteAt];
+  const body = literal.slice(quoteAt + quote.length);
+  return body.endsWith(quote) ? body.slice(0, -quote.length) : body;
+}
+
+// First non-empty line of a docstring
+function docstringSummary(literal: string): string | undefined {
+  const line = stringValue(literal).split(/\r?\n/).map(part => part.trim()).find(Boolean);
+  return line || undefined;
+}
@@ -0,0 +1,410 @@
+/**
+ * TOML parsing for project manifests and lockfiles
+ * https://toml.io/en/v1.0.0
+ *
+ * Covers the whole syntax those files use. Dates and times are returned as
+ * the strings they were written as.
+ */
+
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+const BARE_KEY_PATTERN = /[A-Za-z0-9_-]/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}([Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?([Zz]|[+-]\d{2}:\d{2})?$|^\d{2}:\d{2}:\d{2}(\.\d+)?$/;
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  t: '\t',
+  n: '\n',
+  f: '\f',
+  r: '\r',
+  '"': '"',
+  '\\': '\\',
+};
+
+/**
+ * Parses a TOML document. Throws an Error naming the line of the first syntax error.
+ */
+export function parseToml(text: string): TomlTable {
+  return new TomlParser(text.replace(/\r\n/g, '\n')).parse();
+}
+
+export function isTomlTable(value: unknown): value is TomlTable {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+class TomlParser {
+  private position = 0;
+  private readonly root: TomlTable = {};
+  // Tables created by a header or a dotted key, which a later header may not redefine
+  private readonly defined = new Set<TomlTable>();
+  private readonly inline = new Set<TomlTable>();
+
+  constructor(private readonly text: string) {}
+
+  parse(): TomlTable {
+    let current = this.root;
+
+    for (;;) {
+      this.skipBlankLines();
+      if (this.position >= this.text.length) {
+        return this.root;
+      }
+
+      if (this.text.startsWith('[[', this.position)) {
+        this.position += 2;
+        const keys = this.parseKey();
+        this.expect(']]');
+        current = this.openArrayTable(keys);
+      } else if (this.peek() === '[') {
+        this.position++;
+        const keys = this.parseKey();
+        this.expect(']');
+        current = this.openTable(keys);
+      } else {
+        this.parseKeyValue(current);
+      }
+
+      this.expectLineEnd();
+    }
+  }
+
+  private openTable(keys: string[]): TomlTable {
+    const table = this.descend(this.root, keys.slice(0, -1));
+    const last = keys[keys.length - 1];
+    const existing = table[last];
+
+    if (existing === undefined) {
+      const created: TomlTable = {};
+      table[last] = created;
+      this.defined.add(created);
+      return created;
+    }
+    if (!isTomlTable(existing) || this.defined.has(existing) || this.inline.has(existing)) {
+      this.fail(`Table "${keys.join('.')}" is defined more than once`);
+    }
+    this.defined.add(existing);
+    return existing;
+  }
+
+  private openArrayTable(keys: string[]): TomlTable {
+    const table = this.descend(this.root, keys.slice(0, -1));
+    const last = keys[keys.length - 1];
+    const existing = table[last] ?? (table[last] = []);
+    if (!Array.isArray(existing)) {
+      this.fail(`Key "${keys.join('.')}" is not an array of tables`);
+    }
+
+    const created: TomlTable = {};
+    existing.push(created);
+    return created;
+  }
+
+  /**
+   * Walks to the table named by keys, creating implicit tables on the way.
+   * Arrays of tables resolve to their last element.
+   */
+  private descend(table: TomlTable, keys: string[]): TomlTable {
+    let current = table;
+    for (const key of keys) {
+      let next = current[key];
+      if (next === undefined) {
+        next = {};
+        current[key] = next;
+      }
+      if (Array.isArray(next)) {
+        next = next[next.length - 1];
+      }
+      if (!isTomlTable(next) || this.inline.has(next)) {
+        this.fail(`Key "${key}" is not a table`);
+      }
+      current = next;
+    }
+    return current;
+  }
+
+  private parseKeyValue(table: TomlTable): void {
+    const keys = this.parseKey();
+    this.skipSpaces();
+    this.expect('=');
+    this.skipSpaces();
+
+    const parent = this.descend(table, keys.slice(0, -1));
+    for (let depth = 1; depth < keys.length; depth++) {
+      this.defined.add(this.descend(table, keys.slice(0, depth)));
+    }
+
+    const last = keys[keys.length - 1];
+    if (last in parent) {
+      this.fail(`Key "${keys.join('.')}" is defined more than once`);
+    }
+    parent[last] = this.parseValue();
+  }
+
+  private parseKey(): string[] {
+    const keys: string[] = [];
+    for (;;) {
+      this.skipSpaces();
+      const char = this.peek();
+      if (char === '"') {
+        keys.push(this.parseBasicString());
+      } else if (char === "'") {
+        keys.push(this.parseLiteralString());
+      } else {
+        const start = this.position;
+        while (this.position < this.text.length && BARE_KEY_PATTERN.test(this.text[this.position])) {
+          this.position++;
+        }
+        if (start === this.position) {
+          this.fail('Expected a key');
+        }
+        keys.push(this.text.slice(start, this.position));
+      }
+
+      this.skipSpaces();
+      if (this.peek() !== '.') {
+        return keys;
+      }
+      this.position++;
+    }
+  }
+
+  private parseValue(): TomlValue {
+    const char = this.peek();
+
+    if (this.text.startsWith('"""', this.position)) {
+      return this.parseMultilineString('"""');
+    }
+    if (this.text.startsWith("'''", this.position)) {
+      return this.parseMultilineString("'''");
+    }
+    if (char === '"') {
+      return this.parseBasicString();
+    }
+    if (char === "'") {
+      return this.parseLiteralString();
+    }
+    if (char === '[') {
+      return this.parseArray();
+    }
+    if (char === '{') {
+      return this.parseInlineTable();
+    }
+
+    return this.parseScalar();
+  }
+
+  private parseBasicString(): string {
+    this.expect('"');
+    let value = '';
+    for (;;) {
+      const char = this.text[this.position++];
+      if (char === undefined || char === '\n') {
+        this.fail('Unterminated string');
+      }
+      if (char === '"') {
+        return value;
+      }
+      value += char === '\\' ? this.parseEscape() : char;
+    }
+  }
+
+  private parseLiteralString(): string {
+    this.expect("'");
+    const end = this.text.indexOf("'", this.position);
+    const newline = this.text.indexOf('\n', this.position);
+    if (end === -1 || (newline !== -1 && newline < end)) {
+      this.fail('Unterminated string');
+    }
+    const value = this.text.slice(this.position, end);
+    this.position = end + 1;
+    return value;
+  }
+
+  private parseMultilineString(delimiter: '"""' | "'''"): string {
+    this.position += 3;
+    // A newline right after the opening delimiter is trimmed
+    if (this.peek() === '\n') {
+      this.position++;
+    }
+
+    let value = '';
+    for (;;) {
+      if (this.position >= this.text.length) {
+        this.fail('Unterminated multi-line string');
+      }
+      if (this.text.startsWith(delimiter, this.position)) {
+        // Up to two quotes may directly precede the closing delimiter
+        let extra = 0;
+        while (extra < 2 && this.text[this.position + 3 + extra] === delimiter[0]) {
+          extra++;
+        }
+        value += delimiter[0].repeat(extra);
+        this.position += 3 + extra;
+        return value;
+      }
+
+      const char = this.text[this.position++];
+      if (delimiter === '"""' && char === '\\') {
+        // A line-ending backslash trims the newline and the whitespace after it
+        const rest = this.text.slice(this.position).match(/^[ \t]*\n\s*/);
+        if (rest) {
+          this.position += rest[0].length;
+          continue;
+        }
+        value += this.parseEscape();
+        continue;
+      }
+      value += char;
+    }
+  }
+
+  private parseEscape(): string {
+    const char = this.text[this.position++];
+    if (char in ESCAPES) {
+      return ESCAPES[char];
+    }
+    if (char === 'u' || char === 'U') {
+      const length = char === 'u' ? 4 : 8;
+      const hex = this.text.slice(this.position, this.position + length);
+      if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) {
+        this.fail('Invalid unicode escape');
+      }
+      this.position += length;
+      return String.fromCodePoint(parseInt(hex, 16));
+    }
+    this.fail(`Invalid escape sequence "\\${char}"`);
+  }
+
+  private parseArray(): TomlValue[] {
+    this.expect('[');
+    const values: TomlValue[] = [];
+    for (;;) {
+      this.skipBlankLines();
+      if (this.peek() === ']') {
+        this.position++;
+        return values;
+      }
+
+      values.push(this.parseValue());
+      this.skipBlankLines();
+      if (this.peek() === ',') {
+        this.position++;
+      } else if (this.peek() !== ']') {
+        this.fail('Expected "," or "]" in array');
+      }
+    }
+  }
+
+  private parseInlineTable(): TomlTable {
+    this.expect('{');
+    const table: TomlTable = {};
+    this.inline.add(table);
+    this.skipSpaces();
+    if (this.peek() === '}') {
+      this.position++;
+      return table;
+    }
+
+    for (;;) {
+      this.parseKeyValue(table);
+      this.skipSpaces();
+      const char = this.text[this.position++];
+      if (char === '}') {
+        return table;
+      }
+      if (char !== ',') {
+        this.fail('Expected "," or "}" in inline table');
+      }
+      this.skipSpaces();
+    }
+  }
+
+  private parseScalar(): TomlValue {
+    const match = this.text.slice(this.position).match(/^[^\s,\]}#]+/);
+    if (!match) {
+      this.fail('Expected a value');
+    }
+    let token = match[0];
+    this.position += token.length;
+
+    // A space may separate the date from the time
+    const time = /^\d{4}-\d{2}-\d{2}$/.test(token) && this.text.slice(this.position).match(/^ \d{2}:\d{2}[^\s,\]}#]*/);
+    if (time) {
+      token += time[0];
+      this.position += time[0].length;
+    }
+
+    if (token === 'true' || token === 'false') {
+      return token === 'true';
+    }
+    if (DATE_TIME_PATTERN.test(token)) {
+      return token;
+    }
+    if (/^[+-]?(inf|nan)$/.test(token)) {
+      return token.endsWith('nan') ? NaN : token.startsWith('-') ? -Infinity : Infinity;
+    }
+    if (/^0x[0-9A-Fa-f_]+$|^0o[0-7_]+$|^0b[01_]+$/.test(token)) {
+      return Number(token.replace(/_/g, ''));
+    }
+    if (/^[+-]?(0|[1-9](_?\d)*)(\.\d(_?\d)*)?([eE][+-]?\d(_?\d)*)?$/.test(token)) {
+      return Number(token.replace(/_/g, ''));
+    }
+
+    this.fail(`Invalid value "${token}"`);
+  }
+
+  private expectLineEnd(): void {
+    this.skipSpaces();
+    if (this.peek() === '#') {
+      this.skipComment();
+    }
+    if (this.position < this.text.length && this.text[this.position++] !== '\n') {
+      this.fail('Expected a newline');
+    }
+  }
+
+  private skipBlankLines(): void {
+    for (;;) {
+      this.skipSpaces();
+      const char = this.peek();
+      if (char === '#') {
+        this.skipComment();
+      } else if (char === '\n') {
+        this.position++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipComment(): void {
+    const end = this.text.indexOf('\n', this.position);
+    this.position = end === -1 ? this.text.length : end;
+  }
+
+  private skipSpaces(): void {
+    while (this.peek() === ' ' || this.peek() === '\t') {
+      this.position++;
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.text[this.position];
+  }
+
+  private expect(token: string): void {
+    if (!this.text.startsWith(token, this.position)) {
+      this.fail(`Expected "${token}"`);
+    }
+    this.position += token.length;
+  }
+
+  private fail(message: string): never {
+    const line = this.text.slice(0, this.position).split('\n').length;
+    throw new Error(`Invalid TOML at line ${line}: ${message}`);
+  }
+}
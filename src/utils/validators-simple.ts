@@ -1,4 +1,8 @@
-import { PackageReadmeMcpError } from '../types/index.js';
+import { PackageReadmeMcpError, TargetPlatform } from '../types/index.js';
+import { DEPENDENCY_TREE_CONFIG } from '../config/constants.js';
+import { isValidSpecifierSet, isValidVersion, isVersionSpecifier } from './pep440.js';
+
+const TARGET_PLATFORMS: TargetPlatform[] = ['linux', 'darwin', 'win32'];
 
 /**
  * Simplified package name validation
@@ -41,10 +45,54 @@ export function validateSearchLimit(limit: number): void {
 }
 
 /**
- * Validates version string
+ * Validates a PEP 440 version or version specifier set
  */
 export function validateVersion(version: string): void {
   if (!version?.trim()) {
     throw new PackageReadmeMcpError('Version is required', 'VALIDATION_ERROR');
   }
-}
\ No newline at end of file
+
+  const trimmed = version.trim();
+  const valid = isVersionSpecifier(trimmed) ? isValidSpecifierSet(trimmed) : isValidVersion(trimmed);
+  if (!valid) {
+    throw new PackageReadmeMcpError(
+      `Invalid version "${trimmed}". Use a PEP 440 version (e.g. "2.28.1") or specifier set (e.g. "~=2.28", ">=1.2,<2")`,
+      'VALIDATION_ERROR'
+    );
+  }
+}
+/**
+ * Validates the depth limit of a dependency tree
+ */
+export function validateMaxDepth(maxDepth: number): void {
+  if (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > DEPENDENCY_TREE_CONFIG.MAX_DEPTH) {
+    throw new PackageReadmeMcpError(
+      `max_depth must be an integer between 0 and ${DEPENDENCY_TREE_CONFIG.MAX_DEPTH}`,
+      'VALIDATION_ERROR'
+    );
+  }
+}
+
+/**
+ * Validates a target Python version such as "3.11" or "3.11.4"
+ */
+export function validatePythonVersion(pythonVersion: string): void {
+  if (typeof pythonVersion !== 'string' || !/^3\.\d+(\.\d+)?$/.test(pythonVersion.trim())) {
+    throw new PackageReadmeMcpError(
+      `Invalid python_version "${pythonVersion}". Use a Python 3 version such as "3.11" or "3.11.4"`,
+      'VALIDATION_ERROR'
+    );
+  }
+}
+
+/**
+ * Validates a target platform for environment markers
+ */
+export function validatePlatform(platform: string): void {
+  if (!TARGET_PLATFORMS.includes(platform as TargetPlatform)) {
+    throw new PackageReadmeMcpError(
+      `Invalid platform "${platform}". Use one of: ${TARGET_PLATFORMS.join(', ')}`,
+      'VALIDATION_ERROR'
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { PackageReadmeMcpError } from '../types/index.js';
 import { VALIDATION_LIMITS } from '../config/constants.js';
+import { isValidVersion } from './pep440.js';
 
 /**
  * Validates a Python package name according to PEP 508 naming conventions
@@ -136,11 +137,7 @@ export function validateVersion(version: string): void {
     return;
   }
 
-  // Basic PEP 440 version validation
-  // This is a simplified version - full PEP 440 is quite complex
-  const versionPattern = /^([0-9]+!)?([0-9]+(\.[0-9]+)*)((a|b|rc)[0-9]+)?(\.post[0-9]+)?(\.dev[0-9]+)?$/;
-  
-  if (!versionPattern.test(trimmed)) {
+  if (!isValidVersion(trimmed)) {
     throw new PackageReadmeMcpError(
       'Invalid version format. Must follow PEP 440 versioning scheme.',
       'INVALID_VERSION'
@@ -0,0 +1,123 @@
+/**
+ * Interpretation of PEP 425 wheel compatibility tags
+ * https://packaging.python.org/en/latest/specifications/platform-compatibility-tags/
+ */
+
+import { PlatformTagInfo } from '../types/index.js';
+import { parseSpecifierSet, satisfiesSpecifiers } from './pep440.js';
+import { WheelTags } from './distribution-filename.js';
+
+// Architecture spellings across platforms, mapped to one name
+const ARCHITECTURE_ALIASES: Record<string, string> = {
+  amd64: 'x86_64',
+  x64: 'x86_64',
+  arm64: 'aarch64',
+  win32: 'i686',
+  x86: 'i686',
+  i386: 'i686',
+  ppc64el: 'ppc64le',
+};
+
+// Fat binaries of macOS
+const MACOS_MULTI_ARCHITECTURES: Record<string, string[]> = {
+  universal2: ['x86_64', 'aarch64'],
+  intel: ['x86_64', 'i686'],
+  fat: ['i686', 'ppc'],
+  fat3: ['x86_64', 'i686', 'ppc'],
+  fat64: ['x86_64', 'ppc64'],
+  universal: ['x86_64', 'i686', 'ppc64', 'ppc'],
+};
+
+// Legacy manylinux tags and the glibc versions they stand for (PEP 600)
+const LEGACY_MANYLINUX: Record<string, string> = {
+  manylinux1: '2.5',
+  manylinux2010: '2.12',
+  manylinux2014: '2.17',
+};
+
+export function normalizeArchitecture(architecture: string): string {
+  const lower = architecture.toLowerCase();
+  return ARCHITECTURE_ALIASES[lower] ?? lower;
+}
+
+/**
+ * Describes the platform a wheel platform tag targets, e.g. "manylinux_2_17_aarch64"
+ * is Linux on aarch64 with glibc 2.17 or newer.
+ */
+export function parsePlatformTag(tag: string): PlatformTagInfo {
+  if (tag === 'any') {
+    return { tag, platform: 'any', architectures: [] };
+  }
+
+  const manylinux = tag.match(/^manylinux_(\d+)_(\d+)_(.+)$/);
+  if (manylinux) {
+    return { tag, platform: 'linux', architectures: [normalizeArchitecture(manylinux[3])], libc: 'glibc', min_os_version: `${manylinux[1]}.${manylinux[2]}` };
+  }
+  const legacy = tag.match(/^(manylinux1|manylinux2010|manylinux2014)_(.+)$/);
+  if (legacy) {
+    return { tag, platform: 'linux', architectures: [normalizeArchitecture(legacy[2])], libc: 'glibc', min_os_version: LEGACY_MANYLINUX[legacy[1]] };
+  }
+  const musllinux = tag.match(/^musllinux_(\d+)_(\d+)_(.+)$/);
+  if (musllinux) {
+    return { tag, platform: 'linux', architectures: [normalizeArchitecture(musllinux[3])], libc: 'musl', min_os_version: `${musllinux[1]}.${musllinux[2]}` };
+  }
+  const linux = tag.match(/^linux_(.+)$/);
+  if (linux) {
+    return { tag, platform: 'linux', architectures: [normalizeArchitecture(linux[1])], libc: 'glibc' };
+  }
+
+  const macos = tag.match(/^macosx_(\d+)_(\d+)_(.+)$/);
+  if (macos) {
+    const architectures = MACOS_MULTI_ARCHITECTURES[macos[3]] ?? [normalizeArchitecture(macos[3])];
+    return { tag, platform: 'darwin', architectures, min_os_version: `${macos[1]}.${macos[2]}` };
+  }
+
+  if (tag === 'win32') {
+    return { tag, platform: 'win32', architectures: ['i686'] };
+  }
+  const windows = tag.match(/^win_(.+)$/);
+  if (windows) {
+    return { tag, platform: 'win32', architectures: [normalizeArchitecture(windows[1])] };
+  }
+
+  return { tag, platform: 'other', architectures: [] };
+}
+
+/**
+ * Whether a wheel installs on CPython of the given "3.12"-style version. Binary
+ * wheels need their exact CPython tag, or an older one with the stable ABI (abi3);
+ * generic "py" tags match the same or an older version, subject to Requires-Python.
+ * Free-threaded builds (e.g. cp313t) are not the default interpreter and do not match.
+ */
+export function supportsPython(tags: WheelTags, pythonVersion: string, requiresPython?: string): boolean {
+  const [major, minor] = pythonVersion.split('.').map(Number);
+  if (requiresPython) {
+    const specifiers = parseSpecifierSet(requiresPython);
+    if (specifiers && !satisfiesSpecifiers(`${major}.${minor}`, specifiers)) {
+      return false;
+    }
+  }
+
+  return tags.python_tags.some(pythonTag => {
+    const match = pythonTag.match(/^(py|cp)(\d)(\d*)$/);
+    if (!match || Number(match[2]) !== major) {
+      return false;
+    }
+    const tagMinor = match[3] === '' ? undefined : Number(match[3]);
+
+    if (match[1] === 'py') {
+      return tagMinor === undefined || tagMinor <= minor;
+    }
+    return tags.abi_tags.some(abi => {
+      if (abi === 'abi3') {
+        return tagMinor === undefined || tagMinor <= minor;
+      }
+      return (abi === 'none' || /^cp\d+[dm]*$/.test(abi)) && tagMinor === minor;
+    });
+  });
+}
+
+// Whether a wheel installs on any interpreter and platform
+export function isPureWheel(tags: WheelTags): boolean {
+  return tags.platform_tags.includes('any') && tags.abi_tags.includes('none');
+}
@@ -0,0 +1,89 @@
+/**
+ * Reading single entries of a ZIP archive (such as a wheel) from byte ranges,
+ * without downloading the whole archive
+ * https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;   // 0: stored, 8: deflate
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipCentralDirectory {
+  offset: number;   // From the start of the archive
+  size: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP64_MARKER = 0xffffffff;
+
+export const LOCAL_HEADER_SIZE = 30;
+
+// The end record is followed by a comment of at most 64 KiB
+export const ZIP_TAIL_SIZE = END_OF_CENTRAL_DIRECTORY_SIZE + 0xffff;
+
+/**
+ * Finds the central directory from the last bytes of an archive. Returns null
+ * when the end record is missing or the archive needs ZIP64, which wheels
+ * reach only above 4 GiB.
+ */
+export function findCentralDirectory(tail: Buffer): ZipCentralDirectory | null {
+  for (let position = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; position >= 0; position--) {
+    if (tail.readUInt32LE(position) !== END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      continue;
+    }
+    const size = tail.readUInt32LE(position + 12);
+    const offset = tail.readUInt32LE(position + 16);
+    return size === ZIP64_MARKER || offset === ZIP64_MARKER ? null : { offset, size };
+  }
+  return null;
+}
+
+export function parseCentralDirectory(directory: Buffer): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  let position = 0;
+
+  while (position + 46 <= directory.length && directory.readUInt32LE(position) === CENTRAL_DIRECTORY_SIGNATURE) {
+    const nameLength = directory.readUInt16LE(position + 28);
+    const extraLength = directory.readUInt16LE(position + 30);
+    const commentLength = directory.readUInt16LE(position + 32);
+
+    entries.push({
+      name: directory.toString('utf8', position + 46, position + 46 + nameLength),
+      compressionMethod: directory.readUInt16LE(position + 10),
+      compressedSize: directory.readUInt32LE(position + 20),
+      uncompressedSize: directory.readUInt32LE(position + 24),
+      localHeaderOffset: directory.readUInt32LE(position + 42),
+    });
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// Offset of an entry's data from the start of its local header
+export function localDataOffset(localHeader: Buffer): number {
+  if (localHeader.length < LOCAL_HEADER_SIZE || localHeader.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error('Invalid ZIP local file header');
+  }
+  return LOCAL_HEADER_SIZE + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+}
+
+export function extractEntry(entry: ZipEntry, data: Buffer): Buffer {
+  const compressed = data.subarray(0, entry.compressedSize);
+  switch (entry.compressionMethod) {
+    case 0:
+      return compressed;
+    case 8:
+      return inflateRawSync(compressed);
+    default:
+      throw new Error(`Unsupported ZIP compression method ${entry.compressionMethod} for ${entry.name}`);
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { loadTransportConfig } from '../../src/config/transport.js';
+import { PackageReadmeMcpError } from '../../src/types/index.js';
+
+describe('loadTransportConfig', () => {
+  it('should default to stdio', () => {
+    expect(loadTransportConfig([], {})).toEqual({
+      mode: 'stdio',
+      host: '127.0.0.1',
+      port: 3000,
+      corsOrigins: [],
+      authToken: undefined,
+      sessionTimeout: 1800000,
+    });
+  });
+
+  it('should read the environment', () => {
+    expect(loadTransportConfig([], {
+      MCP_TRANSPORT: 'http',
+      MCP_HOST: '0.0.0.0',
+      MCP_PORT: '8080',
+      MCP_CORS_ORIGINS: 'https://app.example.com, https://admin.example.com/',
+      MCP_AUTH_TOKEN: 'team-token',
+      MCP_SESSION_TIMEOUT: '300',
+    })).toEqual({
+      mode: 'http',
+      host: '0.0.0.0',
+      port: 8080,
+      corsOrigins: ['https://app.example.com', 'https://admin.example.com'],
+      authToken: 'team-token',
+      sessionTimeout: 300000,
+    });
+  });
+
+  it('should prefer flags over the environment and accumulate repeated origins', () => {
+    const config = loadTransportConfig(
+      ['--transport', 'http', '--port=9000', '--cors-origin', 'https://a.example.com', '--cors-origin=https://b.example.com', '--auth-token', 'flag-token'],
+      { MCP_TRANSPORT: 'stdio', MCP_PORT: '8080', MCP_AUTH_TOKEN: 'env-token' }
+    );
+
+    expect(config.mode).toBe('http');
+    expect(config.port).toBe(9000);
+    expect(config.corsOrigins).toEqual(['https://a.example.com', 'https://b.example.com']);
+    expect(config.authToken).toBe('flag-token');
+  });
+
+  it('should keep idle sessions open with a session timeout of 0', () => {
+    expect(loadTransportConfig(['--session-timeout', '0'], { MCP_SESSION_TIMEOUT: '60' }).sessionTimeout).toBe(0);
+  });
+
+  it('should allow any origin with *', () => {
+    expect(loadTransportConfig(['--cors-origin', '*'], {}).corsOrigins).toEqual(['*']);
+  });
+
+  it('should reject invalid configuration', () => {
+    const invalid: Array<[string[], NodeJS.ProcessEnv]> = [
+      [['--transport', 'websocket'], {}],
+      [[], { MCP_PORT: '70000' }],
+      [['--port', 'http'], {}],
+      [['--port'], {}],
+      [['--host', '--port', '80'], {}],
+      [['--cors-origin', 'app.example.com'], {}],
+      [['--verbose'], {}],
+      [['--session-timeout', '1.5'], {}],
+      [[], { MCP_SESSION_TIMEOUT: '-60' }],
+    ];
+
+    for (const [argv, env] of invalid) {
+      expect(() => loadTransportConfig(argv, env)).toThrow(PackageReadmeMcpError);
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getPackagePrompt, PROMPT_DEFINITIONS } from '../../src/prompts/package-prompts.js';
+import { pypiClient } from '../../src/services/pypi-api.js';
+import { getPackageReadme } from '../../src/tools/get-package-readme.js';
+import { getPackageInfo } from '../../src/tools/get-package-info.js';
+import { getReleaseHistory } from '../../src/tools/get-release-history.js';
+import { getVulnerabilities } from '../../src/tools/get-vulnerabilities.js';
+import { PackageNotFoundError } from '../../src/types/index.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/tools/get-package-readme.js', () => ({ getPackageReadme: vi.fn() }));
+vi.mock('../../src/tools/get-package-info.js', () => ({ getPackageInfo: vi.fn() }));
+vi.mock('../../src/tools/get-release-history.js', () => ({ getReleaseHistory: vi.fn() }));
+vi.mock('../../src/tools/get-vulnerabilities.js', () => ({ getVulnerabilities: vi.fn() }));
+
+const readmeOf = (packageName: string, version: string) => ({
+  package_name: packageName,
+  version,
+  description: `${packageName} summary`,
+  readme_content: `# ${packageName} ${version}`,
+  usage_examples: [],
+  exists: true,
+});
+
+const history = {
+  latest_version: '2.1',
+  total_releases: 4,
+  statistics: { releases_last_365_days: 2 },
+  releases: [
+    { version: '2.1', upload_time: '2024-06-01T00:00:00.000Z', yanked: false, prerelease: false },
+    { version: '2.0', upload_time: '2024-01-01T00:00:00.000Z', yanked: true, yanked_reason: 'broken', prerelease: false },
+    { version: '1.1', upload_time: '2023-06-01T00:00:00.000Z', yanked: false, prerelease: false },
+    { version: '1.0', upload_time: '2023-01-01T00:00:00.000Z', yanked: false, prerelease: false },
+  ],
+};
+
+const messageText = (message: any) => message.content.type === 'resource' ? message.content.resource.text : message.content.text;
+
+describe('package prompts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getPackageReadme).mockImplementation(async ({ package_name, version }) =>
+      readmeOf(package_name, !version || version === 'latest' ? '2.1' : version.replace(/^[~=<>!]+/, '')) as any);
+    vi.mocked(getPackageInfo).mockImplementation(async ({ package_name }) => ({ package_name, license: 'MIT', dependencies: [] }) as any);
+    vi.mocked(getReleaseHistory).mockResolvedValue(history as any);
+    vi.mocked(getVulnerabilities).mockResolvedValue({ vulnerabilities: [{ id: 'PYSEC-1' }] } as any);
+    vi.spyOn(pypiClient, 'getVersionInfo').mockImplementation(async (name, version) =>
+      ({ info: { name, version, license: `License of ${version}`, requires_python: '>=3.8', requires_dist: ['idna>=2'] } }) as any);
+  });
+
+  it('should define the prompts with their arguments', () => {
+    expect(PROMPT_DEFINITIONS.map(prompt => [prompt.name, prompt.arguments?.filter(argument => argument.required).map(argument => argument.name)])).toEqual([
+      ['evaluate-package', ['package']],
+      ['migrate-between-versions', ['package', 'from_version']],
+      ['choose-between-packages', ['packages']],
+    ]);
+  });
+
+  it('should embed the README, metadata, releases and vulnerabilities to evaluate a package', async () => {
+    const result = await getPackagePrompt('evaluate-package', { package: 'example', version: '>=2.1', use_case: 'parsing' });
+
+    expect(result.description).toBe('Evaluate example 2.1');
+    expect(result.messages).toHaveLength(5);
+    expect(result.messages.every(message => message.role === 'user')).toBe(true);
+    expect(messageText(result.messages[0])).toContain('Evaluate the Python package example 2.1 for this use case: parsing.');
+    expect(result.messages[1].content).toEqual({
+      type: 'resource',
+      resource: { uri: 'pip://example@2.1/readme', mimeType: 'text/markdown', text: '# example 2.1' },
+    });
+    expect(messageText(result.messages[2])).toContain('"license": "License of 2.1"');
+    expect(messageText(result.messages[2])).toContain('"dependencies": [\n    "idna>=2"\n  ]');
+    expect(pypiClient.getVersionInfo).toHaveBeenCalledWith('example', '2.1');
+    expect(messageText(result.messages[3])).toContain('"yanked_releases": [\n    "2.0"\n  ]');
+    expect(messageText(result.messages[4])).toContain('PYSEC-1');
+    expect(getVulnerabilities).toHaveBeenCalledWith({ package_name: 'example', version: '2.1' });
+  });
+
+  it('should leave out supporting data that cannot be fetched', async () => {
+    vi.mocked(getVulnerabilities).mockRejectedValue(new Error('OSV unavailable'));
+
+    const result = await getPackagePrompt('evaluate-package', { package: 'example' });
+
+    expect(messageText(result.messages[4])).toBe('Known vulnerabilities of 2.1 (get_vulnerabilities_from_pip): not available.');
+  });
+
+  it('should compare two versions for a migration', async () => {
+    vi.spyOn(pypiClient, 'getVersionInfo').mockImplementation(async (_name, version) => ({
+      info: version === '1.0'
+        ? { requires_python: '>=3.7', requires_dist: ['idna>=2', 'chardet<5', 'PySocks!=1.5.7; extra == "socks"'] }
+        : { requires_python: '>=3.9', requires_dist: ['idna>=3', 'charset-normalizer<4', 'PySocks>=1.5.6; extra == "socks"'] },
+    }) as any);
+
+    const result = await getPackagePrompt('migrate-between-versions', { package: 'example', from_version: '1.0' });
+
+    expect(result.description).toBe('Migrate example from 1.0 to 2.1');
+    expect(result.messages.slice(1, 3).map(message => (message.content as any).resource.uri)).toEqual(['pip://example@1.0/readme', 'pip://example@2.1/readme']);
+
+    const changes = JSON.parse(messageText(result.messages[3]).split('```json\n')[1].split('\n```')[0]);
+    expect(changes).toEqual({
+      requires_python: { from: '>=3.7', to: '>=3.9' },
+      added: ['charset-normalizer<4'],
+      removed: ['chardet<5'],
+      changed: [
+        { name: 'idna', from: 'idna>=2', to: 'idna>=3' },
+        { name: 'PySocks', from: 'PySocks!=1.5.7; extra == "socks"', to: 'PySocks>=1.5.6; extra == "socks"' },
+      ],
+    });
+    expect(messageText(result.messages[4])).toContain('"version": "2.0"');
+    expect(messageText(result.messages[4])).not.toContain('"version": "1.0"');
+  });
+
+  it('should reject migrations that do not go forward', async () => {
+    await expect(getPackagePrompt('migrate-between-versions', { package: 'example', from_version: '2.1' })).rejects.toThrow('2.1 is not older than 2.1');
+    await expect(getPackagePrompt('migrate-between-versions', { package: 'example' })).rejects.toThrow('from_version is required');
+  });
+
+  it('should embed every candidate to choose between packages', async () => {
+    const result = await getPackagePrompt('choose-between-packages', { packages: 'httpx, requests' });
+
+    expect(result.description).toBe('Choose between httpx, requests');
+    expect(result.messages).toHaveLength(5);
+    expect(messageText(result.messages[2])).toContain('"vulnerabilities": [\n    "PYSEC-1"\n  ]');
+    expect(messageText(result.messages[2])).toContain('"yanked_releases": [\n      "2.0"\n    ]');
+    // Release statistics cover every release, not only the listed ones
+    expect(getReleaseHistory).toHaveBeenCalledWith({ package_name: 'requests', include_files: false });
+  });
+
+  it('should reject packages and versions that do not exist', async () => {
+    vi.mocked(getPackageReadme).mockImplementation(async ({ package_name, version }) =>
+      ({ ...readmeOf(package_name, version ?? 'latest'), exists: package_name !== 'missing' && version !== '9.0' }) as any);
+
+    await expect(getPackagePrompt('evaluate-package', { package: 'missing' })).rejects.toThrow(PackageNotFoundError);
+    await expect(getPackagePrompt('migrate-between-versions', { package: 'example', from_version: '1.0', to_version: '9.0' }))
+      .rejects.toThrow("Package 'example@9.0' not found");
+    await expect(getPackagePrompt('choose-between-packages', { packages: 'requests, missing' })).rejects.toThrow(PackageNotFoundError);
+    expect(getPackageInfo).not.toHaveBeenCalledWith({ package_name: 'missing' });
+  });
+
+  it('should validate prompt arguments', async () => {
+    await expect(getPackagePrompt('choose-between-packages', { packages: 'requests' })).rejects.toThrow('2 to 5 packages');
+    await expect(getPackagePrompt('evaluate-package', {})).rejects.toThrow('package is required');
+    await expect(getPackagePrompt('unknown', {})).rejects.toThrow('Unknown prompt: unknown');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseResourceUri, readPackageResource, RESOURCE_TEMPLATES } from '../../src/resources/package-resources.js';
+import { PackageReadmeService } from '../../src/services/package-readme/index.js';
+import { getPackageInfo } from '../../src/tools/get-package-info.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/tools/get-package-info.js', () => ({
+  getPackageInfo: vi.fn(),
+}));
+
+const readme = {
+  package_name: 'requests',
+  version: '2.32.3',
+  description: 'Python HTTP for Humans.',
+  readme_content: '# Requests\n\nHTTP for Humans.',
+  usage_examples: [
+    { title: 'Quickstart', description: 'Make a request', code: 'r = requests.get("https://example.com")\nr.status_code', language: 'python', expected_output: '200' },
+  ],
+  exists: true,
+};
+
+describe('package resources', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(PackageReadmeService.prototype, 'getPackageReadme').mockResolvedValue(readme as any);
+  });
+
+  it('should parse resource URIs', () => {
+    expect(parseResourceUri('pip://requests/readme')).toEqual({ packageName: 'requests', version: 'latest', kind: 'readme' });
+    expect(parseResourceUri('pip://requests@2.31.0/examples')).toEqual({ packageName: 'requests', version: '2.31.0', kind: 'examples' });
+    expect(parseResourceUri('pip://requests@%7E%3D2.28/readme')).toMatchObject({ version: '~=2.28' });
+  });
+
+  it('should reject unknown resource URIs', () => {
+    expect(() => parseResourceUri('pip://requests/changelog')).toThrow('Unknown resource URI');
+    expect(() => parseResourceUri('npm://requests/readme')).toThrow('Unknown resource URI');
+    expect(() => parseResourceUri('pip://requests@2.31.0/info')).toThrow('latest release');
+    expect(() => parseResourceUri('pip://-bad-/readme')).toThrow('Invalid package name format');
+  });
+
+  it('should read a README through the package README service', async () => {
+    const result = await readPackageResource('pip://requests@2.32.3/readme');
+
+    expect(PackageReadmeService.prototype.getPackageReadme).toHaveBeenCalledWith({ package_name: 'requests', version: '2.32.3' });
+    expect(result.contents).toEqual([{ uri: 'pip://requests@2.32.3/readme', mimeType: 'text/markdown', text: '# Requests\n\nHTTP for Humans.' }]);
+  });
+
+  it('should render usage examples as Markdown', async () => {
+    const result = await readPackageResource('pip://requests/examples');
+
+    expect(result.contents[0].text).toBe([
+      '# Usage examples for requests 2.32.3',
+      '',
+      '## Quickstart',
+      '',
+      'Make a request',
+      '',
+      '```python',
+      'r = requests.get("https://example.com")',
+      'r.status_code',
+      '```',
+      '',
+      'Output:',
+      '',
+      '```text',
+      '200',
+      '```',
+      '',
+    ].join('\n'));
+  });
+
+  it('should reject packages and versions that do not exist', async () => {
+    vi.mocked(PackageReadmeService.prototype.getPackageReadme).mockImplementation(async ({ package_name, version }) =>
+      ({ ...readme, package_name, version, description: 'Package not found', readme_content: '', exists: false }) as any);
+
+    await expect(readPackageResource('pip://nope/readme')).rejects.toThrow("Package 'nope' not found");
+    await expect(readPackageResource('pip://requests@9.9.9/examples')).rejects.toThrow("Package 'requests@9.9.9' not found");
+  });
+
+  it('should read package info as JSON', async () => {
+    vi.mocked(getPackageInfo).mockResolvedValue({ package_name: 'requests', latest_version: '2.32.3' } as any);
+
+    const result = await readPackageResource('pip://requests/info');
+
+    expect(getPackageInfo).toHaveBeenCalledWith({ package_name: 'requests' });
+    expect(result.contents[0]).toMatchObject({ mimeType: 'application/json' });
+    expect(JSON.parse(result.contents[0].text as string)).toEqual({ package_name: 'requests', latest_version: '2.32.3' });
+  });
+
+  it('should publish a template for every resource', () => {
+    expect(RESOURCE_TEMPLATES.map(template => template.uriTemplate)).toEqual([
+      'pip://{package}/readme',
+      'pip://{package}@{version}/readme',
+      'pip://{package}/info',
+      'pip://{package}/examples',
+      'pip://{package}@{version}/examples',
+    ]);
+  });
+});
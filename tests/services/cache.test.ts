@@ -17,6 +17,11 @@ vi.mock('../../src/config/constants.js', () => ({
     MIN_TTL: 100,
     DEFAULT_MAX_SIZE: 10485760, // 10MB
     DEFAULT_TTL: 300000, // 5 minutes
+    DEFAULT_DISK_MAX_SIZE: 10485760,
+    DISK_DIRECTORY_NAME: 'cache',
+  },
+  SEARCH_INDEX_CONFIG: {
+    DIRECTORY_NAME: 'pip-package-readme-mcp',
   },
 }));
 
@@ -43,6 +48,15 @@ describe('MemoryCache', () => {
       expect(stats.defaultTtl).toBe(300000);
     });
 
+    it('should count hits and misses', () => {
+      memoryCache.set('key1', 'value1');
+      memoryCache.get('key1');
+      memoryCache.get('key1');
+      memoryCache.get('missing');
+
+      expect(memoryCache.getStats()).toMatchObject({ hits: 2, misses: 1, evictions: 0 });
+    });
+
     it('should use custom options when provided', () => {
       const cache = new MemoryCache({
         maxSize: 2048,
@@ -264,17 +278,41 @@ describe('MemoryCache', () => {
   });
 
   describe('size limit enforcement', () => {
-    it('should clear cache when size limit is exceeded', () => {
-      // Create a cache with small size limit
+    it('should evict least recently used entries instead of clearing the cache', () => {
+      // Each 200-character string is estimated at 404 bytes; two fit in the 1024-byte minimum
       const smallCache = new MemoryCache({ maxSize: 100 });
-      
-      // Add data that should exceed the limit
-      const largeData = 'x'.repeat(200);
-      
-      smallCache.set('key1', largeData);
-      
-      // Cache should be cleared due to size limit
-      expect(smallCache.size()).toBe(1); // The new entry should still be there
+
+      smallCache.set('key1', 'a'.repeat(200));
+      smallCache.set('key2', 'b'.repeat(200));
+      smallCache.get('key1');
+      smallCache.set('key3', 'c'.repeat(200));
+
+      expect(smallCache.size()).toBe(2);
+      expect(smallCache.get('key1')).not.toBeNull();
+      expect(smallCache.get('key2')).toBeNull();
+      expect(smallCache.get('key3')).not.toBeNull();
+      expect(smallCache.getStats().evictions).toBe(1);
+      expect(smallCache.getStats().estimatedMemoryUsage).toBe(808);
+    });
+
+    it('should refuse entries larger than the whole budget', () => {
+      const smallCache = new MemoryCache({ maxSize: 100 });
+      smallCache.set('key1', 'small');
+
+      smallCache.set('huge', 'x'.repeat(1000));
+
+      expect(smallCache.get('huge')).toBeNull();
+      expect(smallCache.get('key1')).toBe('small');
+      expect(smallCache.getStats().evictions).toBe(0);
+    });
+
+    it('should account for replaced and deleted entries', () => {
+      memoryCache.set('key1', 'x'.repeat(100));
+      memoryCache.set('key1', 'x'.repeat(10));
+      expect(memoryCache.getStats().estimatedMemoryUsage).toBe(24);
+
+      memoryCache.delete('key1');
+      expect(memoryCache.getStats().estimatedMemoryUsage).toBe(0);
     });
 
     it('should estimate object size correctly', () => {
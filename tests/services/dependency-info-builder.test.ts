@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DependencyInfoBuilder } from '../../src/services/package-readme/dependency-info-builder.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+describe('DependencyInfoBuilder', () => {
+  const build = (requiresDist: string[]) =>
+    new DependencyInfoBuilder().build({ info: { name: 'example', requires_dist: requiresDist } } as any);
+
+  it('should separate runtime dependencies from extras without truncating', () => {
+    const runtime = Array.from({ length: 25 }, (_, i) => `dep${i}>=1.${i}`);
+
+    const result = build([
+      ...runtime,
+      'pytest>=7; extra == "test"',
+      'PySocks!=1.5.7,>=1.5.6; extra == "socks"',
+    ]);
+
+    expect(result.dependencies).toHaveLength(25);
+    expect(result.dependencies[24]).toMatchObject({ name: 'dep24', specifier: '>=1.24' });
+    expect(Object.keys(result.optional_dependencies)).toEqual(['test', 'socks']);
+    expect(result.optional_dependencies.socks[0]).toMatchObject({ name: 'PySocks', specifier: '!=1.5.7,>=1.5.6' });
+  });
+
+  it('should keep markers on runtime dependencies', () => {
+    const result = build(['tomli>=1.1; python_version < "3.11"']);
+
+    expect(result.dependencies[0].marker).toEqual({
+      type: 'comparison',
+      variable: 'python_version',
+      operator: '<',
+      value: '3.11',
+    });
+  });
+
+  it('should list a requirement under every extra that names it', () => {
+    const result = build(['coverage; extra == "test" or extra == "Dev"']);
+
+    expect(result.dependencies).toEqual([]);
+    expect(result.optional_dependencies.test[0].name).toBe('coverage');
+    expect(result.optional_dependencies.dev[0].name).toBe('coverage');
+  });
+
+  it('should skip requirements that cannot be parsed', () => {
+    const result = build(['valid', 'broken[extra']);
+
+    expect(result.dependencies.map(dependency => dependency.name)).toEqual(['valid']);
+  });
+});
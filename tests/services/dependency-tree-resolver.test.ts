@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DependencyTreeResolver } from '../../src/services/dependency-tree/index.js';
+import { cache } from '../../src/services/cache.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+type Release = { requires_dist?: string[]; requires_python?: string; yanked?: boolean };
+
+function createClient(packages: Record<string, Record<string, Release>>) {
+  const document = (name: string, version: string) => {
+    const releases = packages[name];
+    return {
+      info: { name, version, requires_dist: releases[version].requires_dist },
+      releases: Object.fromEntries(Object.entries(releases).map(([release, { requires_python, yanked = false }]) =>
+        [release, [{ requires_python, yanked }]])),
+    };
+  };
+
+  return {
+    getPackageInfo: vi.fn(async (name: string) => {
+      if (!packages[name]) {
+        throw new Error(`Package '${name}' not found`);
+      }
+      const versions = Object.keys(packages[name]);
+      return document(name, versions[versions.length - 1]);
+    }),
+    getVersionInfo: vi.fn(async (name: string, version: string) => document(name, version)),
+    getCoreMetadata: vi.fn(async (name: string, version: string) =>
+      ({ name, version, requires_dist: packages[name][version].requires_dist || [], dynamic: [] as string[] })),
+    getIndexName: vi.fn(() => 'pypi'),
+  };
+}
+
+describe('DependencyTreeResolver', () => {
+  beforeEach(() => {
+    cache.clear();
+  });
+
+  it('should resolve each requirement to the newest matching release', async () => {
+    const client = createClient({
+      app: { '1.0': { requires_dist: ['lib>=1,<2'] } },
+      lib: { '1.0': {}, '1.5': { requires_dist: ['leaf'] }, '2.0': {} },
+      leaf: { '0.1': {} },
+    });
+
+    const result = await new DependencyTreeResolver(client as any).resolve('app');
+
+    expect(result.version).toBe('1.0');
+    expect(result.total_packages).toBe(3);
+    expect(result.tree.dependencies[0]).toMatchObject({ name: 'lib', version: '1.5', specifier: '>=1,<2' });
+    expect(result.tree.dependencies[0].dependencies[0]).toMatchObject({ name: 'leaf', version: '0.1' });
+    expect(client.getCoreMetadata).toHaveBeenCalledWith('lib', '1.5');
+    expect(client.getVersionInfo).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the JSON API when no core metadata is available', async () => {
+    const client = createClient({
+      app: { '1.0': { requires_dist: ['lib'] }, '2.0': {} },
+      lib: { '1.0': {} },
+    });
+    client.getCoreMetadata.mockRejectedValue(new Error('No core metadata file is available'));
+
+    const result = await new DependencyTreeResolver(client as any).resolve('app', { version: '1.0' });
+
+    expect(result.total_packages).toBe(2);
+    expect(client.getVersionInfo).toHaveBeenCalledWith('app', '1.0');
+  });
+
+  it('should evaluate markers and requires_python for the target environment', async () => {
+    const client = createClient({
+      app: { '1.0': { requires_dist: [
+        'tomli; python_version < "3.11"',
+        'pywin32; sys_platform == "win32"',
+        'pytest; extra == "test"',
+        'numpy',
+      ] } },
+      tomli: { '2.0': {} },
+      pywin32: { '306': {} },
+      pytest: { '8.0': {} },
+      numpy: { '1.26': {}, '2.3': { requires_python: '>=3.11' } },
+    });
+    const resolver = new DependencyTreeResolver(client as any);
+
+    const modern = await resolver.resolve('app', { pythonVersion: '3.12', platform: 'linux' });
+    const legacy = await resolver.resolve('app', { pythonVersion: '3.10', platform: 'win32', extras: ['test'] });
+
+    expect(modern.tree.dependencies.map(node => `${node.name}@${node.version}`)).toEqual(['numpy@2.3']);
+    expect(legacy.tree.dependencies.map(node => `${node.name}@${node.version}`))
+      .toEqual(['tomli@2.0', 'pywin32@306', 'pytest@8.0', 'numpy@1.26']);
+  });
+
+  it('should mark cycles, duplicates and truncated nodes', async () => {
+    const client = createClient({
+      a: { '1.0': { requires_dist: ['b', 'c'] } },
+      b: { '1.0': { requires_dist: ['a', 'c'] } },
+      c: { '1.0': { requires_dist: ['d'] } },
+      d: { '1.0': { requires_dist: ['e'] } },
+      e: { '1.0': {} },
+    });
+
+    const result = await new DependencyTreeResolver(client as any).resolve('a', { maxDepth: 2 });
+    const [b, c] = result.tree.dependencies;
+
+    expect(b.dependencies[0]).toMatchObject({ name: 'a', cycle: true });
+    expect(b.dependencies[1]).toMatchObject({ name: 'c', version: '1.0', truncated: true, dependencies: [] });
+    expect(c).toMatchObject({ name: 'c', version: '1.0' });
+    expect(c.dependencies[0]).toMatchObject({ name: 'd', truncated: true });
+    expect(result.total_packages).toBe(4);
+  });
+
+  it('should fetch shared packages once', async () => {
+    const client = createClient({
+      app: { '1.0': { requires_dist: ['x', 'y'] } },
+      x: { '1.0': { requires_dist: ['shared'] } },
+      y: { '1.0': { requires_dist: ['shared'] } },
+      shared: { '1.0': {} },
+    });
+
+    await new DependencyTreeResolver(client as any).resolve('app');
+
+    expect(client.getPackageInfo.mock.calls.filter(([name]) => name === 'shared')).toHaveLength(1);
+  });
+
+  it('should report unresolvable dependencies without failing the tree', async () => {
+    const client = createClient({
+      app: { '1.0': { requires_dist: ['missing', 'lib>=5'] } },
+      lib: { '1.0': {} },
+    });
+
+    const result = await new DependencyTreeResolver(client as any).resolve('app');
+
+    expect(result.tree.dependencies[0]).toMatchObject({ name: 'missing', version: null, error: expect.stringContaining('not found') });
+    expect(result.tree.dependencies[1]).toMatchObject({ name: 'lib', version: null, error: expect.stringContaining('>=5') });
+  });
+
+  it('should resolve a pinned root version', async () => {
+    const client = createClient({
+      app: { '1.0': { requires_dist: ['old'] }, '2.0': {} },
+      old: { '1.0': {} },
+    });
+
+    const result = await new DependencyTreeResolver(client as any).resolve('app', { version: '1.0' });
+
+    expect(result.version).toBe('1.0');
+    expect(result.tree.dependencies[0].name).toBe('old');
+  });
+});
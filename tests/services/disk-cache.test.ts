@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { chownSync, mkdirSync, mkdtempSync, readdirSync, rmSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DiskCache } from '../../src/services/disk-cache.js';
+import { MemoryCache } from '../../src/services/cache.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+describe('DiskCache', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'disk-cache-test-'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should store entries with their TTL metadata', async () => {
+    const disk = new DiskCache({ directory, maxSize: 1024 * 1024 });
+    disk.set('pkg_info:requests:latest', { data: { version: '2.31.0' }, timestamp: Date.now(), ttl: 60000 });
+    await disk.flush();
+
+    expect(await disk.get('pkg_info:requests:latest')).toMatchObject({ data: { version: '2.31.0' }, ttl: 60000 });
+    expect(await disk.get('pkg_info:numpy:latest')).toBeNull();
+    expect(readdirSync(directory).filter(name => name.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it.skipIf(process.platform === 'win32')('should keep entries readable by the current user only', async () => {
+    const cacheDirectory = join(directory, 'cache');
+    const disk = new DiskCache({ directory: cacheDirectory, maxSize: 1024 * 1024 });
+    disk.set('pypi_json:in-house:latest', { data: { private: true }, timestamp: Date.now(), ttl: 60000 });
+    await disk.flush();
+
+    expect(statSync(cacheDirectory).mode & 0o777).toBe(0o700);
+    for (const name of readdirSync(cacheDirectory)) {
+      expect(statSync(join(cacheDirectory, name)).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it.skipIf(typeof process.getuid !== 'function' || process.getuid() !== 0)('should not use a directory owned by another user', async () => {
+    const planted = join(directory, 'planted');
+    mkdirSync(planted);
+    chownSync(planted, 65534, 65534);
+    writeFileSync(join(planted, 'entry.json'), '{}');
+
+    const disk = new DiskCache({ directory: planted, maxSize: 1024 * 1024 });
+    disk.set('key', { data: 'value', timestamp: Date.now(), ttl: 60000 });
+    await disk.flush();
+
+    expect(await disk.get('key')).toBeNull();
+    expect(readdirSync(planted)).toEqual(['entry.json']);
+  });
+
+  it('should write in the background, in order', async () => {
+    const disk = new DiskCache({ directory, maxSize: 1024 * 1024 });
+    disk.set('key', { data: 'first', timestamp: Date.now(), ttl: 60000 });
+    disk.set('key', { data: 'second', timestamp: Date.now(), ttl: 60000 });
+
+    expect(readdirSync(directory)).toEqual([]);
+    await disk.flush();
+    expect(await disk.get('key')).toMatchObject({ data: 'second' });
+  });
+
+  it('should drop expired entries', async () => {
+    const disk = new DiskCache({ directory, maxSize: 1024 * 1024 });
+    disk.set('key', { data: 'value', timestamp: Date.now() - 2000, ttl: 1000 });
+    await disk.flush();
+
+    expect(await disk.get('key')).toBeNull();
+    await disk.flush();
+    expect(readdirSync(directory)).toEqual([]);
+  });
+
+  it('should evict the least recently used files to stay under the size cap', async () => {
+    const disk = new DiskCache({ directory, maxSize: 600 });
+    const entry = (data: string) => ({ data, timestamp: Date.now(), ttl: 60000 });
+
+    disk.set('first', entry('a'.repeat(150)));
+    disk.set('second', entry('b'.repeat(150)));
+    await disk.flush();
+    // Age the files so the access below is clearly the most recent
+    for (const name of readdirSync(directory)) {
+      utimesSync(join(directory, name), new Date(1000), new Date(1000));
+    }
+    await disk.get('first');
+    // Access times are updated in the background
+    await new Promise(resolve => setTimeout(resolve, 20));
+    disk.set('third', entry('c'.repeat(150)));
+    await disk.flush();
+
+    expect(await disk.get('first')).not.toBeNull();
+    expect(await disk.get('second')).toBeNull();
+    expect(await disk.get('third')).not.toBeNull();
+    expect(await disk.getTotalSize()).toBeLessThanOrEqual(600);
+  });
+
+  it('should evict other files to make room for a rewritten entry', async () => {
+    const disk = new DiskCache({ directory, maxSize: 600 });
+    const entry = (data: string) => ({ data, timestamp: Date.now(), ttl: 60000 });
+
+    disk.set('first', entry('a'.repeat(150)));
+    await disk.flush();
+    // The entry being rewritten is the least recently used one
+    utimesSync(join(directory, readdirSync(directory)[0]), new Date(1000), new Date(1000));
+    disk.set('second', entry('b'.repeat(150)));
+    disk.set('first', entry('a'.repeat(400)));
+    await disk.flush();
+
+    const onDisk = readdirSync(directory).reduce((total, name) => total + statSync(join(directory, name)).size, 0);
+    expect(await disk.get('first')).toMatchObject({ data: 'a'.repeat(400) });
+    expect(await disk.get('second')).toBeNull();
+    expect(await disk.getTotalSize()).toBe(onDisk);
+    expect(onDisk).toBeLessThanOrEqual(600);
+  });
+
+  it('should skip entries larger than the cache', async () => {
+    const disk = new DiskCache({ directory, maxSize: 100 });
+    disk.set('big', { data: 'x'.repeat(200), timestamp: Date.now(), ttl: 60000 });
+    await disk.flush();
+
+    expect(await disk.get('big')).toBeNull();
+  });
+
+  it('should serve saved entries to a new MemoryCache after a restart', async () => {
+    const before = new MemoryCache({ directory });
+    before.save('pypi_json:requests:latest', { info: { name: 'requests' } });
+    before.set('pkg_readme:requests:latest', { readme_content: '# Requests' });
+    await before.flush();
+
+    const after = new MemoryCache({ directory });
+
+    expect(after.get('pypi_json:requests:latest')).toBeNull();
+    expect(await after.load('pypi_json:requests:latest')).toEqual({ info: { name: 'requests' } });
+    expect(after.get('pypi_json:requests:latest')).toEqual({ info: { name: 'requests' } });
+    expect(await after.load('pkg_readme:requests:latest')).toBeNull();
+    expect(after.getStats().disk).toMatchObject({ directory });
+
+    after.clear();
+    await after.flush();
+    expect(await new MemoryCache({ directory }).load('pypi_json:requests:latest')).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DoctestExtractor } from '../../src/services/readme/doctest-extractor.js';
+import { ReadmeService } from '../../src/services/readme/index.js';
+
+describe('DoctestExtractor', () => {
+  let extractor: DoctestExtractor;
+
+  beforeEach(() => {
+    extractor = new DoctestExtractor();
+  });
+
+  it('should split input from expected output and strip prompts', () => {
+    const readme = `## Quickstart
+
+>>> import requests
+>>> r = requests.get('https://api.github.com/user', auth=('user', 'pass'))
+>>> r.status_code
+200
+>>> r.headers['content-type']
+'application/json; charset=utf8'`;
+
+    const examples = extractor.extractDoctestExamples(readme);
+
+    expect(examples).toEqual([
+      {
+        title: 'Quickstart',
+        code: "import requests\nr = requests.get('https://api.github.com/user', auth=('user', 'pass'))\nr.status_code\nr.headers['content-type']",
+        language: 'python',
+        expected_output: "200\n'application/json; charset=utf8'",
+      },
+    ]);
+  });
+
+  it('should join continuation lines into the input', () => {
+    const readme = `>>> for i in range(2):
+...     print(i)
+...
+0
+1`;
+
+    const [example] = extractor.extractDoctestExamples(readme);
+
+    expect(example.code).toBe('for i in range(2):\n    print(i)');
+    expect(example.expected_output).toBe('0\n1');
+  });
+
+  it('should treat ellipsis after output as output', () => {
+    const readme = `>>> list(range(100))
+[0, 1, 2,
+...
+99]`;
+
+    const [example] = extractor.extractDoctestExamples(readme);
+
+    expect(example.code).toBe('list(range(100))');
+    expect(example.expected_output).toBe('[0, 1, 2,\n...\n99]');
+  });
+
+  it('should find sessions in indented literal blocks and fenced blocks', () => {
+    const readme = `Example:
+
+    >>> import numpy as np
+    >>> np.arange(3)
+    array([0, 1, 2])
+
+Text between.
+
+\`\`\`pycon
+>>> 1 + 1
+2
+\`\`\``;
+
+    const examples = extractor.extractDoctestExamples(readme);
+
+    expect(examples).toHaveLength(2);
+    expect(examples[0]).toMatchObject({
+      code: 'import numpy as np\nnp.arange(3)',
+      expected_output: 'array([0, 1, 2])',
+    });
+    expect(examples[1]).toMatchObject({ code: '1 + 1', expected_output: '2' });
+  });
+
+  it('should continue a session across blank lines between prompts', () => {
+    const readme = `>>> a = 1
+
+>>> a + 1
+2
+
+Unrelated paragraph.`;
+
+    const examples = extractor.extractDoctestExamples(readme);
+
+    expect(examples).toHaveLength(1);
+    expect(examples[0].code).toBe('a = 1\na + 1');
+    expect(examples[0].expected_output).toBe('2');
+  });
+
+  it('should leave expected output undefined when nothing is printed', () => {
+    const [example] = extractor.extractDoctestExamples('>>> import json');
+
+    expect(example.expected_output).toBeUndefined();
+    expect(example.title).toBe('Interactive Example');
+  });
+
+  it('should detect doctest code blocks', () => {
+    expect(extractor.isDoctestBlock('\n>>> import os\n')).toBe(true);
+    expect(extractor.isDoctestBlock('import os\n>>> not a prompt')).toBe(false);
+  });
+
+  it('should not extract fenced doctest blocks twice through the README service', () => {
+    const readme = `## Usage
+
+\`\`\`python
+>>> from collections import Counter
+>>> Counter('aab')
+Counter({'a': 2, 'b': 1})
+\`\`\``;
+
+    const examples = new ReadmeService().extractUsageExamples(readme);
+
+    expect(examples).toHaveLength(1);
+    expect(examples[0]).toMatchObject({
+      title: 'Usage',
+      code: "from collections import Counter\nCounter('aab')",
+      expected_output: "Counter({'a': 2, 'b': 1})",
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { GitHubApiClient } from '../../src/services/github-api.js';
+import { MemoryCache } from '../../src/services/cache.js';
 import { PackageReadmeMcpError } from '../../src/types/index.js';
 
 // Mock dependencies
@@ -148,6 +149,30 @@ describe('GitHubApiClient', () => {
       );
     });
 
+    it('should revalidate a previously fetched README with its ETag', async () => {
+      const revalidatingClient = new GitHubApiClient(undefined, new MemoryCache());
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'ETag': '"readme-v1"' }),
+        text: vi.fn().mockResolvedValue('# Cached README'),
+      });
+      await revalidatingClient.getReadme('owner', 'repo');
+
+      const notModified = { ok: false, status: 304, headers: new Headers(), text: vi.fn() };
+      mockFetch.mockResolvedValue(notModified);
+      const result = await revalidatingClient.getReadme('owner', 'repo');
+
+      expect(result).toBe('# Cached README');
+      expect(notModified.text).not.toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://api.github.com/repos/owner/repo/readme',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'If-None-Match': '"readme-v1"' }),
+        })
+      );
+    });
+
     it('should include Authorization header when token is provided', async () => {
       process.env.GITHUB_TOKEN = 'test-token';
       const tokenClient = new GitHubApiClient();
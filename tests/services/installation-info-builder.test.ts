@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { InstallationInfoBuilder } from '../../src/services/package-readme/installation-info-builder.js';
+
+describe('InstallationInfoBuilder', () => {
+  // Named like a CLI tool, which no longer matters
+  const packageInfo = { info: { name: 'cli-tools', classifiers: ['Environment :: Console'] } } as any;
+  const entryPoint = (name: string) => ({ name, value: `${name}:main` });
+
+  it('should suggest pipx and list the commands a package ships', () => {
+    const result = new InstallationInfoBuilder().build({ info: { name: 'httpie' } } as any, {
+      console_scripts: [entryPoint('http'), entryPoint('https')],
+      gui_scripts: [],
+      groups: {},
+    });
+
+    expect(result).toEqual({
+      pip: 'pip install httpie',
+      conda: 'conda install -c conda-forge httpie',
+      pipx: 'pipx install httpie',
+      console_scripts: ['http', 'https'],
+      gui_scripts: [],
+    });
+  });
+
+  it('should not suggest pipx for packages without commands', () => {
+    const result = new InstallationInfoBuilder().build(packageInfo, { console_scripts: [], gui_scripts: [], groups: {} });
+
+    expect(result.pipx).toBe('# pipx is for CLI applications only - use pip instead');
+    expect(result.console_scripts).toEqual([]);
+  });
+
+  it('should leave pipx out when the entry points are unknown', () => {
+    const result = new InstallationInfoBuilder().build(packageInfo);
+
+    expect(result.pipx).toBeUndefined();
+    expect(result.console_scripts).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LockfileParser } from '../../src/services/manifest/index.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+describe('LockfileParser', () => {
+  const parser = new LockfileParser();
+  const pins = (content: string, filename?: string) => {
+    const result = parser.parse(content, { filename });
+    return { ...result, pins: result.packages.map(({ name, version, group }) => `${group}:${name}==${version}`) };
+  };
+
+  it('should read poetry.lock packages and skip non-index sources', () => {
+    const result = pins([
+      '[[package]]',
+      'name = "requests"',
+      'version = "2.31.0"',
+      'category = "main"',
+      '',
+      '[[package]]',
+      'name = "pytest"',
+      'version = "7.4.0"',
+      'category = "dev"',
+      '',
+      '[[package]]',
+      'name = "internal"',
+      'version = "0.1.0"',
+      '[package.source]',
+      'type = "git"',
+      'url = "https://github.com/example/internal.git"',
+      '',
+      '[metadata]',
+      'lock-version = "2.0"',
+      'content-hash = "abc"',
+    ].join('\n'));
+
+    expect(result.format).toBe('poetry.lock');
+    expect(result.pins).toEqual(['main:requests==2.31.0', 'dev:pytest==7.4.0']);
+    expect(result.warnings).toEqual(['Skipped internal: installed from a git source']);
+  });
+
+  it('should read uv.lock registry packages', () => {
+    const result = pins([
+      'version = 1',
+      'requires-python = ">=3.12"',
+      '',
+      '[[package]]',
+      'name = "myproject"',
+      'version = "0.1.0"',
+      'source = { editable = "." }',
+      '',
+      '[[package]]',
+      'name = "idna"',
+      'version = "3.7"',
+      'source = { registry = "https://pypi.org/simple" }',
+    ].join('\n'));
+
+    expect(result.format).toBe('uv.lock');
+    expect(result.pins).toEqual(['main:idna==3.7']);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should read Pipfile.lock sections', () => {
+    const result = pins(JSON.stringify({
+      _meta: { hash: { sha256: 'abc' } },
+      default: { django: { version: '==4.2.1', hashes: [] }, local: { path: '.' } },
+      develop: { black: { version: '==23.1.0' } },
+    }), 'Pipfile.lock');
+
+    expect(result.format).toBe('pipfile.lock');
+    expect(result.pins).toEqual(['main:django==4.2.1', 'dev:black==23.1.0']);
+    expect(result.warnings).toEqual(['Skipped local: not pinned to a version']);
+  });
+
+  it('should read pip freeze output', () => {
+    const result = pins([
+      'certifi==2024.2.2',
+      'Flask===3.0.0',
+      '-e git+https://github.com/example/app.git@abc#egg=app',
+      'tool @ file:///tmp/tool-1.0-py3-none-any.whl',
+    ].join('\n'));
+
+    expect(result.format).toBe('pip-freeze');
+    expect(result.pins).toEqual(['main:certifi==2024.2.2', 'main:Flask==3.0.0']);
+    expect(result.warnings).toHaveLength(2);
+  });
+});
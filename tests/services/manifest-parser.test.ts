@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ManifestParser, poetryConstraintToSpecifier } from '../../src/services/manifest/index.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+describe('ManifestParser', () => {
+  const parser = new ManifestParser();
+  const summarize = (content: string, options = {}) => {
+    const result = parser.parse(content, options);
+    return {
+      ...result,
+      requirements: result.requirements.map(({ name, specifier, group }) => `${group}:${name}${specifier}`),
+    };
+  };
+
+  it('should parse requirements files with includes, hashes and markers', () => {
+    const result = summarize([
+      '# Runtime',
+      '--index-url https://example.com/simple',
+      '-r base.txt',
+      '-c constraints.txt',
+      'requests[socks]==2.31.0 \\',
+      '    --hash=sha256:58cd2187c01e70e6e26505bca751777aa9f2ee0b7f4300988b709f44e013003f',
+      'tomli>=1.1; python_version < "3.11"  # backport',
+      '-e ./local',
+      './wheels/private-1.0-py3-none-any.whl',
+    ].join('\n'), {
+      filename: 'requirements.txt',
+      includedFiles: { 'base.txt': 'click>=8\n-r requirements.txt' },
+    });
+
+    expect(result.format).toBe('requirements');
+    expect(result.requirements).toEqual(['main:click>=8', 'main:requests==2.31.0', 'main:tomli>=1.1']);
+    expect(result.warnings).toHaveLength(3);
+    expect(result.warnings[0]).toContain('"requirements.txt" was not provided');
+  });
+
+  it('should warn about includes nested too deeply', () => {
+    const includedFiles = Object.fromEntries(Array.from({ length: 12 }, (_, level) =>
+      [`level-${level}.txt`, `pkg-${level}\n-r level-${level + 1}.txt`]));
+    const result = summarize('-r level-0.txt', { filename: 'requirements.txt', includedFiles });
+
+    expect(result.requirements).toHaveLength(10);
+    expect(result.warnings).toEqual(['level-9.txt: skipped "level-10.txt", includes are nested more than 10 levels deep']);
+  });
+
+  it('should parse PEP 621 and PEP 735 tables from pyproject.toml', () => {
+    const result = summarize([
+      '[project]',
+      'dependencies = ["httpx>=0.27", "anyio"]',
+      '[project.optional-dependencies]',
+      'cli = ["typer"]',
+      '[dependency-groups]',
+      'test = ["pytest>=8", { include-group = "cli" }]',
+    ].join('\n'));
+
+    expect(result.format).toBe('pyproject');
+    expect(result.requirements).toEqual(['main:httpx>=0.27', 'main:anyio', 'cli:typer', 'test:pytest>=8']);
+  });
+
+  it('should parse Poetry dependency tables', () => {
+    const result = parser.parse([
+      '[tool.poetry.dependencies]',
+      'python = "^3.9"',
+      'fastapi = "^0.110"',
+      'uvicorn = { version = "~0.29", extras = ["standard"] }',
+      'redis = { version = "^5", optional = true }',
+      'mylib = { path = "../mylib" }',
+      '[tool.poetry.extras]',
+      'cache = ["redis"]',
+      '[tool.poetry.group.dev.dependencies]',
+      'black = "*"',
+    ].join('\n'), { filename: 'pyproject.toml' });
+
+    expect(result.requirements.map(({ name, specifier, extras, group }) => ({ name, specifier, extras, group }))).toEqual([
+      { name: 'fastapi', specifier: '>=0.110,<0.111', extras: [], group: 'main' },
+      { name: 'uvicorn', specifier: '>=0.29,<0.30', extras: ['standard'], group: 'main' },
+      { name: 'redis', specifier: '>=5,<6', extras: [], group: 'cache' },
+      { name: 'black', specifier: '', extras: [], group: 'dev' },
+    ]);
+    expect(result.warnings).toEqual(['tool.poetry.dependencies: skipped local dependency "mylib"']);
+  });
+
+  it('should parse setup.cfg options', () => {
+    const result = summarize([
+      '[metadata]',
+      'name = example',
+      '[options]',
+      'install_requires =',
+      '    numpy>=1.24',
+      '    importlib-metadata; python_version<"3.10"',
+      '[options.extras_require]',
+      'docs = file: docs/requirements.txt',
+    ].join('\n'), { includedFiles: { 'docs/requirements.txt': 'sphinx>=7\n# theme\nfuro' } });
+
+    expect(result.format).toBe('setup.cfg');
+    expect(result.requirements).toEqual(['main:numpy>=1.24', 'main:importlib-metadata', 'docs:sphinx>=7', 'docs:furo']);
+  });
+
+  it('should parse Pipfile packages', () => {
+    const result = summarize([
+      '[[source]]',
+      'url = "https://pypi.org/simple"',
+      '[packages]',
+      'django = "==5.0.*"',
+      'celery = { version = ">=5.3", extras = ["redis"], markers = "sys_platform != \'win32\'" }',
+      'private = { git = "https://github.com/example/private.git" }',
+      '[dev-packages]',
+      'pytest = "*"',
+    ].join('\n'), { filename: 'Pipfile' });
+
+    expect(result.format).toBe('pipfile');
+    expect(result.requirements).toEqual(['main:django==5.0.*', 'main:celery>=5.3', 'main:private', 'dev:pytest']);
+  });
+
+  it('should report TOML syntax errors', () => {
+    expect(() => parser.parse('[project\ndependencies = []', { format: 'pyproject' })).toThrow(/pyproject\.toml.*line 1/);
+  });
+});
+
+describe('poetryConstraintToSpecifier', () => {
+  it('should convert caret, tilde and wildcard constraints', () => {
+    expect(poetryConstraintToSpecifier('^1.2.3')).toBe('>=1.2.3,<2');
+    expect(poetryConstraintToSpecifier('^0.0.3')).toBe('>=0.0.3,<0.0.4');
+    expect(poetryConstraintToSpecifier('~1.2.3')).toBe('>=1.2.3,<1.3');
+    expect(poetryConstraintToSpecifier('~1')).toBe('>=1,<2');
+    expect(poetryConstraintToSpecifier('*')).toBe('');
+    expect(poetryConstraintToSpecifier('1.4.*')).toBe('==1.4.*');
+    expect(poetryConstraintToSpecifier('2.0')).toBe('==2.0');
+    expect(poetryConstraintToSpecifier('>= 1.2, < 1.5')).toBe('>=1.2,<1.5');
+    expect(poetryConstraintToSpecifier('^1.0 || ^2.0')).toBe('>=2.0,<3');
+  });
+});
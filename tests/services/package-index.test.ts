@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PackageNameIndex, PackageIndexStore } from '../../src/services/search/index.js';
+import { levenshteinDistance } from '../../src/utils/edit-distance.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+describe('levenshteinDistance', () => {
+  it('should compute edit distances', () => {
+    expect(levenshteinDistance('requests', 'requests')).toBe(0);
+    expect(levenshteinDistance('requests', 'reqests')).toBe(1);
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+  });
+
+  it('should stop early once the maximum distance is exceeded', () => {
+    expect(levenshteinDistance('numpy', 'django', 1)).toBe(2);
+    expect(levenshteinDistance('a', 'abcdef', 2)).toBe(3);
+  });
+});
+
+describe('PackageNameIndex', () => {
+  const names = [
+    'requests',
+    'Requests_OAuthlib',
+    'types-requests',
+    'requests-toolbelt',
+    'reqeusts',
+    'numpy',
+    'Django',
+    'django-rest-framework',
+  ];
+
+  let index: PackageNameIndex;
+
+  beforeEach(() => {
+    index = new PackageNameIndex(names);
+  });
+
+  it('should de-duplicate names by normalized form', () => {
+    const duplicated = new PackageNameIndex(['Flask', 'flask', 'FLASK']);
+    expect(duplicated.size).toBe(1);
+  });
+
+  it('should look up display names by normalized name', () => {
+    expect(index.lookup('requests.oauthlib')).toBe('Requests_OAuthlib');
+    expect(index.lookup('DJANGO')).toBe('Django');
+    expect(index.lookup('missing')).toBeUndefined();
+  });
+
+  it('should rank exact, prefix, substring and fuzzy matches in order', () => {
+    const results = index.search('requests', 10);
+
+    expect(results.map(r => [r.name, r.match_type])).toEqual([
+      ['requests', 'exact'],
+      ['Requests_OAuthlib', 'prefix'],
+      ['requests-toolbelt', 'prefix'],
+      ['types-requests', 'substring'],
+      ['reqeusts', 'fuzzy'],
+    ]);
+    expect(results[0].score).toBe(1);
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i].score).toBeLessThanOrEqual(results[i - 1].score);
+    }
+  });
+
+  it('should treat separators and case as equivalent', () => {
+    const results = index.search('Django_Rest', 5);
+    expect(results[0]).toMatchObject({ name: 'django-rest-framework', match_type: 'prefix' });
+  });
+
+  it('should skip fuzzy matching for short queries', () => {
+    const results = index.search('nmp', 5);
+    expect(results).toEqual([]);
+  });
+
+  it('should find misspelled names', () => {
+    const results = index.search('nunpy', 5);
+    expect(results).toEqual([
+      expect.objectContaining({ name: 'numpy', match_type: 'fuzzy', distance: 1 }),
+    ]);
+  });
+
+  it('should respect the limit', () => {
+    expect(index.search('requests', 2)).toHaveLength(2);
+  });
+
+  it('should return the same results for the same input order-independently', () => {
+    const reversed = new PackageNameIndex([...names].reverse());
+    expect(reversed.search('requests', 10)).toEqual(index.search('requests', 10));
+  });
+});
+
+describe('PackageIndexStore', () => {
+  let directory: string;
+  const projectList = {
+    meta: { 'api-version': '1.1', '_last-serial': 7 },
+    projects: [{ name: 'requests' }, { name: 'numpy' }],
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'package-index-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should download the project list once and write a snapshot', async () => {
+    const fetcher = vi.fn().mockResolvedValue(projectList);
+    const store = new PackageIndexStore(fetcher, { directory });
+
+    const [first, second] = await Promise.all([store.getIndex(), store.getIndex()]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+    expect(first.size).toBe(2);
+
+    const snapshot = JSON.parse(readFileSync(store.snapshotPath, 'utf-8'));
+    expect(snapshot.projects).toEqual(['requests', 'numpy']);
+    expect(snapshot.last_serial).toBe(7);
+  });
+
+  it('should load a fresh snapshot without downloading', async () => {
+    const fetcher = vi.fn();
+    const store = new PackageIndexStore(fetcher, { directory });
+    writeFileSync(store.snapshotPath, JSON.stringify({ fetched_at: Date.now(), projects: ['flask'] }));
+
+    const index = await store.getIndex();
+
+    expect(fetcher).not.toHaveBeenCalled();
+    expect(index.lookup('flask')).toBe('flask');
+  });
+
+  it('should fall back to an outdated snapshot when the download fails', async () => {
+    const fetcher = vi.fn().mockRejectedValue(new Error('offline'));
+    const store = new PackageIndexStore(fetcher, { directory, ttl: 1000 });
+    writeFileSync(store.snapshotPath, JSON.stringify({ fetched_at: Date.now() - 5000, projects: ['flask'] }));
+
+    const index = await store.getIndex();
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(index.lookup('flask')).toBe('flask');
+  });
+
+  it('should throw when there is neither a download nor a snapshot', async () => {
+    const fetcher = vi.fn().mockRejectedValue(new Error('offline'));
+    const store = new PackageIndexStore(fetcher, { directory: join(directory, 'missing') });
+
+    await expect(store.getIndex()).rejects.toThrow('offline');
+    expect(existsSync(join(directory, 'missing'))).toBe(false);
+  });
+});
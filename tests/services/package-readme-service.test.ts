@@ -1,8 +1,11 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { PackageReadmeService } from '../../src/services/package-readme/package-readme-service.js';
 import { ReadmeService } from '../../src/services/readme/index.js';
 import { PackageInfoBuilder } from '../../src/services/package-readme/package-info-builder.js';
 import { InstallationInfoBuilder } from '../../src/services/package-readme/installation-info-builder.js';
+import { cache } from '../../src/services/cache.js';
+import { pypiClient } from '../../src/services/pypi-api.js';
+import { githubApi } from '../../src/services/github-api.js';
 
 // Mock dependencies
 vi.mock('../../src/utils/logger.js', () => ({
@@ -21,6 +24,15 @@ vi.mock('../../src/services/cache.js', () => ({
   },
   createCacheKey: {
     packageReadme: vi.fn((name, version) => `readme:${name}:${version}`),
+    githubReadme: vi.fn((owner, repo) => `github_readme:${owner}/${repo}`),
+  },
+}));
+
+vi.mock('../../src/services/github-api.js', () => ({
+  githubApi: {
+    extractRepoInfo: vi.fn(),
+    getReadmeFromUrl: vi.fn(),
+    hasToken: vi.fn(),
   },
 }));
 
@@ -28,6 +40,10 @@ vi.mock('../../src/services/pypi-api.js', () => ({
   pypiClient: {
     getPackageInfo: vi.fn(),
     getVersionInfo: vi.fn(),
+    resolveVersion: vi.fn(),
+    isStale: vi.fn(),
+    getIndexName: vi.fn(() => 'pypi'),
+    getWheelMetadata: vi.fn(),
   },
 }));
 
@@ -35,6 +51,8 @@ vi.mock('../../src/services/readme/index.js', () => {
   return {
     ReadmeService: vi.fn().mockImplementation(() => ({
       cleanReadmeContent: vi.fn(),
+      convertRstToMarkdown: vi.fn(),
+      isRstContent: vi.fn(),
       extractUsageExamples: vi.fn(),
     })),
   };
@@ -74,20 +92,14 @@ describe('PackageReadmeService', () => {
     const packageInfoBuilderMock = vi.mocked(PackageInfoBuilder);
     const installationInfoBuilderMock = vi.mocked(InstallationInfoBuilder);
     
-    mockReadmeService = readmeServiceMock.mock.instances[readmeServiceMock.mock.instances.length - 1];
-    mockPackageInfoBuilder = packageInfoBuilderMock.mock.instances[packageInfoBuilderMock.mock.instances.length - 1];
-    mockInstallationInfoBuilder = installationInfoBuilderMock.mock.instances[installationInfoBuilderMock.mock.instances.length - 1];
+    mockReadmeService = readmeServiceMock.mock.results[readmeServiceMock.mock.results.length - 1].value;
+    mockPackageInfoBuilder = packageInfoBuilderMock.mock.results[packageInfoBuilderMock.mock.results.length - 1].value;
+    mockInstallationInfoBuilder = installationInfoBuilderMock.mock.results[installationInfoBuilderMock.mock.results.length - 1].value;
     
-    const { cache } = require('../../src/services/cache.js');
-    const { pypiClient } = require('../../src/services/pypi-api.js');
     mockCache = cache;
     mockPypiClient = pypiClient;
   });
 
-  afterEach(() => {
-    vi.restoreAllMocks();
-  });
-
   describe('getPackageReadme', () => {
     const mockPackageInfo = {
       info: {
@@ -158,13 +170,17 @@ describe('PackageReadmeService', () => {
         usage_examples: ['import requests'],
         installation: mockInstallationInfo,
         basic_info: mockBuiltPackageInfo,
+        readme_source: 'pypi',
         exists: true,
+        index: 'pypi',
       });
       expect(mockCache.set).toHaveBeenCalledWith('readme:requests:latest', result);
     });
 
     it('should fetch specific version when provided', async () => {
       mockCache.get.mockReturnValue(null);
+      mockPypiClient.getPackageInfo.mockResolvedValue(mockPackageInfo);
+      mockPypiClient.resolveVersion.mockResolvedValue('2.27.1');
       mockPypiClient.getVersionInfo.mockResolvedValue(mockPackageInfo);
 
       const result = await service.getPackageReadme({ 
@@ -172,10 +188,39 @@ describe('PackageReadmeService', () => {
         version: '2.27.1' 
       });
 
+      expect(mockPypiClient.resolveVersion).toHaveBeenCalledWith(mockPackageInfo, 'requests', '2.27.1');
       expect(mockPypiClient.getVersionInfo).toHaveBeenCalledWith('requests', '2.27.1');
       expect(result.exists).toBe(true);
     });
 
+    it('should resolve version specifiers to a release', async () => {
+      mockCache.get.mockReturnValue(null);
+      mockPypiClient.getPackageInfo.mockResolvedValue(mockPackageInfo);
+      mockPypiClient.resolveVersion.mockResolvedValue('2.28.1');
+      mockPypiClient.getVersionInfo.mockResolvedValue(mockPackageInfo);
+
+      const result = await service.getPackageReadme({
+        package_name: 'requests',
+        version: '~=2.28',
+      });
+
+      expect(mockPypiClient.resolveVersion).toHaveBeenCalledWith(mockPackageInfo, 'requests', '~=2.28');
+      expect(mockPypiClient.getVersionInfo).toHaveBeenCalledWith('requests', '2.28.1');
+      expect(result.version).toBe('2.28.1');
+      expect(result.requested_version).toBe('~=2.28');
+    });
+
+    it('should return not found when no release matches the specifier', async () => {
+      mockCache.get.mockReturnValue(null);
+      mockPypiClient.getPackageInfo.mockResolvedValue(mockPackageInfo);
+      mockPypiClient.resolveVersion.mockRejectedValue(new Error('No matching version'));
+
+      const result = await service.getPackageReadme({ package_name: 'requests', version: '>=99' });
+
+      expect(result.exists).toBe(false);
+      expect(mockPypiClient.getVersionInfo).not.toHaveBeenCalled();
+    });
+
     it('should exclude usage examples when include_examples is false', async () => {
       mockCache.get.mockReturnValue(null);
       mockPypiClient.getPackageInfo.mockResolvedValue(mockPackageInfo);
@@ -238,6 +283,7 @@ describe('PackageReadmeService', () => {
           classifiers: [],
           requires_python: undefined,
         },
+        readme_source: 'none',
         exists: false,
       });
     });
@@ -289,7 +335,7 @@ describe('PackageReadmeService', () => {
       expect(result.readme_content).toBe('Short summary');
     });
 
-    it('should fallback to description when no content type specified', async () => {
+    it('should treat description as reStructuredText when no content type specified', async () => {
       const packageWithoutContentType = {
         ...mockPackageInfo,
         info: {
@@ -302,10 +348,32 @@ describe('PackageReadmeService', () => {
       
       mockCache.get.mockReturnValue(null);
       mockPypiClient.getPackageInfo.mockResolvedValue(packageWithoutContentType);
+      mockReadmeService.convertRstToMarkdown.mockReturnValue('Some description');
 
       const result = await service.getPackageReadme({ package_name: 'test' });
 
-      expect(result.readme_content).toBe('Short summary');
+      expect(mockReadmeService.convertRstToMarkdown).toHaveBeenCalledWith('Some description');
+      expect(result.readme_content).toBe('Some description');
+    });
+
+    it('should convert reStructuredText descriptions to markdown', async () => {
+      const packageWithRst = {
+        ...mockPackageInfo,
+        info: {
+          ...mockPackageInfo.info,
+          description: 'Title\n=====\n\nBody',
+          description_content_type: 'text/x-rst',
+        },
+      };
+      
+      mockCache.get.mockReturnValue(null);
+      mockPypiClient.getPackageInfo.mockResolvedValue(packageWithRst);
+      mockReadmeService.convertRstToMarkdown.mockReturnValue('# Title\n\nBody');
+
+      const result = await service.getPackageReadme({ package_name: 'test' });
+
+      expect(mockReadmeService.convertRstToMarkdown).toHaveBeenCalledWith('Title\n=====\n\nBody');
+      expect(result.readme_content).toBe('# Title\n\nBody');
     });
 
     it('should use default message when no content available', async () => {
@@ -356,11 +424,15 @@ describe('PackageReadmeService', () => {
     it('should call builders with correct package info', async () => {
       mockCache.get.mockReturnValue(null);
       mockPypiClient.getPackageInfo.mockResolvedValue(mockPackageInfo);
+      const entryPoints = { console_scripts: [{ name: 'requests-cli', value: 'requests.cli:main' }], gui_scripts: [], groups: {} };
+      mockPypiClient.getWheelMetadata.mockResolvedValue({ entry_points: entryPoints, import_names: ['requests'] });
 
       await service.getPackageReadme({ package_name: 'requests' });
 
-      expect(mockPackageInfoBuilder.build).toHaveBeenCalledWith(mockPackageInfo);
-      expect(mockInstallationInfoBuilder.build).toHaveBeenCalledWith(mockPackageInfo);
+      expect(mockPypiClient.getWheelMetadata).toHaveBeenCalledWith(mockPackageInfo.info.name, mockPackageInfo.info.version);
+      expect(mockPackageInfoBuilder.build).toHaveBeenCalledWith(mockPackageInfo, ['requests']);
+      expect(mockInstallationInfoBuilder.build).toHaveBeenCalledWith(mockPackageInfo, entryPoints);
+      expect(mockReadmeService.extractUsageExamples).toHaveBeenCalledWith(expect.any(String), ['requests']);
     });
 
     it('should clean README content', async () => {
@@ -426,6 +498,113 @@ describe('PackageReadmeService', () => {
     });
   });
 
+  describe('README fallback', () => {
+    const githubUrl = 'https://github.com/example/stub';
+    const githubReadme = '# Stub\n\n' + 'Full documentation. '.repeat(30);
+
+    const createPackageInfo = (description: string, projectUrls: Record<string, string> = { Source: githubUrl }) => ({
+      info: {
+        name: 'stub',
+        version: '1.0.0',
+        summary: 'A stub package',
+        description,
+        description_content_type: 'text/markdown',
+        project_urls: projectUrls,
+      },
+    });
+
+    beforeEach(() => {
+      mockCache.get.mockReturnValue(null);
+      mockReadmeService.cleanReadmeContent.mockImplementation((content: string) => content);
+      mockReadmeService.extractUsageExamples.mockReturnValue([]);
+      mockReadmeService.isRstContent.mockReturnValue(false);
+      vi.mocked(githubApi.extractRepoInfo).mockReturnValue({ owner: 'example', repo: 'stub' });
+      vi.mocked(githubApi.getReadmeFromUrl).mockResolvedValue(githubReadme);
+      vi.mocked(githubApi.hasToken).mockReturnValue(true);
+    });
+
+    it('should keep a substantial PyPI README without contacting GitHub', async () => {
+      const description = '# Stub\n\n' + 'Detailed usage notes. '.repeat(20);
+      mockPypiClient.getPackageInfo.mockResolvedValue(createPackageInfo(description));
+
+      const result = await service.getPackageReadme({ package_name: 'stub' });
+
+      expect(result.readme_source).toBe('pypi');
+      expect(result.readme_content).toBe(description);
+      expect(result.repository).toEqual({ type: 'git', url: githubUrl });
+      expect(githubApi.getReadmeFromUrl).not.toHaveBeenCalled();
+    });
+
+    it('should use the GitHub README when the PyPI one only points elsewhere', async () => {
+      mockPypiClient.getPackageInfo.mockResolvedValue(
+        createPackageInfo('See https://stub.readthedocs.io for documentation.')
+      );
+
+      const result = await service.getPackageReadme({ package_name: 'stub' });
+
+      expect(result.readme_source).toBe('github');
+      expect(result.readme_content).toBe(githubReadme);
+      expect(githubApi.getReadmeFromUrl).toHaveBeenCalledWith(githubUrl);
+      expect(mockCache.set).toHaveBeenCalledWith('github_readme:example/stub', githubReadme);
+    });
+
+    it('should keep a short PyPI README without a GitHub token', async () => {
+      vi.mocked(githubApi.hasToken).mockReturnValue(false);
+      mockPypiClient.getPackageInfo.mockResolvedValue(
+        createPackageInfo('See https://stub.readthedocs.io for documentation.')
+      );
+
+      const result = await service.getPackageReadme({ package_name: 'stub' });
+
+      expect(result.readme_source).toBe('pypi');
+      expect(githubApi.getReadmeFromUrl).not.toHaveBeenCalled();
+    });
+
+    it('should use the GitHub README without a token when the PyPI one only repeats the summary', async () => {
+      vi.mocked(githubApi.hasToken).mockReturnValue(false);
+      mockPypiClient.getPackageInfo.mockResolvedValue(createPackageInfo('A stub package'));
+
+      const result = await service.getPackageReadme({ package_name: 'stub' });
+
+      expect(result.readme_source).toBe('github');
+    });
+
+    it('should convert a reStructuredText GitHub README', async () => {
+      mockPypiClient.getPackageInfo.mockResolvedValue(createPackageInfo(''));
+      mockReadmeService.isRstContent.mockReturnValue(true);
+      mockReadmeService.convertRstToMarkdown.mockReturnValue(githubReadme);
+
+      const result = await service.getPackageReadme({ package_name: 'stub' });
+
+      expect(mockReadmeService.convertRstToMarkdown).toHaveBeenCalledWith(githubReadme);
+      expect(result.readme_source).toBe('github');
+    });
+
+    it('should keep the thin PyPI README when GitHub has nothing better', async () => {
+      const description = '# Stub\n\nShort but real.';
+      mockPypiClient.getPackageInfo.mockResolvedValue(createPackageInfo(description));
+      vi.mocked(githubApi.getReadmeFromUrl).mockResolvedValue(null);
+
+      const result = await service.getPackageReadme({ package_name: 'stub' });
+
+      expect(result.readme_source).toBe('pypi');
+      expect(result.readme_content).toBe(description);
+    });
+
+    it('should fall back to the summary without a GitHub repository', async () => {
+      mockPypiClient.getPackageInfo.mockResolvedValue(
+        createPackageInfo('', { Homepage: 'https://stub.example.com' })
+      );
+
+      const result = await service.getPackageReadme({ package_name: 'stub' });
+
+      expect(result.readme_source).toBe('summary');
+      expect(result.readme_content).toBe('A stub package');
+      expect(result.repository).toBeUndefined();
+      expect(githubApi.getReadmeFromUrl).not.toHaveBeenCalled();
+    });
+  });
+
   describe('createNotFoundResponse', () => {
     it('should create proper not found response with version', () => {
       const result = (service as any).createNotFoundResponse('test-package', '1.0.0');
@@ -451,6 +630,7 @@ describe('PackageReadmeService', () => {
           classifiers: [],
           requires_python: undefined,
         },
+        readme_source: 'none',
         exists: false,
       });
     });
@@ -499,7 +679,7 @@ describe('PackageReadmeService', () => {
       expect(result).toBe('# Test README\n\nContent here');
     });
 
-    it('should fallback to summary when description is not markdown', () => {
+    it('should return null when description is not markdown', () => {
       const packageInfo = {
         info: {
           description: 'Plain text description',
@@ -510,33 +690,35 @@ describe('PackageReadmeService', () => {
 
       const result = (service as any).extractReadmeContent(packageInfo);
 
-      expect(result).toBe('Short summary');
+      expect(result).toBeNull();
     });
 
-    it('should fallback to description when no content type', () => {
+    it('should convert description as reStructuredText when no content type', () => {
       const packageInfo = {
         info: {
           description: 'Some description',
           summary: 'Short summary',
         },
       };
+      mockReadmeService.convertRstToMarkdown.mockReturnValue('Some description');
 
       const result = (service as any).extractReadmeContent(packageInfo);
 
-      expect(result).toBe('Short summary');
+      expect(mockReadmeService.convertRstToMarkdown).toHaveBeenCalledWith('Some description');
+      expect(result).toBe('Some description');
     });
 
-    it('should use default message when no content available', () => {
+    it('should return null when no content available', () => {
       const packageInfo = {
         info: {},
       };
 
       const result = (service as any).extractReadmeContent(packageInfo);
 
-      expect(result).toBe('No README available for this package.');
+      expect(result).toBeNull();
     });
 
-    it('should prefer summary over empty description', () => {
+    it('should return null for an empty description', () => {
       const packageInfo = {
         info: {
           description: '',
@@ -546,7 +728,7 @@ describe('PackageReadmeService', () => {
 
       const result = (service as any).extractReadmeContent(packageInfo);
 
-      expect(result).toBe('Short summary');
+      expect(result).toBeNull();
     });
   });
 
@@ -563,9 +745,11 @@ describe('PackageReadmeService', () => {
 
     it('should get specific version info', async () => {
       const mockPackageInfo = { info: { name: 'test', version: '1.0.0' } };
+      mockPypiClient.getPackageInfo.mockResolvedValue({ info: { name: 'test', version: '2.0.0' } });
+      mockPypiClient.resolveVersion.mockResolvedValue('1.0.0');
       mockPypiClient.getVersionInfo.mockResolvedValue(mockPackageInfo);
 
-      const result = await (service as any).getPackageInfo('test', '1.0.0');
+      const result = await (service as any).getPackageInfo('test', '1.0');
 
       expect(result).toBe(mockPackageInfo);
       expect(mockPypiClient.getVersionInfo).toHaveBeenCalledWith('test', '1.0.0');
@@ -580,7 +764,8 @@ describe('PackageReadmeService', () => {
     });
 
     it('should return null when version not found', async () => {
-      mockPypiClient.getVersionInfo.mockRejectedValue(new Error('Version not found'));
+      mockPypiClient.getPackageInfo.mockResolvedValue({ info: { name: 'test', version: '2.0.0' } });
+      mockPypiClient.resolveVersion.mockRejectedValue(new Error('Version not found'));
 
       const result = await (service as any).getPackageInfo('test', '999.999.999');
 
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { deflateRawSync } from 'zlib';
 import { PyPIClient } from '../../src/services/pypi-api.js';
+import { MemoryCache } from '../../src/services/cache.js';
 import { PackageNotFoundError, VersionNotFoundError } from '../../src/types/index.js';
 
 // Mock dependencies
@@ -31,11 +34,74 @@ vi.mock('../../src/config/constants.js', () => ({
     MAX_RETRIES: 3,
     BASE_RETRY_DELAY: 1000,
   },
+  CACHE_CONFIG: {
+    DEFAULT_MAX_SIZE: 104857600,
+    DEFAULT_TTL: 3600000,
+    MIN_SIZE: 1048576,
+    MIN_TTL: 60000,
+    DEFAULT_DISK_MAX_SIZE: 524288000,
+    DISK_DIRECTORY_NAME: 'cache',
+    DEFAULT_STALE_GRACE: 86400000,
+    UNAVAILABLE_WHEEL_TTL: 600000,
+  },
   PYPI_CONFIG: {
     BASE_URL: 'https://pypi.org/pypi',
+    SIMPLE_URL: 'https://pypi.org/simple',
+    DEFAULT_INDEX_NAME: 'pypi',
+    MAX_WHEEL_DOWNLOAD: 1048576,
+  },
+  SEARCH_INDEX_CONFIG: {
+    INDEX_TTL: 86400000,
+    DOWNLOAD_TIMEOUT: 120000,
+    SNAPSHOT_FILE: 'simple-index.json',
+    DIRECTORY_NAME: 'pip-package-readme-mcp-test',
+    MIN_FUZZY_QUERY_LENGTH: 4,
+    MAX_FUZZY_DISTANCE: 3,
+    ENRICH_CONCURRENCY: 2,
+    MAX_ENRICHED_RESULTS: 1,
   },
 }));
 
+// Writes a minimal ZIP archive, deflating every entry except those named in `stored`
+function createZip(files: Record<string, string>, stored: string[] = []): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const method = stored.includes(name) ? 0 : 8;
+    const data = method === 0 ? Buffer.from(content) : deflateRawSync(Buffer.from(content));
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
 // Mock fetch globally
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
@@ -44,7 +110,7 @@ describe('PyPIClient', () => {
   let client: PyPIClient;
 
   beforeEach(() => {
-    client = new PyPIClient();
+    client = new PyPIClient(undefined, { cache: new MemoryCache() });
     vi.clearAllMocks();
   });
 
@@ -64,6 +130,465 @@ describe('PyPIClient', () => {
     });
   });
 
+  describe('document caching', () => {
+    const document = { info: { name: 'requests', version: '2.32.3' }, urls: [], releases: {} };
+    const okResponse = () => ({ ok: true, json: vi.fn().mockResolvedValue(document) });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should share one request between concurrent lookups', async () => {
+      mockFetch.mockResolvedValue(okResponse());
+
+      const [first, second] = await Promise.all([
+        client.getPackageInfo('requests'),
+        client.getPackageInfo('requests'),
+      ]);
+
+      expect(first).toEqual(document);
+      expect(second).toBe(first);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve fresh documents from the cache', async () => {
+      mockFetch.mockResolvedValue(okResponse());
+
+      await client.getVersionInfo('requests', '2.32.3');
+      const result = await client.getVersionInfo('requests', '2.32.3');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.isStale(result)).toBe(false);
+    });
+
+    it('should serve an expired document within the grace period and refresh it in the background', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const staleClient = new PyPIClient(undefined, { cache: new MemoryCache(), ttl: 60000, staleGrace: 60000 });
+      mockFetch.mockResolvedValue(okResponse());
+      const original = await staleClient.getPackageInfo('requests');
+
+      vi.setSystemTime(Date.now() + 90000);
+      const refreshed = { ...document, info: { ...document.info, version: '2.33.0' } };
+      mockFetch.mockResolvedValue({ ok: true, json: vi.fn().mockResolvedValue(refreshed) });
+
+      const stale = await staleClient.getPackageInfo('requests');
+      expect(stale).toBe(original);
+      expect(staleClient.isStale(stale)).toBe(true);
+
+      await vi.waitFor(async () => {
+        const fresh = await staleClient.getPackageInfo('requests');
+        expect(fresh.info.version).toBe('2.33.0');
+        expect(staleClient.isStale(fresh)).toBe(false);
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refetch past the grace period', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const staleClient = new PyPIClient(undefined, { cache: new MemoryCache(), ttl: 60000, staleGrace: 60000 });
+      mockFetch.mockResolvedValue(okResponse());
+      await staleClient.getPackageInfo('requests');
+
+      vi.setSystemTime(Date.now() + 150000);
+      const result = await staleClient.getPackageInfo('requests');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(staleClient.isStale(result)).toBe(false);
+    });
+
+    it('should revalidate expired documents with their validators', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const revalidatingClient = new PyPIClient(undefined, { cache: new MemoryCache(), ttl: 60000, staleGrace: 0 });
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'ETag': '"abc"', 'Last-Modified': 'Tue, 01 Oct 2024 00:00:00 GMT' }),
+        json: vi.fn().mockResolvedValue(document),
+      });
+      const original = await revalidatingClient.getPackageInfo('requests');
+
+      vi.setSystemTime(Date.now() + 90000);
+      const notModified = { ok: false, status: 304, headers: new Headers(), json: vi.fn() };
+      mockFetch.mockResolvedValue(notModified);
+      const revalidated = await revalidatingClient.getPackageInfo('requests');
+
+      expect(revalidated).toBe(original);
+      expect(notModified.json).not.toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://pypi.org/pypi/requests/json',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'If-None-Match': '"abc"',
+            'If-Modified-Since': 'Tue, 01 Oct 2024 00:00:00 GMT',
+          }),
+        })
+      );
+
+      // The 304 restarted the TTL
+      await revalidatingClient.getPackageInfo('requests');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the cached document when PyPI serves an older serial', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const serialClient = new PyPIClient(undefined, { cache: new MemoryCache(), ttl: 60000, staleGrace: 0 });
+      const current = { ...document, last_serial: 200 };
+      const headers = new Headers({ 'ETag': '"abc"' });
+      mockFetch.mockResolvedValue({ ok: true, status: 200, headers, json: vi.fn().mockResolvedValue(current) });
+      await serialClient.getPackageInfo('requests');
+
+      vi.setSystemTime(Date.now() + 90000);
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers,
+        json: vi.fn().mockResolvedValue({ ...document, last_serial: 150 }),
+      });
+      const result = await serialClient.getPackageInfo('requests');
+
+      expect(result.last_serial).toBe(200);
+    });
+
+    it('should not cache failed lookups', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404 });
+      await expect(client.getPackageInfo('requests')).rejects.toThrow(PackageNotFoundError);
+
+      mockFetch.mockResolvedValue(okResponse());
+      await expect(client.getPackageInfo('requests')).resolves.toEqual(document);
+    });
+  });
+
+  describe('package indexes', () => {
+    const indexes = [
+      { name: 'mirror', jsonUrl: 'https://mirror.example.com/pypi', simpleUrl: 'https://mirror.example.com/simple', username: 'ci', password: 'secret' },
+      { name: 'internal', jsonUrl: 'https://internal.example.com/pypi', simpleUrl: 'https://internal.example.com/simple', token: 'abc' },
+    ];
+    const document = { info: { name: 'in-house', version: '1.0.0' }, urls: [], releases: {} };
+
+    it('should ask each index in turn and report the one that served the package', async () => {
+      const indexClient = new PyPIClient(undefined, { indexes, cache: new MemoryCache() });
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 404 })
+        .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValue(document) });
+
+      const result = await indexClient.getPackageInfo('in-house');
+
+      expect(result).toEqual(document);
+      expect(indexClient.getIndexName(result)).toBe('internal');
+      expect(mockFetch).toHaveBeenNthCalledWith(1, 'https://mirror.example.com/pypi/in-house/json', expect.objectContaining({
+        headers: expect.objectContaining({ 'Authorization': `Basic ${Buffer.from('ci:secret').toString('base64')}` }),
+      }));
+      expect(mockFetch).toHaveBeenNthCalledWith(2, 'https://internal.example.com/pypi/in-house/json', expect.objectContaining({
+        headers: expect.objectContaining({ 'Authorization': 'Bearer abc' }),
+      }));
+    });
+
+    it('should report the index of cached documents', async () => {
+      const indexClient = new PyPIClient(undefined, { indexes, cache: new MemoryCache() });
+      mockFetch.mockResolvedValue({ ok: true, json: vi.fn().mockResolvedValue(document) });
+
+      await indexClient.getPackageInfo('in-house');
+      const cached = await indexClient.getPackageInfo('in-house');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(indexClient.getIndexName(cached)).toBe('mirror');
+    });
+
+    it('should not fall through on errors other than not found', async () => {
+      const indexClient = new PyPIClient(undefined, { indexes, cache: new MemoryCache() });
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      await expect(indexClient.getPackageInfo('in-house')).rejects.toThrow('HTTP 500 error for mirror');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not share cached documents between index configurations', async () => {
+      const shared = new MemoryCache();
+      mockFetch.mockResolvedValue({ ok: true, json: vi.fn().mockResolvedValue(document) });
+
+      await new PyPIClient(undefined, { indexes, cache: shared }).getPackageInfo('in-house');
+      await new PyPIClient(undefined, { indexes: indexes.slice(1), cache: shared }).getPackageInfo('in-house');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenLastCalledWith('https://internal.example.com/pypi/in-house/json', expect.anything());
+    });
+
+    it('should query indexes configured after construction', async () => {
+      const indexClient = new PyPIClient(undefined, { cache: new MemoryCache() });
+      indexClient.configureIndexes(indexes.slice(1));
+      mockFetch.mockResolvedValue({ ok: true, json: vi.fn().mockResolvedValue(document) });
+
+      const result = await indexClient.getPackageInfo('in-house');
+
+      expect(indexClient.getIndexName(result)).toBe('internal');
+      expect(mockFetch).toHaveBeenCalledWith('https://internal.example.com/pypi/in-house/json', expect.anything());
+    });
+
+    it('should keep a search snapshot per primary index', () => {
+      const mirror = new PyPIClient(undefined, { indexes, cache: new MemoryCache() });
+      const internal = new PyPIClient(undefined, { indexes: indexes.slice(1), cache: new MemoryCache() });
+
+      expect((mirror as any).searchIndex.snapshotPath).not.toBe((internal as any).searchIndex.snapshotPath);
+    });
+
+    it('should link name-only search results to the primary index', async () => {
+      const indexClient = new PyPIClient(undefined, {
+        indexes: [{ name: 'devpi', jsonUrl: 'https://devpi.example.com/root/dev/+json', simpleUrl: 'https://devpi.example.com/root/dev/+simple' }],
+        cache: new MemoryCache(),
+      });
+      vi.spyOn((indexClient as any).searchIndex, 'getIndex').mockResolvedValue({
+        search: () => [{ name: 'In_House', normalized_name: 'in-house', match_type: 'exact', distance: 0, score: 1 }],
+      });
+      vi.spyOn(indexClient, 'getPackageInfo').mockRejectedValue(new Error('No releases'));
+
+      const result = await indexClient.searchPackages('in-house');
+
+      expect(result.results[0].project_url).toBe('https://devpi.example.com/root/dev/+simple/in-house/');
+    });
+
+    it('should throw not found when no index has the package', async () => {
+      const indexClient = new PyPIClient(undefined, { indexes, cache: new MemoryCache() });
+      mockFetch.mockResolvedValue({ ok: false, status: 404 });
+
+      await expect(indexClient.getPackageInfo('missing')).rejects.toThrow(PackageNotFoundError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('core metadata', () => {
+    const metadataFile = 'Metadata-Version: 2.1\nName: requests\nVersion: 2.32.3\nRequires-Dist: idna<4,>=2.5\n';
+    const sha256 = createHash('sha256').update(metadataFile).digest('hex');
+    const project = (coreMetadata: unknown) => ({
+      meta: { 'api-version': '1.1', '_last-serial': 42 },
+      name: 'requests',
+      versions: ['2.32.3'],
+      files: [
+        { filename: 'requests-2.32.3.tar.gz', url: '../../packages/requests-2.32.3.tar.gz', hashes: {}, 'core-metadata': false },
+        { filename: 'requests-2.32.3-py3-none-any.whl', url: '../../packages/requests-2.32.3-py3-none-any.whl', hashes: {}, 'core-metadata': coreMetadata },
+      ],
+    });
+
+    it('should resolve file URLs against the project page', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: vi.fn().mockResolvedValue(project(true)) });
+
+      const result = await client.getSimpleApiInfo('requests');
+
+      expect(result.files[1].url).toBe('https://pypi.org/packages/requests-2.32.3-py3-none-any.whl');
+    });
+
+    it('should download and verify the metadata file of a wheel', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValue(project({ sha256 })) })
+        .mockResolvedValueOnce({ ok: true, text: vi.fn().mockResolvedValue(metadataFile) });
+
+      const metadata = await client.getCoreMetadata('requests', '2.32.3');
+
+      expect(metadata).toMatchObject({ name: 'requests', version: '2.32.3', requires_dist: ['idna<4,>=2.5'] });
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://pypi.org/packages/requests-2.32.3-py3-none-any.whl.metadata',
+        expect.anything()
+      );
+    });
+
+    it('should reject metadata that does not match its hash', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValue(project({ sha256 })) })
+        .mockResolvedValueOnce({ ok: true, text: vi.fn().mockResolvedValue(`${metadataFile}Requires-Dist: evil\n`) });
+
+      await expect(client.getCoreMetadata('requests', '2.32.3')).rejects.toThrow('does not match its sha256 hash');
+    });
+
+    it('should fail when the index serves no metadata file', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: vi.fn().mockResolvedValue(project(false)) });
+
+      await expect(client.getCoreMetadata('requests', '2.32.3')).rejects.toThrow('No core metadata file is available');
+      await expect(client.getCoreMetadata('requests', '9.9.9')).rejects.toThrow(VersionNotFoundError);
+    });
+
+    it('should not send index credentials to other hosts', async () => {
+      const indexClient = new PyPIClient(undefined, {
+        indexes: [{ name: 'private', jsonUrl: 'https://private.example.com/pypi', simpleUrl: 'https://private.example.com/simple', token: 'abc' }],
+        cache: new MemoryCache(),
+      });
+      const files = project(true).files.map(file => ({ ...file, url: `https://files.example.com/${file.filename}` }));
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValue({ ...project(true), files }) })
+        .mockResolvedValueOnce({ ok: true, text: vi.fn().mockResolvedValue(metadataFile) });
+
+      await indexClient.getCoreMetadata('requests', '2.32.3');
+
+      expect(mockFetch.mock.calls[0][1].headers).toHaveProperty('Authorization', 'Bearer abc');
+      expect(mockFetch.mock.calls[1][1].headers).not.toHaveProperty('Authorization');
+    });
+  });
+
+  describe('wheel metadata', () => {
+    const entryPoints = '[console_scripts]\nexample = example.cli:main\n\n[gui_scripts]\nexample-gui = example.gui:main\n';
+    const project = {
+      meta: { 'api-version': '1.1' },
+      name: 'example',
+      files: [
+        { filename: 'example-1.0.tar.gz', url: 'https://files.example.com/example-1.0.tar.gz', hashes: {} },
+        { filename: 'example-1.0-py3-none-any.whl', url: 'https://files.example.com/example-1.0-py3-none-any.whl', hashes: {} },
+      ],
+    };
+
+    // Serves byte ranges of the wheel like a file host
+    const serveWheel = (wheel: Buffer, supportsRanges = true) => mockFetch.mockImplementation(async (url: string, init: any) => {
+      if (!url.endsWith('.whl')) {
+        return { ok: true, json: vi.fn().mockResolvedValue(project) };
+      }
+      const range = init.headers['Range'].match(/^bytes=(\d*)-(\d*)$/);
+      if (!supportsRanges) {
+        return { ok: true, status: 200, headers: new Headers({ 'content-length': String(wheel.length) }), arrayBuffer: async () => wheel };
+      }
+      const start = range[1] === '' ? Math.max(0, wheel.length - Number(range[2])) : Number(range[1]);
+      const end = range[1] === '' ? wheel.length - 1 : Math.min(Number(range[2]), wheel.length - 1);
+      const body = wheel.subarray(start, end + 1);
+      return {
+        ok: true,
+        status: 206,
+        headers: new Headers({ 'content-range': `bytes ${start}-${end}/${wheel.length}` }),
+        arrayBuffer: async () => body,
+      };
+    });
+
+    it('should read entry_points.txt from the end of the wheel', async () => {
+      serveWheel(createZip({ 'example/__init__.py': '', 'example-1.0.dist-info/entry_points.txt': entryPoints }));
+
+      const result = await client.getEntryPoints('example', '1.0');
+
+      expect(result.console_scripts).toEqual([{ name: 'example', value: 'example.cli:main' }]);
+      expect(result.gui_scripts).toEqual([{ name: 'example-gui', value: 'example.gui:main' }]);
+      // The Simple API page and one range of the wheel
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1].headers).toHaveProperty('Range', 'bytes=-65557');
+    });
+
+    it('should fetch entries outside the first range separately', async () => {
+      const large = 'x'.repeat(80000);
+      serveWheel(createZip({
+        'example-1.0.dist-info/entry_points.txt': entryPoints,
+        'example/data.bin': large,
+      }, ['example/data.bin']));
+
+      const result = await client.getEntryPoints('example', '1.0');
+
+      expect(result.console_scripts.map(entry => entry.name)).toEqual(['example']);
+      expect(mockFetch.mock.calls.length).toBeGreaterThan(2);
+    });
+
+    it('should read whole wheels from servers without range support', async () => {
+      serveWheel(createZip({ 'example-1.0.dist-info/entry_points.txt': entryPoints }), false);
+
+      const result = await client.getEntryPoints('example', '1.0');
+
+      expect(result.console_scripts).toHaveLength(1);
+    });
+
+    it('should read whole wheels without a Content-Length up to the download limit', async () => {
+      const wheel = createZip({ 'example-1.0.dist-info/entry_points.txt': entryPoints });
+      const streamed = (chunks: Buffer[]) => ({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        body: new ReadableStream({
+          start(controller) {
+            chunks.forEach(chunk => controller.enqueue(new Uint8Array(chunk)));
+            controller.close();
+          },
+        }),
+      });
+      mockFetch.mockImplementation(async (url: string) => url.endsWith('.whl')
+        ? streamed([wheel.subarray(0, 10), wheel.subarray(10)])
+        : { ok: true, json: vi.fn().mockResolvedValue(project) });
+
+      expect((await client.getEntryPoints('example', '1.0')).console_scripts).toHaveLength(1);
+
+      mockFetch.mockImplementation(async (url: string) => url.endsWith('.whl')
+        ? streamed([Buffer.alloc(600000), Buffer.alloc(600000)])
+        : { ok: true, json: vi.fn().mockResolvedValue(project) });
+
+      // A new client, as the first one cached the metadata
+      await expect(new PyPIClient(undefined, { cache: new MemoryCache() }).getEntryPoints('example', '1.0'))
+        .rejects.toMatchObject({ code: 'WHEEL_TOO_LARGE' });
+    });
+
+    it('should remember releases without a wheel for a while', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: vi.fn().mockResolvedValue({ ...project, files: project.files.slice(0, 1) }) });
+      const getSimpleApiInfo = vi.spyOn(client, 'getSimpleApiInfo');
+
+      await expect(client.getImportNames('example', '1.0')).rejects.toMatchObject({ code: 'WHEEL_NOT_AVAILABLE' });
+      await expect(client.getImportNames('example', '1.0')).rejects.toMatchObject({ code: 'WHEEL_NOT_AVAILABLE' });
+
+      expect(getSimpleApiInfo).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report no entry points for wheels without entry_points.txt', async () => {
+      serveWheel(createZip({ 'example/__init__.py': '', 'example-1.0.dist-info/METADATA': 'Name: example\n' }));
+
+      const result = await client.getEntryPoints('example', '1.0');
+
+      expect(result).toEqual({ console_scripts: [], gui_scripts: [], groups: {} });
+    });
+
+    it('should list import names from RECORD', async () => {
+      const record = [
+        'example/__init__.py,sha256=abc,0',
+        'example/cli.py,sha256=abc,10',
+        '_example_speedups.cpython-312-x86_64-linux-gnu.so,sha256=abc,10',
+        'example-1.0.dist-info/RECORD,,',
+      ].join('\n');
+      serveWheel(createZip({ 'example/__init__.py': '', 'example-1.0.dist-info/RECORD': record }));
+
+      const result = await client.getImportNames('example', '1.0');
+
+      expect(result).toEqual(['example']);
+    });
+
+    it('should fall back to top_level.txt', async () => {
+      serveWheel(createZip({ 'example-1.0.dist-info/top_level.txt': 'yaml\n_yaml\n' }));
+
+      const result = await client.getImportNames('example', '1.0');
+
+      expect(result).toEqual(['yaml']);
+    });
+
+    it('should read selected files with few range requests', async () => {
+      const large = 'x'.repeat(200000);
+      serveWheel(createZip({
+        'example/__init__.py': '"Example."',
+        'example/core.py': 'def run(): ...',
+        'example/data.bin': large,
+        'example/late.py': 'VALUE = 1',
+        'example-1.0.dist-info/RECORD': '',
+      }, ['example/data.bin']));
+
+      const result = await client.readWheelFiles('example', '1.0', path => path.endsWith('.py'));
+
+      expect(result.filename).toBe('example-1.0-py3-none-any.whl');
+      expect(result.paths).toContain('example/data.bin');
+      expect(result.files).toEqual([
+        { path: 'example/__init__.py', content: '"Example."' },
+        { path: 'example/core.py', content: 'def run(): ...' },
+        { path: 'example/late.py', content: 'VALUE = 1' },
+      ]);
+      // The Simple API page, the end of the wheel and one range for the first two files
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should read the wheel once for entry points and import names', async () => {
+      serveWheel(createZip({ 'example-1.0.dist-info/entry_points.txt': entryPoints, 'example-1.0.dist-info/top_level.txt': 'example\n' }));
+
+      await client.getEntryPoints('example', '1.0');
+      const calls = mockFetch.mock.calls.length;
+      const result = await client.getImportNames('example', '1.0');
+
+      expect(result).toEqual(['example']);
+      expect(mockFetch).toHaveBeenCalledTimes(calls);
+    });
+  });
+
   describe('getPackageInfo', () => {
     const mockPackageInfo = {
       info: {
@@ -238,27 +763,113 @@ describe('PyPIClient', () => {
   });
 
   describe('searchPackages', () => {
-    it('should return empty results with deprecation warning', async () => {
-      const result = await client.searchPackages('requests', 10);
+    const mockIndex = {
+      search: vi.fn(),
+    };
 
-      expect(result).toEqual({
+    beforeEach(() => {
+      vi.spyOn((client as any).searchIndex, 'getIndex').mockResolvedValue(mockIndex);
+      mockIndex.search.mockReturnValue([
+        { name: 'requests', normalized_name: 'requests', match_type: 'exact', distance: 0, score: 1 },
+        { name: 'requests-oauthlib', normalized_name: 'requests-oauthlib', match_type: 'prefix', distance: 9, score: 0.86 },
+      ]);
+    });
+
+    it('should fill index matches with package details', async () => {
+      vi.spyOn(client, 'getPackageInfo').mockImplementation(async (name: string) => ({
         info: {
-          page: 1,
-          pages: 1,
-          per_page: 10,
-          total: 0,
+          name,
+          version: '1.0.0',
+          summary: `${name} summary`,
+          description: 'Long description',
+          keywords: 'http',
+          author: 'Author',
+          classifiers: ['Programming Language :: Python :: 3'],
+          yanked: false,
         },
-        results: [],
+        urls: [{ upload_time_iso_8601: '2024-01-01T00:00:00Z' }],
+      }) as any);
+
+      const result = await client.searchPackages('requests', 10);
+
+      expect(mockIndex.search).toHaveBeenCalledWith('requests', 10);
+      expect(result.info).toEqual({ page: 1, pages: 1, per_page: 10, total: 2 });
+      expect(result.results.map(r => r.name)).toEqual(['requests', 'requests-oauthlib']);
+      expect(result.results[0]).toMatchObject({
+        version: '1.0.0',
+        summary: 'requests summary',
+        classifiers: ['Programming Language :: Python :: 3'],
+        upload_time: '2024-01-01T00:00:00Z',
+        match: { match_type: 'exact', score: 1 },
+      });
+    });
+
+    it('should only fill in the best matches', async () => {
+      const getPackageInfo = vi.spyOn(client, 'getPackageInfo').mockResolvedValue({
+        info: { name: 'requests', version: '1.0.0', summary: 'summary', yanked: false },
+        urls: [],
+      } as any);
+
+      const result = await client.searchPackages('requests', 10);
+
+      expect(getPackageInfo).toHaveBeenCalledTimes(1);
+      expect(getPackageInfo).toHaveBeenCalledWith('requests');
+      expect(result.results[1]).toMatchObject({
+        name: 'requests-oauthlib',
+        version: '',
+        match: { match_type: 'prefix' },
+      });
+    });
+
+    it('should keep name-only results when details are unavailable', async () => {
+      vi.spyOn(client, 'getPackageInfo').mockRejectedValue(new Error('Package not found'));
+
+      const result = await client.searchPackages('requests', 10);
+
+      expect(result.results).toHaveLength(2);
+      expect(result.results[1]).toMatchObject({
+        name: 'requests-oauthlib',
+        version: '',
+        project_url: 'https://pypi.org/project/requests-oauthlib/',
+        match: { match_type: 'prefix' },
       });
     });
 
     it('should use default limit if not provided', async () => {
+      vi.spyOn(client, 'getPackageInfo').mockRejectedValue(new Error('API Error'));
+
       const result = await client.searchPackages('requests');
 
+      expect(mockIndex.search).toHaveBeenCalledWith('requests', 20);
       expect(result.info.per_page).toBe(20);
     });
   });
 
+  describe('getSimpleProjectList', () => {
+    it('should fetch the PEP 691 project list', async () => {
+      const mockProjectList = {
+        meta: { 'api-version': '1.1', '_last-serial': 42 },
+        projects: [{ name: 'requests', '_last-serial': 40 }],
+      };
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(mockProjectList),
+      });
+
+      const result = await client.getSimpleProjectList();
+
+      expect(result).toEqual(mockProjectList);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://pypi.org/simple/',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'Accept': 'application/vnd.pypi.simple.v1+json',
+          }),
+        })
+      );
+    });
+  });
+
   describe('getSimpleApiInfo', () => {
     const mockSimpleResponse = {
       files: [
@@ -371,6 +982,65 @@ describe('PyPIClient', () => {
     });
   });
 
+  describe('resolveVersionSpecifier', () => {
+    const file = (yanked = false) => ({ filename: 'pkg.whl', yanked });
+    const mockPackageInfo = {
+      info: { name: 'requests', version: '2.31.0' },
+      releases: {
+        '2.9.0': [file()],
+        '2.28.0': [file()],
+        '2.28.2': [file()],
+        '2.30.0': [file(true)],
+        '2.31.0': [file()],
+        '3.0.0b1': [file()],
+        '3.0.0': [],
+      },
+    };
+
+    beforeEach(() => {
+      vi.spyOn(client, 'getPackageInfo').mockResolvedValue(mockPackageInfo as any);
+    });
+
+    it('should resolve to the newest matching final release', async () => {
+      await expect(client.resolveVersionSpecifier('requests', '~=2.28')).resolves.toBe('2.31.0');
+      await expect(client.resolveVersionSpecifier('requests', '>=2.9,<2.28.2')).resolves.toBe('2.28.0');
+    });
+
+    it('should skip yanked releases and releases without files', async () => {
+      await expect(client.resolveVersionSpecifier('requests', '<2.31')).resolves.toBe('2.28.2');
+      await expect(client.resolveVersionSpecifier('requests', '>=3')).rejects.toThrow();
+    });
+
+    it('should select a yanked release only when pinned exactly', async () => {
+      await expect(client.resolveVersionSpecifier('requests', '==2.30.0')).resolves.toBe('2.30.0');
+    });
+
+    it('should select pre-releases when the specifier names one', async () => {
+      await expect(client.resolveVersionSpecifier('requests', '>=3.0.0a1')).resolves.toBe('3.0.0b1');
+    });
+
+    it('should reject invalid specifiers', async () => {
+      await expect(client.resolveVersionSpecifier('requests', '~=2')).rejects.toThrow();
+      expect(client.getPackageInfo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveVersion', () => {
+    const mockPackageInfo = {
+      info: { name: 'requests', version: '2.31.0' },
+      releases: { '2.28.0': [{ filename: 'pkg.whl', yanked: false }], '2.31.0': [{ filename: 'pkg.whl', yanked: false }] },
+    };
+
+    it('should resolve latest, exact versions and specifiers', async () => {
+      vi.spyOn(client, 'getPackageInfo').mockResolvedValue(mockPackageInfo as any);
+
+      await expect(client.resolveVersion(mockPackageInfo as any, 'requests', 'latest')).resolves.toBe('2.31.0');
+      await expect(client.resolveVersion(mockPackageInfo as any, 'requests', '2.28')).resolves.toBe('2.28.0');
+      await expect(client.resolveVersion(mockPackageInfo as any, 'requests', '<2.31')).resolves.toBe('2.28.0');
+      await expect(client.resolveVersion(mockPackageInfo as any, 'requests', '2.29.0')).rejects.toThrow();
+    });
+  });
+
   describe('getDownloadStats', () => {
     it('should return download stats from package info', async () => {
       const mockPackageInfo = {
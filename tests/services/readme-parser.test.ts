@@ -184,6 +184,28 @@ See [documentation](https://docs.example.com) for more info.`;
       expect(result.length).toBeGreaterThanOrEqual(0);
       // Tests that the function handles complex markdown
     });
+
+    it('should rank examples importing the package ahead of others', () => {
+      const markdown = `# Soup
+
+## Usage
+
+\`\`\`python
+import requests
+response = requests.get("https://example.com")
+\`\`\`
+
+## Parsing
+
+\`\`\`python
+from bs4 import BeautifulSoup
+soup = BeautifulSoup(response.text, "html.parser")
+\`\`\``;
+
+      const result = service.extractUsageExamples(markdown, ['bs4']);
+
+      expect(result[0].code).toContain('from bs4 import BeautifulSoup');
+    });
   });
 
   describe('cleanReadmeContent', () => {
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RstConverter } from '../../src/services/readme/rst-converter.js';
+import { ReadmeService } from '../../src/services/readme/index.js';
+
+describe('RstConverter', () => {
+  let converter: RstConverter;
+
+  beforeEach(() => {
+    converter = new RstConverter();
+  });
+
+  describe('headings', () => {
+    it('should assign levels in order of first appearance', () => {
+      const rst = `=====
+Title
+=====
+
+Section
+-------
+
+Subsection
+~~~~~~~~~~
+
+Another Section
+---------------`;
+
+      expect(converter.convert(rst)).toBe(
+        '# Title\n\n## Section\n\n### Subsection\n\n## Another Section'
+      );
+    });
+
+    it('should convert transitions to horizontal rules', () => {
+      expect(converter.convert('Before\n\n----\n\nAfter')).toBe('Before\n\n---\n\nAfter');
+    });
+  });
+
+  describe('literal and code blocks', () => {
+    it('should convert paragraph literal blocks', () => {
+      const rst = `Example::
+
+    import requests
+    requests.get("https://example.com")
+
+Done.`;
+
+      expect(converter.convert(rst)).toBe(
+        'Example:\n\n```python\nimport requests\nrequests.get("https://example.com")\n```\n\nDone.'
+      );
+    });
+
+    it('should drop a standalone literal block marker', () => {
+      expect(converter.convert('Run this ::\n\n    $ pip install requests')).toBe(
+        'Run this\n\n```bash\n$ pip install requests\n```'
+      );
+    });
+
+    it('should convert code-block directives with options', () => {
+      const rst = `.. code-block:: python3
+   :linenos:
+
+   import numpy as np
+   np.zeros(3)`;
+
+      expect(converter.convert(rst)).toBe('```python\nimport numpy as np\nnp.zeros(3)\n```');
+    });
+
+    it('should fence doctest blocks', () => {
+      expect(converter.convert('>>> 1 + 1\n2')).toBe('```python\n>>> 1 + 1\n2\n```');
+    });
+  });
+
+  describe('lists', () => {
+    it('should convert bullet and enumerated lists', () => {
+      const rst = `* first
+* second item
+  continued
+
+  - nested
+
+1. one
+#. two`;
+
+      expect(converter.convert(rst)).toBe(
+        '- first\n- second item\n  continued\n\n  - nested\n\n1. one\n1. two'
+      );
+    });
+
+    it('should convert definition lists and field lists', () => {
+      expect(converter.convert('term\n    The definition.')).toBe('**term**\n\nThe definition.');
+      expect(converter.convert(':Author: Jane Doe')).toBe('**Author:** Jane Doe');
+    });
+  });
+
+  describe('inline markup', () => {
+    it('should convert literals, embedded links and named references', () => {
+      const rst = `Use \`\`requests\`\` with \`the docs <https://docs.example.com>\`_ or Django_.
+
+.. _Django: https://www.djangoproject.com/`;
+
+      expect(converter.convert(rst)).toBe(
+        'Use `requests` with [the docs](https://docs.example.com) or [Django](https://www.djangoproject.com/).'
+      );
+    });
+
+    it('should resolve anonymous references in order', () => {
+      const rst = `See \`first\`__ and \`second\`__.
+
+__ https://one.example.com
+__ https://two.example.com`;
+
+      expect(converter.convert(rst)).toBe(
+        'See [first](https://one.example.com) and [second](https://two.example.com).'
+      );
+    });
+
+    it('should convert roles', () => {
+      expect(converter.convert('Call :func:`numpy.zeros` as in :pep:`8` and :ref:`the guide <guide>`.')).toBe(
+        'Call `numpy.zeros` as in [PEP 8](https://peps.python.org/pep-0008/) and the guide.'
+      );
+    });
+
+    it('should replace image substitutions', () => {
+      const rst = `|badge|
+
+.. |badge| image:: https://img.shields.io/badge.svg
+   :target: https://ci.example.com
+   :alt: Build`;
+
+      expect(converter.convert(rst)).toBe(
+        '[![Build](https://img.shields.io/badge.svg)](https://ci.example.com)'
+      );
+    });
+  });
+
+  describe('tables', () => {
+    it('should convert grid tables', () => {
+      const rst = `+--------+-------+
+| Name   | Value |
++========+=======+
+| a      | 1     |
+| more   |       |
++--------+-------+
+| b | c  | 2     |
++--------+-------+`;
+
+      expect(converter.convert(rst)).toBe(
+        '| Name | Value |\n| --- | --- |\n| a more | 1 |\n| b \\| c | 2 |'
+      );
+    });
+
+    it('should convert simple tables', () => {
+      const rst = `=====  ======
+Input  Output
+=====  ======
+True   False
+False  True
+=====  ======`;
+
+      expect(converter.convert(rst)).toBe(
+        '| Input | Output |\n| --- | --- |\n| True | False |\n| False | True |'
+      );
+    });
+  });
+
+  describe('directives', () => {
+    it('should convert admonitions to block quotes', () => {
+      const rst = `.. warning:: Python 2 is not supported.
+
+   Upgrade first.
+
+.. admonition:: Custom title
+
+   Body text.`;
+
+      expect(converter.convert(rst)).toBe(
+        '> **Warning**\n>\n> Python 2 is not supported.\n>\n> Upgrade first.\n\n> **Custom title**\n>\n> Body text.'
+      );
+    });
+
+    it('should drop comments and navigation directives', () => {
+      const rst = `.. contents:: Table of Contents
+
+.. This is a comment
+   spanning two lines
+
+Text`;
+
+      expect(converter.convert(rst)).toBe('Text');
+    });
+
+    it('should convert images', () => {
+      expect(converter.convert('.. image:: https://example.com/logo.png\n   :alt: Logo')).toBe(
+        '![Logo](https://example.com/logo.png)'
+      );
+    });
+  });
+
+  it('should tell reStructuredText from Markdown', () => {
+    expect(converter.looksLikeRst('Title\n=====\n\n.. code-block:: python\n\n   import os')).toBe(true);
+    expect(converter.looksLikeRst('# Title\n\n```python\nimport os\n```\n\nSee [docs](https://example.com).')).toBe(false);
+  });
+
+  it('should return an empty string for empty input', () => {
+    expect(converter.convert('')).toBe('');
+  });
+
+  it('should make converted code blocks visible to example extraction', () => {
+    const rst = `Usage
+-----
+
+.. code-block:: python
+
+   import requests
+   response = requests.get("https://example.com")`;
+
+    const service = new ReadmeService();
+    const examples = service.extractUsageExamples(service.convertRstToMarkdown(rst));
+
+    expect(examples[0]).toMatchObject({
+      title: 'Usage',
+      language: 'python',
+      code: 'import requests\nresponse = requests.get("https://example.com")',
+    });
+  });
+});
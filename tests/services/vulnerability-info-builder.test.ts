@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { VulnerabilityInfoBuilder } from '../../src/services/package-readme/vulnerability-info-builder.js';
+
+describe('VulnerabilityInfoBuilder', () => {
+  const build = (vulnerabilities: unknown[] | undefined) =>
+    new VulnerabilityInfoBuilder().build({ info: { name: 'example' }, vulnerabilities } as any);
+
+  it('should map advisories and skip withdrawn ones', () => {
+    const result = build([
+      {
+        id: 'GHSA-j8r2-6x86-q33q',
+        aliases: ['CVE-2023-32681'],
+        summary: 'Unintended leak of Proxy-Authorization header',
+        details: 'Long description',
+        fixed_in: ['2.31.0'],
+        link: 'https://osv.dev/vulnerability/GHSA-j8r2-6x86-q33q',
+        source: 'osv',
+        withdrawn: null,
+      },
+      { id: 'PYSEC-2000-1', aliases: [], details: 'Withdrawn', fixed_in: [], link: '', withdrawn: '2024-01-01T00:00:00Z' },
+    ]);
+
+    expect(result).toEqual([{
+      id: 'GHSA-j8r2-6x86-q33q',
+      aliases: ['CVE-2023-32681'],
+      summary: 'Unintended leak of Proxy-Authorization header',
+      fixed_in: ['2.31.0'],
+      link: 'https://osv.dev/vulnerability/GHSA-j8r2-6x86-q33q',
+    }]);
+  });
+
+  it('should summarize from the details when there is no summary', () => {
+    const [result] = build([
+      { id: 'PYSEC-2023-74', aliases: [], summary: null, details: 'Requests forwards proxy credentials.\n\nMore text', fixed_in: [], link: '' },
+    ]);
+
+    expect(result.summary).toBe('Requests forwards proxy credentials.');
+    expect(result.link).toBe('https://osv.dev/vulnerability/PYSEC-2023-74');
+  });
+
+  it('should handle documents without a vulnerabilities field', () => {
+    expect(build(undefined)).toEqual([]);
+  });
+});
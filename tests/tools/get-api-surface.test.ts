@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getApiSurface } from '../../src/tools/get-api-surface.js';
+import { pypiClient } from '../../src/services/pypi-api.js';
+import { cache } from '../../src/services/cache.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const document = {
+  info: { name: 'httplib', version: '2.0' },
+  releases: { '1.0': [], '2.0': [] },
+};
+
+const files: Record<string, string> = {
+  'httplib/__init__.py': [
+    '"""A small HTTP library."""',
+    'from . import adapters',
+    'from .api import get, request',
+    'from .models import *',
+    'from ._internal import helper',
+    'import os',
+  ].join('\n'),
+  'httplib/api.py': [
+    'from .models import Response',
+    'def request(method: str, url: str) -> Response:',
+    '    """Sends a request."""',
+    'def get(url: str) -> Response:',
+    '    """Sends a GET request."""',
+    'def _prepare(): ...',
+  ].join('\n'),
+  'httplib/models.py': [
+    '__all__ = ["Response"]',
+    'class Response:',
+    '    """An HTTP response."""',
+    '    def json(self): ...',
+    '    def _decode(self): ...',
+    'class Request: ...',
+  ].join('\n'),
+  'httplib/models.pyi': [
+    '__all__ = ["Response"]',
+    'class Response:',
+    '    status: int',
+    '    def json(self) -> dict: ...',
+  ].join('\n'),
+  'httplib/adapters.py': '"""Transport adapters."""\nclass HTTPAdapter: ...\n',
+  'httplib/_internal.py': 'def helper(): ...\n',
+};
+
+describe('get-api-surface tool', () => {
+  beforeEach(() => {
+    cache.clear();
+    vi.spyOn(pypiClient, 'getPackageInfo').mockResolvedValue(document as any);
+    vi.spyOn(pypiClient, 'readWheelFiles').mockImplementation(async (_name, _version, select) => {
+      const paths = [...Object.keys(files), 'httplib/py.typed', 'httplib/tests/test_api.py', 'httplib-2.0.dist-info/RECORD'];
+      return {
+        filename: 'httplib-2.0-py3-none-any.whl',
+        paths,
+        files: paths.filter(select).map(path => ({ path, content: files[path] ?? '' })),
+      };
+    });
+  });
+
+  it('should list public modules with their definitions', async () => {
+    const result = await getApiSurface({ package_name: 'httplib' });
+
+    expect(result).toMatchObject({ package_name: 'httplib', version: '2.0', wheel: 'httplib-2.0-py3-none-any.whl', typed: true, has_stubs: true, truncated: false });
+    expect(result.modules.map(module => module.name)).toEqual(['httplib', 'httplib.adapters', 'httplib.api', 'httplib.models']);
+
+    const api = result.modules.find(module => module.name === 'httplib.api')!;
+    expect(api.functions.map(fn => [fn.name, fn.signature, fn.docstring])).toEqual([
+      ['request', '(method: str, url: str) -> Response', 'Sends a request.'],
+      ['get', '(url: str) -> Response', 'Sends a GET request.'],
+    ]);
+    expect(api.reexports).toEqual([]);
+  });
+
+  it('should prefer stubs and respect __all__', async () => {
+    const result = await getApiSurface({ package_name: 'httplib' });
+
+    const models = result.modules.find(module => module.name === 'httplib.models')!;
+    expect(models).toMatchObject({ path: 'httplib/models.pyi', stub: true, all: ['Response'] });
+    expect(models.classes.map(cls => [cls.name, cls.methods.map(method => method.signature)])).toEqual([['Response', ['(self) -> dict']]]);
+  });
+
+  it('should resolve what a package re-exports', async () => {
+    const result = await getApiSurface({ package_name: 'httplib' });
+
+    const root = result.modules[0];
+    expect(root.docstring).toBe('A small HTTP library.');
+    expect(root.reexports).toEqual([
+      { name: 'adapters', from: 'httplib.adapters', kind: 'module', docstring: 'Transport adapters.' },
+      { name: 'get', from: 'httplib.api', kind: 'function', signature: '(url: str) -> Response', docstring: 'Sends a GET request.' },
+      { name: 'request', from: 'httplib.api', kind: 'function', signature: '(method: str, url: str) -> Response', docstring: 'Sends a request.' },
+      { name: 'Response', from: 'httplib.models', kind: 'class', docstring: undefined },
+      { name: 'helper', from: 'httplib._internal', kind: 'function', signature: '()', docstring: undefined },
+    ]);
+  });
+
+  it('should not read test suites', async () => {
+    await getApiSurface({ package_name: 'httplib' });
+
+    const select = vi.mocked(pypiClient.readWheelFiles).mock.calls[0][2];
+    expect(select('httplib/tests/test_api.py')).toBe(false);
+    expect(select('httplib-2.0.dist-info/RECORD')).toBe(false);
+    expect(select('httplib-2.0.data/purelib/httplib/extra.py')).toBe(true);
+  });
+
+  it('should filter by module and cache the surface', async () => {
+    const result = await getApiSurface({ package_name: 'httplib', module: 'httplib.adapters' });
+    await getApiSurface({ package_name: 'httplib', version: '2.0' });
+
+    expect(result.modules.map(module => module.name)).toEqual(['httplib.adapters']);
+    expect(result.total_modules).toBe(1);
+    expect(pypiClient.readWheelFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject unknown modules and versions', async () => {
+    await expect(getApiSurface({ package_name: 'httplib', module: 'httplib.missing' })).rejects.toThrow('not a public module');
+    await expect(getApiSurface({ package_name: 'httplib', module: 'not a module' })).rejects.toThrow('Invalid module');
+    await expect(getApiSurface({ package_name: 'httplib', version: '3.0' })).rejects.toThrow('3.0');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getDependencyTree } from '../../src/tools/get-dependency-tree.js';
+import { pypiClient } from '../../src/services/pypi-api.js';
+import { cache } from '../../src/services/cache.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+// Requirements of the only release, 1.0, of each package
+const PACKAGES: Record<string, string[]> = {
+  app: ['lib>=1', 'missing'],
+  lib: ['leaf'],
+  leaf: ['deep'],
+  deep: [],
+};
+
+describe('get-dependency-tree tool', () => {
+  beforeEach(() => {
+    cache.clear();
+    vi.spyOn(pypiClient, 'getPackageInfo').mockImplementation(async name => {
+      if (!PACKAGES[name]) {
+        throw new Error(`Package '${name}' not found`);
+      }
+      return { info: { name, version: '1.0', requires_dist: PACKAGES[name] }, releases: { '1.0': [{ yanked: false }] } } as any;
+    });
+    vi.spyOn(pypiClient, 'getIndexName').mockReturnValue('pypi');
+  });
+
+  it('should resolve the tree and report dependencies that cannot be resolved', async () => {
+    const result = await getDependencyTree({ package_name: 'app', max_depth: 5 });
+
+    expect(result).toMatchObject({ package_name: 'app', version: '1.0', max_depth: 5, total_packages: 4 });
+    expect(result.tree.dependencies.map(({ name, version, error }) => ({ name, version, error }))).toEqual([
+      { name: 'lib', version: '1.0', error: undefined },
+      { name: 'missing', version: null, error: "Package 'missing' not found" },
+    ]);
+    expect(result.tree.dependencies[0].dependencies[0].dependencies[0]).toMatchObject({ name: 'deep', version: '1.0' });
+  });
+
+  it('should mark packages whose dependencies lie beyond the maximum depth', async () => {
+    const result = await getDependencyTree({ package_name: 'app', max_depth: 1 });
+
+    const lib = result.tree.dependencies[0];
+    expect(lib).toMatchObject({ name: 'lib', truncated: true, dependencies: [] });
+    expect(result.total_packages).toBe(2);
+  });
+
+  it('should validate the target environment', async () => {
+    await expect(getDependencyTree({ package_name: 'app', python_version: 'three' })).rejects.toThrow();
+    await expect(getDependencyTree({ package_name: 'app', extras: 'socks' as any })).rejects.toThrow('extras must be an array of strings');
+  });
+});
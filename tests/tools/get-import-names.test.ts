@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getImportNames } from '../../src/tools/get-import-names.js';
+import { pypiClient } from '../../src/services/pypi-api.js';
+import { PackageNotFoundError, PackageReadmeMcpError } from '../../src/types/index.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const documents: Record<string, { info: { name: string; version: string }; releases: Record<string, unknown[]> }> = {
+  pyyaml: { info: { name: 'PyYAML', version: '6.0.2' }, releases: { '6.0.1': [], '6.0.2': [] } },
+  yaml: { info: { name: 'yaml', version: '0.1' }, releases: { '0.1': [] } },
+  'yaml-python': { info: { name: 'yaml-python', version: '1.0' }, releases: { '1.0': [] } },
+};
+
+const importNames: Record<string, string[]> = {
+  pyyaml: ['_yaml', 'yaml'],
+  yaml: ['yaml_stub'],
+};
+
+describe('get-import-names tool', () => {
+  beforeEach(() => {
+    vi.spyOn(pypiClient, 'getPackageInfo').mockImplementation(async (name: string) => {
+      const document = documents[name.toLowerCase()];
+      if (!document) {
+        throw new PackageNotFoundError(name);
+      }
+      return document as any;
+    });
+    vi.spyOn(pypiClient, 'getImportNames').mockImplementation(async (name: string) => {
+      const names = importNames[name.toLowerCase()];
+      if (!names) {
+        throw new PackageReadmeMcpError(`No wheel is available for ${name}`, 'WHEEL_NOT_AVAILABLE');
+      }
+      return names;
+    });
+  });
+
+  it('should list the import names of a package', async () => {
+    const result = await getImportNames({ package_name: 'pyyaml' });
+
+    expect(result).toMatchObject({ package_name: 'PyYAML', version: '6.0.2', import_names: ['_yaml', 'yaml'] });
+    expect(pypiClient.getImportNames).toHaveBeenCalledWith('pyyaml', '6.0.2');
+  });
+
+  it('should resolve the requested version', async () => {
+    await getImportNames({ package_name: 'pyyaml', version: '6.0.1' });
+
+    expect(pypiClient.getImportNames).toHaveBeenCalledWith('pyyaml', '6.0.1');
+    await expect(getImportNames({ package_name: 'pyyaml', version: '5.0' })).rejects.toThrow('5.0');
+  });
+
+  it('should find the distribution providing a module', async () => {
+    const result = await getImportNames({ import_name: 'yaml' });
+
+    expect(result.import_name).toBe('yaml');
+    expect(result.providers).toEqual([
+      { package_name: 'PyYAML', version: '6.0.2', import_names: ['_yaml', 'yaml'], verified: true },
+    ]);
+  });
+
+  it('should match submodules of the import name', async () => {
+    const result = await getImportNames({ import_name: 'yaml.loader' });
+
+    expect(result.providers?.map(provider => provider.package_name)).toEqual(['PyYAML']);
+  });
+
+  it('should keep known providers whose wheels cannot be read as unverified', async () => {
+    importNames.pyyaml = undefined as any;
+    try {
+      const result = await getImportNames({ import_name: 'yaml' });
+
+      expect(result.providers).toEqual([
+        { package_name: 'PyYAML', version: '6.0.2', import_names: [], verified: false },
+      ]);
+    } finally {
+      importNames.pyyaml = ['_yaml', 'yaml'];
+    }
+  });
+
+  it('should require exactly one of package_name and import_name', async () => {
+    await expect(getImportNames({})).rejects.toThrow('Provide either package_name or import_name');
+    await expect(getImportNames({ package_name: 'pyyaml', import_name: 'yaml' })).rejects.toThrow('Provide either package_name or import_name');
+    await expect(getImportNames({ import_name: 'not-a-module' })).rejects.toThrow('Invalid import name');
+  });
+});
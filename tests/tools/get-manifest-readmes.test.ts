@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getManifestReadmes } from '../../src/tools/get-manifest-readmes.js';
+import { PackageReadmeService } from '../../src/services/package-readme/index.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+describe('get-manifest-readmes tool', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(PackageReadmeService.prototype, 'getPackageReadme').mockImplementation(async ({ package_name, version }) => ({
+      package_name,
+      version: package_name === 'missing' ? version! : '2.0',
+      description: package_name === 'missing' ? 'Package not found' : `${package_name} summary`,
+      installation: { pip: `pip install ${package_name}` },
+      readme_source: package_name === 'missing' ? 'none' : 'pypi',
+      exists: package_name !== 'missing',
+      index: package_name === 'missing' ? undefined : 'pypi',
+    }) as any);
+  });
+
+  it('should summarize each requirement and mark the ones that do not exist', async () => {
+    const result = await getManifestReadmes({
+      content: 'requests~=2.31\nmissing\n-e ./local\nrequests~=2.31',
+      filename: 'requirements.txt',
+    });
+
+    expect(result.format).toBe('requirements');
+    expect(result.packages.map(({ package_name, requested_version, version, exists }) =>
+      ({ package_name, requested_version, version, exists }))).toEqual([
+      { package_name: 'requests', requested_version: '~=2.31', version: '2.0', exists: true },
+      { package_name: 'missing', requested_version: 'latest', version: 'latest', exists: false },
+    ]);
+    expect(result.warnings).toEqual(['requirements.txt: skipped editable requirement "-e ./local"']);
+  });
+
+  it('should only fetch the first packages of large manifests', async () => {
+    const content = Array.from({ length: 105 }, (_, index) => `package-${index}`).join('\n');
+
+    const result = await getManifestReadmes({ content, filename: 'requirements.txt' });
+
+    expect(result.total).toBe(100);
+    expect(result.packages[99].package_name).toBe('package-99');
+    expect(result.warnings).toEqual(['Only the first 100 of 105 requirements were fetched']);
+    expect(PackageReadmeService.prototype.getPackageReadme).toHaveBeenCalledTimes(100);
+  });
+
+  it('should reject empty manifests and unknown formats', async () => {
+    await expect(getManifestReadmes({ content: ' ' })).rejects.toThrow('Manifest content is required');
+    await expect(getManifestReadmes({ content: 'requests', format: 'setup.py' as any })).rejects.toThrow('Invalid manifest format');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getOutdatedPackages } from '../../src/tools/get-outdated-packages.js';
+import { pypiClient } from '../../src/services/pypi-api.js';
+import { cache } from '../../src/services/cache.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const document = (name: string) => ({
+  info: { name, version: '2.1.0' },
+  releases: {
+    '1.0.0': [{ yanked: true, yanked_reason: 'Broken wheel' }],
+    '2.0.0': [{ yanked: false }],
+    '2.1.0': [{ yanked: false }],
+  },
+});
+
+describe('get-outdated-packages tool', () => {
+  beforeEach(() => {
+    cache.clear();
+    vi.spyOn(pypiClient, 'getPackageInfo').mockImplementation(async name => {
+      if (name === 'missing') {
+        throw new Error(`Package '${name}' not found`);
+      }
+      return document(name) as any;
+    });
+  });
+
+  it('should compare each pin with the latest release and report lookup errors per package', async () => {
+    const result = await getOutdatedPackages({ content: 'current==2.1.0\nold==2.0.0\nbroken==1.0.0\nmissing==1.0\n', format: 'pip-freeze' });
+
+    expect(result).toMatchObject({ format: 'pip-freeze', total: 4, outdated: 2, yanked: 1, warnings: [] });
+    expect(result.packages.map(({ package_name, update_type, yanked, error }) => ({ package_name, update_type, yanked, error }))).toEqual([
+      { package_name: 'current', update_type: null, yanked: false, error: undefined },
+      { package_name: 'old', update_type: 'minor', yanked: false, error: undefined },
+      { package_name: 'broken', update_type: 'major', yanked: true, error: undefined },
+      { package_name: 'missing', update_type: null, yanked: false, error: "Package 'missing' not found" },
+    ]);
+    expect(result.packages[2].yanked_reason).toBe('Broken wheel');
+  });
+
+  it('should only list packages that need attention when asked to', async () => {
+    const result = await getOutdatedPackages({ content: 'current==2.1.0\nold==2.0.0\nmissing==1.0\n', format: 'pip-freeze', only_outdated: true });
+
+    expect(result.total).toBe(3);
+    expect(result.packages.map(pkg => pkg.package_name)).toEqual(['old', 'missing']);
+  });
+
+  it('should only check the first pins of large lockfiles', async () => {
+    const content = Array.from({ length: 502 }, (_, index) => `package-${index}==2.1.0`).join('\n');
+
+    const result = await getOutdatedPackages({ content, format: 'pip-freeze' });
+
+    expect(result.total).toBe(500);
+    expect(result.warnings).toEqual(['Only the first 500 of 502 pinned packages were checked']);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getReleaseHistory } from '../../src/tools/get-release-history.js';
+import { pypiClient } from '../../src/services/pypi-api.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const file = (filename: string, packagetype: string, uploaded: string, extra: Record<string, unknown> = {}) => ({
+  filename,
+  packagetype,
+  python_version: packagetype === 'sdist' ? 'source' : 'py3',
+  size: 1024,
+  upload_time: uploaded.replace('Z', ''),
+  upload_time_iso_8601: uploaded,
+  digests: { sha256: 'abc' },
+  yanked: false,
+  ...extra,
+});
+
+const document = {
+  info: { name: 'example', version: '2.0' },
+  releases: {
+    '1.0': [file('example-1.0.tar.gz', 'sdist', '2024-01-01T00:00:00Z')],
+    '1.1': [
+      file('example-1.1-py3-none-any.whl', 'bdist_wheel', '2024-01-11T00:00:00Z', { requires_python: '>=3.8' }),
+      file('example-1.1.tar.gz', 'sdist', '2024-01-11T00:00:00Z', { requires_python: '>=3.8' }),
+    ],
+    '1.2': [file('example-1.2.tar.gz', 'sdist', '2024-02-10T00:00:00Z', { yanked: true, yanked_reason: 'Broken build' })],
+    '2.0rc1': [file('example-2.0rc1.tar.gz', 'sdist', '2024-03-01T00:00:00Z')],
+    '2.0': [file('example-2.0.tar.gz', 'sdist', '2024-03-11T00:00:00Z')],
+    '0.9': [],
+  },
+};
+
+describe('get-release-history tool', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-04-10T00:00:00Z'));
+    vi.spyOn(pypiClient, 'getPackageInfo').mockResolvedValue(document as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should list every release newest first with its files and cadence', async () => {
+    const result = await getReleaseHistory({ package_name: 'example' });
+
+    expect(result.releases.map(release => release.version)).toEqual(['2.0', '2.0rc1', '1.2', '1.1', '1.0', '0.9']);
+    expect(result.total_releases).toBe(6);
+    expect(result.releases[1]).toMatchObject({ prerelease: true, upload_time: '2024-03-01T00:00:00.000Z' });
+    expect(result.releases[2]).toMatchObject({ yanked: true, yanked_reason: 'Broken build' });
+    expect(result.releases[3].requires_python).toBe('>=3.8');
+    expect(result.releases[3].files).toHaveLength(2);
+    expect(result.releases[5]).toMatchObject({ upload_time: null, files: [] });
+    expect(result.statistics).toEqual({
+      first_release: '2024-01-01T00:00:00.000Z',
+      latest_release: '2024-03-11T00:00:00.000Z',
+      mean_days_between_releases: 17.5,
+      median_days_between_releases: 15,
+      releases_last_365_days: 5,
+      days_since_latest_release: 30,
+    });
+  });
+
+  it('should apply the since, stable_only, include_yanked and limit filters', async () => {
+    const result = await getReleaseHistory({
+      package_name: 'example',
+      since: '2024-01-05',
+      stable_only: true,
+      include_yanked: false,
+      limit: 1,
+      include_files: false,
+    });
+
+    expect(result.matching_releases).toBe(2);
+    expect(result.releases).toEqual([
+      expect.objectContaining({ version: '2.0' }),
+    ]);
+    expect(result.releases[0].files).toBeUndefined();
+    expect(result.statistics.mean_days_between_releases).toBeNull();
+  });
+
+  it('should reject invalid filters', async () => {
+    await expect(getReleaseHistory({ package_name: 'example', since: 'last week' })).rejects.toThrow(/Invalid since date/);
+    await expect(getReleaseHistory({ package_name: 'example', limit: 0 })).rejects.toThrow(/limit must be an integer/);
+  });
+});
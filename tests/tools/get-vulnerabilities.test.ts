@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getVulnerabilities } from '../../src/tools/get-vulnerabilities.js';
+import { pypiClient } from '../../src/services/pypi-api.js';
+import { cache } from '../../src/services/cache.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const advisory = (id: string, fixed_in: string[]) => ({ id, aliases: [], summary: id, fixed_in, link: `https://osv.dev/${id}` });
+
+// Releases of "example" and the advisories affecting each one
+const RELEASES: Record<string, ReturnType<typeof advisory>[]> = {
+  '1.0': [advisory('PYSEC-1', ['1.1']), advisory('PYSEC-2', ['1.2.1', '2.0'])],
+  '1.1': [advisory('PYSEC-2', ['1.2.1', '2.0'])],
+  '1.2': [advisory('PYSEC-2', ['1.2.1', '2.0'])],
+  '1.3': [],
+  '2.0': [],
+};
+
+const document = (version: string) => ({
+  info: { name: 'example', version },
+  releases: { ...Object.fromEntries(Object.keys(RELEASES).map(release => [release, [{ yanked: false }]])), '1.2.1': [] },
+  vulnerabilities: RELEASES[version],
+});
+
+describe('get-vulnerabilities tool', () => {
+  beforeEach(() => {
+    cache.clear();
+    vi.spyOn(pypiClient, 'getPackageInfo').mockImplementation(async () => document('2.0') as any);
+    vi.spyOn(pypiClient, 'getVersionInfo').mockImplementation(async (_name, version) => document(version) as any);
+  });
+
+  it('should report affected releases in a range and the nearest fixed version', async () => {
+    const result = await getVulnerabilities({ package_name: 'example', version: '>=1.0,<1.3' });
+
+    expect(result.checked_versions).toEqual(['1.2', '1.1', '1.0']);
+    expect(result.affected_versions).toEqual(['1.2', '1.1', '1.0']);
+    expect(result.vulnerabilities.map(({ id, affected_versions, nearest_fixed_version }) =>
+      ({ id, affected_versions, nearest_fixed_version }))).toEqual([
+      { id: 'PYSEC-2', affected_versions: ['1.2', '1.1', '1.0'], nearest_fixed_version: '1.2.1' },
+      { id: 'PYSEC-1', affected_versions: ['1.0'], nearest_fixed_version: '1.1' },
+    ]);
+    // 1.2.1 was never published, so the nearest installable fix is 1.3
+    expect(result.nearest_fixed_version).toBe('1.3');
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should return the release itself when it is not affected', async () => {
+    const result = await getVulnerabilities({ package_name: 'example' });
+
+    expect(result.checked_versions).toEqual(['2.0']);
+    expect(result.vulnerabilities).toEqual([]);
+    expect(result.nearest_fixed_version).toBe('2.0');
+  });
+
+  it('should reject versions that do not exist', async () => {
+    await expect(getVulnerabilities({ package_name: 'example', version: '9.0' })).rejects.toThrow(/not found/);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getWheelCompatibility } from '../../src/tools/get-wheel-compatibility.js';
+import { pypiClient } from '../../src/services/pypi-api.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const file = (filename: string, yanked = false) => ({
+  filename,
+  packagetype: filename.endsWith('.whl') ? 'bdist_wheel' : 'sdist',
+  yanked,
+});
+
+const document = {
+  info: { name: 'fastlib', version: '1.1' },
+  releases: {
+    '1.0': [file('fastlib-1.0-py3-none-any.whl')],
+    '1.1': [
+      file('fastlib-1.1-cp312-cp312-manylinux_2_17_x86_64.manylinux2014_x86_64.whl'),
+      file('fastlib-1.1-cp312-cp312-manylinux_2_28_aarch64.whl'),
+      file('fastlib-1.1-cp311-cp311-manylinux_2_17_x86_64.whl'),
+      file('fastlib-1.1-cp312-cp312-macosx_11_0_arm64.whl'),
+      file('fastlib-1.1-cp312-cp312-linux_ppc64le.whl'),
+      file('fastlib-1.1-cp312-cp312-win_amd64.whl', true),
+      file('fastlib-1.1.tar.gz'),
+    ],
+  },
+};
+
+describe('get-wheel-compatibility tool', () => {
+  beforeEach(() => {
+    vi.spyOn(pypiClient, 'getPackageInfo').mockResolvedValue(document as any);
+  });
+
+  it('should build a matrix of binary wheels and sdist-only gaps', async () => {
+    const result = await getWheelCompatibility({ package_name: 'fastlib', python_versions: ['3.11', '3.12'] });
+
+    expect(result.version).toBe('1.1');
+    expect(result.has_sdist).toBe(true);
+    expect(result.pure_python).toBe(false);
+    // The yanked Windows wheel does not count
+    expect(result.wheels).toHaveLength(5);
+
+    const cell = (python: string, platform: string, architecture: string, libc?: string) =>
+      result.matrix.find(entry => entry.python_version === python && entry.platform === platform &&
+        entry.architecture === architecture && entry.libc === libc);
+
+    expect(cell('3.12', 'linux', 'x86_64', 'glibc')).toMatchObject({ status: 'binary_wheel', min_os_version: '2.17' });
+    expect(cell('3.12', 'linux', 'aarch64', 'glibc')).toMatchObject({ status: 'binary_wheel', min_os_version: '2.28' });
+    expect(cell('3.11', 'linux', 'aarch64', 'glibc')?.status).toBe('sdist_only');
+    expect(cell('3.12', 'darwin', 'aarch64')).toMatchObject({ status: 'binary_wheel', min_os_version: '11.0' });
+    expect(cell('3.12', 'win32', 'x86_64')?.status).toBe('sdist_only');
+    // Platforms outside the defaults get a column when a wheel ships for them
+    expect(cell('3.12', 'linux', 'ppc64le', 'glibc')?.status).toBe('binary_wheel');
+    expect(result.sdist_only).toContainEqual(expect.objectContaining({ python_version: '3.11', platform: 'darwin' }));
+  });
+
+  it('should answer whether a wheel exists for one target', async () => {
+    const result = await getWheelCompatibility({ package_name: 'fastlib', python_version: 'cp312', platform: 'linux', architecture: 'arm64' });
+
+    expect(result.query).toMatchObject({
+      python_version: '3.12',
+      platform: 'linux',
+      architecture: 'aarch64',
+      libc: 'glibc',
+      status: 'binary_wheel',
+      wheels: ['fastlib-1.1-cp312-cp312-manylinux_2_28_aarch64.whl'],
+    });
+
+    const musl = await getWheelCompatibility({ package_name: 'fastlib', python_version: '3.12', platform: 'linux', libc: 'musl' });
+    expect(musl.query?.status).toBe('sdist_only');
+  });
+
+  it('should report pure Python releases', async () => {
+    const result = await getWheelCompatibility({ package_name: 'fastlib', version: '1.0' });
+
+    expect(result.pure_python).toBe(true);
+    expect(result.has_sdist).toBe(false);
+    expect(result.matrix.every(entry => entry.status === 'pure_wheel')).toBe(true);
+  });
+
+  it('should reject incomplete target questions', async () => {
+    await expect(getWheelCompatibility({ package_name: 'fastlib', architecture: 'aarch64' })).rejects.toThrow(/python_version and platform/);
+  });
+});
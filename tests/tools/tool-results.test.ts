@@ -0,0 +1,504 @@
+import { describe, it, expect } from 'vitest';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import { toToolError, toToolResult } from '../../src/tools/tool-results.js';
+import {
+  API_SURFACE_OUTPUT_SCHEMA,
+  DEPENDENCY_TREE_OUTPUT_SCHEMA,
+  IMPORT_NAMES_OUTPUT_SCHEMA,
+  MANIFEST_READMES_OUTPUT_SCHEMA,
+  OUTDATED_PACKAGES_OUTPUT_SCHEMA,
+  PACKAGE_INFO_OUTPUT_SCHEMA,
+  PACKAGE_README_OUTPUT_SCHEMA,
+  RELEASE_HISTORY_OUTPUT_SCHEMA,
+  SEARCH_PACKAGES_OUTPUT_SCHEMA,
+  VULNERABILITIES_OUTPUT_SCHEMA,
+  WHEEL_COMPATIBILITY_OUTPUT_SCHEMA,
+} from '../../src/tools/output-schemas.js';
+import {
+  ApiSurfaceResponse,
+  DependencyTreeResponse,
+  ImportNamesResponse,
+  ManifestReadmesResponse,
+  OutdatedPackagesResponse,
+  PackageInfoResponse,
+  PackageNotFoundError,
+  PackageReadmeResponse,
+  ReleaseHistoryResponse,
+  SearchPackagesResponse,
+  VulnerabilitiesResponse,
+  WheelCompatibilityResponse,
+} from '../../src/types/index.js';
+
+// The validator MCP clients use to check structured content against output schemas
+const validator = new AjvJsonSchemaValidator();
+
+function validate(schema: Record<string, unknown>, structuredContent: unknown) {
+  return validator.getValidator(schema as never)(structuredContent);
+}
+
+const readme: PackageReadmeResponse = {
+  package_name: 'requests',
+  version: '2.32.3',
+  requested_version: '~=2.32',
+  description: 'Python HTTP for Humans.',
+  readme_content: '# Requests\n\nHTTP for Humans.',
+  readme_source: 'pypi',
+  usage_examples: [
+    { title: 'Quickstart', code: 'r = requests.get("https://example.com")', language: 'python', expected_output: '200' },
+  ],
+  installation: { pip: 'pip install requests', conda: 'conda install requests', console_scripts: [] },
+  basic_info: {
+    name: 'requests',
+    version: '2.32.3',
+    description: 'Python HTTP for Humans.',
+    project_urls: { Source: 'https://github.com/psf/requests' },
+    license: 'Apache-2.0',
+    author: { name: 'Kenneth Reitz', email: 'me@kennethreitz.org' },
+    maintainer: 'Nate Prewitt',
+    keywords: ['http'],
+    classifiers: ['Programming Language :: Python :: 3'],
+    requires_python: '>=3.8',
+    import_names: ['requests'],
+  },
+  repository: { type: 'git', url: 'https://github.com/psf/requests' },
+  exists: true,
+  index: 'pypi',
+};
+
+const info: PackageInfoResponse = {
+  package_name: 'requests',
+  latest_version: '2.32.3',
+  description: 'Python HTTP for Humans.',
+  author: 'Kenneth Reitz <me@kennethreitz.org>',
+  license: 'Apache-2.0',
+  keywords: [],
+  classifiers: [],
+  requires_python: '>=3.8',
+  dependencies: [
+    { name: 'charset-normalizer', extras: [], specifier: '<4,>=2', requirement: 'charset-normalizer<4,>=2' },
+    { name: 'idna', extras: [], specifier: '<4,>=2.5', requirement: 'idna<4,>=2.5' },
+  ],
+  optional_dependencies: {
+    socks: [{
+      name: 'PySocks',
+      extras: [],
+      specifier: '!=1.5.7,>=1.5.6',
+      marker: {
+        type: 'and',
+        markers: [
+          { type: 'comparison', variable: 'python_version', operator: '>=', value: '3.8' },
+          { type: 'comparison', variable: 'extra', operator: '==', value: 'socks' },
+        ],
+      },
+      requirement: 'PySocks!=1.5.7,>=1.5.6; extra == "socks"',
+    }],
+  },
+  vulnerabilities: [{
+    id: 'GHSA-9wx4-h78v-vm56',
+    aliases: ['CVE-2024-35195'],
+    summary: 'Session verify=False persists',
+    fixed_in: ['2.32.0'],
+    link: 'https://osv.dev/vulnerability/GHSA-9wx4-h78v-vm56',
+  }],
+  download_stats: { last_day: -1, last_week: -1, last_month: -1 },
+  index: 'pypi',
+  stale: true,
+};
+
+const search: SearchPackagesResponse = {
+  query: 'requests',
+  total: 2,
+  packages: [
+    {
+      name: 'requests',
+      version: '2.32.3',
+      description: 'Python HTTP for Humans.',
+      summary: 'Python HTTP for Humans.',
+      keywords: [],
+      author: 'Kenneth Reitz',
+      maintainer: 'Unknown',
+      classifiers: [],
+      score: { final: 0.85, detail: { quality: 1, maintenance: 0.6 } },
+      searchScore: 1,
+    },
+    {
+      name: 'requests-oauthlib',
+      version: '2.0.0',
+      description: '',
+      summary: '',
+      keywords: [],
+      author: 'Unknown',
+      maintainer: 'Unknown',
+      classifiers: [],
+      score: { final: 0.5, detail: { quality: 0.5, maintenance: 0.4 } },
+      searchScore: 0.6,
+    },
+  ],
+};
+
+const dependencyTree: DependencyTreeResponse = {
+  package_name: 'requests',
+  version: '2.32.3',
+  environment: { python_version: '3.12', platform: 'linux' },
+  max_depth: 5,
+  total_packages: 3,
+  tree: {
+    name: 'requests',
+    version: '2.32.3',
+    specifier: '',
+    extras: [],
+    index: 'pypi',
+    dependencies: [
+      { name: 'idna', version: '3.7', specifier: '<4,>=2.5', extras: [], requirement: 'idna<4,>=2.5', dependencies: [] },
+      { name: 'urllib3', version: null, specifier: '<3,>=1.21.1', extras: [], dependencies: [], error: 'No release matches' },
+    ],
+  },
+};
+
+const manifest: ManifestReadmesResponse = {
+  format: 'requirements',
+  total: 2,
+  packages: [
+    {
+      package_name: 'requests',
+      requested_version: '~=2.32',
+      group: 'main',
+      requirement: 'requests~=2.32',
+      version: '2.32.3',
+      description: 'Python HTTP for Humans.',
+      installation: { pip: 'pip install requests' },
+      readme_source: 'pypi',
+      exists: true,
+      index: 'pypi',
+    },
+    {
+      package_name: 'in-house',
+      requested_version: 'latest',
+      group: 'dev',
+      requirement: 'in-house',
+      version: 'latest',
+      description: '',
+      installation: { pip: 'pip install in-house' },
+      readme_source: 'none',
+      exists: false,
+    },
+  ],
+  warnings: ['line 3: -e . is not a requirement'],
+};
+
+const outdated: OutdatedPackagesResponse = {
+  format: 'uv.lock',
+  total: 3,
+  outdated: 1,
+  yanked: 1,
+  packages: [
+    { package_name: 'requests', group: 'main', pinned_version: '2.31.0', latest_version: '2.32.3', outdated: true, update_type: 'minor', yanked: false, index: 'pypi' },
+    { package_name: 'idna', group: 'main', pinned_version: '3.7', latest_version: '3.7', outdated: false, update_type: null, yanked: true, yanked_reason: 'broken' },
+    { package_name: 'private', group: 'dev', pinned_version: '1.0', latest_version: null, outdated: false, update_type: null, yanked: false, error: 'not found' },
+  ],
+  warnings: [],
+};
+
+const vulnerabilities: VulnerabilitiesResponse = {
+  package_name: 'requests',
+  requested_version: '2.31.0',
+  checked_versions: ['2.31.0'],
+  affected_versions: ['2.31.0'],
+  vulnerabilities: [{
+    ...info.vulnerabilities[0],
+    affected_versions: ['2.31.0'],
+    nearest_fixed_version: '2.32.0',
+  }],
+  nearest_fixed_version: '2.32.0',
+  truncated: false,
+  index: 'pypi',
+};
+
+const releaseHistory: ReleaseHistoryResponse = {
+  package_name: 'requests',
+  latest_version: '2.32.3',
+  total_releases: 150,
+  matching_releases: 150,
+  releases: [
+    {
+      version: '2.32.3',
+      upload_time: '2024-05-29T15:37:47.000Z',
+      yanked: false,
+      prerelease: false,
+      requires_python: '>=3.8',
+      files: [{
+        filename: 'requests-2.32.3-py3-none-any.whl',
+        packagetype: 'bdist_wheel',
+        python_version: 'py3',
+        requires_python: '>=3.8',
+        size: 64928,
+        upload_time: '2024-05-29T15:37:47.000Z',
+        sha256: '70761cfe03c773ceb22aa2f671b4757976145175cdfca038c02654d061d6dcc6',
+        yanked: false,
+      }],
+    },
+    { version: '2.32.1', upload_time: null, yanked: true, yanked_reason: 'broken', prerelease: false },
+  ],
+  statistics: {
+    first_release: '2011-02-14T00:00:00.000Z',
+    latest_release: '2024-05-29T15:37:47.000Z',
+    mean_days_between_releases: 33.4,
+    median_days_between_releases: 21,
+    releases_last_365_days: 3,
+    days_since_latest_release: 140,
+  },
+  index: 'pypi',
+};
+
+const linuxCell = {
+  python_version: '3.12',
+  platform: 'linux' as const,
+  architecture: 'x86_64',
+  libc: 'glibc' as const,
+  status: 'binary_wheel' as const,
+  wheels: ['numpy-2.0.0-cp312-cp312-manylinux_2_17_x86_64.whl'],
+  min_os_version: '2.17',
+};
+
+const wheelCompatibility: WheelCompatibilityResponse = {
+  package_name: 'numpy',
+  version: '2.0.0',
+  has_sdist: true,
+  pure_python: false,
+  wheels: [{
+    filename: 'numpy-2.0.0-cp312-cp312-manylinux_2_17_x86_64.whl',
+    python_tags: ['cp312'],
+    abi_tags: ['cp312'],
+    platform_tags: ['manylinux_2_17_x86_64'],
+    platforms: [{ tag: 'manylinux_2_17_x86_64', platform: 'linux', architectures: ['x86_64'], libc: 'glibc', min_os_version: '2.17' }],
+    requires_python: '>=3.9',
+    yanked: false,
+  }],
+  python_versions: ['3.12'],
+  matrix: [linuxCell, { ...linuxCell, libc: 'musl', status: 'sdist_only', wheels: [], min_os_version: undefined }],
+  sdist_only: [{ ...linuxCell, libc: 'musl', status: 'sdist_only', wheels: [], min_os_version: undefined }],
+  query: linuxCell,
+  index: 'pypi',
+};
+
+const importNames: ImportNamesResponse = { package_name: 'beautifulsoup4', version: '4.12.3', import_names: ['bs4'], index: 'pypi' };
+
+const providers: ImportNamesResponse = {
+  import_name: 'yaml',
+  providers: [
+    { package_name: 'PyYAML', version: '6.0.1', import_names: ['yaml', '_yaml'], verified: true },
+    { package_name: 'yaml', version: '0.1', import_names: [], verified: false },
+  ],
+};
+
+const apiSurface: ApiSurfaceResponse = {
+  package_name: 'requests',
+  version: '2.32.3',
+  wheel: 'requests-2.32.3-py3-none-any.whl',
+  typed: false,
+  has_stubs: false,
+  modules: [{
+    name: 'requests',
+    path: 'requests/__init__.py',
+    stub: false,
+    docstring: 'Requests HTTP Library',
+    classes: [{ name: 'Session', bases: ['SessionRedirectMixin'], methods: [{ name: 'get', signature: '(self, url, **kwargs)', docstring: 'Sends a GET request.' }] }],
+    functions: [{ name: 'check_compatibility', signature: '(urllib3_version, chardet_version, charset_normalizer_version)' }],
+    variables: ['__version__'],
+    reexports: [{ name: 'get', from: 'requests.api', kind: 'function', signature: '(url, params=None, **kwargs)' }],
+  }],
+  total_modules: 18,
+  truncated: false,
+  index: 'pypi',
+};
+
+describe('tool results', () => {
+  describe('output schemas', () => {
+    it('should accept the responses they describe', () => {
+      expect(validate(PACKAGE_README_OUTPUT_SCHEMA, toToolResult('get_readme_from_pip', readme).structuredContent))
+        .toMatchObject({ valid: true });
+      expect(validate(PACKAGE_INFO_OUTPUT_SCHEMA, toToolResult('get_package_info_from_pip', info).structuredContent))
+        .toMatchObject({ valid: true });
+      expect(validate(SEARCH_PACKAGES_OUTPUT_SCHEMA, toToolResult('search_packages_from_pip', search).structuredContent))
+        .toMatchObject({ valid: true });
+    });
+
+    it('should accept the responses of every other tool', () => {
+      const cases: Array<[string, Record<string, unknown>, unknown]> = [
+        ['get_dependency_tree_from_pip', DEPENDENCY_TREE_OUTPUT_SCHEMA, dependencyTree],
+        ['get_manifest_readmes_from_pip', MANIFEST_READMES_OUTPUT_SCHEMA, manifest],
+        ['get_outdated_packages_from_pip', OUTDATED_PACKAGES_OUTPUT_SCHEMA, outdated],
+        ['get_vulnerabilities_from_pip', VULNERABILITIES_OUTPUT_SCHEMA, vulnerabilities],
+        ['get_release_history_from_pip', RELEASE_HISTORY_OUTPUT_SCHEMA, releaseHistory],
+        ['get_wheel_compatibility_from_pip', WHEEL_COMPATIBILITY_OUTPUT_SCHEMA, wheelCompatibility],
+        ['get_import_names_from_pip', IMPORT_NAMES_OUTPUT_SCHEMA, importNames],
+        ['get_import_names_from_pip', IMPORT_NAMES_OUTPUT_SCHEMA, providers],
+        ['get_api_surface_from_pip', API_SURFACE_OUTPUT_SCHEMA, apiSurface],
+      ];
+
+      for (const [name, schema, response] of cases) {
+        // Undefined fields are dropped on the wire, as JSON has no undefined
+        const structuredContent = JSON.parse(JSON.stringify(toToolResult(name, response).structuredContent));
+        expect({ name, ...validate(schema, structuredContent) }).toMatchObject({ name, valid: true });
+      }
+    });
+
+    it('should accept responses without their optional fields', () => {
+      const minimal: PackageReadmeResponse = {
+        ...readme,
+        requested_version: undefined,
+        repository: undefined,
+        index: undefined,
+        installation: { pip: 'pip install requests' },
+        basic_info: { name: 'requests', version: '2.32.3', description: '', author: 'Unknown', keywords: [], classifiers: [] },
+      };
+
+      expect(validate(PACKAGE_README_OUTPUT_SCHEMA, JSON.parse(JSON.stringify(minimal)))).toMatchObject({ valid: true });
+      expect(validate(PACKAGE_INFO_OUTPUT_SCHEMA, JSON.parse(JSON.stringify({ ...info, dependencies: undefined, optional_dependencies: undefined }))))
+        .toMatchObject({ valid: true });
+    });
+
+    it('should reject content that does not match the response types', () => {
+      const { installation: _installation, ...withoutInstallation } = readme;
+
+      expect(validate(PACKAGE_README_OUTPUT_SCHEMA, withoutInstallation).valid).toBe(false);
+      expect(validate(PACKAGE_README_OUTPUT_SCHEMA, { ...readme, readme_source: 'npm' }).valid).toBe(false);
+      expect(validate(PACKAGE_INFO_OUTPUT_SCHEMA, {
+        ...info,
+        dependencies: [{ ...info.dependencies![0], marker: { type: 'comparison', variable: 'python_version', operator: '=>', value: '3.8' } }],
+      }).valid).toBe(false);
+      expect(validate(SEARCH_PACKAGES_OUTPUT_SCHEMA, { ...search, total: '2' }).valid).toBe(false);
+      expect(validate(DEPENDENCY_TREE_OUTPUT_SCHEMA, {
+        ...dependencyTree,
+        tree: { ...dependencyTree.tree, dependencies: [{ name: 'idna', dependencies: [] }] },
+      }).valid).toBe(false);
+      expect(validate(OUTDATED_PACKAGES_OUTPUT_SCHEMA, {
+        ...outdated,
+        packages: [{ ...outdated.packages[0], update_type: 'epoch' }],
+      }).valid).toBe(false);
+    });
+  });
+
+  describe('toToolResult', () => {
+    it('should summarize a README and attach it as a resource', () => {
+      const result = toToolResult('get_readme_from_pip', readme);
+
+      expect(result.structuredContent).toEqual(readme);
+      expect(result.content[0]).toEqual({
+        type: 'text',
+        text: [
+          'requests 2.32.3 (resolved from ~=2.32): Python HTTP for Humans.',
+          'Install: pip install requests',
+          'Repository: https://github.com/psf/requests',
+          'README: 28 characters from pypi, 1 usage example',
+        ].join('\n'),
+      });
+      expect(result.content[1]).toEqual({
+        type: 'resource',
+        resource: { uri: 'pip://requests@2.32.3/readme', mimeType: 'text/markdown', text: readme.readme_content },
+      });
+    });
+
+    it('should summarize package info', () => {
+      const result = toToolResult('get_package_info_from_pip', info);
+
+      expect(result.structuredContent).toEqual(info);
+      expect(result.content).toEqual([{
+        type: 'text',
+        text: [
+          'requests 2.32.3: Python HTTP for Humans.',
+          'Author: Kenneth Reitz <me@kennethreitz.org> | License: Apache-2.0 | Python: >=3.8',
+          'Dependencies (2): charset-normalizer<4,>=2, idna<4,>=2.5',
+          'Extras: socks',
+          'Vulnerabilities: GHSA-9wx4-h78v-vm56',
+          'Built from cached metadata that is being refreshed.',
+        ].join('\n'),
+      }]);
+    });
+
+    it('should list search results', () => {
+      expect(toToolResult('search_packages_from_pip', search).content).toEqual([{
+        type: 'text',
+        text: '2 packages found for "requests":\n- requests 2.32.3: Python HTTP for Humans.\n- requests-oauthlib 2.0.0',
+      }]);
+      expect(toToolResult('search_packages_from_pip', { query: 'nothing', total: 0, packages: [] }).content)
+        .toEqual([{ type: 'text', text: 'No packages found for "nothing"' }]);
+    });
+
+    it('should draw the dependency tree', () => {
+      expect(toToolResult('get_dependency_tree_from_pip', dependencyTree).content).toEqual([{
+        type: 'text',
+        text: [
+          'requests 2.32.3: 3 packages for Python 3.12 on linux, up to depth 5',
+          '- idna<4,>=2.5 3.7',
+          '- urllib3<3,>=1.21.1 unresolved (No release matches)',
+        ].join('\n'),
+      }]);
+    });
+
+    it('should list only the packages that need attention in a lockfile', () => {
+      expect(toToolResult('get_outdated_packages_from_pip', outdated).content).toEqual([{
+        type: 'text',
+        text: [
+          '1 of 3 pinned packages in uv.lock outdated, 1 yanked',
+          '- requests 2.31.0 -> 2.32.3 (minor)',
+          '- idna 3.7 [yanked]',
+          '- private 1.0: not found',
+        ].join('\n'),
+      }]);
+    });
+
+    it('should summarize the remaining tools', () => {
+      const summary = (name: string, response: unknown) => (toToolResult(name, response).content[0] as { text: string }).text;
+
+      expect(summary('get_manifest_readmes_from_pip', manifest)).toBe([
+        '2 requirements read from requirements',
+        '- requests 2.32.3: Python HTTP for Humans.',
+        '- in-house: not found',
+        'Skipped 1 entry: line 3: -e . is not a requirement',
+      ].join('\n'));
+      expect(summary('get_vulnerabilities_from_pip', vulnerabilities)).toBe([
+        'requests 2.31.0: 1 known vulnerability',
+        '- GHSA-9wx4-h78v-vm56: Session verify=False persists (fixed in 2.32.0)',
+        'Nearest fixed version: 2.32.0',
+      ].join('\n'));
+      expect(summary('get_release_history_from_pip', releaseHistory)).toBe([
+        'requests: 150 releases, latest 2.32.3',
+        'Releases: 3 in the last year, a median of 21 days apart, latest 140 days ago',
+        'Listed 2 of 150 matching:',
+        '- 2.32.3 (2024-05-29)',
+        '- 2.32.1 [yanked]',
+      ].join('\n'));
+      expect(summary('get_wheel_compatibility_from_pip', wheelCompatibility)).toBe([
+        'numpy 2.0.0: 1 wheel and an sdist, checked for Python 3.12',
+        'Requested target Python 3.12 linux/x86_64/glibc: binary_wheel (numpy-2.0.0-cp312-cp312-manylinux_2_17_x86_64.whl)',
+        'Builds from the sdist on: Python 3.12 linux/x86_64/musl',
+      ].join('\n'));
+      expect(summary('get_import_names_from_pip', importNames)).toBe('beautifulsoup4 4.12.3 installs bs4');
+      expect(summary('get_import_names_from_pip', providers)).toBe('yaml is provided by:\n- PyYAML 6.0.1\n- yaml 0.1 (unverified)');
+      expect(summary('get_api_surface_from_pip', apiSurface))
+        .toBe('requests 2.32.3 (untyped, from requests-2.32.3-py3-none-any.whl): 1 of 18 public modules\n- requests: 1 class, 1 function, 1 re-export');
+    });
+
+    it('should return tools without an output schema as JSON text', () => {
+      const response = { package_name: 'requests', import_names: ['requests'] };
+      const result = toToolResult('unknown_tool', response);
+
+      expect(result.structuredContent).toBeUndefined();
+      expect(result.content).toEqual([{ type: 'text', text: JSON.stringify(response, null, 2) }]);
+    });
+  });
+
+  describe('toToolError', () => {
+    it('should return errors as error results with their code', () => {
+      expect(toToolError(new PackageNotFoundError('nonexistent'))).toEqual({
+        content: [{ type: 'text', text: "PACKAGE_NOT_FOUND: Package 'nonexistent' not found" }],
+        isError: true,
+      });
+      expect(toToolError(new Error('socket hang up'))).toEqual({
+        content: [{ type: 'text', text: 'socket hang up' }],
+        isError: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpServerHandle, startHttpServer } from '../../src/transport/http-server.js';
+import { TransportConfig } from '../../src/types/index.js';
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+function createSessionServer(): Server {
+  const server = new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'get_readme_from_pip', inputSchema: { type: 'object' as const } }],
+  }));
+  return server;
+}
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test-client', version: '1.0.0' } },
+};
+
+describe('startHttpServer', () => {
+  let handle: HttpServerHandle;
+
+  async function start(overrides: Partial<TransportConfig> = {}): Promise<HttpServerHandle> {
+    handle = await startHttpServer({
+      mode: 'http',
+      host: '127.0.0.1',
+      port: 0,
+      corsOrigins: [],
+      sessionTimeout: 0,
+      ...overrides,
+    }, createSessionServer);
+    return handle;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await handle?.close();
+  });
+
+  it('should serve tools over Streamable HTTP, one server per session', async () => {
+    const { url } = await start();
+    const clients = [new Client({ name: 'a', version: '1.0.0' }), new Client({ name: 'b', version: '1.0.0' })];
+    const transports = clients.map(() => new StreamableHTTPClientTransport(new URL(`${url}/mcp`)));
+
+    for (const [position, client] of clients.entries()) {
+      await client.connect(transports[position]);
+      const { tools } = await client.listTools();
+      expect(tools.map(tool => tool.name)).toEqual(['get_readme_from_pip']);
+    }
+    expect(transports[0].sessionId).toBeDefined();
+    expect(transports[0].sessionId).not.toBe(transports[1].sessionId);
+
+    const health = await fetch(`${url}/health`).then(response => response.json());
+    expect(health).toEqual({ status: 'ok', sessions: 2 });
+
+    await transports[0].terminateSession();
+    await Promise.all(clients.map(client => client.close()));
+  });
+
+  it('should serve tools over the SSE fallback', async () => {
+    const { url } = await start();
+    const client = new Client({ name: 'legacy', version: '1.0.0' });
+
+    await client.connect(new SSEClientTransport(new URL(`${url}/sse`)));
+    const { tools } = await client.listTools();
+
+    expect(tools.map(tool => tool.name)).toEqual(['get_readme_from_pip']);
+    await client.close();
+  });
+
+  it('should require the bearer token when one is configured', async () => {
+    const { url } = await start({ authToken: 'team-token' });
+    const post = (headers: Record<string, string>) => fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(initializeRequest),
+    });
+
+    const missing = await post({});
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toMatch(/^Bearer/);
+    expect((await post({ Authorization: 'Bearer wrong-token' })).status).toBe(401);
+
+    const client = new Client({ name: 'authorized', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${url}/mcp`), {
+      requestInit: { headers: { Authorization: 'Bearer team-token' } },
+    }));
+    expect((await client.listTools()).tools).toHaveLength(1);
+    await client.close();
+  });
+
+  it('should answer CORS preflights for allowed origins and refuse other origins', async () => {
+    const { url } = await start({ corsOrigins: ['https://app.example.com'] });
+
+    const preflight = await fetch(`${url}/mcp`, {
+      method: 'OPTIONS',
+      headers: { Origin: 'https://app.example.com', 'Access-Control-Request-Method': 'POST' },
+    });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+    expect(preflight.headers.get('access-control-expose-headers')).toContain('Mcp-Session-Id');
+
+    const refused = await fetch(`${url}/mcp`, { method: 'OPTIONS', headers: { Origin: 'https://evil.example.com' } });
+    expect(refused.status).toBe(403);
+    expect(refused.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('should close sessions that stay idle past the session timeout', async () => {
+    const { url } = await start({ sessionTimeout: 300 });
+    const streamable = new StreamableHTTPClientTransport(new URL(`${url}/mcp`));
+    const clients = [new Client({ name: 'idle', version: '1.0.0' }), new Client({ name: 'legacy', version: '1.0.0' })];
+    await clients[0].connect(streamable);
+    await clients[1].connect(new SSEClientTransport(new URL(`${url}/sse`)));
+
+    // Requests keep a session open
+    for (let round = 0; round < 7; round++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await clients[0].listTools();
+    }
+    expect(await fetch(`${url}/health`).then(response => response.json())).toEqual({ status: 'ok', sessions: 1 });
+
+    await new Promise(resolve => setTimeout(resolve, 800));
+    expect(await fetch(`${url}/health`).then(response => response.json())).toEqual({ status: 'ok', sessions: 0 });
+    const expired = await fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'Mcp-Session-Id': streamable.sessionId! },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(expired.status).toBe(404);
+
+    await Promise.all(clients.map(client => client.close()));
+  });
+
+  it('should reject unknown sessions, requests without a session and unknown paths', async () => {
+    const { url } = await start();
+
+    const unknown = await fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'Mcp-Session-Id': 'missing' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(unknown.status).toBe(404);
+
+    const withoutSession = await fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(withoutSession.status).toBe(400);
+
+    expect((await fetch(`${url}/mcp`)).status).toBe(400);
+    expect((await fetch(`${url}/elsewhere`)).status).toBe(404);
+    expect((await fetch(`${url}/health`).then(response => response.json())).sessions).toBe(0);
+  });
+});
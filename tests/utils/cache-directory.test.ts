@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chmodSync, chownSync, mkdirSync, mkdtempSync, rmSync, statSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import { ensurePrivateDirectory, getCacheDirectory } from '../../src/utils/cache-directory.js';
+import { PackageReadmeMcpError } from '../../src/types/index.js';
+
+const isRoot = typeof process.getuid === 'function' && process.getuid() === 0;
+
+describe('getCacheDirectory', () => {
+  it('should prefer CACHE_DIR, then XDG_CACHE_HOME, then ~/.cache', () => {
+    expect(getCacheDirectory({ CACHE_DIR: '/srv/cache', XDG_CACHE_HOME: '/home/me/.xdg' })).toBe('/srv/cache');
+    expect(getCacheDirectory({ XDG_CACHE_HOME: '/home/me/.xdg' })).toBe(join('/home/me/.xdg', 'pip-package-readme-mcp'));
+    expect(getCacheDirectory({})).toBe(join(homedir(), '.cache', 'pip-package-readme-mcp'));
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('ensurePrivateDirectory', () => {
+  let parent: string;
+
+  beforeEach(() => {
+    parent = mkdtempSync(join(tmpdir(), 'cache-directory-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(parent, { recursive: true, force: true });
+  });
+
+  it('should create the directory for the current user only', async () => {
+    const directory = join(parent, 'cache');
+    await ensurePrivateDirectory(directory);
+
+    expect(statSync(directory).mode & 0o777).toBe(0o700);
+  });
+
+  it('should close an existing directory that is open to others', async () => {
+    const directory = join(parent, 'shared');
+    mkdirSync(directory);
+    chmodSync(directory, 0o777);
+
+    await ensurePrivateDirectory(directory);
+
+    expect(statSync(directory).mode & 0o777).toBe(0o700);
+  });
+
+  it.skipIf(!isRoot)('should refuse a directory owned by another user', async () => {
+    const directory = join(parent, 'planted');
+    mkdirSync(directory);
+    chownSync(directory, 65534, 65534);
+
+    await expect(ensurePrivateDirectory(directory)).rejects.toThrow(PackageReadmeMcpError);
+  });
+});
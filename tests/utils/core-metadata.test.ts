@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { parseCoreMetadata } from '../../src/utils/core-metadata.js';
+
+describe('parseCoreMetadata', () => {
+  it('should read single and multiple use fields', () => {
+    const metadata = parseCoreMetadata([
+      'Metadata-Version: 2.3',
+      'Name: httpx',
+      'Version: 0.27.0',
+      'Summary: The next generation HTTP client.',
+      'Requires-Python: >=3.8',
+      'Classifier: Framework :: AsyncIO',
+      'Classifier: Programming Language :: Python :: 3',
+      'Requires-Dist: anyio',
+      'Requires-Dist: h2<5,>=3; extra == "http2"',
+      'Provides-Extra: http2',
+      'Project-URL: Source, https://github.com/encode/httpx',
+      '',
+    ].join('\r\n'));
+
+    expect(metadata).toMatchObject({
+      metadata_version: '2.3',
+      name: 'httpx',
+      version: '0.27.0',
+      summary: 'The next generation HTTP client.',
+      requires_python: '>=3.8',
+      classifiers: ['Framework :: AsyncIO', 'Programming Language :: Python :: 3'],
+      requires_dist: ['anyio', 'h2<5,>=3; extra == "http2"'],
+      provides_extra: ['http2'],
+      project_urls: { Source: 'https://github.com/encode/httpx' },
+    });
+    expect(metadata.description).toBeUndefined();
+  });
+
+  it('should take the description from the message body', () => {
+    const metadata = parseCoreMetadata('Metadata-Version: 2.1\nName: pkg\nVersion: 1.0\n\n# pkg\n\nHello.\n');
+
+    expect(metadata.description).toBe('# pkg\n\nHello.');
+  });
+
+  it('should unfold folded headers and the legacy description header', () => {
+    const metadata = parseCoreMetadata([
+      'Metadata-Version: 1.1',
+      'Name: legacy',
+      'Version: 0.1',
+      'License: BSD',
+      '  with extras',
+      'Description: Title',
+      '        =====',
+      '        ',
+      '        Body text.',
+    ].join('\n'));
+
+    expect(metadata.license).toBe('BSD with extras');
+    expect(metadata.description).toBe('Title\n=====\n\nBody text.');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseDistributionFilename } from '../../src/utils/distribution-filename.js';
+
+describe('parseDistributionFilename', () => {
+  it('should parse wheel tags', () => {
+    expect(parseDistributionFilename('numpy-2.1.0-cp312-cp312-manylinux_2_17_x86_64.manylinux2014_x86_64.whl')).toEqual({
+      name: 'numpy',
+      version: '2.1.0',
+      type: 'bdist_wheel',
+      wheel: {
+        build: undefined,
+        python_tags: ['cp312'],
+        abi_tags: ['cp312'],
+        platform_tags: ['manylinux_2_17_x86_64', 'manylinux2014_x86_64'],
+      },
+    });
+  });
+
+  it('should parse the optional build tag of wheels', () => {
+    const parsed = parseDistributionFilename('pkg-1.0-1-py2.py3-none-any.whl');
+
+    expect(parsed?.version).toBe('1.0');
+    expect(parsed?.wheel).toMatchObject({ build: '1', python_tags: ['py2', 'py3'] });
+  });
+
+  it('should reject malformed wheels', () => {
+    expect(parseDistributionFilename('pkg-1.0-beta-py3-none-any.whl')).toBeNull();
+    expect(parseDistributionFilename('pkg-1.0.whl')).toBeNull();
+  });
+
+  it('should parse sdists', () => {
+    expect(parseDistributionFilename('requests-2.32.3.tar.gz')).toEqual({ name: 'requests', version: '2.32.3', type: 'sdist' });
+    expect(parseDistributionFilename('Django-1.0.zip')).toMatchObject({ name: 'Django', version: '1.0' });
+  });
+
+  it('should use the project name to split legacy sdists with dashes', () => {
+    expect(parseDistributionFilename('python-dateutil-2.9.0.tar.gz', 'python_dateutil')).toMatchObject({
+      name: 'python-dateutil',
+      version: '2.9.0',
+    });
+    expect(parseDistributionFilename('foo-bar-1.0-post1.tar.gz', 'foo-bar')).toMatchObject({ version: '1.0-post1' });
+  });
+
+  it('should ignore other file types', () => {
+    expect(parseDistributionFilename('pkg-1.0-py2.7.egg')).toBeNull();
+    expect(parseDistributionFilename('pkg-1.0.win32.exe')).toBeNull();
+  });
+});
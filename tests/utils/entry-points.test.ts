@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { parseEntryPoints } from '../../src/utils/entry-points.js';
+
+describe('parseEntryPoints', () => {
+  it('should read console scripts, GUI scripts and plugin groups', () => {
+    const entryPoints = parseEntryPoints([
+      '[console_scripts]',
+      'black = black:patched_main',
+      'blackd = blackd:patched_main [d]',
+      '',
+      '# comment',
+      '[gui_scripts]',
+      'black-gui=black.gui:main',
+      '',
+      '[pytest11]',
+      'black = pytest_black',
+    ].join('\r\n'));
+
+    expect(entryPoints.console_scripts).toEqual([
+      { name: 'black', value: 'black:patched_main' },
+      { name: 'blackd', value: 'blackd:patched_main [d]' },
+    ]);
+    expect(entryPoints.gui_scripts).toEqual([{ name: 'black-gui', value: 'black.gui:main' }]);
+    expect(Object.keys(entryPoints.groups)).toEqual(['console_scripts', 'gui_scripts', 'pytest11']);
+  });
+
+  it('should return empty groups for empty files', () => {
+    expect(parseEntryPoints('')).toEqual({ console_scripts: [], gui_scripts: [], groups: {} });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { conditionalHeaders, getValidators, hasValidators, isNotModified } from '../../src/utils/http.js';
+
+describe('http', () => {
+  describe('getValidators', () => {
+    it('should read ETag and Last-Modified', () => {
+      const response = new Response('', {
+        headers: { 'ETag': 'W/"123"', 'Last-Modified': 'Tue, 01 Oct 2024 00:00:00 GMT' },
+      });
+
+      expect(getValidators(response)).toEqual({
+        etag: 'W/"123"',
+        lastModified: 'Tue, 01 Oct 2024 00:00:00 GMT',
+      });
+    });
+
+    it('should leave missing validators undefined', () => {
+      const validators = getValidators(new Response(''));
+
+      expect(validators).toEqual({ etag: undefined, lastModified: undefined });
+      expect(hasValidators(validators)).toBe(false);
+    });
+  });
+
+  describe('conditionalHeaders', () => {
+    it('should send validators back as conditional headers', () => {
+      expect(conditionalHeaders({ etag: '"abc"', lastModified: 'Tue, 01 Oct 2024 00:00:00 GMT' })).toEqual({
+        'If-None-Match': '"abc"',
+        'If-Modified-Since': 'Tue, 01 Oct 2024 00:00:00 GMT',
+      });
+    });
+
+    it('should return no headers without validators', () => {
+      expect(conditionalHeaders(undefined)).toEqual({});
+      expect(conditionalHeaders({ etag: '"abc"' })).toEqual({ 'If-None-Match': '"abc"' });
+    });
+  });
+
+  describe('isNotModified', () => {
+    const previous = { data: 'readme', fetchedAt: 0, validators: { etag: '"abc"' } };
+
+    it('should accept a 304 for an entry with validators', () => {
+      expect(isNotModified(new Response(null, { status: 304 }), previous)).toBe(true);
+    });
+
+    it('should reject other statuses and entries without validators', () => {
+      expect(isNotModified(new Response('', { status: 200 }), previous)).toBe(false);
+      expect(isNotModified(new Response(null, { status: 304 }), null)).toBe(false);
+      expect(isNotModified(new Response(null, { status: 304 }), { ...previous, validators: {} })).toBe(false);
+    });
+  });
+});
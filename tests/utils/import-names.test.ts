@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { importsModule, parseImportNames } from '../../src/utils/import-names.js';
+
+describe('parseImportNames', () => {
+  it('should list top-level packages and modules from RECORD', () => {
+    const record = [
+      'bs4/__init__.py,sha256=abc,100',
+      'bs4/builder/__init__.py,sha256=abc,100',
+      'bs4/__pycache__/__init__.cpython-312.pyc,,',
+      'six.py,sha256=abc,100',
+      '"quoted,module.py",sha256=abc,100',
+      'beautifulsoup4-4.12.3.dist-info/METADATA,sha256=abc,100',
+      'beautifulsoup4-4.12.3.dist-info/RECORD,,',
+      '../../bin/soup,sha256=abc,100',
+    ].join('\r\n');
+
+    expect(parseImportNames(record, null)).toEqual(['bs4', 'six']);
+  });
+
+  it('should follow namespace packages down to regular packages', () => {
+    const record = [
+      'google/protobuf/__init__.py,sha256=abc,100',
+      'google/protobuf/message.py,sha256=abc,100',
+      'google/_upb/_message.abi3.so,sha256=abc,100',
+    ].join('\n');
+
+    expect(parseImportNames(record, null)).toEqual(['google.protobuf']);
+  });
+
+  it('should read extension modules and .data directories', () => {
+    const record = [
+      '_cffi_backend.cpython-312-x86_64-linux-gnu.so,sha256=abc,100',
+      'example-1.0.data/purelib/example/__init__.py,sha256=abc,100',
+      'example-1.0.data/scripts/example,sha256=abc,100',
+    ].join('\n');
+
+    expect(parseImportNames(record, null)).toEqual(['example']);
+  });
+
+  it('should keep private names when nothing else is importable', () => {
+    expect(parseImportNames('_cffi_backend.cpython-312-x86_64-linux-gnu.so,,', null)).toEqual(['_cffi_backend']);
+  });
+
+  it('should fall back to top_level.txt', () => {
+    expect(parseImportNames(null, 'yaml\n_yaml\n')).toEqual(['yaml']);
+    expect(parseImportNames('example-1.0.dist-info/RECORD,,', 'PIL\n')).toEqual(['PIL']);
+  });
+
+  it('should return no names without metadata', () => {
+    expect(parseImportNames(null, null)).toEqual([]);
+  });
+});
+
+describe('importsModule', () => {
+  it('should detect import and from-import statements', () => {
+    expect(importsModule('from bs4 import BeautifulSoup', ['bs4'])).toBe(true);
+    expect(importsModule('import os, yaml as y', ['yaml'])).toBe(true);
+    expect(importsModule('>>> import yaml.loader', ['yaml'])).toBe(true);
+    expect(importsModule('from google.protobuf import message', ['google.protobuf'])).toBe(true);
+  });
+
+  it('should not match other modules or mentions outside imports', () => {
+    expect(importsModule('import yamlfix', ['yaml'])).toBe(false);
+    expect(importsModule('print("import yaml")', ['yaml'])).toBe(false);
+    expect(importsModule('import yaml', [])).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyVersionChange,
+  compareVersions,
+  filterVersions,
+  findBestMatch,
+  isVersionSpecifier,
+  normalizeVersion,
+  parseSpecifierSet,
+  parseVersion,
+  satisfiesSpecifiers,
+  sortVersions,
+} from '../../src/utils/pep440.js';
+
+const satisfies = (version: string, specifiers: string): boolean =>
+  satisfiesSpecifiers(version, parseSpecifierSet(specifiers)!);
+
+describe('PEP 440', () => {
+  describe('parseVersion', () => {
+    it('should parse every segment', () => {
+      expect(parseVersion('1!2.0.3rc4.post5.dev6+ubuntu.1')).toEqual({
+        epoch: 1,
+        release: [2, 0, 3],
+        pre: ['rc', 4],
+        post: 5,
+        dev: 6,
+        local: ['ubuntu', 1],
+      });
+    });
+
+    it('should reject invalid versions', () => {
+      expect(parseVersion('')).toBeNull();
+      expect(parseVersion('1.0.0-beta+')).toBeNull();
+      expect(parseVersion('latest')).toBeNull();
+      expect(parseVersion('1..0')).toBeNull();
+    });
+  });
+
+  describe('normalizeVersion', () => {
+    it.each([
+      ['v1.0', '1.0'],
+      ['1.0-Alpha.1', '1.0a1'],
+      ['1.0c1', '1.0rc1'],
+      ['1.0-preview2', '1.0rc2'],
+      ['1.0-1', '1.0.post1'],
+      ['1.0.rev', '1.0.post0'],
+      ['1.0_dev', '1.0.dev0'],
+      ['0!1.0+Local-Build_7', '1.0+local.build.7'],
+    ])('should normalize %s to %s', (input, expected) => {
+      expect(normalizeVersion(input)).toBe(expected);
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should order releases numerically', () => {
+      expect(sortVersions(['1.10', '1.9', '1.2.1', '1.2'])).toEqual(['1.2', '1.2.1', '1.9', '1.10']);
+    });
+
+    it('should order pre, post, dev and local segments', () => {
+      const ordered = [
+        '1.0.dev0',
+        '1.0a1.dev1',
+        '1.0a1',
+        '1.0b2.post1',
+        '1.0rc1',
+        '1.0',
+        '1.0+abc',
+        '1.0+5',
+        '1.0.post1.dev0',
+        '1.0.post1',
+        '1.1',
+        '1!0.1',
+      ];
+
+      expect(sortVersions([...ordered].reverse())).toEqual(ordered);
+    });
+
+    it('should treat trailing zeros as equal', () => {
+      expect(compareVersions('1.0', '1.0.0')).toBe(0);
+    });
+
+    it('should sort invalid versions before valid ones', () => {
+      expect(sortVersions(['1.0', 'dev-snapshot'])).toEqual(['dev-snapshot', '1.0']);
+    });
+  });
+
+  describe('classifyVersionChange', () => {
+    it('should classify upgrades by the first changed release component', () => {
+      expect(classifyVersionChange('1.4.2', '2.0')).toBe('major');
+      expect(classifyVersionChange('1.4.2', '1.5.0')).toBe('minor');
+      expect(classifyVersionChange('1.4', '1.4.1')).toBe('patch');
+      expect(classifyVersionChange('1.4.2', '1.4.2.post1')).toBe('patch');
+      expect(classifyVersionChange('2024.1', '1!1.0')).toBe('major');
+    });
+
+    it('should return null when there is no upgrade', () => {
+      expect(classifyVersionChange('1.4.2', '1.4.2')).toBeNull();
+      expect(classifyVersionChange('2.0', '1.9')).toBeNull();
+      expect(classifyVersionChange('unknown', '1.0')).toBeNull();
+    });
+  });
+
+  describe('specifiers', () => {
+    it('should tell specifiers from versions', () => {
+      expect(isVersionSpecifier('~=2.28')).toBe(true);
+      expect(isVersionSpecifier('2.28')).toBe(false);
+    });
+
+    it('should parse specifier sets', () => {
+      expect(parseSpecifierSet('>=1.2, <2')).toEqual([
+        { operator: '>=', version: '1.2' },
+        { operator: '<', version: '2' },
+      ]);
+    });
+
+    it.each(['~=1', '>=1.*', '<1.0+local', '==1.0a1.*', '>>1', '>=1.0,'])(
+      'should reject %s',
+      specifier => {
+        expect(parseSpecifierSet(specifier)).toBeNull();
+      }
+    );
+
+    it('should apply comparison operators', () => {
+      expect(satisfies('1.5', '>=1.2,<2')).toBe(true);
+      expect(satisfies('2.0', '>=1.2,<2')).toBe(false);
+      expect(satisfies('1.2', '<=1.2')).toBe(true);
+      expect(satisfies('1.3', '!=1.2')).toBe(true);
+    });
+
+    it('should apply compatible release', () => {
+      expect(satisfies('2.31.0', '~=2.28')).toBe(true);
+      expect(satisfies('3.0', '~=2.28')).toBe(false);
+      expect(satisfies('2.28.5', '~=2.28.1')).toBe(true);
+      expect(satisfies('2.29.0', '~=2.28.1')).toBe(false);
+    });
+
+    it('should match wildcards and zero padding', () => {
+      expect(satisfies('1.2.3', '==1.2.*')).toBe(true);
+      expect(satisfies('1.3', '==1.2.*')).toBe(false);
+      expect(satisfies('1.2', '==1.2.0')).toBe(true);
+      expect(satisfies('1.3', '!=1.2.*')).toBe(true);
+    });
+
+    it('should ignore local labels unless the specifier has one', () => {
+      expect(satisfies('1.0+cpu', '==1.0')).toBe(true);
+      expect(satisfies('1.0+cpu', '==1.0+gpu')).toBe(false);
+    });
+
+    it('should exclude pre-releases and post-releases of the boundary version', () => {
+      expect(satisfies('2.0rc1', '<2.0')).toBe(false);
+      expect(satisfies('2.0rc1', '<2.0rc2')).toBe(true);
+      expect(satisfies('2.0.post1', '>2.0')).toBe(false);
+      expect(satisfies('2.0.post1', '>2.0.post0')).toBe(true);
+    });
+
+    it('should compare arbitrary equality as strings', () => {
+      expect(satisfies('1.0', '===1.0')).toBe(true);
+      expect(satisfies('1.0.0', '===1.0')).toBe(false);
+    });
+  });
+
+  describe('filterVersions', () => {
+    const versions = ['1.0', '1.1', '2.0a1', '2.0'];
+
+    it('should exclude pre-releases by default', () => {
+      expect(filterVersions(versions, parseSpecifierSet('>=1.1')!)).toEqual(['1.1', '2.0']);
+    });
+
+    it('should include pre-releases when a specifier names one', () => {
+      expect(filterVersions(versions, parseSpecifierSet('>=2.0a1')!)).toEqual(['2.0a1', '2.0']);
+    });
+
+    it('should fall back to pre-releases when nothing else matches', () => {
+      expect(filterVersions(['1.0', '2.0b1'], parseSpecifierSet('>1.0')!)).toEqual(['2.0b1']);
+      expect(filterVersions(['1.0', '2.0b1'], parseSpecifierSet('>1.0')!, { prereleases: false })).toEqual([]);
+    });
+
+    it('should find the newest match', () => {
+      expect(findBestMatch(['1.9', '1.10', '2.0'], parseSpecifierSet('<2')!)).toBe('1.10');
+      expect(findBestMatch(['1.0'], parseSpecifierSet('>=2')!)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { createMarkerEnvironment, evaluateMarker, getMarkerExtras, parseMarker, parseRequirement } from '../../src/utils/pep508.js';
+
+describe('PEP 508', () => {
+  describe('parseRequirement', () => {
+    it('should parse name, extras, specifier and marker', () => {
+      expect(parseRequirement('requests[socks, security] >= 2.0, < 3 ; python_version >= "3.8"')).toEqual({
+        name: 'requests',
+        extras: ['socks', 'security'],
+        specifier: '>=2.0,<3',
+        url: undefined,
+        marker: { type: 'comparison', variable: 'python_version', operator: '>=', value: '3.8' },
+        requirement: 'requests[socks, security] >= 2.0, < 3 ; python_version >= "3.8"',
+      });
+    });
+
+    it('should accept bare names and legacy parenthesized specifiers', () => {
+      expect(parseRequirement('numpy')).toMatchObject({ name: 'numpy', extras: [], specifier: '' });
+      expect(parseRequirement('six (>=1.5)')).toMatchObject({ name: 'six', specifier: '>=1.5' });
+    });
+
+    it('should parse direct references', () => {
+      const requirement = parseRequirement('pip @ https://github.com/pypa/pip/archive/1.3.1.zip#sha1=da9234ee ; sys_platform == "win32"');
+
+      expect(requirement).toMatchObject({
+        name: 'pip',
+        specifier: '',
+        url: 'https://github.com/pypa/pip/archive/1.3.1.zip#sha1=da9234ee',
+        marker: { variable: 'sys_platform', value: 'win32' },
+      });
+    });
+
+    it('should reject malformed requirements', () => {
+      expect(parseRequirement('')).toBeNull();
+      expect(parseRequirement('requests[socks')).toBeNull();
+      expect(parseRequirement('requests; unknown_variable == "1"')).toBeNull();
+      expect(parseRequirement('requests; python_version >=')).toBeNull();
+    });
+  });
+
+  describe('parseMarker', () => {
+    it('should give "and" precedence over "or"', () => {
+      expect(parseMarker('os_name == "nt" or python_version < "3.8" and extra == "test"')).toEqual({
+        type: 'or',
+        markers: [
+          { type: 'comparison', variable: 'os_name', operator: '==', value: 'nt' },
+          {
+            type: 'and',
+            markers: [
+              { type: 'comparison', variable: 'python_version', operator: '<', value: '3.8' },
+              { type: 'comparison', variable: 'extra', operator: '==', value: 'test' },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should parse parentheses, "not in", reversed operands and legacy variable names', () => {
+      expect(parseMarker('("linux" in sys_platform) and platform.machine not in \'arm64 aarch64\'')).toEqual({
+        type: 'and',
+        markers: [
+          { type: 'comparison', variable: 'sys_platform', operator: 'in', value: 'linux', reversed: true },
+          { type: 'comparison', variable: 'platform_machine', operator: 'not in', value: 'arm64 aarch64' },
+        ],
+      });
+    });
+
+    it('should reject comparisons between two literals', () => {
+      expect(parseMarker('"a" == "b"')).toBeNull();
+    });
+  });
+
+  describe('evaluateMarker', () => {
+    const environment = { python_version: '3.10', sys_platform: 'linux', platform_machine: 'x86_64' };
+    const evaluate = (marker: string, extra?: string) =>
+      evaluateMarker(parseMarker(marker)!, { ...environment, extra });
+
+    it('should compare versions numerically', () => {
+      expect(evaluate('python_version >= "3.9"')).toBe(true);
+      expect(evaluate('python_version < "3.8"')).toBe(false);
+      expect(evaluate('python_version ~= "3.6"')).toBe(true);
+    });
+
+    it('should compare strings and containment', () => {
+      expect(evaluate('sys_platform == "win32" or "linux" in sys_platform')).toBe(true);
+      expect(evaluate('platform_machine not in "arm64 aarch64"')).toBe(true);
+    });
+
+    it('should match extras by normalized name', () => {
+      expect(evaluate('extra == "Dev_Tools"', 'dev-tools')).toBe(true);
+      expect(evaluate('extra == "test"')).toBe(false);
+    });
+  });
+
+  describe('getMarkerExtras', () => {
+    it('should list every extra a marker refers to', () => {
+      expect(getMarkerExtras(parseMarker('(extra == "test" or extra == "Dev") and python_version < "3.8"')!))
+        .toEqual(['test', 'dev']);
+      expect(getMarkerExtras(undefined)).toEqual([]);
+    });
+  });
+
+  describe('createMarkerEnvironment', () => {
+    it('should describe a CPython interpreter on the target platform', () => {
+      const environment = createMarkerEnvironment('3.11', 'win32');
+
+      expect(environment).toMatchObject({
+        python_version: '3.11',
+        python_full_version: '3.11.0',
+        sys_platform: 'win32',
+        platform_system: 'Windows',
+        os_name: 'nt',
+      });
+      expect(evaluateMarker(parseMarker('python_full_version >= "3.11.0" and os_name == "nt"')!, environment)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { parsePythonModule, stringValue, tokenizePython } from '../../src/utils/python-parser.js';
+
+describe('tokenizePython', () => {
+  it('should emit indentation and join bracketed lines', () => {
+    const tokens = tokenizePython('def f(a,\n      b):\n    return a\n\n# done\nx = 1\n');
+
+    expect(tokens.map(token => token.type === 'name' || token.type === 'op' || token.type === 'number' ? token.value : token.type)).toEqual([
+      'def', 'f', '(', 'a', ',', 'b', ')', ':', 'newline',
+      'indent', 'return', 'a', 'newline',
+      'dedent', 'x', '=', '1', 'newline',
+      'end',
+    ]);
+  });
+
+  it('should read prefixed and triple-quoted strings across lines', () => {
+    const tokens = tokenizePython('s = rb"\\\\d" + f\'\'\'a\n"b"\'\'\'\n');
+
+    expect(tokens.filter(token => token.type === 'string').map(token => token.value)).toEqual(['rb"\\\\d"', 'f\'\'\'a\n"b"\'\'\'']);
+  });
+});
+
+describe('parsePythonModule', () => {
+  it('should read functions with their signatures and docstrings', () => {
+    const module = parsePythonModule([
+      '"""HTTP for Humans.',
+      '',
+      'More text."""',
+      'import os',
+      '',
+      'def get(url: str, params=None, **kwargs) -> "Response":',
+      '    """Sends a GET request.',
+      '',
+      '    :param url: URL',
+      '    """',
+      '    return request("get", url, params=params, **kwargs)',
+      '',
+      'async def fetch(',
+      '    url,  # the URL',
+      '    *,',
+      '    timeout: float = 10.0,',
+      ') -> bytes: ...',
+      '',
+      'def _private(): pass',
+    ].join('\n'));
+
+    expect(module.docstring).toBe('HTTP for Humans.');
+    expect(module.functions).toEqual([
+      { name: 'get', signature: '(url: str, params=None, **kwargs) -> "Response"', async: undefined, decorators: undefined, docstring: 'Sends a GET request.' },
+      { name: 'fetch', signature: '(url, *, timeout: float = 10.0) -> bytes', async: true, decorators: undefined, docstring: undefined },
+      { name: '_private', signature: '()', async: undefined, decorators: undefined, docstring: undefined },
+    ]);
+  });
+
+  it('should read classes with bases, decorators and methods', () => {
+    const module = parsePythonModule([
+      '@dataclass(frozen=True)',
+      'class Session(BaseSession, metaclass=ABCMeta):',
+      '    """A session."""',
+      '    timeout: int = 10',
+      '',
+      '    def __init__(self, timeout=10):',
+      '        def inner(): pass',
+      '        self.timeout = timeout',
+      '',
+      '    @property',
+      '    def closed(self) -> bool:',
+      '        return False',
+      '',
+      '    @closed.setter',
+      '    def closed(self, value): ...',
+      '',
+      '    class Nested:',
+      '        def hidden(self): ...',
+      '',
+      'class Empty: pass',
+    ].join('\n'));
+
+    expect(module.classes).toHaveLength(2);
+    const [session, empty] = module.classes;
+    expect(session).toMatchObject({ name: 'Session', bases: ['BaseSession'], decorators: ['dataclass(frozen=True)'], docstring: 'A session.' });
+    expect(session.methods.map(method => [method.name, method.signature, method.decorators])).toEqual([
+      ['__init__', '(self, timeout=10)', undefined],
+      ['closed', '(self) -> bool', ['property']],
+    ]);
+    expect(empty).toMatchObject({ name: 'Empty', bases: [], methods: [] });
+  });
+
+  it('should collect overloads and read the implementation', () => {
+    const module = parsePythonModule([
+      '@overload',
+      'def load(data: str) -> dict: ...',
+      '@typing.overload',
+      'def load(data: bytes) -> dict: ...',
+      'def load(data):',
+      '    """Loads data."""',
+    ].join('\n'));
+
+    expect(module.functions).toEqual([{
+      name: 'load',
+      signature: '(data)',
+      async: undefined,
+      decorators: undefined,
+      docstring: 'Loads data.',
+      overloads: ['(data: str) -> dict', '(data: bytes) -> dict'],
+    }]);
+  });
+
+  it('should read definitions inside conditional blocks', () => {
+    const module = parsePythonModule([
+      'try:',
+      '    from ._speedups import encode',
+      'except ImportError:',
+      '    def encode(value):',
+      '        return value',
+      'if sys.version_info >= (3, 11):',
+      '    class Flag(StrEnum): ...',
+      'else:',
+      '    class Flag(str, Enum): ...',
+    ].join('\n'));
+
+    expect(module.functions.map(fn => fn.name)).toEqual(['encode']);
+    expect(module.classes.map(cls => cls.bases)).toEqual([['StrEnum']]);
+    expect(module.imports).toEqual([{ module: '._speedups', name: 'encode', alias: 'encode' }]);
+  });
+
+  it('should read __all__, variables and imports', () => {
+    const module = parsePythonModule([
+      'from .api import get, post as send',
+      'from .models import (',
+      '    Request,',
+      '    Response,',
+      ')',
+      'from . import *',
+      '__version__: str = "2.32.3"',
+      'DEFAULT_TIMEOUT = 10',
+      '__all__ = ["get", "send", "Request"]',
+      '__all__ += ("DEFAULT_TIMEOUT",)',
+      "__all__.append('Response')",
+    ].join('\n'));
+
+    expect(module.all).toEqual(['get', 'send', 'Request', 'DEFAULT_TIMEOUT', 'Response']);
+    expect(module.variables).toEqual(['__version__', 'DEFAULT_TIMEOUT']);
+    expect(module.imports).toEqual([
+      { module: '.api', name: 'get', alias: 'get' },
+      { module: '.api', name: 'post', alias: 'send' },
+      { module: '.models', name: 'Request', alias: 'Request' },
+      { module: '.models', name: 'Response', alias: 'Response' },
+      { module: '.', name: '*', alias: '*' },
+    ]);
+  });
+
+  it('should ignore __all__ computed at runtime', () => {
+    const module = parsePythonModule('__all__ = ["a"]\n__all__ += submodule.__all__\n');
+
+    expect(module.all).toBeNull();
+  });
+
+  it('should survive inconsistent indentation', () => {
+    const module = parsePythonModule('if x:\n        a = 1\n    b = 2\ndef after(): pass\n');
+
+    expect(module.functions.map(fn => fn.name)).toEqual(['after']);
+  });
+});
+
+describe('stringValue', () => {
+  it('should strip prefixes and quotes', () => {
+    expect(stringValue('"abc"')).toBe('abc');
+    expect(stringValue("rb'abc'")).toBe('abc');
+    expect(stringValue('"""a\nb"""')).toBe('a\nb');
+  });
+});
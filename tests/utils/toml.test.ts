@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { parseToml } from '../../src/utils/toml.js';
+
+describe('TOML', () => {
+  it('should parse tables, dotted keys and arrays of tables', () => {
+    const document = parseToml([
+      '# Project metadata',
+      '[project]',
+      'name = "example"  # trailing comment',
+      'dependencies = [',
+      '  "requests>=2",  # inline comment',
+      "  'click',",
+      ']',
+      '',
+      '[tool.poetry.dependencies]',
+      'python = "^3.9"',
+      'rich = { version = "^13", extras = ["jupyter"] }',
+      '"zope.interface".version = "6.0"',
+      '',
+      '[[package]]',
+      'name = "a"',
+      '',
+      '[[package]]',
+      'name = "b"',
+      '[package.dependencies]',
+      'six = "*"',
+    ].join('\n'));
+
+    expect(document).toEqual({
+      project: { name: 'example', dependencies: ['requests>=2', 'click'] },
+      tool: {
+        poetry: {
+          dependencies: {
+            python: '^3.9',
+            rich: { version: '^13', extras: ['jupyter'] },
+            'zope.interface': { version: '6.0' },
+          },
+        },
+      },
+      package: [{ name: 'a' }, { name: 'b', dependencies: { six: '*' } }],
+    });
+  });
+
+  it('should parse strings, numbers, booleans and dates', () => {
+    const document = parseToml([
+      'basic = "tab\\tquote\\" \\u00e9"',
+      "literal = 'C:\\path'",
+      'multi = """',
+      'first \\',
+      '   second"""',
+      "raw = '''",
+      "keep \\n as is'''",
+      'int = 1_000',
+      'hex = 0xff',
+      'float = -3.5e2',
+      'flag = false',
+      'date = 1979-05-27 07:32:00Z',
+    ].join('\r\n'));
+
+    expect(document).toEqual({
+      basic: 'tab\tquote" é',
+      literal: 'C:\\path',
+      multi: 'first second',
+      raw: 'keep \\n as is',
+      int: 1000,
+      hex: 255,
+      float: -350,
+      flag: false,
+      date: '1979-05-27 07:32:00Z',
+    });
+  });
+
+  it('should reject invalid documents with the line number', () => {
+    expect(() => parseToml('a = 1\nb = ')).toThrow(/line 2/);
+    expect(() => parseToml('a = 1\na = 2')).toThrow(/defined more than once/);
+    expect(() => parseToml('[a]\nx = 1\n[a]')).toThrow(/defined more than once/);
+    expect(() => parseToml('a = "unterminated')).toThrow(/Unterminated/);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { isPureWheel, parsePlatformTag, supportsPython } from '../../src/utils/wheel-tags.js';
+
+const tags = (python: string, abi: string, platform: string) => ({
+  python_tags: python.split('.'),
+  abi_tags: abi.split('.'),
+  platform_tags: platform.split('.'),
+});
+
+describe('wheel tags', () => {
+  describe('parsePlatformTag', () => {
+    it('should read manylinux and musllinux tags', () => {
+      expect(parsePlatformTag('manylinux_2_28_aarch64')).toMatchObject({
+        platform: 'linux', architectures: ['aarch64'], libc: 'glibc', min_os_version: '2.28',
+      });
+      expect(parsePlatformTag('manylinux2014_x86_64')).toMatchObject({ libc: 'glibc', min_os_version: '2.17' });
+      expect(parsePlatformTag('manylinux1_i686')).toMatchObject({ architectures: ['i686'], min_os_version: '2.5' });
+      expect(parsePlatformTag('musllinux_1_2_x86_64')).toMatchObject({ libc: 'musl', min_os_version: '1.2' });
+    });
+
+    it('should read macOS and Windows tags', () => {
+      expect(parsePlatformTag('macosx_11_0_arm64')).toMatchObject({ platform: 'darwin', architectures: ['aarch64'], min_os_version: '11.0' });
+      expect(parsePlatformTag('macosx_10_9_universal2')).toMatchObject({ architectures: ['x86_64', 'aarch64'] });
+      expect(parsePlatformTag('win_amd64')).toMatchObject({ platform: 'win32', architectures: ['x86_64'] });
+      expect(parsePlatformTag('win32')).toMatchObject({ platform: 'win32', architectures: ['i686'] });
+    });
+
+    it('should recognize any and unknown platforms', () => {
+      expect(parsePlatformTag('any')).toMatchObject({ platform: 'any', architectures: [] });
+      expect(parsePlatformTag('emscripten_3_1_14_wasm32').platform).toBe('other');
+    });
+  });
+
+  describe('supportsPython', () => {
+    it('should match binary wheels on their exact CPython version', () => {
+      expect(supportsPython(tags('cp312', 'cp312', 'manylinux_2_17_x86_64'), '3.12')).toBe(true);
+      expect(supportsPython(tags('cp312', 'cp312', 'manylinux_2_17_x86_64'), '3.13')).toBe(false);
+      expect(supportsPython(tags('cp313', 'cp313t', 'manylinux_2_17_x86_64'), '3.13')).toBe(false);
+    });
+
+    it('should match stable ABI wheels on newer versions', () => {
+      expect(supportsPython(tags('cp38', 'abi3', 'win_amd64'), '3.12')).toBe(true);
+      expect(supportsPython(tags('cp38', 'abi3', 'win_amd64'), '3.7')).toBe(false);
+    });
+
+    it('should match pure wheels subject to Requires-Python', () => {
+      expect(supportsPython(tags('py3', 'none', 'any'), '3.12')).toBe(true);
+      expect(supportsPython(tags('py2.py3', 'none', 'any'), '3.9')).toBe(true);
+      expect(supportsPython(tags('py3', 'none', 'any'), '3.8', '>=3.9')).toBe(false);
+      expect(isPureWheel(tags('py3', 'none', 'any'))).toBe(true);
+      expect(isPureWheel(tags('cp38', 'abi3', 'win_amd64'))).toBe(false);
+    });
+  });
+});
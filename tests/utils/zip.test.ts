@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import {
+  extractEntry,
+  findCentralDirectory,
+  localDataOffset,
+  parseCentralDirectory,
+} from '../../src/utils/zip.js';
+
+// Writes a minimal ZIP archive, deflating every entry except those named in `stored`
+function createZip(files: Record<string, string>, stored: string[] = []): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const method = stored.includes(name) ? 0 : 8;
+    const data = method === 0 ? Buffer.from(content) : deflateRawSync(Buffer.from(content));
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('zip', () => {
+  const archive = createZip({
+    'pkg/__init__.py': 'print("hello")\n',
+    'pkg-1.0.dist-info/entry_points.txt': '[console_scripts]\npkg = pkg:main\n',
+    'pkg-1.0.dist-info/RECORD': 'pkg/__init__.py,,\n',
+  }, ['pkg-1.0.dist-info/RECORD']);
+
+  it('should list entries from the central directory', () => {
+    const directory = findCentralDirectory(archive.subarray(archive.length - 100))!;
+    const entries = parseCentralDirectory(archive.subarray(directory.offset, directory.offset + directory.size));
+
+    expect(entries.map(entry => entry.name)).toEqual([
+      'pkg/__init__.py',
+      'pkg-1.0.dist-info/entry_points.txt',
+      'pkg-1.0.dist-info/RECORD',
+    ]);
+  });
+
+  it('should extract deflated and stored entries', () => {
+    const directory = findCentralDirectory(archive)!;
+    const entries = parseCentralDirectory(archive.subarray(directory.offset, directory.offset + directory.size));
+    const read = (name: string) => {
+      const entry = entries.find(candidate => candidate.name === name)!;
+      const start = entry.localHeaderOffset + localDataOffset(archive.subarray(entry.localHeaderOffset));
+      return extractEntry(entry, archive.subarray(start)).toString('utf8');
+    };
+
+    expect(read('pkg-1.0.dist-info/entry_points.txt')).toBe('[console_scripts]\npkg = pkg:main\n');
+    expect(read('pkg-1.0.dist-info/RECORD')).toBe('pkg/__init__.py,,\n');
+  });
+
+  it('should return null without an end of central directory record', () => {
+    expect(findCentralDirectory(Buffer.from('not a zip archive at all'))).toBeNull();
+  });
+});
@@ -1,4 +1,5 @@
 import { validatePackageName } from '../src/utils/validators.js';
+import { validateVersion } from '../src/utils/validators-simple.js';
 import { PackageReadmeMcpError } from '../src/types/index.js';
 
 describe('PyPI Package Validation Tests', () => {
@@ -268,4 +269,22 @@ describe('PyPI Package Validation Tests', () => {
       expect(() => validatePackageName(exactly215)).toThrow();
     });
   });
-});
\ No newline at end of file
+
+  describe('validateVersion', () => {
+    test('PEP 440 versions and specifier sets should pass', () => {
+      const validVersions = ['2.28.1', '1.0a1', '1!2.0.post1.dev3+local', 'v1.0', '~=2.28', '>=1.2,<2', '==1.4.*', '===1.0-legacy'];
+
+      validVersions.forEach(version => {
+        expect(() => validateVersion(version)).not.toThrow();
+      });
+    });
+
+    test('invalid versions and specifiers should fail', () => {
+      const invalidVersions = ['', 'latest-ish', '1..0', '~=2', '>=1.*', '>=1.2,'];
+
+      invalidVersions.forEach(version => {
+        expect(() => validateVersion(version)).toThrow();
+      });
+    });
+  });
+});
@@ -8,6 +8,10 @@ export default defineConfig({
     exclude: ['node_modules', 'dist'],
     // Add setupFiles for globals
     setupFiles: [],
+    // Keep the shared cache from persisting entries between test runs
+    env: {
+      CACHE_DISK_ENABLED: 'false',
+    },
   },
   // Define globals for TypeScript
   define: {